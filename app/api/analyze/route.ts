@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { getAnalyzer, listAnalyzers } from "@/lib/analyzers"
+import { ModelNotInstalledError, UndecodableImageError, UnusableImageError } from "@/lib/analyzers/errors"
+import { MAX_IMAGE_BYTES } from "@/lib/api"
+import { CROP_TYPES, IMAGE_ANALYSIS_TYPES, type AnalysisResult } from "@/lib/types"
+
+export const runtime = "nodejs"
+
+const analyzeSchema = z.object({
+  image: z
+    .instanceof(File, { message: "An image file is required" })
+    .refine((f) => f.type.startsWith("image/"), "File must be an image")
+    .refine((f) => f.size > 0, "Image is empty")
+    .refine((f) => f.size <= MAX_IMAGE_BYTES, "Image must be 10MB or smaller"),
+  analysisType: z.enum(IMAGE_ANALYSIS_TYPES),
+  cropType: z.enum(CROP_TYPES).default("tomato"),
+  analyzer: z.string().optional(),
+})
+
+export async function POST(req: Request) {
+  let form: FormData
+  try {
+    form = await req.formData()
+  } catch {
+    return NextResponse.json({ error: "Expected multipart/form-data" }, { status: 400 })
+  }
+
+  const parsed = analyzeSchema.safeParse({
+    image: form.get("image"),
+    analysisType: form.get("analysisType"),
+    cropType: form.get("cropType") ?? undefined,
+    analyzer: form.get("analyzer") ?? undefined,
+  })
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0]
+    return NextResponse.json(
+      { error: `${issue.path.join(".")}: ${issue.message}`, issues: parsed.error.issues },
+      { status: 400 },
+    )
+  }
+
+  const { image, analysisType, cropType } = parsed.data
+  const analyzer = getAnalyzer(parsed.data.analyzer)
+  if (!analyzer) {
+    return NextResponse.json(
+      { error: `Unknown analyzer. Available: ${listAnalyzers().join(", ")}` },
+      { status: 400 },
+    )
+  }
+
+  try {
+    const result = await analyzer.analyze(image, { kind: analysisType, crop: cropType })
+    return NextResponse.json({ ...result, analyzer: analyzer.id } satisfies AnalysisResult)
+  } catch (err) {
+    // Bytes that claim to be an image but no decoder here can read, such as a corrupt file.
+    if (err instanceof UndecodableImageError) {
+      return NextResponse.json({ error: err.message, reason: err.reason }, { status: 415 })
+    }
+    // Nothing to measure in the photo: the request was fine, the picture needs retaking.
+    if (err instanceof UnusableImageError) {
+      return NextResponse.json({ error: err.message, reason: err.reason }, { status: 422 })
+    }
+    // The chosen backend has nothing to run; an operator has to install a model.
+    if (err instanceof ModelNotInstalledError) {
+      return NextResponse.json({ error: err.message }, { status: 503 })
+    }
+    console.error(`[api/analyze] ${analyzer.id} failed`, err)
+    return NextResponse.json({ error: "Analysis failed" }, { status: 500 })
+  }
+}
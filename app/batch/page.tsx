@@ -0,0 +1,315 @@
+"use client"
+
+import type React from "react"
+
+import { useMemo, useState } from "react"
+import Link from "next/link"
+import { ArrowLeft, Gauge, Layers, Play, RotateCcw, Square, Upload } from "lucide-react"
+import { useI18n } from "@/components/i18n-provider"
+import { PlotPicker } from "@/components/plot-picker"
+import { StatusBadge } from "@/components/status-badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { SyncStatus } from "@/components/sync-status"
+import { useBatchQueue, type BatchFailure, type BatchItem } from "@/hooks/use-batch-queue"
+import { useOfflineQueue } from "@/hooks/use-offline-queue"
+import { CROP_TYPES } from "@/lib/crops"
+import { effectiveDetails } from "@/lib/land"
+import { STAGE_PROGRESS } from "@/lib/scan-pipeline"
+import { KEY_METRICS, summarizeResults } from "@/lib/summary"
+import type { AnalysisResult, CropType, ImageAnalysisType } from "@/lib/types"
+import { cn } from "@/lib/utils"
+
+export default function BatchPage() {
+  const [analysisType, setAnalysisType] = useState<ImageAnalysisType>("soil")
+  const [cropType, setCropType] = useState<CropType>("tomato")
+  const [plotName, setPlotName] = useState("")
+  const [plotId, setPlotId] = useState<string | undefined>()
+  const [isDragging, setIsDragging] = useState(false)
+
+  const offlineQueue = useOfflineQueue()
+  const queue = useBatchQueue(
+    { kind: analysisType, crop: cropType, plot: plotName.trim() || undefined, plotId },
+    offlineQueue.enqueue,
+  )
+  const { items, running } = queue
+
+  const results = useMemo(
+    () => items.map((it) => it.result).filter((r): r is AnalysisResult => !!r),
+    [items],
+  )
+  const summary = useMemo(() => summarizeResults(results), [results])
+  const finished = items.filter((it) => it.state !== "queued" && it.state !== "analyzing").length
+  const pending = items.filter((it) => it.state === "queued").length
+  const failed = items.filter((it) => it.state === "failed").length
+  const metricKeys = KEY_METRICS[analysisType]
+  const { t, value, crop, metric, status } = useI18n()
+
+  function onDrop(e: React.DragEvent<HTMLLabelElement>) {
+    e.preventDefault()
+    setIsDragging(false)
+    queue.add(Array.from(e.dataTransfer.files ?? []))
+  }
+
+  function onBrowseChange(e: React.ChangeEvent<HTMLInputElement>) {
+    queue.add(Array.from(e.target.files ?? []))
+    e.currentTarget.value = ""
+  }
+
+  return (
+    <main className="min-h-[100dvh] bg-white">
+      <div className="mx-auto w-full max-w-6xl px-4 py-8 md:py-10">
+        <header className="mb-6 md:mb-8">
+          <div className="flex items-center gap-2">
+            <div className="inline-flex h-9 w-9 items-center justify-center rounded-lg bg-emerald-100">
+              <Layers className="h-5 w-5 text-emerald-700" />
+            </div>
+            <h1 className="text-xl font-semibold tracking-tight md:text-2xl">{t("batch.title")}</h1>
+            <SyncStatus
+              state={offlineQueue.state}
+              count={offlineQueue.queued.length}
+              onSync={() => void offlineQueue.sync()}
+            />
+            <Button asChild variant="ghost" size="sm" className="ml-auto">
+              <Link href="/calibrate">
+                <Gauge className="h-4 w-4" /> {t("nav.calibrate")}
+              </Link>
+            </Button>
+            <Button asChild variant="ghost" size="sm">
+              <Link href="/">
+                <ArrowLeft className="h-4 w-4" /> {t("nav.newScan")}
+              </Link>
+            </Button>
+          </div>
+          <p className="mt-2 text-sm text-muted-foreground">{t("batch.description")}</p>
+        </header>
+
+        <div className="grid gap-6 md:grid-cols-5">
+          <Card className="md:col-span-2">
+            <CardHeader className="space-y-1">
+              <CardTitle>{t("setup.title")}</CardTitle>
+              <CardDescription>{t("batch.setupHint")}</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-5">
+              <div className="grid gap-2">
+                <Label htmlFor="analysis-type">{t("setup.analysisType")}</Label>
+                <Select
+                  value={analysisType}
+                  onValueChange={(v) => setAnalysisType(v as ImageAnalysisType)}
+                  disabled={running}
+                >
+                  <SelectTrigger id="analysis-type" className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="soil">{t("analysis.soil")}</SelectItem>
+                    <SelectItem value="crop">{t("analysis.crop")}</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="crop-type">{t(analysisType === "soil" ? "setup.targetCrop" : "setup.crop")}</Label>
+                <Select value={cropType} onValueChange={(v) => setCropType(v as CropType)} disabled={running}>
+                  <SelectTrigger id="crop-type" className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CROP_TYPES.map((id) => (
+                      <SelectItem key={id} value={id}>
+                        {crop(id)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <PlotPicker
+                value={plotId}
+                onChange={(plot, land) => {
+                  setPlotId(plot?.id)
+                  // The label was the plot's name, so it goes with it
+                  setPlotName(plot?.name ?? "")
+                  if (!plot) return
+                  const { crop } = effectiveDetails(plot, land)
+                  if (crop) setCropType(crop)
+                }}
+              />
+              <div className="grid gap-2">
+                <Label htmlFor="plot-name">{t("setup.plot")}</Label>
+                <Input
+                  id="plot-name"
+                  value={plotName}
+                  disabled={!!plotId}
+                  onChange={(e) => setPlotName(e.target.value)}
+                />
+              </div>
+
+              <label
+                onDragOver={(e) => {
+                  e.preventDefault()
+                  setIsDragging(true)
+                }}
+                onDragLeave={(e) => {
+                  e.preventDefault()
+                  setIsDragging(false)
+                }}
+                onDrop={onDrop}
+                className={cn(
+                  "relative flex min-h-[120px] cursor-pointer flex-col items-center justify-center gap-3 rounded-lg border border-dashed p-4 text-center transition-colors",
+                  isDragging ? "border-emerald-400 bg-emerald-50/40" : "border-muted-foreground/25 hover:bg-muted/40",
+                )}
+              >
+                <input
+                  type="file"
+                  accept="image/*"
+                  multiple
+                  onChange={onBrowseChange}
+                  aria-label={t("batch.addAria")}
+                  className="sr-only"
+                />
+                <Upload className="h-5 w-5 text-emerald-700" aria-hidden />
+                <p className="text-sm font-medium">{t("batch.drop")}</p>
+              </label>
+
+              <div className="flex items-center gap-2">
+                {running ? (
+                  <Button variant="outline" onClick={queue.stop}>
+                    <Square className="h-4 w-4" /> {t("batch.stop")}
+                  </Button>
+                ) : (
+                  <Button onClick={queue.start} disabled={pending === 0}>
+                    <Play className="h-4 w-4" /> {t("batch.analyze")} {pending > 0 && `(${pending})`}
+                  </Button>
+                )}
+                {failed > 0 && !running && (
+                  <Button variant="outline" onClick={queue.retry}>
+                    <RotateCcw className="h-4 w-4" /> {t("batch.retry", { count: failed })}
+                  </Button>
+                )}
+                <Button variant="ghost" onClick={queue.clear} disabled={items.length === 0}>
+                  {t("batch.clear")}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card className="md:col-span-3">
+            <CardHeader className="space-y-1">
+              <CardTitle>{t("batch.results")}</CardTitle>
+              <CardDescription>
+                {items.length === 0 ? t("batch.empty") : t("batch.processed", { finished, count: items.length })}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-5">
+              {items.length > 0 && (
+                <div className="h-2 w-full overflow-hidden rounded-full bg-muted">
+                  <div
+                    className="h-full rounded-full bg-emerald-500 transition-all"
+                    style={{ width: `${(finished / items.length) * 100}%` }}
+                  />
+                </div>
+              )}
+
+              {results.length > 0 && (
+                <div className="grid grid-cols-2 gap-2 text-sm sm:grid-cols-4">
+                  <SummaryTile label={status("Good")} value={`${Math.round(summary.statusShare.Good * 100)}%`} />
+                  <SummaryTile label={status("Poor")} value={`${Math.round(summary.statusShare.Poor * 100)}%`} />
+                  <SummaryTile label={t("batch.meanConfidence")} value={`${Math.round(summary.meanConfidence)}%`} />
+                  {metricKeys
+                    .filter((k) => summary.means[k] !== undefined)
+                    .map((k) => (
+                      <SummaryTile
+                        key={k}
+                        label={t("batch.mean", { metric: metric(k) })}
+                        value={value(summary.means[k])}
+                      />
+                    ))}
+                </div>
+              )}
+
+              {items.length > 0 && (
+                <div className="overflow-x-auto rounded-lg border">
+                  <table className="w-full text-sm">
+                    <thead className="bg-muted/60 text-left text-xs text-muted-foreground">
+                      <tr>
+                        <th className="px-3 py-2 font-medium">{t("batch.image")}</th>
+                        <th className="px-3 py-2 font-medium">{t("history.status")}</th>
+                        <th className="px-3 py-2 font-medium">{t("batch.confidence")}</th>
+                        {metricKeys.map((k) => (
+                          <th key={k} className="px-3 py-2 font-medium">
+                            {metric(k)}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {items.map((item) => (
+                        <BatchRow key={item.id} item={item} metricKeys={metricKeys} />
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </main>
+  )
+}
+
+function BatchRow({ item, metricKeys }: { item: BatchItem; metricKeys: string[] }) {
+  const { t, text, value } = useI18n()
+  const { result, failure } = item
+  const describe = (f: BatchFailure) =>
+    "issues" in f
+      ? f.issues.map((i) => text(i.messageText, i.message)).join(" ")
+      : "reason" in f
+        ? t(`unusable.${f.reason}`)
+        : (f.message ?? t("scan.failed"))
+  return (
+    <tr className="border-t">
+      <td className="max-w-[180px] truncate px-3 py-2" title={item.file.name}>
+        {item.file.name}
+      </td>
+      <td className="px-3 py-2">
+        {result ? (
+          <StatusBadge status={result.status} />
+        ) : item.state === "failed" ? (
+          <span className="text-xs text-red-700" title={failure && describe(failure)}>
+            {t("batch.failed")}
+          </span>
+        ) : item.state === "offline" ? (
+          <span className="text-xs text-amber-700">{t("batch.savedOffline")}</span>
+        ) : (
+          <div className="h-1.5 w-16 overflow-hidden rounded-full bg-muted">
+            <div
+              className="h-full rounded-full bg-emerald-500 transition-all"
+              style={{ width: `${item.stage ? STAGE_PROGRESS[item.stage] : 0}%` }}
+            />
+          </div>
+        )}
+      </td>
+      <td className="px-3 py-2 tabular-nums">{result ? `${result.confidence}%` : ""}</td>
+      {metricKeys.map((k) => {
+        const v = result?.metrics[k]
+        return (
+          <td key={k} className="px-3 py-2 tabular-nums">
+            {v === undefined ? "" : value(v)}
+          </td>
+        )
+      })}
+    </tr>
+  )
+}
+
+function SummaryTile({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="flex flex-col gap-0.5 rounded-md bg-muted/60 px-3 py-2">
+      <span className="text-xs text-muted-foreground">{label}</span>
+      <span className="font-medium tabular-nums">{value}</span>
+    </div>
+  )
+}
@@ -0,0 +1,318 @@
+"use client"
+
+import type React from "react"
+
+import { useRef, useState } from "react"
+import Link from "next/link"
+import { ArrowLeft, Download, Gauge, Play, Square } from "lucide-react"
+import { Bar, BarChart, CartesianGrid, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts"
+import { useI18n } from "@/components/i18n-provider"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { UnusableImageError, type UnusableReason } from "@/lib/analyzers/errors"
+import { requestAnalysis } from "@/lib/api"
+import {
+  calibrationReport,
+  parseLabels,
+  type CalibrationReport,
+  type CalibrationSample,
+  type LabeledImage,
+} from "@/lib/calibration"
+import { applyQualityPenalty } from "@/lib/confidence"
+import { downloadText } from "@/lib/export"
+import { localized } from "@/lib/i18n"
+import { checkImageQuality } from "@/lib/quality"
+import type { LocalizedText, Status } from "@/lib/types"
+
+type Dataset = { rows: LabeledImage[]; files: Map<string, File>; errors: LocalizedText[] }
+
+// An image the analyzer turned down; `message` is the server's own text for anything but a photo problem
+type Failure = { file: string; reason?: UnusableReason; message: string }
+
+const STATUSES: Status[] = ["Good", "Marginal", "Poor"]
+
+function pct(v: number): string {
+  return `${Math.round(v * 100)}%`
+}
+
+export default function CalibratePage() {
+  const { t, text } = useI18n()
+  const [dataset, setDataset] = useState<Dataset | null>(null)
+  const [analyzer, setAnalyzer] = useState("")
+  const [done, setDone] = useState(0)
+  const [running, setRunning] = useState(false)
+  const [failures, setFailures] = useState<Failure[]>([])
+  const [report, setReport] = useState<CalibrationReport | null>(null)
+  const abortRef = useRef<AbortController | null>(null)
+
+  async function onPick(e: React.ChangeEvent<HTMLInputElement>) {
+    const picked = Array.from(e.target.files ?? [])
+    e.currentTarget.value = ""
+    const labels = picked.find((f) => f.name.toLowerCase() === "labels.csv")
+    if (!labels) {
+      setDataset({ rows: [], files: new Map(), errors: [localized("calibrate.noLabels")] })
+      return
+    }
+    const { rows, errors } = parseLabels(await labels.text())
+    const files = new Map(picked.map((f) => [f.name, f]))
+    const missing = rows
+      .filter((r) => !files.has(r.file))
+      .map((r) => localized("calibrate.notSelected", { file: r.file }))
+    setDataset({ rows: rows.filter((r) => files.has(r.file)), files, errors: [...errors, ...missing] })
+    setReport(null)
+    setFailures([])
+    setDone(0)
+  }
+
+  // Runs every labeled image through the same path as a normal scan, quality penalties
+  // included, so the report describes the confidence users actually see.
+  async function run() {
+    if (!dataset) return
+    const controller = new AbortController()
+    abortRef.current = controller
+    setRunning(true)
+    setDone(0)
+    setFailures([])
+    setReport(null)
+
+    const samples: CalibrationSample[] = []
+    const failed: Failure[] = []
+    for (const row of dataset.rows) {
+      if (controller.signal.aborted) break
+      const image = dataset.files.get(row.file)!
+      try {
+        const options = { kind: row.analysisType, crop: row.cropType, analyzer: analyzer.trim() || undefined }
+        const [result, quality] = await Promise.all([
+          requestAnalysis(image, options, controller.signal),
+          checkImageQuality(image, row.analysisType).catch(() => null),
+        ])
+        const { status, confidence } = applyQualityPenalty(result, quality?.issues ?? [])
+        samples.push({ confidence, predicted: status, expected: row.expected })
+      } catch (err) {
+        if (controller.signal.aborted) break
+        failed.push({
+          file: row.file,
+          reason: err instanceof UnusableImageError ? err.reason : undefined,
+          message: err instanceof Error ? err.message : t("scan.failed"),
+        })
+      }
+      setDone((d) => d + 1)
+    }
+
+    setFailures(failed)
+    setReport(samples.length > 0 ? calibrationReport(samples) : null)
+    if (abortRef.current === controller) abortRef.current = null
+    setRunning(false)
+  }
+
+  function stop() {
+    abortRef.current?.abort()
+    abortRef.current = null
+  }
+
+  return (
+    <main className="min-h-[100dvh] bg-white">
+      <div className="mx-auto w-full max-w-6xl px-4 py-8 md:py-10">
+        <header className="mb-6 md:mb-8">
+          <div className="flex items-center gap-2">
+            <div className="inline-flex h-9 w-9 items-center justify-center rounded-lg bg-emerald-100">
+              <Gauge className="h-5 w-5 text-emerald-700" />
+            </div>
+            <h1 className="text-xl font-semibold tracking-tight md:text-2xl">{t("calibrate.title")}</h1>
+            <Button asChild variant="ghost" size="sm" className="ml-auto">
+              <Link href="/batch">
+                <ArrowLeft className="h-4 w-4" /> {t("nav.batch")}
+              </Link>
+            </Button>
+          </div>
+          <p className="mt-2 text-sm text-muted-foreground">{t("calibrate.description")}</p>
+        </header>
+
+        <div className="grid gap-6 md:grid-cols-5">
+          <Card className="md:col-span-2">
+            <CardHeader className="space-y-1">
+              <CardTitle>{t("calibrate.dataset")}</CardTitle>
+              <CardDescription>{t("calibrate.datasetHint")}</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-5">
+              <div className="grid gap-2">
+                <Label htmlFor="dataset">{t("calibrate.files")}</Label>
+                <Input id="dataset" type="file" multiple accept="image/*,.csv" onChange={onPick} disabled={running} />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="analyzer">{t("calibrate.analyzer")}</Label>
+                <Input
+                  id="analyzer"
+                  placeholder={t("calibrate.serverDefault")}
+                  value={analyzer}
+                  onChange={(e) => setAnalyzer(e.target.value)}
+                  disabled={running}
+                />
+              </div>
+              {dataset && (
+                <div className="grid gap-1 text-sm">
+                  <span>{t("calibrate.ready", { count: dataset.rows.length })}</span>
+                  {dataset.errors.slice(0, 5).map((err, i) => (
+                    <span key={i} className="text-red-700">
+                      {text(err, err.key)}
+                    </span>
+                  ))}
+                  {dataset.errors.length > 5 && (
+                    <span className="text-muted-foreground">
+                      {t("calibrate.moreProblems", { count: dataset.errors.length - 5 })}
+                    </span>
+                  )}
+                </div>
+              )}
+              <div className="flex items-center gap-2">
+                {running ? (
+                  <Button variant="outline" onClick={stop}>
+                    <Square className="h-4 w-4" /> {t("calibrate.stop")}
+                  </Button>
+                ) : (
+                  <Button onClick={run} disabled={!dataset?.rows.length}>
+                    <Play className="h-4 w-4" /> {t("calibrate.run")}
+                  </Button>
+                )}
+                {(running || done > 0) && (
+                  <span className="text-sm tabular-nums text-muted-foreground">
+                    {done} / {dataset?.rows.length ?? 0}
+                  </span>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card className="md:col-span-3">
+            <CardHeader className="flex flex-row items-start justify-between gap-3 space-y-0">
+              <div className="space-y-1">
+                <CardTitle>{t("calibrate.reliability")}</CardTitle>
+                <CardDescription>{t("calibrate.reliabilityHint")}</CardDescription>
+              </div>
+              {report && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => downloadText(JSON.stringify(report, null, 2), "calibration.json", "application/json")}
+                >
+                  <Download className="h-4 w-4" /> JSON
+                </Button>
+              )}
+            </CardHeader>
+            <CardContent className="space-y-5">
+              {!report ? (
+                <p className="text-sm text-muted-foreground">
+                  {running ? t("scan.stage.analyzing") : t("calibrate.empty")}
+                </p>
+              ) : (
+                <>
+                  <div className="grid grid-cols-2 gap-2 text-sm sm:grid-cols-4">
+                    <Stat label={t("calibrate.accuracy")} value={pct(report.accuracy)} />
+                    <Stat label={t("calibrate.meanConfidence")} value={pct(report.meanConfidence)} />
+                    <Stat label={t("calibrate.ece")} value={pct(report.ece)} />
+                    <Stat label={t("calibrate.brier")} value={report.brier.toFixed(3)} />
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {t(
+                      report.meanConfidence - report.accuracy > 0.05
+                        ? "calibrate.over"
+                        : report.accuracy - report.meanConfidence > 0.05
+                          ? "calibrate.under"
+                          : "calibrate.calibrated",
+                      { claimed: pct(report.meanConfidence), right: pct(report.accuracy) },
+                    )}{" "}
+                    {t("calibrate.basedOn", { count: report.count })}
+                  </p>
+                  <ResponsiveContainer width="100%" height={240}>
+                    <BarChart
+                      data={report.bins.map((b) => ({ ...b, mid: (b.from + b.to) / 2, right: b.accuracy * 100 }))}
+                      margin={{ top: 8, right: 8, bottom: 0, left: -16 }}
+                    >
+                      <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                      <XAxis dataKey="mid" tickFormatter={(v: number) => `${v - 5}`} tick={{ fontSize: 12 }} />
+                      <YAxis domain={[0, 100]} tick={{ fontSize: 12 }} />
+                      <Tooltip
+                        labelFormatter={(mid: number) => t("calibrate.bin", { from: mid - 5, to: mid + 5 })}
+                        formatter={(v: number, _name, item) => [
+                          t("calibrate.binRight", { share: Math.round(v), count: item.payload.count }),
+                          "",
+                        ]}
+                      />
+                      <ReferenceLine
+                        segment={[
+                          { x: 5, y: 5 },
+                          { x: 95, y: 95 },
+                        ]}
+                        stroke="#64748b"
+                        strokeDasharray="4 2"
+                        ifOverflow="extendDomain"
+                      />
+                      <Bar dataKey="right" fill="#10b981" isAnimationActive={false} />
+                    </BarChart>
+                  </ResponsiveContainer>
+                  <ConfusionTable confusion={report.confusion} />
+                </>
+              )}
+              {failures.length > 0 && (
+                <div className="grid gap-1 text-sm text-red-700">
+                  <span className="font-medium">{t("calibrate.failed", { count: failures.length })}</span>
+                  {failures.slice(0, 5).map((f) => (
+                    <span key={f.file}>
+                      {f.file}: {f.reason ? t(`unusable.${f.reason}`) : f.message}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </main>
+  )
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="flex flex-col rounded-md bg-muted/60 px-3 py-2">
+      <span className="text-muted-foreground">{label}</span>
+      <span className="text-lg font-semibold tabular-nums">{value}</span>
+    </div>
+  )
+}
+
+function ConfusionTable({ confusion }: { confusion: CalibrationReport["confusion"] }) {
+  const { t, status } = useI18n()
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="border-b text-muted-foreground">
+          <th className="py-1 text-left font-medium">{t("calibrate.confusion")}</th>
+          {STATUSES.map((s) => (
+            <th key={s} className="py-1 text-right font-medium">
+              {status(s)}
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {STATUSES.map((expected) => (
+          <tr key={expected} className="border-b last:border-0">
+            <th scope="row" className="py-1 text-left font-medium">
+              {status(expected)}
+            </th>
+            {STATUSES.map((predicted) => (
+              <td
+                key={predicted}
+                className={`py-1 text-right tabular-nums ${expected === predicted ? "font-semibold text-emerald-700" : ""}`}
+              >
+                {confusion[expected][predicted]}
+              </td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+}
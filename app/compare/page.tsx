@@ -0,0 +1,153 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import Link from "next/link"
+import { ArrowDown, ArrowLeft, ArrowUp, Columns2, Minus, Trophy } from "lucide-react"
+import { useI18n } from "@/components/i18n-provider"
+import { StatusBadge } from "@/components/status-badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { compareScans, MAX_COMPARE, MIN_COMPARE, type CompareCell } from "@/lib/compare"
+import { getScan, type ScanRecord } from "@/lib/history"
+import { isNumericMetric } from "@/lib/metrics"
+import { scanTime } from "@/lib/trends"
+import { cn } from "@/lib/utils"
+
+export default function ComparePage() {
+  const { t, crop, metric, locale } = useI18n()
+  const [scans, setScans] = useState<ScanRecord[] | null>(null)
+
+  useEffect(() => {
+    const ids = (new URLSearchParams(window.location.search).get("ids") ?? "").split(",").filter(Boolean)
+    Promise.all(ids.slice(0, MAX_COMPARE).map((id) => getScan(id).catch(() => undefined)))
+      .then((found) => setScans(found.filter((s): s is ScanRecord => !!s)))
+      .catch(() => setScans([]))
+  }, [])
+
+  const comparison = useMemo(() => (scans && scans.length >= MIN_COMPARE ? compareScans(scans) : null), [scans])
+  // Cards and table share the same columns: a metric label column, then one per scan.
+  const cols = { gridTemplateColumns: `10rem repeat(${scans?.length ?? 1}, minmax(0, 1fr))` }
+
+  return (
+    <main className="min-h-[100dvh] bg-white">
+      <div className="mx-auto w-full max-w-6xl px-4 py-8 md:py-10">
+        <header className="mb-6 md:mb-8">
+          <div className="flex items-center gap-2">
+            <div className="inline-flex h-9 w-9 items-center justify-center rounded-lg bg-emerald-100">
+              <Columns2 className="h-5 w-5 text-emerald-700" />
+            </div>
+            <h1 className="text-xl font-semibold tracking-tight md:text-2xl">{t("compare.title")}</h1>
+            <Button asChild variant="ghost" size="sm" className="ml-auto">
+              <Link href="/history">
+                <ArrowLeft className="h-4 w-4" /> {t("nav.history")}
+              </Link>
+            </Button>
+          </div>
+          <p className="mt-2 text-sm text-muted-foreground">{t("compare.description")}</p>
+        </header>
+
+        {!scans ? (
+          <p className="text-sm text-muted-foreground">{t("page.loading")}</p>
+        ) : !comparison ? (
+          <p className="text-sm text-muted-foreground">
+            {t("compare.pick", { min: MIN_COMPARE, max: MAX_COMPARE })}{" "}
+            <Link href="/history" className="underline">
+              {t("compare.openHistory")}
+            </Link>
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <div className="min-w-[640px] space-y-4">
+              <div className="grid gap-4" style={cols}>
+                <div />
+                {scans.map((scan, i) => (
+                  <Card
+                    key={scan.id}
+                    className={cn("gap-3 overflow-hidden pt-0", comparison.best === i && "ring-2 ring-emerald-500")}
+                  >
+                    <img
+                      src={scan.thumbnail || "/placeholder.jpg"}
+                      alt={scan.fileName}
+                      className="aspect-video w-full object-cover"
+                    />
+                    <CardHeader className="space-y-1">
+                      <div className="flex items-center justify-between gap-2">
+                        <CardTitle className="truncate text-base">
+                          <Link href={`/?scan=${scan.id}`} className="hover:underline">
+                            {scan.plot || scan.fileName}
+                          </Link>
+                        </CardTitle>
+                        <StatusBadge status={scan.result.status} />
+                      </div>
+                      <CardDescription>
+                        {new Date(scanTime(scan)).toLocaleDateString(locale)} ·{" "}
+                        {t(`analysis.${scan.analysisType}`)} · {crop(scan.cropType)}
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent className="text-sm text-muted-foreground">
+                      {comparison.best === i && (
+                        <span className="mb-1 flex items-center gap-1 font-medium text-emerald-700">
+                          <Trophy className="h-4 w-4" /> {t("compare.best")}
+                        </span>
+                      )}
+                      {comparison.inBand[i].total > 0
+                        ? t("compare.inBand", { ...comparison.inBand[i] })
+                        : t("compare.noBands")}
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+
+              <Card className="py-0">
+                <table className="w-full table-fixed text-sm">
+                  <tbody>
+                    {comparison.rows.map((row) => (
+                      <tr key={row.metric} className="border-b last:border-0">
+                        <th scope="row" className="w-40 px-4 py-2 text-left font-medium text-muted-foreground">
+                          {metric(row.metric)}
+                        </th>
+                        {row.cells.map((cell, i) => (
+                          <td
+                            key={scans[i].id}
+                            className={cn("px-4 py-2", row.closest === i && "bg-emerald-50 font-medium text-emerald-800")}
+                          >
+                            <CellValue cell={cell} base={row.cells[0]} />
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </Card>
+            </div>
+          </div>
+        )}
+      </div>
+    </main>
+  )
+}
+
+function CellValue({ cell, base }: { cell: CompareCell; base: CompareCell }) {
+  const { value } = useI18n()
+  if (cell.value === undefined) return <span className="text-muted-foreground">—</span>
+  if (cell.delta === undefined) return <span>{value(cell.value)}</span>
+
+  const Arrow = cell.delta > 0 ? ArrowUp : cell.delta < 0 ? ArrowDown : Minus
+  // Colour by whether the change moved towards the target band, when both sides have one.
+  const better = cell.distance !== undefined && base.distance !== undefined ? base.distance - cell.distance : 0
+  return (
+    <span className="inline-flex items-center gap-1.5">
+      {value(cell.value)}
+      <span
+        className={cn(
+          "inline-flex items-center text-xs",
+          better > 0 ? "text-emerald-700" : better < 0 ? "text-red-700" : "text-muted-foreground",
+        )}
+      >
+        <Arrow className="h-3 w-3" aria-hidden />
+        {cell.delta > 0 ? "+" : ""}
+        {value({ value: cell.delta, unit: isNumericMetric(cell.value) ? cell.value.unit : undefined })}
+      </span>
+    </span>
+  )
+}
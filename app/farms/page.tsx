@@ -0,0 +1,259 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { ArrowLeft, LineChart, Pencil, Plus, Tractor, Trash2 } from "lucide-react"
+import { useI18n } from "@/components/i18n-provider"
+import { LandForm } from "@/components/land-form"
+import { StatusBadge } from "@/components/status-badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { listScans, saveScan, type ScanRecord } from "@/lib/history"
+import {
+  deleteLand,
+  listLand,
+  newLandId,
+  plotScans,
+  saveLand,
+  type Land,
+  type LandDetails,
+  type LandUnit,
+} from "@/lib/land"
+
+// The form currently open: a new farm, field or plot under its parent, or an existing one
+type Editing = { kind: LandUnit["kind"]; parentId?: string } | { unit: LandUnit }
+
+export default function FarmsPage() {
+  const { t } = useI18n()
+  const [land, setLand] = useState<Land | null>(null)
+  const [scans, setScans] = useState<ScanRecord[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [actionError, setActionError] = useState<string | null>(null)
+  const [editing, setEditing] = useState<Editing | null>(null)
+
+  async function reload() {
+    const [nextLand, nextScans] = await Promise.all([listLand(), listScans()])
+    setLand(nextLand)
+    setScans(nextScans)
+  }
+
+  useEffect(() => {
+    // An empty message is shown as the generic storage error
+    reload().catch((err) => setError(err instanceof Error ? err.message : ""))
+  }, [])
+
+  async function submit(details: LandDetails) {
+    if (!editing) return
+    const base = { ...details, id: newLandId(), createdAt: Date.now() }
+    const unit: LandUnit =
+      "unit" in editing
+        ? { ...editing.unit, ...details }
+        : editing.kind === "farm"
+          ? { ...base, kind: "farm" }
+          : editing.kind === "field"
+            ? { ...base, kind: "field", farmId: editing.parentId! }
+            : { ...base, kind: "plot", fieldId: editing.parentId! }
+    try {
+      await saveLand(unit)
+      // Keep the plot name shown on its scans in step with a rename
+      if ("unit" in editing && unit.kind === "plot" && unit.name !== editing.unit.name) {
+        for (const scan of plotScans(scans, unit.id)) await saveScan({ ...scan, plot: unit.name })
+      }
+      setEditing(null)
+      setActionError(null)
+      await reload()
+    } catch (err) {
+      console.warn("Could not save land", err)
+      setActionError(t("farms.saveFailed", { name: unit.name }))
+    }
+  }
+
+  async function remove(unit: LandUnit) {
+    const question = unit.kind === "plot" ? "farms.confirmDelete" : "farms.confirmDeleteAll"
+    if (!window.confirm(t(question, { name: unit.name }))) return
+    try {
+      await deleteLand(unit, land!, scans)
+      setActionError(null)
+    } catch (err) {
+      console.warn("Could not delete land", err)
+      setActionError(t("farms.deleteFailed", { name: unit.name }))
+    }
+    // Part of a farm may be gone even when a later delete failed
+    await reload().catch(() => undefined)
+  }
+
+  // The add/edit form for `unit`, or for a new child of `kind` under `parentId`
+  function formFor(match: (e: Editing) => boolean, label: string) {
+    if (!editing || !match(editing)) return null
+    return (
+      <LandForm
+        initial={"unit" in editing ? editing.unit : undefined}
+        submitLabel={label}
+        onSubmit={(details) => void submit(details)}
+        onCancel={() => setEditing(null)}
+      />
+    )
+  }
+  const isEditing = (unit: LandUnit) => (e: Editing) => "unit" in e && e.unit.id === unit.id
+  const isAdding = (kind: LandUnit["kind"], parentId?: string) => (e: Editing) =>
+    "kind" in e && e.kind === kind && e.parentId === parentId
+  // Plots are listed as tiles, so a plot's form opens below its field's list
+  const editingPlot = editing && "unit" in editing && editing.unit.kind === "plot" ? editing.unit : undefined
+
+  function actions(unit: LandUnit) {
+    return (
+      <>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setEditing({ unit })}
+          aria-label={t("farms.edit", { name: unit.name })}
+        >
+          <Pencil className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => void remove(unit)}
+          aria-label={t("farms.delete", { name: unit.name })}
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </>
+    )
+  }
+
+  return (
+    <main className="min-h-[100dvh] bg-white">
+      <div className="mx-auto w-full max-w-6xl px-4 py-8 md:py-10">
+        <header className="mb-6 md:mb-8">
+          <div className="flex items-center gap-2">
+            <div className="inline-flex h-9 w-9 items-center justify-center rounded-lg bg-emerald-100">
+              <Tractor className="h-5 w-5 text-emerald-700" />
+            </div>
+            <h1 className="text-xl font-semibold tracking-tight md:text-2xl">{t("nav.farms")}</h1>
+            <Button asChild variant="ghost" size="sm" className="ml-auto">
+              <Link href="/plot">
+                <LineChart className="h-4 w-4" /> {t("nav.plots")}
+              </Link>
+            </Button>
+            <Button asChild variant="ghost" size="sm">
+              <Link href="/">
+                <ArrowLeft className="h-4 w-4" /> {t("nav.newScan")}
+              </Link>
+            </Button>
+          </div>
+          <p className="mt-2 text-sm text-muted-foreground">{t("farms.description")}</p>
+        </header>
+
+        <div className="mb-6">
+          {formFor(isAdding("farm"), t("farms.addFarm")) ?? (
+            <Button size="sm" onClick={() => setEditing({ kind: "farm" })}>
+              <Plus className="h-4 w-4" /> {t("farms.addFarm")}
+            </Button>
+          )}
+        </div>
+
+        {actionError && <p className="mb-4 text-sm text-red-700">{actionError}</p>}
+
+        {error !== null ? (
+          <p className="text-sm text-red-700">{error || t("farms.storageFailed")}</p>
+        ) : !land ? (
+          <p className="text-sm text-muted-foreground">{t("page.loading")}</p>
+        ) : land.farms.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t("farms.none")}</p>
+        ) : (
+          <div className="grid gap-4">
+            {land.farms.map((farm) => (
+              <Card key={farm.id}>
+                <CardHeader className="flex flex-row items-start gap-2 space-y-0">
+                  <div className="flex-1 space-y-1">
+                    <CardTitle>{farm.name}</CardTitle>
+                    <CardDescription>
+                      <LandSummary details={farm} />
+                    </CardDescription>
+                  </div>
+                  {actions(farm)}
+                </CardHeader>
+                <CardContent className="grid gap-4">
+                  {formFor(isEditing(farm), t("farms.save"))}
+                  {land.fields
+                    .filter((field) => field.farmId === farm.id)
+                    .map((field) => (
+                      <section key={field.id} className="grid gap-2 rounded-lg border p-3">
+                        <div className="flex items-start gap-2">
+                          <div className="flex-1">
+                            <h2 className="font-medium">{field.name}</h2>
+                            <p className="text-sm text-muted-foreground">
+                              <LandSummary details={field} />
+                            </p>
+                          </div>
+                          {actions(field)}
+                        </div>
+                        {formFor(isEditing(field), t("farms.save"))}
+                        <ul className="grid gap-2 sm:grid-cols-2 lg:grid-cols-3">
+                          {land.plots
+                            .filter((plot) => plot.fieldId === field.id)
+                            .map((plot) => {
+                              const own = plotScans(scans, plot.id)
+                              const count =
+                                own.length === 1 ? t("land.scanOne") : t("land.scanMany", { count: own.length })
+                              return (
+                                <li key={plot.id} className="flex items-start gap-1 rounded-md bg-muted/60 p-2">
+                                  <Link href={`/plot?id=${plot.id}`} className="grid flex-1 gap-0.5 hover:underline">
+                                    <span className="flex items-center gap-2 font-medium">
+                                      {plot.name}
+                                      {own[0] && <StatusBadge status={own[0].result.status} />}
+                                    </span>
+                                    <span className="text-xs text-muted-foreground">
+                                      <LandSummary details={plot} /> · {count}
+                                    </span>
+                                  </Link>
+                                  {actions(plot)}
+                                </li>
+                              )
+                            })}
+                        </ul>
+                        {editingPlot?.fieldId === field.id && formFor(isEditing(editingPlot), t("farms.save"))}
+                        {formFor(isAdding("plot", field.id), t("farms.addPlot")) ?? (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="justify-self-start"
+                            onClick={() => setEditing({ kind: "plot", parentId: field.id })}
+                          >
+                            <Plus className="h-4 w-4" /> {t("farms.addPlot")}
+                          </Button>
+                        )}
+                      </section>
+                    ))}
+                  {formFor(isAdding("field", farm.id), t("farms.addField")) ?? (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="justify-self-start"
+                      onClick={() => setEditing({ kind: "field", parentId: farm.id })}
+                    >
+                      <Plus className="h-4 w-4" /> {t("farms.addField")}
+                    </Button>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </main>
+  )
+}
+
+// "2.5 ha · Loam · Maize", leaving out whatever is not set
+function LandSummary({ details }: { details: LandDetails }) {
+  const { t, quantity, crop } = useI18n()
+  const parts = [
+    details.area && quantity({ value: details.area, unit: "ha" }),
+    details.soilType && t(`soil.${details.soilType}`),
+    details.crop && crop(details.crop),
+  ].filter(Boolean)
+  return <>{parts.length > 0 ? parts.join(" · ") : t("land.noDetails")}</>
+}
@@ -0,0 +1,278 @@
+"use client"
+
+import type React from "react"
+
+import { useEffect, useMemo, useState } from "react"
+import Link from "next/link"
+import { ArrowLeft, Columns2, History, LineChart, MapPin, Tractor, Trash2 } from "lucide-react"
+import { ExportActions } from "@/components/export-actions"
+import { useI18n } from "@/components/i18n-provider"
+import { StatusBadge } from "@/components/status-badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { MAX_COMPARE, MIN_COMPARE } from "@/lib/compare"
+import { CROP_TYPES } from "@/lib/crops"
+import { deleteScan, listScans, type ScanRecord } from "@/lib/history"
+import { scanTime } from "@/lib/trends"
+import type { Status } from "@/lib/types"
+
+type DateFilter = "all" | "today" | "week"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export default function HistoryPage() {
+  const { t, crop: cropName, status: statusName, locale } = useI18n()
+  const [scans, setScans] = useState<ScanRecord[] | null>(null)
+  const [loadFailed, setLoadFailed] = useState(false)
+  const [deleteFailed, setDeleteFailed] = useState(false)
+  const [type, setType] = useState("all")
+  const [crop, setCrop] = useState("all")
+  const [status, setStatus] = useState("all")
+  const [date, setDate] = useState<DateFilter>("today")
+  const [query, setQuery] = useState("")
+  const [selected, setSelected] = useState<string[]>([])
+
+  useEffect(() => {
+    listScans()
+      .then(setScans)
+      .catch((err) => {
+        console.warn("Could not open local history", err)
+        setLoadFailed(true)
+      })
+  }, [])
+
+  const filtered = useMemo(() => {
+    if (!scans) return []
+    const startOfToday = new Date().setHours(0, 0, 0, 0)
+    const since = date === "today" ? startOfToday : date === "week" ? startOfToday - 6 * DAY_MS : 0
+    const q = query.trim().toLowerCase()
+    return scans.filter(
+      (s) =>
+        scanTime(s) >= since &&
+        (type === "all" || s.analysisType === type) &&
+        (crop === "all" || s.cropType === crop) &&
+        (status === "all" || s.result.status === status) &&
+        (!q || s.plot?.toLowerCase().includes(q) || s.fileName.toLowerCase().includes(q)),
+    )
+  }, [scans, type, crop, status, date, query])
+
+  async function remove(id: string) {
+    setDeleteFailed(false)
+    try {
+      await deleteScan(id)
+    } catch (err) {
+      console.warn("Could not delete the scan", err)
+      setDeleteFailed(true)
+      return
+    }
+    setScans((prev) => prev?.filter((s) => s.id !== id) ?? null)
+    setSelected((prev) => prev.filter((s) => s !== id))
+  }
+
+  function toggleSelected(id: string, on: boolean) {
+    setSelected((prev) => (on ? [...prev, id].slice(0, MAX_COMPARE) : prev.filter((s) => s !== id)))
+  }
+
+  return (
+    <main className="min-h-[100dvh] bg-white">
+      <div className="mx-auto w-full max-w-6xl px-4 py-8 md:py-10">
+        <header className="mb-6 md:mb-8">
+          <div className="flex items-center gap-2">
+            <div className="inline-flex h-9 w-9 items-center justify-center rounded-lg bg-emerald-100">
+              <History className="h-5 w-5 text-emerald-700" />
+            </div>
+            <h1 className="text-xl font-semibold tracking-tight md:text-2xl">{t("history.title")}</h1>
+            <Button asChild variant="ghost" size="sm" className="ml-auto">
+              <Link href="/plot">
+                <LineChart className="h-4 w-4" /> {t("nav.plots")}
+              </Link>
+            </Button>
+            <Button asChild variant="ghost" size="sm">
+              <Link href="/farms">
+                <Tractor className="h-4 w-4" /> {t("nav.farms")}
+              </Link>
+            </Button>
+            <Button asChild variant="ghost" size="sm">
+              <Link href="/map">
+                <MapPin className="h-4 w-4" /> {t("nav.map")}
+              </Link>
+            </Button>
+            <Button asChild variant="ghost" size="sm">
+              <Link href="/">
+                <ArrowLeft className="h-4 w-4" /> {t("nav.newScan")}
+              </Link>
+            </Button>
+          </div>
+          <p className="mt-2 text-sm text-muted-foreground">{t("history.description")}</p>
+        </header>
+
+        <Card className="mb-6">
+          <CardContent className="grid gap-4 sm:grid-cols-2 lg:grid-cols-5">
+            <FilterSelect
+              id="filter-date"
+              label={t("history.when")}
+              value={date}
+              onChange={(v) => setDate(v as DateFilter)}
+            >
+              <SelectItem value="today">{t("history.today")}</SelectItem>
+              <SelectItem value="week">{t("history.week")}</SelectItem>
+              <SelectItem value="all">{t("history.allTime")}</SelectItem>
+            </FilterSelect>
+            <FilterSelect id="filter-type" label={t("history.type")} value={type} onChange={setType}>
+              <SelectItem value="all">{t("history.allTypes")}</SelectItem>
+              <SelectItem value="soil">{t("analysis.soil")}</SelectItem>
+              <SelectItem value="crop">{t("analysis.crop")}</SelectItem>
+              <SelectItem value="lab">{t("analysis.lab")}</SelectItem>
+            </FilterSelect>
+            <FilterSelect id="filter-crop" label={t("setup.crop")} value={crop} onChange={setCrop}>
+              <SelectItem value="all">{t("history.allCrops")}</SelectItem>
+              {CROP_TYPES.map((id) => (
+                <SelectItem key={id} value={id}>
+                  {cropName(id)}
+                </SelectItem>
+              ))}
+            </FilterSelect>
+            <FilterSelect id="filter-status" label={t("history.status")} value={status} onChange={setStatus}>
+              <SelectItem value="all">{t("history.anyStatus")}</SelectItem>
+              {(["Good", "Marginal", "Poor"] satisfies Status[]).map((s) => (
+                <SelectItem key={s} value={s}>
+                  {statusName(s)}
+                </SelectItem>
+              ))}
+            </FilterSelect>
+            <div className="grid gap-2">
+              <Label htmlFor="filter-query">{t("history.plot")}</Label>
+              <Input
+                id="filter-query"
+                placeholder={t("history.search")}
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        {loadFailed ? (
+          <p className="text-sm text-red-700">{t("history.loadFailed")}</p>
+        ) : !scans ? (
+          <p className="text-sm text-muted-foreground">{t("page.loading")}</p>
+        ) : filtered.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {scans.length === 0 ? t("history.empty") : t("history.noMatch")}
+          </p>
+        ) : (
+          <>
+            <div className="mb-4 flex items-center justify-between gap-3">
+              <span className="text-sm text-muted-foreground">
+                {filtered.length === 1 ? t("land.scanOne") : t("land.scanMany", { count: filtered.length })}
+              </span>
+              <div className="flex items-center gap-2">
+                {selected.length >= MIN_COMPARE ? (
+                  <Button asChild size="sm" variant="outline">
+                    <Link href={`/compare?ids=${selected.join(",")}`}>
+                      <Columns2 className="h-4 w-4" /> {t("history.compareCount", { count: selected.length })}
+                    </Link>
+                  </Button>
+                ) : (
+                  selected.length > 0 && (
+                    <span className="text-sm text-muted-foreground">{t("history.selectMore")}</span>
+                  )
+                )}
+                <ExportActions scans={filtered} pdf={false} />
+              </div>
+            </div>
+            {deleteFailed && <p className="mb-4 text-sm text-red-700">{t("history.deleteFailed")}</p>}
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+              {filtered.map((scan) => (
+                <Card key={scan.id} className="gap-4 overflow-hidden pt-0">
+                  <img
+                    src={scan.thumbnail || "/placeholder.jpg"}
+                    alt={scan.fileName}
+                    className="aspect-video w-full object-cover"
+                  />
+                  <CardHeader className="space-y-1">
+                    <div className="flex items-center justify-between gap-2">
+                      <CardTitle className="truncate text-base">{scan.plot || scan.fileName}</CardTitle>
+                      <StatusBadge status={scan.result.status} />
+                    </div>
+                    <CardDescription>
+                      {new Date(scanTime(scan)).toLocaleString(locale)} · {t(`analysis.${scan.analysisType}`)} ·{" "}
+                      {cropName(scan.cropType)} · {scan.result.confidence}%
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="flex items-center gap-2">
+                    <Button asChild size="sm">
+                      <Link href={`/?scan=${scan.id}`}>{t("history.open")}</Link>
+                    </Button>
+                    {scan.plotId ? (
+                      <Button asChild variant="outline" size="sm">
+                        <Link href={`/plot?id=${scan.plotId}`}>
+                          <LineChart className="h-4 w-4" /> {t("history.plotLink")}
+                        </Link>
+                      </Button>
+                    ) : (
+                      scan.plot && (
+                        <Button asChild variant="outline" size="sm">
+                          <Link href={`/plot?name=${encodeURIComponent(scan.plot.trim())}`}>
+                            <LineChart className="h-4 w-4" /> {t("history.trends")}
+                          </Link>
+                        </Button>
+                      )
+                    )}
+                    <label className="ml-auto flex items-center gap-1.5 text-sm text-muted-foreground">
+                      <input
+                        type="checkbox"
+                        className="h-4 w-4 accent-emerald-600"
+                        checked={selected.includes(scan.id)}
+                        disabled={!selected.includes(scan.id) && selected.length >= MAX_COMPARE}
+                        onChange={(e) => toggleSelected(scan.id, e.target.checked)}
+                      />
+                      {t("history.compare")}
+                    </label>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => void remove(scan.id)}
+                      aria-label={t("history.delete")}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </main>
+  )
+}
+
+function FilterSelect({
+  id,
+  label,
+  value,
+  onChange,
+  children,
+}: {
+  id: string
+  label: string
+  value: string
+  onChange: (v: string) => void
+  children: React.ReactNode
+}) {
+  return (
+    <div className="grid gap-2">
+      <Label htmlFor={id}>{label}</Label>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger id={id} className="w-full">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>{children}</SelectContent>
+      </Select>
+    </div>
+  )
+}
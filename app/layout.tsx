@@ -1,12 +1,21 @@
-import type { Metadata } from 'next'
+import type { Metadata, Viewport } from 'next'
 import { GeistSans } from 'geist/font/sans'
 import { GeistMono } from 'geist/font/mono'
+import { I18nProvider } from '@/components/i18n-provider'
+import { ServiceWorker } from '@/components/service-worker'
 import './globals.css'
 
 export const metadata: Metadata = {
-  title: 'v0 App',
-  description: 'Created with v0',
+  title: 'AgriScan',
+  description: 'Soil and crop analysis from photos and lab tests',
   generator: 'v0.dev',
+  applicationName: 'AgriScan',
+  appleWebApp: { capable: true, title: 'AgriScan' },
+  icons: { icon: '/icon.svg', apple: '/icon.svg' },
+}
+
+export const viewport: Viewport = {
+  themeColor: '#047857',
 }
 
 export default function RootLayout({
@@ -25,7 +34,10 @@ html {
 }
         `}</style>
       </head>
-      <body>{children}</body>
+      <body>
+        <I18nProvider>{children}</I18nProvider>
+        <ServiceWorker />
+      </body>
     </html>
   )
 }
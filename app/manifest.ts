@@ -0,0 +1,14 @@
+import type { MetadataRoute } from "next"
+
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: "AgriScan",
+    short_name: "AgriScan",
+    description: "Soil and crop analysis that keeps working in the field without a connection.",
+    start_url: "/",
+    display: "standalone",
+    background_color: "#ffffff",
+    theme_color: "#047857",
+    icons: [{ src: "/icon.svg", sizes: "any", type: "image/svg+xml", purpose: "any" }],
+  }
+}
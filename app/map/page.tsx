@@ -0,0 +1,75 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { ArrowLeft, MapPin } from "lucide-react"
+import { FieldMap, FieldMapLegend } from "@/components/field-map"
+import { useI18n } from "@/components/i18n-provider"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { listScans, type ScanRecord } from "@/lib/history"
+
+export default function MapPage() {
+  const { t } = useI18n()
+  const router = useRouter()
+  const [scans, setScans] = useState<ScanRecord[] | null>(null)
+  const [type, setType] = useState("all")
+
+  useEffect(() => {
+    listScans()
+      .then(setScans)
+      .catch(() => setScans([]))
+  }, [])
+
+  const shown = useMemo(() => (scans ?? []).filter((s) => type === "all" || s.analysisType === type), [scans, type])
+  const located = shown.filter((s) => s.location).length
+
+  return (
+    <main className="min-h-[100dvh] bg-white">
+      <div className="mx-auto w-full max-w-6xl px-4 py-8 md:py-10">
+        <header className="mb-6 md:mb-8">
+          <div className="flex items-center gap-2">
+            <div className="inline-flex h-9 w-9 items-center justify-center rounded-lg bg-emerald-100">
+              <MapPin className="h-5 w-5 text-emerald-700" />
+            </div>
+            <h1 className="text-xl font-semibold tracking-tight md:text-2xl">{t("map.title")}</h1>
+            <Button asChild variant="ghost" size="sm" className="ml-auto">
+              <Link href="/history">
+                <ArrowLeft className="h-4 w-4" /> {t("nav.history")}
+              </Link>
+            </Button>
+          </div>
+          <p className="mt-2 text-sm text-muted-foreground">{t("map.description")}</p>
+        </header>
+
+        <Card>
+          <CardHeader className="flex flex-wrap items-center justify-between gap-3 space-y-0">
+            <div className="space-y-1">
+              <CardTitle>{t("map.locations")}</CardTitle>
+              <CardDescription>
+                {scans ? t("map.located", { located, count: shown.length }) : t("page.loading")}
+              </CardDescription>
+            </div>
+            <Select value={type} onValueChange={setType}>
+              <SelectTrigger className="w-40" aria-label={t("setup.analysisType")}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">{t("history.allTypes")}</SelectItem>
+                <SelectItem value="soil">{t("analysis.soil")}</SelectItem>
+                <SelectItem value="crop">{t("analysis.crop")}</SelectItem>
+                <SelectItem value="lab">{t("analysis.lab")}</SelectItem>
+              </SelectContent>
+            </Select>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <FieldMap scans={shown} onSelect={(scan) => router.push(`/?scan=${scan.id}`)} />
+            <FieldMapLegend />
+          </CardContent>
+        </Card>
+      </div>
+    </main>
+  )
+}
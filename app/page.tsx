@@ -3,36 +3,105 @@
 import type React from "react"
 
 import { useEffect, useMemo, useRef, useState } from "react"
-import { Upload, Leaf, Sprout, CheckCircle2, AlertTriangle, Scan } from "lucide-react"
+import Link from "next/link"
+import {
+  Upload,
+  Leaf,
+  Sprout,
+  AlertTriangle,
+  Scan,
+  Layers,
+  History,
+  MapPin,
+  CloudOff,
+  Camera,
+  Square,
+  Pentagon,
+  Shapes,
+  Tractor,
+  X,
+} from "lucide-react"
 import { cn } from "@/lib/utils"
+import { useOfflineQueue } from "@/hooks/use-offline-queue"
+import { CameraCapture } from "@/components/camera-capture"
+import { ConditionList } from "@/components/condition-list"
+import { ConfidenceBreakdown } from "@/components/confidence-breakdown"
+import { ExportActions } from "@/components/export-actions"
+import { HealthHeatmap, HeatmapLegend } from "@/components/health-heatmap"
+import { useI18n } from "@/components/i18n-provider"
+import { LabForm } from "@/components/lab-form"
+import { LanguageSwitcher } from "@/components/language-switcher"
+import { PlotPicker } from "@/components/plot-picker"
+import { QualityIssues } from "@/components/quality-issues"
+import { RecommendationList } from "@/components/recommendation-list"
+import { RegionEditor, type RegionTool } from "@/components/region-editor"
+import { STATUS_TONES, StatusBadge, StatusIcon } from "@/components/status-badge"
+import { SuitabilityList } from "@/components/suitability-list"
+import { QueuedScanList, SyncStatus } from "@/components/sync-status"
+import { UnitSettings } from "@/components/unit-settings"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
-
-type AnalysisType = "soil" | "crop"
-type CropType = "tomato" | "yam" | "potato" | "onions"
-type Status = "Good" | "Bad"
-
-type AnalysisResult = {
-  status: Status
-  confidence: number
-  notes: string
-  metrics: Record<string, string | number>
-}
+import { ZoneList } from "@/components/zone-list"
+import { UnusableImageError } from "@/lib/analyzers/errors"
+import type { ScanRequest } from "@/lib/api"
+import { CROP_TYPES } from "@/lib/crops"
+import { getScan, recordScan, saveScan, type ScanRecord } from "@/lib/history"
+import { bandParams, type Locale } from "@/lib/i18n"
+import type { LabValues } from "@/lib/lab"
+import { effectiveDetails, type Land, type Plot } from "@/lib/land"
+import { analyzeRegions } from "@/lib/regions"
+import { runScanInWorker, STAGE_PROGRESS, type ScanStage } from "@/lib/scan-pipeline"
+import { KEY_METRICS } from "@/lib/summary"
+import type { AnalysisResult, AnalysisType, CropType, LocalizedText, QualityIssue, Region } from "@/lib/types"
+import { convert, preferredUnit } from "@/lib/units"
 
 export default function Page() {
   const [analysisType, setAnalysisType] = useState<AnalysisType>("soil")
   const [cropType, setCropType] = useState<CropType>("tomato")
+  // In the area unit of the reader's preferences (ha or ac)
+  const [area, setArea] = useState("1")
+  const [plotName, setPlotName] = useState("")
+  // Managed plot the scan is attached to; its name replaces the typed label
+  const [plotId, setPlotId] = useState<string | undefined>()
+  const [attachFailed, setAttachFailed] = useState(false)
   const [file, setFile] = useState<File | null>(null)
   const [previewUrl, setPreviewUrl] = useState<string | null>(null)
 
   const [isDragging, setIsDragging] = useState(false)
+  const [cameraOn, setCameraOn] = useState(false)
   const [scanning, setScanning] = useState(false)
   const [progress, setProgress] = useState(0)
+  const [stage, setStage] = useState<ScanStage | null>(null)
   const [result, setResult] = useState<AnalysisResult | null>(null)
-
-  const pendingScanRef = useRef<ReturnType<typeof setInterval> | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [showHeatmap, setShowHeatmap] = useState(true)
+  // Soil results can also be shown as a ranking of every crop they would suit
+  const [showSuitability, setShowSuitability] = useState(false)
+  // Stored scan behind the current result: a fresh save, or one reopened from history
+  // (shown with its thumbnail, since the original file isn't kept)
+  const [record, setRecord] = useState<ScanRecord | null>(null)
+  // The last scan could not reach the analyzer and was queued instead
+  const [savedOffline, setSavedOffline] = useState(false)
+  // Photo problems that stopped the last scan; "Analyze anyway" reruns it accepting them
+  const [rejected, setRejected] = useState<{ issues: QualityIssue[]; lab?: LabValues } | null>(null)
+  // Regions drawn on the preview for per-zone analysis; the tool is null when not drawing
+  const [regions, setRegions] = useState<Region[]>([])
+  const [regionTool, setRegionTool] = useState<RegionTool | null>(null)
+  const [zoning, setZoning] = useState(false)
+  const [zoneErrors, setZoneErrors] = useState<LocalizedText[]>([])
+  const offlineQueue = useOfflineQueue()
+  const i18n = useI18n()
+  const { t } = i18n
+  const areaUnit = preferredUnit("ha", i18n.units)
+  const areaHa = convert(Math.max(0, Number(area) || 0), areaUnit, "ha")
+
+  const abortRef = useRef<AbortController | null>(null)
+  const restoringRef = useRef(false)
+  // Bumped on every scan or reset so late async work from an older scan is ignored
+  const scanIdRef = useRef(0)
 
   // Create/revoke preview URL
   useEffect(() => {
@@ -49,18 +118,50 @@ export default function Page() {
 
   // Reset when analysis type changes
   useEffect(() => {
+    if (restoringRef.current) {
+      restoringRef.current = false
+      return
+    }
     resetAnalysis("type-change")
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [analysisType])
 
+  // Reopen a saved scan linked from /history as /?scan=<id>
+  useEffect(() => {
+    const id = new URLSearchParams(window.location.search).get("scan")
+    if (!id) return
+    getScan(id)
+      .then((scan) => {
+        if (!scan) return
+        if (scan.analysisType !== analysisType) restoringRef.current = true
+        setAnalysisType(scan.analysisType)
+        setCropType(scan.cropType)
+        setPlotName(scan.plot ?? "")
+        setPlotId(scan.plotId)
+        setResult(scan.result)
+        setRecord(scan)
+        setRegions(scan.result.zones?.map((z) => z.region) ?? [])
+      })
+      .catch((err) => console.warn("Could not load saved scan", err))
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [])
+
   function resetAnalysis(reason?: string) {
-    if (pendingScanRef.current) {
-      clearInterval(pendingScanRef.current)
-      pendingScanRef.current = null
-    }
+    // Aborting terminates the scan worker along with any request it has in flight.
+    abortRef.current?.abort()
+    abortRef.current = null
+    scanIdRef.current++
     setScanning(false)
+    setStage(null)
     setProgress(0)
     setResult(null)
+    setError(null)
+    setSavedOffline(false)
+    setRejected(null)
+    setRecord(null)
+    setAttachFailed(false)
+    setCameraOn(false)
+    clearRegions()
     // Keep the file if reason is not "type-change"? For clarity, clear it unless user specifically wants to keep.
     if (reason !== "keep-file") {
       setFile(null)
@@ -90,114 +191,150 @@ export default function Page() {
   function handleFile(newFile: File) {
     setFile(newFile)
     setResult(null)
+    setRecord(null)
+    clearRegions()
+    // In lab mode the photo is an optional companion to the lab values; wait for the form.
+    if (analysisType === "lab") return
     // If crop type is required, we already have a default "tomato", so continue.
     startScan(newFile)
   }
 
-  function startScan(sourceFile: File) {
+  async function startScan(sourceFile: File | null, lab?: LabValues, acceptedIssues?: QualityIssue[]) {
     setScanning(true)
+    setStage(null)
     setProgress(0)
     setResult(null)
-    if (pendingScanRef.current) clearInterval(pendingScanRef.current)
-
-    // Simulate scanning progress
-    const start = Date.now()
-    pendingScanRef.current = setInterval(() => {
-      setProgress((prev) => {
-        // Smooth-ish progress until 100%
-        const delta = Math.random() * 6 + 2 // 2-8 per tick
-        const next = Math.min(prev + delta, 100)
-        if (next >= 100) {
-          if (pendingScanRef.current) {
-            clearInterval(pendingScanRef.current)
-            pendingScanRef.current = null
-          }
-          // After a brief pause, finalize result
-          setTimeout(() => {
-            const r = generateSampleResult(analysisType, cropType, sourceFile)
-            setResult(r)
-            setScanning(false)
-          }, 400)
-        }
-        return next
-      })
-    }, 120)
+    setError(null)
+    setSavedOffline(false)
+    setRejected(null)
+    abortRef.current?.abort()
+
+    const controller = new AbortController()
+    abortRef.current = controller
+    const scanId = ++scanIdRef.current
+
+    const scan: ScanRequest = { analysisType, cropType, image: sourceFile, lab }
+    const queueOffline = async (warnings: QualityIssue[]) => {
+      await offlineQueue.enqueue({ ...scan, plot: plotName.trim() || undefined, plotId, quality: warnings })
+      setSavedOffline(true)
+      setProgress(0)
+    }
+
+    try {
+      const outcome = await runScanInWorker(
+        { ...scan, acceptedIssues },
+        {
+          signal: controller.signal,
+          onStage: (s) => {
+            setStage(s)
+            setProgress(STAGE_PROGRESS[s])
+          },
+        },
+      )
+      if (outcome.type === "rejected") {
+        setRejected({ issues: outcome.issues, lab })
+        setProgress(0)
+      } else if (outcome.type === "offline") {
+        await queueOffline(outcome.warnings).catch(() =>
+          setError(t("scan.offlineSaveFailed")),
+        )
+      } else {
+        setProgress(100)
+        setResult(outcome.result)
+        const details = { analysisType, cropType, plot: plotName.trim() || undefined, plotId }
+        recordScan(sourceFile, outcome.result, details).then((rec) => {
+          if (scanIdRef.current === scanId) setRecord(rec)
+        })
+      }
+    } catch (err) {
+      if (controller.signal.aborted) return
+      if (err instanceof UnusableImageError) {
+        setError(t("scan.unusable", { reason: t(`unusable.${err.reason}`) }))
+      } else {
+        setError(err instanceof Error ? err.message : t("scan.failed"))
+      }
+      setProgress(0)
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null
+        setScanning(false)
+        setStage(null)
+      }
+    }
   }
 
-  function generateSampleResult(kind: AnalysisType, crop: CropType, f: File): AnalysisResult {
-    // Simple deterministic seed
-    const seed = (f.size % 97) + f.name.length * 7
-    const rand = (min: number, max: number) => {
-      const r = (Math.sin(seed + min + max) + 1) / 2
-      return Number((min + r * (max - min)).toFixed(1))
+  // Picking a plot fills in its crop and area for new scans; a reopened scan is re-filed under it.
+  function attachPlot(plot: Plot | undefined, land: Land) {
+    setPlotId(plot?.id)
+    // The label was the plot's name, so it goes with it
+    setPlotName(plot?.name ?? "")
+    setAttachFailed(false)
+    if (record) {
+      const scanId = scanIdRef.current
+      const updated = { ...record, plotId: plot?.id, plot: plot?.name }
+      setRecord(updated)
+      saveScan(updated).catch((err) => {
+        console.warn("Could not attach scan to plot", err)
+        if (scanIdRef.current !== scanId) return
+        setRecord(record)
+        setPlotId(record.plotId)
+        setPlotName(record.plot ?? "")
+        setAttachFailed(true)
+      })
+      return
     }
+    if (!plot) return
+    const { crop, area: plotHa } = effectiveDetails(plot, land)
+    if (crop) setCropType(crop)
+    if (plotHa) setArea(String(Math.round(convert(plotHa, "ha", areaUnit) * 100) / 100))
+  }
 
-    const status: Status = seed % 2 === 0 ? "Good" : "Bad"
-    const confidence = Math.min(99, Math.max(62, Math.round(rand(68, 95))))
-
-    if (kind === "soil") {
-      const ph = rand(5.5, 7.8)
-      const moisture = rand(18, 62)
-      const n = Math.round(rand(15, 80))
-      const p = Math.round(rand(10, 60))
-      const k = Math.round(rand(20, 90))
-
-      const notes =
-        status === "Good"
-          ? "Soil quality is suitable for most crops. Minor optimization may improve yield."
-          : "Soil shows suboptimal properties. Consider amending with organic matter and balanced NPK."
-
-      return {
-        status,
-        confidence,
-        notes,
-        metrics: {
-          pH: ph,
-          "Moisture (%)": moisture,
-          "Nitrogen (N)": n,
-          "Phosphorus (P)": p,
-          "Potassium (K)": k,
-        },
+  function clearRegions() {
+    setRegions([])
+    setRegionTool(null)
+    setZoneErrors([])
+  }
+
+  // Each region is cut out of the original photo and analyzed on its own; the zones are
+  // kept on the stored result so a reopened scan shows them again.
+  async function analyzeZones() {
+    if (!file || !result || regions.length === 0) return
+    const controller = new AbortController()
+    abortRef.current?.abort()
+    abortRef.current = controller
+    const scanId = scanIdRef.current
+    setZoning(true)
+    setRegionTool(null)
+    setZoneErrors([])
+    try {
+      const kind = analysisType === "crop" ? "crop" : "soil"
+      const { zones, errors } = await analyzeRegions(file, regions, { kind, crop: cropType }, controller.signal)
+      if (controller.signal.aborted || scanIdRef.current !== scanId) return
+      const updated = { ...result, zones }
+      setResult(updated)
+      setZoneErrors(errors)
+      if (record) {
+        const saved = { ...record, result: updated }
+        setRecord(saved)
+        await saveScan(saved).catch((err) => console.warn("Could not save zones to history", err))
       }
-    } else {
-      const healthIdx = rand(35, 95)
-      const diseaseRisk =
-        status === "Good" ? (healthIdx > 80 ? "Low" : "Moderate") : healthIdx < 55 ? "High" : "Moderate"
-      const moisture = rand(30, 70)
-
-      const cropLabel = crop.charAt(0).toUpperCase() + crop.slice(1)
-      const notes =
-        status === "Good"
-          ? `${cropLabel} crop appears healthy. Maintain current care routine.`
-          : `${cropLabel} crop shows stress indicators. Inspect leaves and adjust watering/fertilization.`
-
-      return {
-        status,
-        confidence,
-        notes,
-        metrics: {
-          "Health Index": healthIdx,
-          "Disease Risk": diseaseRisk,
-          "Leaf/Soil Moisture (%)": moisture,
-          Crop: cropLabel,
-        },
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null
+        setZoning(false)
       }
     }
   }
 
-  const statusColor = useMemo(
-    () =>
-      result?.status === "Good"
-        ? "text-emerald-700 bg-emerald-50 border-emerald-200"
-        : "text-red-700 bg-red-50 border-red-200",
-    [result?.status],
+  const shownPreview = previewUrl ?? (record?.thumbnail || null)
+  // Regions are drawn on a letterboxed photo, so the cropped preview and heatmap give way to it.
+  const showRegions = !!shownPreview && !scanning && (regionTool !== null || regions.length > 0)
+  const zoneStatuses = Object.fromEntries(result?.zones?.map((z) => [z.region.id, z.result.status]) ?? [])
+
+  const failedChecks = useMemo(
+    () => new Map(result?.evaluation?.checks.filter((c) => !c.passed).map((c) => [c.metric, c])),
+    [result?.evaluation],
   )
-  const statusIcon =
-    result?.status === "Good" ? (
-      <CheckCircle2 className="h-4 w-4 text-emerald-600" aria-hidden />
-    ) : (
-      <AlertTriangle className="h-4 w-4 text-red-600" aria-hidden />
-    )
 
   return (
     <main className="min-h-[100dvh] bg-white">
@@ -208,52 +345,123 @@ export default function Page() {
               <Scan className="h-5 w-5 text-emerald-700" />
             </div>
             <h1 className="text-xl font-semibold tracking-tight md:text-2xl">AgriScan</h1>
+            <SyncStatus
+              state={offlineQueue.state}
+              count={offlineQueue.queued.length}
+              onSync={() => void offlineQueue.sync()}
+            />
+            <Button asChild variant="ghost" size="sm" className="ml-auto">
+              <Link href="/batch">
+                <Layers className="h-4 w-4" /> {t("nav.batch")}
+              </Link>
+            </Button>
+            <Button asChild variant="ghost" size="sm">
+              <Link href="/history">
+                <History className="h-4 w-4" /> {t("nav.history")}
+              </Link>
+            </Button>
+            <Button asChild variant="ghost" size="sm">
+              <Link href="/farms">
+                <Tractor className="h-4 w-4" /> {t("nav.farms")}
+              </Link>
+            </Button>
+            <LanguageSwitcher />
           </div>
-          <p className="mt-2 text-sm text-muted-foreground">
-            Analyze soil or crop images. Choose a category, upload an image, and view a quick simulated assessment.
-          </p>
+          <p className="mt-2 text-sm text-muted-foreground">{t("app.tagline")}</p>
+          {offlineQueue.queued.length > 0 && (
+            <div className="mt-4">
+              <QueuedScanList
+                queued={offlineQueue.queued}
+                syncing={offlineQueue.state === "syncing"}
+                onSync={() => void offlineQueue.sync()}
+                onDiscard={(id) => offlineQueue.discard(id).catch(() => setError(t("queue.discardFailed")))}
+              />
+            </div>
+          )}
         </header>
 
         <div className="grid gap-6 md:grid-cols-5">
           {/* Controls */}
           <Card className="md:col-span-2">
             <CardHeader className="space-y-1">
-              <CardTitle>Setup</CardTitle>
-              <CardDescription>Choose what to analyze and upload an image.</CardDescription>
+              <CardTitle>{t("setup.title")}</CardTitle>
+              <CardDescription>{t("setup.description")}</CardDescription>
             </CardHeader>
             <CardContent className="space-y-5">
               <div className="grid gap-2">
-                <Label htmlFor="analysis-type">Analysis Type</Label>
-                <Select defaultValue={analysisType} onValueChange={(v) => setAnalysisType(v as AnalysisType)}>
+                <Label htmlFor="analysis-type">{t("setup.analysisType")}</Label>
+                <Select value={analysisType} onValueChange={(v) => setAnalysisType(v as AnalysisType)}>
                   <SelectTrigger id="analysis-type" className="w-full">
-                    <SelectValue placeholder="Select type" />
+                    <SelectValue placeholder={t("setup.selectType")} />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="soil">Soil</SelectItem>
-                    <SelectItem value="crop">Crop</SelectItem>
+                    <SelectItem value="soil">{t("analysis.soil")}</SelectItem>
+                    <SelectItem value="crop">{t("analysis.crop")}</SelectItem>
+                    <SelectItem value="lab">{t("analysis.lab")}</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
 
-              {analysisType === "crop" && (
+              <div className="grid gap-2">
+                <Label htmlFor="crop-type">{analysisType === "crop" ? t("setup.crop") : t("setup.targetCrop")}</Label>
+                <Select value={cropType} onValueChange={(v) => setCropType(v as CropType)}>
+                  <SelectTrigger id="crop-type" className="w-full">
+                    <SelectValue placeholder={t("setup.selectCrop")} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CROP_TYPES.map((id) => (
+                      <SelectItem key={id} value={id}>
+                        {i18n.crop(id)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <PlotPicker value={plotId} onChange={attachPlot} />
+              {attachFailed && <p className="-mt-2 text-xs text-red-700">{t("scan.attachFailed")}</p>}
+
+              <div className="grid gap-2">
+                <Label htmlFor="plot-name">{t("setup.plot")}</Label>
+                <Input
+                  id="plot-name"
+                  placeholder={t("setup.plotPlaceholder")}
+                  value={plotName}
+                  disabled={!!plotId}
+                  onChange={(e) => setPlotName(e.target.value)}
+                />
+              </div>
+
+              {analysisType !== "crop" && (
+                <div className="grid gap-2">
+                  <Label htmlFor="field-area">{t("setup.area", { unit: areaUnit })}</Label>
+                  <Input
+                    id="field-area"
+                    type="number"
+                    inputMode="decimal"
+                    min={0}
+                    step={0.1}
+                    value={area}
+                    onChange={(e) => setArea(e.target.value)}
+                  />
+                </div>
+              )}
+
+              {analysisType !== "crop" && <UnitSettings />}
+
+              {analysisType === "lab" && (
                 <div className="grid gap-2">
-                  <Label htmlFor="crop-type">Crop</Label>
-                  <Select defaultValue={cropType} onValueChange={(v) => setCropType(v as CropType)}>
-                    <SelectTrigger id="crop-type" className="w-full">
-                      <SelectValue placeholder="Select crop" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="tomato">Tomato</SelectItem>
-                      <SelectItem value="yam">Yam</SelectItem>
-                      <SelectItem value="potato">Potato</SelectItem>
-                      <SelectItem value="onions">Onions</SelectItem>
-                    </SelectContent>
-                  </Select>
+                  <Label>{t("setup.labResults")}</Label>
+                  <LabForm
+                    onSubmit={(values) => startScan(file, values)}
+                    disabled={scanning}
+                    submitLabel={file ? t("setup.evaluateWithPhoto") : t("setup.evaluate")}
+                  />
                 </div>
               )}
 
               <div className="grid gap-2">
-                <Label>Image</Label>
+                <Label>{analysisType === "lab" ? t("setup.soilPhoto") : t("setup.image")}</Label>
                 <label
                   onDragOver={(e) => {
                     e.preventDefault()
@@ -273,37 +481,45 @@ export default function Page() {
                     type="file"
                     accept="image/*"
                     onChange={onBrowseChange}
-                    aria-label="Upload image for analysis"
+                    aria-label={t("upload.aria")}
                     className="sr-only"
                   />
                   <div className="flex h-10 w-10 items-center justify-center rounded-md bg-emerald-100">
                     <Upload className="h-5 w-5 text-emerald-700" aria-hidden />
                   </div>
                   <div className="space-y-1">
-                    <p className="text-sm font-medium">{file ? "Replace image" : "Drag & drop or click to upload"}</p>
-                    <p className="text-xs text-muted-foreground">JPG, PNG up to ~10MB</p>
+                    <p className="text-sm font-medium">{file ? t("upload.replace") : t("upload.prompt")}</p>
+                    <p className="text-xs text-muted-foreground">{t("upload.limits")}</p>
                   </div>
                 </label>
+                <Button variant="outline" onClick={() => setCameraOn((on) => !on)} disabled={scanning}>
+                  <Camera className="h-4 w-4" /> {cameraOn ? t("camera.close") : t("camera.open")}
+                </Button>
                 {!!file && (
                   <div className="text-xs text-muted-foreground">
-                    Selected: <span className="font-medium text-foreground">{file.name}</span>{" "}
-                    <span>({formatBytes(file.size)})</span>
+                    {t("upload.selected")} <span className="font-medium text-foreground">{file.name}</span>{" "}
+                    <span>({formatBytes(file.size, i18n.locale)})</span>
                   </div>
                 )}
               </div>
 
               <div className="flex items-center gap-2">
-                <Button variant="outline" onClick={() => resetAnalysis()} disabled={!file && !result && !scanning}>
-                  Reset
+                <Button
+                  variant="outline"
+                  onClick={() => resetAnalysis()}
+                  disabled={!file && !result && !scanning && !error}
+                >
+                  {t("setup.reset")}
                 </Button>
-                {analysisType === "soil" ? (
+                {analysisType !== "crop" ? (
                   <div className="inline-flex items-center gap-1 text-xs text-muted-foreground">
-                    <Leaf className="h-3.5 w-3.5" /> Soil mode
+                    <Leaf className="h-3.5 w-3.5" /> {t("setup.soilFor")}{" "}
+                    <span className="font-medium text-foreground">{i18n.crop(cropType)}</span>
                   </div>
                 ) : (
                   <div className="inline-flex items-center gap-1 text-xs text-muted-foreground">
-                    <Sprout className="h-3.5 w-3.5" /> Crop:{" "}
-                    <span className="font-medium text-foreground capitalize">{cropType}</span>
+                    <Sprout className="h-3.5 w-3.5" /> {t("setup.cropIs")}{" "}
+                    <span className="font-medium text-foreground">{i18n.crop(cropType)}</span>
                   </div>
                 )}
               </div>
@@ -313,19 +529,44 @@ export default function Page() {
           {/* Preview + Scan + Result */}
           <Card className="md:col-span-3">
             <CardHeader className="space-y-1">
-              <CardTitle>Preview & Analysis</CardTitle>
-              <CardDescription>Scanning starts automatically after upload.</CardDescription>
+              <CardTitle>{t("preview.title")}</CardTitle>
+              <CardDescription>
+                {analysisType === "lab" ? t("preview.labHint") : t("preview.autoHint")}
+              </CardDescription>
             </CardHeader>
             <CardContent className="space-y-5">
               <div className="relative overflow-hidden rounded-lg border">
                 <div className="relative aspect-video bg-muted">
-                  {previewUrl ? (
+                  {cameraOn ? (
+                    <CameraCapture
+                      kind={analysisType === "crop" ? "crop" : "soil"}
+                      onCapture={(photo) => {
+                        setCameraOn(false)
+                        handleFile(photo)
+                      }}
+                      onClose={() => setCameraOn(false)}
+                    />
+                  ) : showRegions ? (
+                    <RegionEditor
+                      src={shownPreview!}
+                      alt={t("preview.regionsAlt")}
+                      regions={regions}
+                      statuses={zoneStatuses}
+                      tool={regionTool}
+                      nextLabel={t("regions.zone", { n: regions.length + 1 })}
+                      onAdd={(region) => setRegions((prev) => [...prev, region])}
+                    />
+                  ) : shownPreview ? (
                     <>
                       <img
-                        src={previewUrl || "/placeholder.svg"}
-                        alt="Uploaded image preview"
+                        src={shownPreview}
+                        alt={t("preview.alt")}
                         className="absolute inset-0 h-full w-full object-cover"
                       />
+                      {/* Vegetation health overlay */}
+                      {result?.heatmap && showHeatmap && (
+                        <HealthHeatmap heatmap={result.heatmap} className="pointer-events-none absolute inset-0" />
+                      )}
                       {/* Scanner overlay */}
                       {(scanning || progress > 0) && (
                         <div aria-hidden className="pointer-events-none absolute inset-0">
@@ -338,7 +579,7 @@ export default function Page() {
                               style={{
                                 top: `${Math.min(progress, 98)}%`,
                                 transform: "translateY(-100%)",
-                                transition: "top 120ms linear",
+                                transition: "top 300ms ease-out",
                               }}
                             />
                           )}
@@ -357,7 +598,7 @@ export default function Page() {
                   ) : (
                     <img
                       src="/agriculture-analysis-placeholder.png"
-                      alt="Placeholder"
+                      alt={t("preview.placeholderAlt")}
                       className="absolute inset-0 h-full w-full object-cover"
                     />
                   )}
@@ -370,7 +611,7 @@ export default function Page() {
                       <div className="flex items-center justify-between gap-3">
                         <div className="inline-flex items-center gap-2 text-sm">
                           <Scan className="h-4 w-4 text-emerald-600" />
-                          <span className="font-medium">Scanning...</span>
+                          <span className="font-medium">{stage ? t(`scan.stage.${stage}`) : t("scan.scanning")}</span>
                         </div>
                         <span className="text-xs tabular-nums text-muted-foreground">{Math.round(progress)}%</span>
                       </div>
@@ -383,62 +624,242 @@ export default function Page() {
                     </div>
                   ) : result ? (
                     <div
-                      className={cn("flex items-center justify-between gap-3 rounded-md border px-3 py-2", statusColor)}
+                      className={cn(
+                        "flex items-center justify-between gap-3 rounded-md border px-3 py-2",
+                        STATUS_TONES[result.status].banner,
+                      )}
                     >
                       <div className="inline-flex items-center gap-2">
-                        {statusIcon}
+                        <StatusIcon status={result.status} />
                         <span className="text-sm font-medium">
-                          {analysisType === "soil"
-                            ? `Soil status: ${result.status}`
-                            : `${capitalize(cropType)} crop status: ${result.status}`}
+                          {analysisType === "crop"
+                            ? t("result.cropStatus", { crop: i18n.crop(cropType), status: i18n.status(result.status) })
+                            : t("result.soilStatus", { status: i18n.status(result.status) })}
                         </span>
                       </div>
-                      <span className="text-xs text-muted-foreground">Confidence: {result.confidence}%</span>
+                      <span className="text-xs text-muted-foreground">
+                        {t("result.confidence", { value: result.confidence })}
+                      </span>
+                    </div>
+                  ) : rejected ? (
+                    <QualityIssues issues={rejected.issues}>
+                      <div>
+                        <Button size="sm" variant="outline" onClick={() => startScan(file, rejected.lab, rejected.issues)}>
+                          {t("scan.analyzeAnyway")}
+                        </Button>
+                      </div>
+                    </QualityIssues>
+                  ) : savedOffline ? (
+                    <div className="flex items-center gap-2 rounded-md border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-800">
+                      <CloudOff className="h-4 w-4 text-amber-600" aria-hidden />
+                      <span>{t("scan.savedOffline")}</span>
+                    </div>
+                  ) : error ? (
+                    <div className="flex items-center gap-2 rounded-md border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+                      <AlertTriangle className="h-4 w-4 text-red-600" aria-hidden />
+                      <span>{error}</span>
                     </div>
                   ) : (
-                    <div className="text-sm text-muted-foreground">Upload an image to begin scanning.</div>
+                    <div className="text-sm text-muted-foreground">
+                      {analysisType === "lab" ? t("preview.emptyLab") : t("preview.emptyImage")}
+                    </div>
                   )}
                 </div>
               </div>
 
+              {result && (file || regions.length > 0) && analysisType !== "lab" && (
+                <div className="grid gap-2">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <div className="inline-flex items-center gap-1 text-sm font-medium">
+                      <Shapes className="h-4 w-4 text-emerald-600" /> {t("regions.title")}
+                    </div>
+                    {file && (
+                      <>
+                        <Button
+                          size="sm"
+                          variant={regionTool === "rect" ? "default" : "outline"}
+                          onClick={() => setRegionTool((tool) => (tool === "rect" ? null : "rect"))}
+                          disabled={zoning}
+                        >
+                          <Square className="h-3.5 w-3.5" /> {t("regions.rect")}
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant={regionTool === "polygon" ? "default" : "outline"}
+                          onClick={() => setRegionTool((tool) => (tool === "polygon" ? null : "polygon"))}
+                          disabled={zoning}
+                        >
+                          <Pentagon className="h-3.5 w-3.5" /> {t("regions.polygon")}
+                        </Button>
+                        <Button
+                          size="sm"
+                          className="ml-auto"
+                          onClick={() => void analyzeZones()}
+                          disabled={zoning || regions.length === 0}
+                        >
+                          {zoning
+                            ? t("regions.analyzing")
+                            : regions.length === 1
+                              ? t("regions.analyzeOne")
+                              : t("regions.analyzeMany", { count: regions.length })}
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                  {regionTool && (
+                    <p className="text-xs text-muted-foreground">
+                      {regionTool === "rect" ? t("regions.rectHint") : t("regions.polygonHint")}
+                    </p>
+                  )}
+                  {regions.length > 0 && (
+                    <div className="flex flex-wrap gap-1.5">
+                      {regions.map((region) => (
+                        <span
+                          key={region.id}
+                          className="inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs"
+                        >
+                          {region.label}
+                          {file && !zoning && (
+                            <button
+                              type="button"
+                              aria-label={t("regions.remove", { label: region.label })}
+                              onClick={() => setRegions((prev) => prev.filter((r) => r.id !== region.id))}
+                              className="text-muted-foreground hover:text-foreground"
+                            >
+                              <X className="h-3 w-3" />
+                            </button>
+                          )}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                  {zoneErrors.map((err, i) => (
+                    <p key={i} className="text-xs text-red-700">
+                      {i18n.text(err, err.key)}
+                    </p>
+                  ))}
+                  {!!result.zones?.length && (
+                    <ZoneList
+                      zones={result.zones.filter((z) => regions.some((r) => r.id === z.region.id))}
+                      metrics={KEY_METRICS[analysisType === "crop" ? "crop" : "soil"]}
+                    />
+                  )}
+                </div>
+              )}
+
+              {result?.quality && <QualityIssues issues={result.quality} />}
+
               {/* Sample data */}
               {result && (
                 <div className="grid gap-3">
-                  <div className="text-sm font-medium">Sample data</div>
+                  <div className="flex items-center justify-between gap-3">
+                    <div className="text-sm font-medium">{t("result.sampleData")}</div>
+                    {record && <ExportActions scans={[record]} areaHa={areaHa} />}
+                  </div>
                   <div className="grid gap-2 rounded-lg border p-4">
                     <div className="grid grid-cols-2 gap-2 text-sm sm:grid-cols-3 lg:grid-cols-4">
-                      {Object.entries(result.metrics).map(([k, v]) => (
-                        <div
-                          key={k}
-                          className="flex items-center justify-between gap-2 rounded-md bg-muted/60 px-3 py-2"
-                        >
-                          <span className="text-muted-foreground">{k}</span>
-                          <span className="font-medium text-foreground">
-                            {typeof v === "number" ? formatNumber(v) : v}
-                          </span>
-                        </div>
-                      ))}
+                      {Object.entries(result.metrics).map(([k, v]) => {
+                        const failed = failedChecks.get(k)
+                        return (
+                          <div
+                            key={k}
+                            title={failed ? t("result.target", bandParams(failed, failed.unit, i18n.units)) : undefined}
+                            className={cn(
+                              "flex items-center justify-between gap-2 rounded-md bg-muted/60 px-3 py-2",
+                              failed && cn("border", STATUS_TONES[failed.grade].banner),
+                            )}
+                          >
+                            <span className={cn(!failed && "text-muted-foreground")}>{i18n.metric(k)}</span>
+                            <span className="font-medium">{i18n.value(v)}</span>
+                          </div>
+                        )
+                      })}
                       <div className="flex items-center justify-between gap-2 rounded-md bg-muted/60 px-3 py-2">
-                        <span className="text-muted-foreground">Status</span>
-                        <span
-                          className={cn(
-                            "inline-flex items-center gap-1 rounded px-1.5 py-0.5 text-xs font-semibold",
-                            result.status === "Good" ? "bg-emerald-100 text-emerald-700" : "bg-red-100 text-red-700",
-                          )}
-                        >
-                          {result.status === "Good" ? (
-                            <CheckCircle2 className="h-3.5 w-3.5" />
-                          ) : (
-                            <AlertTriangle className="h-3.5 w-3.5" />
-                          )}
-                          {result.status}
-                        </span>
+                        <span className="text-muted-foreground">{t("result.status")}</span>
+                        <StatusBadge status={result.status} />
                       </div>
                     </div>
-                    <p className="text-sm text-muted-foreground">{result.notes}</p>
+                    {!!result.evaluation?.fired.length && (
+                      <ul className="grid gap-1 text-sm">
+                        {result.evaluation.fired.map((f) => (
+                          <li key={f.rule} className="flex items-start gap-2">
+                            <StatusIcon status={f.grade} className="mt-0.5 shrink-0" />
+                            <span>{i18n.text(f.messageText, f.message)}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    <p className="text-sm text-muted-foreground">{i18n.notes(result)}</p>
+                    {result.confidenceFactors && (
+                      <ConfidenceBreakdown confidence={result.confidence} factors={result.confidenceFactors} />
+                    )}
+                    {result.heatmap && (
+                      <div className="flex items-center justify-between gap-3">
+                        <HeatmapLegend />
+                        <Button variant="ghost" size="sm" onClick={() => setShowHeatmap((v) => !v)}>
+                          <Layers className="h-3.5 w-3.5" />
+                          {showHeatmap ? t("result.hideHeatmap") : t("result.showHeatmap")}
+                        </Button>
+                      </div>
+                    )}
                   </div>
+                  {result.conditions && (
+                    <div className="grid gap-2">
+                      <div className="flex items-baseline justify-between gap-3">
+                        <div className="text-sm font-medium">{t("result.conditions")}</div>
+                        <span className="text-xs text-muted-foreground">
+                          {t("result.confidence", { value: result.confidence })}
+                        </span>
+                      </div>
+                      <ConditionList conditions={result.conditions} crop={cropType} />
+                    </div>
+                  )}
+                  {result.recommendations && (
+                    <div className="grid gap-2">
+                      <div className="text-sm font-medium">{t("result.recommendations")}</div>
+                      <RecommendationList
+                        recommendations={result.recommendations}
+                        areaHa={areaHa}
+                      />
+                    </div>
+                  )}
+                  {analysisType !== "crop" && (
+                    <div className="grid gap-2">
+                      <div className="flex items-center justify-between gap-3">
+                        <div className="text-sm font-medium">{t("result.suitability")}</div>
+                        <Button variant="ghost" size="sm" onClick={() => setShowSuitability((v) => !v)}>
+                          <Sprout className="h-3.5 w-3.5" />
+                          {showSuitability ? t("result.hideSuitability") : t("result.showSuitability")}
+                        </Button>
+                      </div>
+                      {showSuitability && (
+                        <>
+                          <p className="text-xs text-muted-foreground">{t("suitability.description")}</p>
+                          <SuitabilityList metrics={result.metrics} />
+                        </>
+                      )}
+                    </div>
+                  )}
+                  {(record?.capturedAt || record?.location) && (
+                    <div className="inline-flex items-center gap-1 text-xs text-muted-foreground">
+                      <MapPin className="h-3.5 w-3.5" />
+                      {record.capturedAt && (
+                        <span>
+                          {t("result.taken", { time: new Date(record.capturedAt).toLocaleString(i18n.locale) })}
+                        </span>
+                      )}
+                      {record.location && (
+                        <span>
+                          {record.capturedAt && " · "}
+                          {record.location.latitude.toFixed(5)}, {record.location.longitude.toFixed(5)}
+                        </span>
+                      )}
+                    </div>
+                  )}
                   <p className="text-xs text-muted-foreground">
-                    This is a simulated demo. Integrate a real model or rules engine to power production analysis.
+                    {result.analyzer === "mock"
+                      ? t("result.mockAnalyzer")
+                      : result.analyzer && t("result.analyzer", { analyzer: result.analyzer })}
                   </p>
                 </div>
               )}
@@ -450,18 +871,15 @@ export default function Page() {
   )
 }
 
-function formatBytes(bytes: number): string {
-  if (bytes === 0) return "0 B"
-  const k = 1024
-  const sizes = ["B", "KB", "MB", "GB"]
-  const i = Math.floor(Math.log(bytes) / Math.log(k))
-  return `${(bytes / Math.pow(k, i)).toFixed(1)} ${sizes[i]}`
-}
-
-function formatNumber(n: number): string {
-  return Number.isInteger(n) ? `${n}` : n.toFixed(1)
-}
-
-function capitalize<T extends string>(s: T): T {
-  return (s.charAt(0).toUpperCase() + s.slice(1)) as T
+const BYTE_UNITS = ["byte", "kilobyte", "megabyte", "gigabyte"]
+
+// "1.5 MB", with the number and unit written the locale's way
+function formatBytes(bytes: number, locale: Locale): string {
+  const i = bytes === 0 ? 0 : Math.min(BYTE_UNITS.length - 1, Math.floor(Math.log(bytes) / Math.log(1024)))
+  return new Intl.NumberFormat(locale, {
+    style: "unit",
+    unit: BYTE_UNITS[i],
+    unitDisplay: "short",
+    maximumFractionDigits: i === 0 ? 0 : 1,
+  }).format(bytes / 1024 ** i)
 }
@@ -0,0 +1,389 @@
+"use client"
+
+import type React from "react"
+
+import { useEffect, useMemo, useState } from "react"
+import Link from "next/link"
+import { ArrowLeft, LineChart, Scan, Tractor } from "lucide-react"
+import { useI18n } from "@/components/i18n-provider"
+import { MetricTrendChart } from "@/components/metric-trend-chart"
+import { RecommendationList } from "@/components/recommendation-list"
+import { StatusBadge } from "@/components/status-badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { listScans, type ScanRecord } from "@/lib/history"
+import { bandParams, localized } from "@/lib/i18n"
+import {
+  effectiveDetails,
+  latestByType,
+  listLand,
+  openRecommendations,
+  plotPath,
+  plotScans,
+  saveLand,
+  type Land,
+  type Plot,
+} from "@/lib/land"
+import { buildPlotTrends, buildTrends, listPlots, scanTime, type PlotTrends } from "@/lib/trends"
+import { ANALYSIS_TYPES } from "@/lib/types"
+import { preferredUnit } from "@/lib/units"
+
+// "1 scan", "3 scans"
+function scanCount(t: ReturnType<typeof useI18n>["t"], count: number): string {
+  return count === 1 ? t("land.scanOne") : t("land.scanMany", { count })
+}
+
+export default function PlotPage() {
+  const { t, crop, locale } = useI18n()
+  const [scans, setScans] = useState<ScanRecord[] | null>(null)
+  const [land, setLand] = useState<Land | null>(null)
+  const [plot, setPlot] = useState<string | null>(null)
+  const [plotId, setPlotId] = useState<string | null>(null)
+
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search)
+    setPlot(params.get("name"))
+    setPlotId(params.get("id"))
+    listScans()
+      .then(setScans)
+      .catch(() => setScans([]))
+    listLand()
+      .then(setLand)
+      .catch(() => setLand({ farms: [], fields: [], plots: [] }))
+  }, [])
+
+  const plots = useMemo(() => listPlots(scans ?? []), [scans])
+  const trends = useMemo(() => (scans && plot ? buildPlotTrends(scans, plot) : undefined), [scans, plot])
+  const latest = trends?.scans[trends.scans.length - 1]
+  const managed = land?.plots.find((p) => p.id === plotId)
+
+  if (plotId) {
+    return !scans || !land ? (
+      <PlotShell title={t("plot.title")}>
+        <p className="text-sm text-muted-foreground">{t("page.loading")}</p>
+      </PlotShell>
+    ) : managed ? (
+      <ManagedPlot
+        plot={managed}
+        land={land}
+        scans={scans}
+        onChange={(next) => setLand({ ...land, plots: land.plots.map((p) => (p.id === next.id ? next : p)) })}
+      />
+    ) : (
+      <PlotShell title={t("plot.title")}>
+        <p className="text-sm text-red-700">{t("plot.missing")}</p>
+      </PlotShell>
+    )
+  }
+
+  return (
+    <PlotShell
+      title={plot || t("plot.trendsTitle")}
+      status={latest && <StatusBadge status={latest.result.status} />}
+      description={
+        trends
+          ? t("plot.trends", { scans: scanCount(t, trends.scans.length), crop: crop(trends.crop) })
+          : t("plot.intro")
+      }
+    >
+      {!scans ? (
+        <p className="text-sm text-muted-foreground">{t("page.loading")}</p>
+      ) : trends ? (
+        <TrendCards trends={trends} />
+      ) : plots.length === 0 && !land?.plots.length ? (
+        <p className="text-sm text-muted-foreground">{t("plot.none")}</p>
+      ) : (
+        <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+          {plot && <p className="text-sm text-red-700 sm:col-span-2 lg:col-span-3">{t("plot.notFound", { plot })}</p>}
+          {land?.plots.map((p) => {
+            const own = plotScans(scans, p.id)
+            return (
+              <Link
+                key={p.id}
+                href={`/plot?id=${p.id}`}
+                className="rounded-lg border p-4 transition-colors hover:bg-muted/50"
+              >
+                <div className="font-medium">{plotPath(p, land)}</div>
+                <div className="text-sm text-muted-foreground">
+                  {scanCount(t, own.length)}
+                  {own[0] &&
+                    ` · ${t("plot.last", { date: new Date(scanTime(own[0])).toLocaleDateString(locale) })}`}
+                </div>
+              </Link>
+            )
+          })}
+          {plots.map((p) => (
+            <Link
+              key={p.plot}
+              href={`/plot?name=${encodeURIComponent(p.plot)}`}
+              onClick={() => setPlot(p.plot)}
+              className="rounded-lg border p-4 transition-colors hover:bg-muted/50"
+            >
+              <div className="font-medium">{p.plot}</div>
+              <div className="text-sm text-muted-foreground">
+                {scanCount(t, p.count)} · {t("plot.last", { date: new Date(p.last).toLocaleDateString(locale) })}
+              </div>
+            </Link>
+          ))}
+        </div>
+      )}
+
+      {trends && <StatusChanges trends={trends} />}
+    </PlotShell>
+  )
+}
+
+// A managed plot: its details, latest status per analysis type, the recommendations still to
+// act on, trends and every scan attached to it.
+function ManagedPlot({
+  plot,
+  land,
+  scans,
+  onChange,
+}: {
+  plot: Plot
+  land: Land
+  scans: ScanRecord[]
+  onChange: (plot: Plot) => void
+}) {
+  const i18n = useI18n()
+  const { t, locale } = i18n
+  const [saveError, setSaveError] = useState<string | null>(null)
+  const own = useMemo(() => plotScans(scans, plot.id), [scans, plot.id])
+  const trends = useMemo(() => buildTrends(plot.name, own), [plot.name, own])
+  const latest = latestByType(own)
+  const open = openRecommendations(plot, own)
+  const source = open[0]?.scan
+  const details = effectiveDetails(plot, land)
+  const path = plotPath(plot, land).split(" › ").slice(0, -1).join(" › ")
+
+  // Hidden at once; shown again if the plot cannot be saved.
+  function markDone(key: string) {
+    const next = { ...plot, done: [...(plot.done ?? []), key] }
+    onChange(next)
+    setSaveError(null)
+    saveLand(next).catch((err) => {
+      console.warn("Could not save plot", err)
+      onChange(plot)
+      setSaveError(t("farms.saveFailed", { name: plot.name }))
+    })
+  }
+
+  return (
+    <PlotShell
+      title={plot.name}
+      status={own[0] && <StatusBadge status={own[0].result.status} />}
+      description={path}
+      back={
+        <Button asChild variant="ghost" size="sm" className="ml-auto">
+          <Link href="/farms">
+            <Tractor className="h-4 w-4" /> {t("nav.farms")}
+          </Link>
+        </Button>
+      }
+    >
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">{t("plot.title")}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <dl className="grid grid-cols-2 gap-x-3 gap-y-1 text-sm">
+              <dt className="text-muted-foreground">{t("plot.area")}</dt>
+              <dd>{details.area ? i18n.quantity({ value: details.area, unit: "ha" }) : "—"}</dd>
+              <dt className="text-muted-foreground">{t("land.soilType")}</dt>
+              <dd>{details.soilType ? t(`soil.${details.soilType}`) : "—"}</dd>
+              <dt className="text-muted-foreground">{t("land.crop")}</dt>
+              <dd>{details.crop ? i18n.crop(details.crop) : "—"}</dd>
+              <dt className="text-muted-foreground">{t("plot.scans")}</dt>
+              <dd>{own.length}</dd>
+            </dl>
+          </CardContent>
+        </Card>
+
+        <Card className="md:col-span-2">
+          <CardHeader>
+            <CardTitle className="text-base">{t("plot.latest")}</CardTitle>
+            <CardDescription>{t("plot.latestDescription")}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {own.length === 0 ? (
+              <p className="text-sm text-muted-foreground">{t("plot.noScansAttach")}</p>
+            ) : (
+              <ul className="grid gap-3">
+                {ANALYSIS_TYPES.map((type) => {
+                  const scan = latest[type]
+                  if (!scan) return null
+                  return (
+                    <li key={type} className="grid gap-1 text-sm">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">{t(`analysis.${type}`)}</span>
+                        <StatusBadge status={scan.result.status} />
+                        <Link href={`/?scan=${scan.id}`} className="ml-auto text-muted-foreground hover:underline">
+                          {new Date(scanTime(scan)).toLocaleDateString(locale)}
+                        </Link>
+                      </div>
+                      <p className="text-muted-foreground">{i18n.notes(scan.result)}</p>
+                    </li>
+                  )
+                })}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="mt-4">
+        <CardHeader>
+          <CardTitle className="text-base">{t("plot.open")}</CardTitle>
+          <CardDescription>
+            {source
+              ? t("plot.openFrom", {
+                  type: localized(`analysis.${source.analysisType}`),
+                  date: new Date(scanTime(source)).toLocaleDateString(locale),
+                })
+              : t("plot.nothingOpen")}
+          </CardDescription>
+          {saveError && <p className="text-sm text-red-700">{saveError}</p>}
+        </CardHeader>
+        {open.length > 0 && (
+          <CardContent>
+            <RecommendationList
+              recommendations={open.map((r) => r.recommendation)}
+              areaHa={details.area ?? 0}
+              onDone={(rec) => markDone(open.find((r) => r.recommendation === rec)!.key)}
+            />
+          </CardContent>
+        )}
+      </Card>
+
+      {trends && (
+        <div className="mt-4">
+          <TrendCards trends={trends} />
+          <StatusChanges trends={trends} />
+        </div>
+      )}
+
+      <Card className="mt-4">
+        <CardHeader>
+          <CardTitle className="text-base">{t("plot.history")}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {own.length === 0 ? (
+            <p className="text-sm text-muted-foreground">{t("plot.noScans")}</p>
+          ) : (
+            <ul className="divide-y text-sm">
+              {own.map((scan) => (
+                <li key={scan.id}>
+                  <Link href={`/?scan=${scan.id}`} className="flex items-center gap-3 py-2 hover:bg-muted/50">
+                    <span className="w-28 shrink-0 text-muted-foreground">
+                      {new Date(scanTime(scan)).toLocaleDateString(locale)}
+                    </span>
+                    <span className="flex-1 truncate">
+                      {t(`analysis.${scan.analysisType}`)} · {i18n.crop(scan.cropType)} · {scan.fileName}
+                    </span>
+                    <span className="tabular-nums text-muted-foreground">{scan.result.confidence}%</span>
+                    <StatusBadge status={scan.result.status} />
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </PlotShell>
+  )
+}
+
+function PlotShell({
+  title,
+  status,
+  description,
+  back,
+  children,
+}: {
+  title: string
+  status?: React.ReactNode
+  description?: string
+  back?: React.ReactNode
+  children: React.ReactNode
+}) {
+  const { t } = useI18n()
+  return (
+    <main className="min-h-[100dvh] bg-white">
+      <div className="mx-auto w-full max-w-6xl px-4 py-8 md:py-10">
+        <header className="mb-6 md:mb-8">
+          <div className="flex items-center gap-2">
+            <div className="inline-flex h-9 w-9 items-center justify-center rounded-lg bg-emerald-100">
+              <LineChart className="h-5 w-5 text-emerald-700" />
+            </div>
+            <h1 className="truncate text-xl font-semibold tracking-tight md:text-2xl">{title}</h1>
+            {status}
+            {back ?? (
+              <Button asChild variant="ghost" size="sm" className="ml-auto">
+                <Link href="/history">
+                  <ArrowLeft className="h-4 w-4" /> {t("nav.history")}
+                </Link>
+              </Button>
+            )}
+            <Button asChild variant="ghost" size="sm">
+              <Link href="/">
+                <Scan className="h-4 w-4" /> {t("nav.newScan")}
+              </Link>
+            </Button>
+          </div>
+          {description && <p className="mt-2 text-sm text-muted-foreground">{description}</p>}
+        </header>
+        {children}
+      </div>
+    </main>
+  )
+}
+
+function TrendCards({ trends }: { trends: PlotTrends }) {
+  const { t, metric, units } = useI18n()
+  return (
+    <div className="grid gap-4 md:grid-cols-2">
+      {trends.metrics.map((trend) => (
+        <Card key={trend.metric}>
+          <CardHeader>
+            <CardTitle className="text-base">
+              {metric(trend.metric)}
+              {trend.unit && ` (${preferredUnit(trend.unit, units)})`}
+            </CardTitle>
+            <CardDescription>
+              {trend.points.length === 1 ? t("plot.readingOne") : t("plot.readingMany", { count: trend.points.length })}
+              {trend.band ? ` · ${t("result.target", bandParams(trend.band, trend.unit, units))}` : ""}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <MetricTrendChart trend={trend} changes={trends.changes} />
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  )
+}
+
+function StatusChanges({ trends }: { trends: PlotTrends }) {
+  const { t, status, locale } = useI18n()
+  if (trends.changes.length === 0) return null
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="text-base">{t("plot.statusChanges")}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <ul className="space-y-1 text-sm">
+          {trends.changes.map((c) => (
+            <li key={c.scanId}>
+              <Link href={`/?scan=${c.scanId}`} className="hover:underline">
+                {new Date(c.time).toLocaleDateString(locale)}: {status(c.from)} → {status(c.to)}
+              </Link>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  )
+}
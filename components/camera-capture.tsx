@@ -0,0 +1,157 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Camera, X } from "lucide-react"
+import { useI18n } from "@/components/i18n-provider"
+import { Button } from "@/components/ui/button"
+import type { MessageKey } from "@/lib/i18n"
+import type { ImageAnalysisType } from "@/lib/types"
+
+// Soil guide square, as a share of the visible frame height. Only the inside is captured.
+const SOIL_GUIDE = 0.6
+
+// Visible part of a video drawn with object-cover into a 16:9 box, in video pixels.
+function visibleSize(video: HTMLVideoElement): { width: number; height: number } {
+  const { videoWidth: vw, videoHeight: vh } = video
+  return vw / vh > 16 / 9 ? { width: (vh * 16) / 9, height: vh } : { width: vw, height: (vw * 9) / 16 }
+}
+
+function grabFrame(video: HTMLVideoElement, kind: ImageAnalysisType): Promise<File> {
+  const { width, height } = visibleSize(video)
+  const w = kind === "soil" ? height * SOIL_GUIDE : width
+  const h = kind === "soil" ? height * SOIL_GUIDE : height
+  const canvas = document.createElement("canvas")
+  canvas.width = Math.round(w)
+  canvas.height = Math.round(h)
+  const sx = (video.videoWidth - w) / 2
+  const sy = (video.videoHeight - h) / 2
+  canvas.getContext("2d")?.drawImage(video, sx, sy, w, h, 0, 0, canvas.width, canvas.height)
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(
+      (blob) =>
+        blob
+          ? resolve(new File([blob], `camera-${Date.now()}.jpg`, { type: "image/jpeg", lastModified: Date.now() }))
+          : reject(new Error("Could not capture a photo")),
+      "image/jpeg",
+      0.92,
+    ),
+  )
+}
+
+// Live rear-camera preview for the aspect-video frame, with a framing guide for the current
+// mode: a reference square for a soil patch, or a leaf outline for crops.
+export function CameraCapture({
+  kind,
+  onCapture,
+  onClose,
+}: {
+  kind: ImageAnalysisType
+  onCapture: (file: File) => void
+  onClose: () => void
+}) {
+  const { t } = useI18n()
+  const videoRef = useRef<HTMLVideoElement>(null)
+  const [ready, setReady] = useState(false)
+  const [error, setError] = useState<MessageKey | null>(null)
+
+  useEffect(() => {
+    let stream: MediaStream | null = null
+    let cancelled = false
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setError("camera.unsupported")
+      return
+    }
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: { ideal: "environment" }, width: { ideal: 1920 } }, audio: false })
+      .then((s) => {
+        if (cancelled) {
+          s.getTracks().forEach((t) => t.stop())
+          return
+        }
+        stream = s
+        if (videoRef.current) videoRef.current.srcObject = s
+      })
+      .catch((err) =>
+        setError(err instanceof DOMException && err.name === "NotAllowedError" ? "camera.denied" : "camera.failed"),
+      )
+    return () => {
+      cancelled = true
+      stream?.getTracks().forEach((t) => t.stop())
+    }
+  }, [])
+
+  async function capture() {
+    const video = videoRef.current
+    if (!video || !ready) return
+    try {
+      onCapture(await grabFrame(video, kind))
+    } catch (err) {
+      console.warn("Could not capture a photo", err)
+      setError("camera.captureFailed")
+    }
+  }
+
+  return (
+    <div className="absolute inset-0 bg-black">
+      <video
+        ref={videoRef}
+        autoPlay
+        playsInline
+        muted
+        onLoadedMetadata={() => setReady(true)}
+        className="absolute inset-0 h-full w-full object-cover"
+      />
+      {ready && <FramingGuide kind={kind} />}
+      {error && (
+        <div className="absolute inset-0 flex items-center justify-center p-6 text-center text-sm text-white">{t(error)}</div>
+      )}
+      <div className="absolute inset-x-0 bottom-0 flex items-center justify-center gap-3 p-3">
+        <Button
+          size="icon"
+          onClick={capture}
+          disabled={!ready}
+          aria-label={t("camera.capture")}
+          className="h-12 w-12 rounded-full border-4 border-white bg-emerald-600 hover:bg-emerald-700"
+        >
+          <Camera className="h-5 w-5" />
+        </Button>
+      </div>
+      <Button
+        size="icon"
+        variant="ghost"
+        onClick={onClose}
+        aria-label={t("camera.close")}
+        className="absolute right-2 top-2 text-white hover:bg-white/20 hover:text-white"
+      >
+        <X className="h-5 w-5" />
+      </Button>
+    </div>
+  )
+}
+
+function FramingGuide({ kind }: { kind: ImageAnalysisType }) {
+  const { t } = useI18n()
+  return (
+    <div aria-hidden className="pointer-events-none absolute inset-0 flex flex-col items-center justify-center">
+      {kind === "soil" ? (
+        <div
+          className="aspect-square rounded-sm border-2 border-white/90 shadow-[0_0_0_9999px_rgba(0,0,0,0.35)]"
+          style={{ height: `${SOIL_GUIDE * 100}%` }}
+        />
+      ) : (
+        <svg viewBox="0 0 100 100" className="h-[80%] opacity-90">
+          <path
+            d="M50 92 C22 78 14 50 24 28 C32 12 44 8 50 6 C56 8 68 12 76 28 C86 50 78 78 50 92 Z M50 92 V18"
+            fill="none"
+            stroke="white"
+            strokeWidth="1.5"
+            strokeDasharray="4 3"
+          />
+        </svg>
+      )}
+      <p className="absolute top-3 rounded-full bg-black/50 px-3 py-1 text-xs text-white">
+        {t(kind === "soil" ? "camera.guide.soil" : "camera.guide.crop")}
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,53 @@
+import { useI18n } from "@/components/i18n-provider"
+import { getDisease } from "@/lib/crops"
+import { careStep, conditionName } from "@/lib/i18n"
+import type { ConditionCandidate, CropType } from "@/lib/types"
+
+export function ConditionList({ conditions, crop }: { conditions: ConditionCandidate[]; crop: CropType }) {
+  const { t, text } = useI18n()
+  return (
+    <ul className="grid gap-2">
+      {conditions.map((c) => {
+        const disease = getDisease(crop, c.id)
+        const pct = Math.round(c.probability * 100)
+        return (
+          <li key={c.id} className="rounded-md bg-muted/60 px-3 py-2 text-sm">
+            <div className="flex items-center justify-between gap-3">
+              <span className="font-medium">{text(conditionName(c), c.name)}</span>
+              <span className="text-xs tabular-nums text-muted-foreground">{pct}%</span>
+            </div>
+            <div className="mt-1 h-1.5 w-full overflow-hidden rounded-full bg-background">
+              <div
+                className={c.id === "healthy" ? "h-full bg-emerald-500" : "h-full bg-amber-500"}
+                style={{ width: `${pct}%` }}
+              />
+            </div>
+            {disease && (
+              <details className="mt-2 text-xs">
+                <summary className="cursor-pointer text-muted-foreground">{t("conditions.care")}</summary>
+                <div className="mt-2 grid gap-2 sm:grid-cols-2">
+                  <div>
+                    <div className="font-medium">{t("conditions.treatment")}</div>
+                    <ul className="mt-1 list-disc space-y-0.5 pl-4 text-muted-foreground">
+                      {disease.treatment.map((step, i) => (
+                        <li key={step}>{text(careStep(disease.id, "treatment", i, step), step)}</li>
+                      ))}
+                    </ul>
+                  </div>
+                  <div>
+                    <div className="font-medium">{t("conditions.prevention")}</div>
+                    <ul className="mt-1 list-disc space-y-0.5 pl-4 text-muted-foreground">
+                      {disease.prevention.map((step, i) => (
+                        <li key={step}>{text(careStep(disease.id, "prevention", i, step), step)}</li>
+                      ))}
+                    </ul>
+                  </div>
+                </div>
+              </details>
+            )}
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
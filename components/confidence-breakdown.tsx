@@ -0,0 +1,35 @@
+import { useI18n } from "@/components/i18n-provider"
+import { cn } from "@/lib/utils"
+import type { ConfidenceFactor } from "@/lib/types"
+
+// How the confidence score was reached: the starting estimate, then each deduction.
+export function ConfidenceBreakdown({
+  confidence,
+  factors,
+  className,
+}: {
+  confidence: number
+  factors: ConfidenceFactor[]
+  className?: string
+}) {
+  const { t, text, formatNumber } = useI18n()
+  return (
+    <div className={cn("grid gap-1 text-sm", className)}>
+      <div className="font-medium">{t("confidence.why", { value: confidence })}</div>
+      <ul className="grid gap-0.5">
+        {factors.map((f, i) => (
+          <li key={f.id} className="flex items-baseline justify-between gap-3">
+            <span className={cn(i > 0 && "text-muted-foreground")}>{text(f.labelText, f.label)}</span>
+            <span className={cn("shrink-0 tabular-nums", f.points < 0 ? "text-red-700" : "text-emerald-700")}>
+              {i > 0 && f.points > 0 ? "+" : ""}
+              {formatNumber(f.points)}
+            </span>
+          </li>
+        ))}
+      </ul>
+      {factors.reduce((sum, f) => sum + f.points, 0) !== confidence && (
+        <p className="text-xs text-muted-foreground">{t("confidence.clamped")}</p>
+      )}
+    </div>
+  )
+}
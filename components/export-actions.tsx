@@ -0,0 +1,67 @@
+"use client"
+
+import { useState } from "react"
+import { FileDown, FileJson, FileSpreadsheet } from "lucide-react"
+import { useI18n } from "@/components/i18n-provider"
+import { Button } from "@/components/ui/button"
+import { downloadBlob, downloadText, exportFileName, scansToCsv, scansToJson } from "@/lib/export"
+import type { ScanRecord } from "@/lib/history"
+
+// PDF report plus CSV/JSON for a single scan, or CSV/JSON only for several. `areaHa` adds
+// whole-field amounts to the report's recommendations.
+export function ExportActions({
+  scans,
+  pdf = scans.length === 1,
+  areaHa,
+}: {
+  scans: ScanRecord[]
+  pdf?: boolean
+  areaHa?: number
+}) {
+  const { t, locale, units } = useI18n()
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const first = scans.length === 1 ? scans[0] : undefined
+
+  async function exportPdf() {
+    if (!first) return
+    setBusy(true)
+    setError(null)
+    try {
+      const { buildPdfReport } = await import("@/lib/report-pdf")
+      downloadBlob(await buildPdfReport(first, { locale, units, areaHa }), exportFileName(first, "pdf"))
+    } catch (err) {
+      console.warn("Could not build PDF report", err)
+      setError(t("export.pdfFailed"))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {pdf && (
+        <Button variant="outline" size="sm" onClick={exportPdf} disabled={busy || !first}>
+          <FileDown className="h-4 w-4" /> {t("export.pdf")}
+        </Button>
+      )}
+      <Button
+        variant="outline"
+        size="sm"
+        disabled={scans.length === 0}
+        onClick={() => downloadText(scansToCsv(scans), exportFileName(first, "csv"), "text/csv")}
+      >
+        <FileSpreadsheet className="h-4 w-4" /> CSV
+      </Button>
+      <Button
+        variant="outline"
+        size="sm"
+        disabled={scans.length === 0}
+        onClick={() => downloadText(scansToJson(scans), exportFileName(first, "json"), "application/json")}
+      >
+        <FileJson className="h-4 w-4" /> JSON
+      </Button>
+      {error && <span className="text-xs text-red-700">{error}</span>}
+    </div>
+  )
+}
@@ -0,0 +1,102 @@
+"use client"
+
+import { useMemo } from "react"
+import { useI18n } from "@/components/i18n-provider"
+import { STATUS_COLORS, STATUS_TONES } from "@/components/status-badge"
+import type { ScanRecord } from "@/lib/history"
+import { scanTime } from "@/lib/trends"
+import type { Status } from "@/lib/types"
+
+const WIDTH = 800
+const HEIGHT = 500
+const PAD = 40
+const METERS_PER_DEG_LAT = 110_540
+
+type Located = ScanRecord & { location: NonNullable<ScanRecord["location"]> }
+
+// Largest "nice" scale bar length (1, 2 or 5 x 10^n metres) no longer than `max`.
+function niceMeters(max: number): number {
+  const pow = Math.pow(10, Math.floor(Math.log10(max)))
+  return [5, 2, 1].map((m) => m * pow).find((v) => v <= max) ?? pow
+}
+
+// Plain SVG plot of scan positions in local metres around their centre. Needs no map tiles,
+// so it works offline; at farm scale the flat projection error is negligible.
+export function FieldMap({ scans, onSelect }: { scans: ScanRecord[]; onSelect?: (scan: ScanRecord) => void }) {
+  const { t, status, locale } = useI18n()
+  const points = useMemo(() => {
+    const located = scans.filter((s): s is Located => !!s.location)
+    if (located.length === 0) return null
+    const lat0 = located.reduce((a, s) => a + s.location.latitude, 0) / located.length
+    const lon0 = located.reduce((a, s) => a + s.location.longitude, 0) / located.length
+    const metersPerDegLon = 111_320 * Math.cos((lat0 * Math.PI) / 180)
+    const local = located.map((s) => ({
+      scan: s,
+      x: (s.location.longitude - lon0) * metersPerDegLon,
+      y: (s.location.latitude - lat0) * METERS_PER_DEG_LAT,
+    }))
+    const span = Math.max(
+      20,
+      ...local.map((p) => Math.abs(p.x) * 2 * ((HEIGHT - 2 * PAD) / (WIDTH - 2 * PAD))),
+      ...local.map((p) => Math.abs(p.y) * 2),
+    )
+    const scale = (HEIGHT - 2 * PAD) / span
+    return {
+      scale,
+      markers: local.map((p) => ({ scan: p.scan, cx: WIDTH / 2 + p.x * scale, cy: HEIGHT / 2 - p.y * scale })),
+    }
+  }, [scans])
+
+  if (!points) {
+    return (
+      <div className="flex aspect-[8/5] items-center justify-center rounded-lg border bg-muted/40 text-sm text-muted-foreground">
+        {t("map.noGps")}
+      </div>
+    )
+  }
+
+  const bar = niceMeters((WIDTH / 4) / points.scale)
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full rounded-lg border bg-emerald-50/40" role="img">
+      <title>{t("map.locations")}</title>
+      {Array.from({ length: 9 }, (_, i) => (
+        <line key={`v${i}`} x1={(WIDTH / 8) * i} x2={(WIDTH / 8) * i} y1={0} y2={HEIGHT} stroke="#0000000f" />
+      ))}
+      {Array.from({ length: 6 }, (_, i) => (
+        <line key={`h${i}`} x1={0} x2={WIDTH} y1={(HEIGHT / 5) * i} y2={(HEIGHT / 5) * i} stroke="#0000000f" />
+      ))}
+      {points.markers.map(({ scan, cx, cy }) => (
+        <g key={scan.id} className={onSelect ? "cursor-pointer" : undefined} onClick={() => onSelect?.(scan)}>
+          <title>
+            {`${scan.plot || scan.fileName} - ${status(scan.result.status)} (${new Date(scanTime(scan)).toLocaleString(locale)})`}
+          </title>
+          <circle cx={cx} cy={cy} r={9} fill={STATUS_COLORS[scan.result.status]} stroke="white" strokeWidth={2} />
+        </g>
+      ))}
+      <g transform={`translate(${PAD}, ${HEIGHT - PAD / 2})`}>
+        <line x1={0} x2={bar * points.scale} y1={0} y2={0} stroke="#171717" strokeWidth={2} />
+        <text x={0} y={-6} fontSize={12} fill="#171717">
+          {bar >= 1000 ? `${bar / 1000} km` : `${bar} m`}
+        </text>
+      </g>
+      <text x={WIDTH - PAD / 2} y={PAD} fontSize={14} textAnchor="end" fill="#171717">
+        N ↑
+      </text>
+    </svg>
+  )
+}
+
+export function FieldMapLegend() {
+  const { status } = useI18n()
+  return (
+    <div className="flex items-center gap-3 text-xs text-muted-foreground">
+      {(Object.keys(STATUS_COLORS) as Status[]).map((s) => (
+        <span key={s} className={`inline-flex items-center gap-1 ${STATUS_TONES[s].icon}`}>
+          <span className="h-2.5 w-2.5 rounded-full" style={{ background: STATUS_COLORS[s] }} />
+          {status(s)}
+        </span>
+      ))}
+    </div>
+  )
+}
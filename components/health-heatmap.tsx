@@ -0,0 +1,46 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+import { useI18n } from "@/components/i18n-provider"
+import { cn } from "@/lib/utils"
+import type { Heatmap } from "@/lib/types"
+
+// Red (stressed) through yellow to green (healthy).
+function healthColor(v: number): [number, number, number] {
+  if (v < 0.5) return [220, Math.round(60 + v * 2 * 160), 40]
+  return [Math.round(220 - (v - 0.5) * 2 * 180), 200, 60]
+}
+
+export function HealthHeatmap({ heatmap, className }: { heatmap: Heatmap; className?: string }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const ctx = canvas?.getContext("2d")
+    if (!canvas || !ctx) return
+    const { cols, rows, values } = heatmap
+    canvas.width = cols
+    canvas.height = rows
+    const pixels = ctx.createImageData(cols, rows)
+    values.forEach((v, i) => {
+      if (v === null) return
+      const [r, g, b] = healthColor(v)
+      pixels.data.set([r, g, b, 150], i * 4)
+    })
+    ctx.putImageData(pixels, 0, 0)
+  }, [heatmap])
+
+  // The canvas is cols x rows pixels; object-cover scales it exactly like the preview image.
+  return <canvas ref={canvasRef} aria-hidden className={cn("h-full w-full object-cover blur-[1px]", className)} />
+}
+
+export function HeatmapLegend() {
+  const { t } = useI18n()
+  return (
+    <div className="flex items-center gap-2 text-xs text-muted-foreground">
+      <span>{t("heatmap.stressed")}</span>
+      <div className="h-2 w-24 rounded-full bg-gradient-to-r from-[rgb(220,60,40)] via-[rgb(220,200,60)] to-[rgb(40,200,60)]" />
+      <span>{t("heatmap.healthy")}</span>
+    </div>
+  )
+}
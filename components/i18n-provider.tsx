@@ -0,0 +1,113 @@
+"use client"
+
+import type React from "react"
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from "react"
+import {
+  cropName,
+  formatMetricValue,
+  formatNumber,
+  formatQuantity,
+  formatText,
+  isLocale,
+  localized,
+  metricName,
+  statusName,
+  type Locale,
+  type MessageKey,
+} from "@/lib/i18n"
+import type { AnalysisResult, CropType, LocalizedText, MetricValue, Quantity, Status } from "@/lib/types"
+import { DEFAULT_UNITS, isUnitPreferences, type UnitPreferences } from "@/lib/units"
+
+const STORAGE_KEY = "agriscan-locale"
+const UNITS_KEY = "agriscan-units"
+
+type I18n = {
+  locale: Locale
+  setLocale: (locale: Locale) => void
+  units: UnitPreferences
+  setUnits: (units: UnitPreferences) => void
+  t: (key: MessageKey, params?: LocalizedText["params"]) => string
+  // Stored generated text; `fallback` is the English string kept on older results
+  text: (value: LocalizedText | undefined, fallback: string) => string
+  notes: (result: Pick<AnalysisResult, "notes" | "notesText">) => string
+  formatNumber: (n: number) => string
+  // An amount converted to the reader's units, e.g. "107.1 lb/acre"
+  quantity: (q: Quantity) => string
+  crop: (crop: CropType) => string
+  metric: (metric: string) => string
+  status: (status: Status) => string
+  // A metric value: numbers formatted for the locale with their unit, graded words (Low, High…) translated
+  value: (metric: MetricValue) => string
+}
+
+const I18nContext = createContext<I18n | null>(null)
+
+function detectLocale(): Locale {
+  const stored = localStorage.getItem(STORAGE_KEY)
+  if (isLocale(stored)) return stored
+  const preferred = navigator.languages.map((l) => l.split("-")[0]).find(isLocale)
+  return preferred ?? "en"
+}
+
+function storedUnits(): UnitPreferences {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(UNITS_KEY) ?? "null")
+    return isUnitPreferences(stored) ? stored : DEFAULT_UNITS
+  } catch {
+    return DEFAULT_UNITS
+  }
+}
+
+// Holds the reader's language and units, remembered on the device. Starts in English and metric
+// on the server and switches after mount, so the first render always matches the static HTML.
+export function I18nProvider({ children }: { children: React.ReactNode }) {
+  const [locale, setLocaleState] = useState<Locale>("en")
+  const [units, setUnitsState] = useState<UnitPreferences>(DEFAULT_UNITS)
+
+  useEffect(() => {
+    setLocaleState(detectLocale())
+    setUnitsState(storedUnits())
+  }, [])
+
+  useEffect(() => {
+    document.documentElement.lang = locale
+  }, [locale])
+
+  const setLocale = useCallback((next: Locale) => {
+    setLocaleState(next)
+    localStorage.setItem(STORAGE_KEY, next)
+  }, [])
+
+  const setUnits = useCallback((next: UnitPreferences) => {
+    setUnitsState(next)
+    localStorage.setItem(UNITS_KEY, JSON.stringify(next))
+  }, [])
+
+  const value = useMemo<I18n>(() => {
+    const t = (key: MessageKey, params?: LocalizedText["params"]) => formatText(locale, localized(key, params), units)
+    return {
+      locale,
+      setLocale,
+      units,
+      setUnits,
+      t,
+      text: (v, fallback) => (v ? formatText(locale, v, units) : fallback),
+      notes: (result) => result.notesText?.map((n) => formatText(locale, n, units)).join(" ") ?? result.notes,
+      formatNumber: (n) => formatNumber(n, locale),
+      quantity: (q) => formatQuantity(q, locale, units),
+      crop: (crop) => formatText(locale, cropName(crop)),
+      metric: (metric) => formatText(locale, metricName(metric)),
+      status: (status) => formatText(locale, statusName(status)),
+      value: (metric) => formatMetricValue(metric, locale, units),
+    }
+  }, [locale, setLocale, units, setUnits])
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>
+}
+
+export function useI18n(): I18n {
+  const ctx = useContext(I18nContext)
+  if (!ctx) throw new Error("useI18n must be used within an I18nProvider")
+  return ctx
+}
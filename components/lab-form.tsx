@@ -0,0 +1,76 @@
+"use client"
+
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { FlaskConical } from "lucide-react"
+import { useI18n } from "@/components/i18n-provider"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import type { MessageKey } from "@/lib/i18n"
+import { LAB_LIMITS, labSchema, type LabValues } from "@/lib/lab"
+import { preferredUnit, type MetricUnit } from "@/lib/units"
+
+type FieldName = keyof LabValues
+
+// Labelled by the "lab.<name>" message keys. Nutrients are labelled in the reader's preferred
+// unit; mg/kg and ppm are the same number.
+const FIELDS: { name: FieldName; unit?: MetricUnit; step: string }[] = [
+  { name: "ph", step: "0.1" },
+  { name: "ec", unit: "dS/m", step: "0.01" },
+  { name: "organicCarbon", unit: "%", step: "0.01" },
+  { name: "n", unit: "mg/kg", step: "1" },
+  { name: "p", unit: "mg/kg", step: "1" },
+  { name: "k", unit: "mg/kg", step: "1" },
+  { name: "cec", unit: "cmol/kg", step: "0.1" },
+]
+
+export function LabForm({
+  onSubmit,
+  disabled,
+  submitLabel,
+}: {
+  onSubmit: (values: LabValues) => void
+  disabled?: boolean
+  submitLabel?: string
+}) {
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<LabValues>({ resolver: zodResolver(labSchema) })
+  const { t, units } = useI18n()
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="grid gap-3" noValidate>
+      <div className="grid grid-cols-2 gap-3">
+        {FIELDS.map(({ name, unit, step }) => {
+          const label = t(`lab.${name}`)
+          const error = errors[name]?.message
+          return (
+            <div key={name} className="grid gap-1.5">
+              <Label htmlFor={`lab-${name}`} className="text-xs">
+                {unit ? `${label} (${preferredUnit(unit, units)})` : label}
+                {name === "ph" && <span className="text-red-600">*</span>}
+              </Label>
+              <Input
+                id={`lab-${name}`}
+                type="number"
+                inputMode="decimal"
+                step={step}
+                aria-invalid={!!errors[name]}
+                {...register(name)}
+              />
+              {error && (
+                <span className="text-xs text-red-700">{t(error as MessageKey, { label, ...LAB_LIMITS[name] })}</span>
+              )}
+            </div>
+          )
+        })}
+      </div>
+      <Button type="submit" disabled={disabled}>
+        <FlaskConical className="h-4 w-4" /> {submitLabel ?? t("setup.evaluate")}
+      </Button>
+    </form>
+  )
+}
@@ -0,0 +1,110 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { useI18n } from "@/components/i18n-provider"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { CROP_TYPES, type CropType } from "@/lib/crops"
+import { SOIL_TYPES, type LandDetails, type SoilType } from "@/lib/land"
+import { convert, preferredUnit } from "@/lib/units"
+
+const UNSET = "unset"
+
+// Name, area, soil type and current crop of a farm, field or plot. The area is entered in the
+// reader's area unit and handed back in hectares.
+export function LandForm({
+  initial,
+  submitLabel,
+  onSubmit,
+  onCancel,
+}: {
+  initial?: LandDetails
+  submitLabel: string
+  onSubmit: (details: LandDetails) => void
+  onCancel: () => void
+}) {
+  const { t, crop: cropLabel, units } = useI18n()
+  const areaUnit = preferredUnit("ha", units)
+  const [name, setName] = useState(initial?.name ?? "")
+  const [area, setArea] = useState(
+    initial?.area ? String(Math.round(convert(initial.area, "ha", areaUnit) * 100) / 100) : "",
+  )
+  const [soilType, setSoilType] = useState<string>(initial?.soilType ?? UNSET)
+  const [crop, setCrop] = useState<string>(initial?.crop ?? UNSET)
+
+  function submit(e: React.FormEvent) {
+    e.preventDefault()
+    const areaValue = Number.parseFloat(area)
+    onSubmit({
+      name: name.trim(),
+      area: areaValue > 0 ? convert(areaValue, areaUnit, "ha") : undefined,
+      soilType: soilType === UNSET ? undefined : (soilType as SoilType),
+      crop: crop === UNSET ? undefined : (crop as CropType),
+    })
+  }
+
+  return (
+    <form onSubmit={submit} className="grid gap-3 rounded-md border p-3 sm:grid-cols-2 lg:grid-cols-4">
+      <div className="grid gap-2">
+        <Label htmlFor="land-name">{t("land.name")}</Label>
+        <Input id="land-name" required autoFocus value={name} onChange={(e) => setName(e.target.value)} />
+      </div>
+      <div className="grid gap-2">
+        <Label htmlFor="land-area">{t("land.area", { unit: areaUnit })}</Label>
+        <Input
+          id="land-area"
+          type="number"
+          inputMode="decimal"
+          min={0}
+          step={0.01}
+          value={area}
+          onChange={(e) => setArea(e.target.value)}
+        />
+      </div>
+      <div className="grid gap-2">
+        <Label htmlFor="land-soil">{t("land.soilType")}</Label>
+        <Select value={soilType} onValueChange={setSoilType}>
+          <SelectTrigger id="land-soil" className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={UNSET}>{t("land.notSet")}</SelectItem>
+            {SOIL_TYPES.map((id) => (
+              <SelectItem key={id} value={id}>
+                {t(`soil.${id}`)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="grid gap-2">
+        <Label htmlFor="land-crop">{t("land.crop")}</Label>
+        <Select value={crop} onValueChange={setCrop}>
+          <SelectTrigger id="land-crop" className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={UNSET}>{t("land.noCrop")}</SelectItem>
+            {CROP_TYPES.map((id) => (
+              <SelectItem key={id} value={id}>
+                {cropLabel(id)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="flex gap-2 sm:col-span-2 lg:col-span-4">
+        <Button type="submit" size="sm" disabled={!name.trim()}>
+          {submitLabel}
+        </Button>
+        <Button type="button" variant="ghost" size="sm" onClick={onCancel}>
+          {t("land.cancel")}
+        </Button>
+      </div>
+    </form>
+  )
+}
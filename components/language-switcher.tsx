@@ -0,0 +1,25 @@
+"use client"
+
+import { Languages } from "lucide-react"
+import { useI18n } from "@/components/i18n-provider"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { LOCALE_NAMES, LOCALES, type Locale } from "@/lib/i18n"
+
+export function LanguageSwitcher() {
+  const { locale, setLocale, t } = useI18n()
+  return (
+    <Select value={locale} onValueChange={(v) => setLocale(v as Locale)}>
+      <SelectTrigger aria-label={t("language.label")} className="h-8 w-auto gap-1.5 border-none px-2 shadow-none">
+        <Languages className="h-4 w-4" aria-hidden />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {LOCALES.map((l) => (
+          <SelectItem key={l} value={l} lang={l}>
+            {LOCALE_NAMES[l]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
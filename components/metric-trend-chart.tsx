@@ -0,0 +1,78 @@
+"use client"
+
+import {
+  CartesianGrid,
+  Line,
+  LineChart,
+  ReferenceArea,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts"
+import { useI18n } from "@/components/i18n-provider"
+import { STATUS_COLORS } from "@/components/status-badge"
+import type { MetricTrend, StatusChange } from "@/lib/trends"
+import type { Status } from "@/lib/types"
+
+// One metric over time for a plot. The crop's target band is shaded, points are coloured by
+// the scan's status and vertical markers show where the status changed.
+export function MetricTrendChart({ trend, changes }: { trend: MetricTrend; changes: StatusChange[] }) {
+  const { locale, metric, status, formatNumber } = useI18n()
+  const { points, band } = trend
+  const first = points[0].time
+  const last = points[points.length - 1].time
+  // Keep a lone point, or several on the same day, off the chart edges.
+  const pad = last === first ? 12 * 60 * 60 * 1000 : 0
+  const shown = changes.filter((c) => c.time >= first && c.time <= last)
+
+  return (
+    <ResponsiveContainer width="100%" height={220}>
+      <LineChart data={points} margin={{ top: 16, right: 16, bottom: 0, left: -8 }}>
+        <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+        <XAxis
+          dataKey="time"
+          type="number"
+          scale="time"
+          domain={[first - pad, last + pad]}
+          tickFormatter={(time: number) =>
+            new Date(time).toLocaleDateString(locale, { month: "short", day: "numeric" })
+          }
+          tick={{ fontSize: 12 }}
+        />
+        <YAxis
+          tick={{ fontSize: 12 }}
+          domain={([min, max]: readonly [number, number]) => [
+            Math.min(min, band?.min ?? min),
+            Math.max(max, band?.max ?? max),
+          ]}
+        />
+        {band && <ReferenceArea y1={band.min} y2={band.max} fill="#10b981" fillOpacity={0.12} ifOverflow="extendDomain" />}
+        {shown.map((c) => (
+          <ReferenceLine
+            key={c.scanId}
+            x={c.time}
+            stroke={STATUS_COLORS[c.to]}
+            strokeDasharray="4 2"
+            label={{ value: `→ ${status(c.to)}`, position: "top", fontSize: 11, fill: STATUS_COLORS[c.to] }}
+          />
+        ))}
+        <Tooltip
+          labelFormatter={(time: number) => new Date(time).toLocaleString(locale)}
+          formatter={(value: number) => [formatNumber(value), metric(trend.metric)]}
+        />
+        <Line
+          type="monotone"
+          dataKey="value"
+          stroke="#0f766e"
+          strokeWidth={2}
+          isAnimationActive={false}
+          dot={({ cx, cy, payload }) => (
+            <circle key={payload.scanId} cx={cx} cy={cy} r={4} fill={STATUS_COLORS[payload.status as Status]} />
+          )}
+        />
+      </LineChart>
+    </ResponsiveContainer>
+  )
+}
@@ -0,0 +1,51 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useI18n } from "@/components/i18n-provider"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { listLand, plotPath, type Land, type Plot } from "@/lib/land"
+
+const NONE = "none"
+
+// Attaches a scan to one of the managed plots. Hidden until a plot has been set up on /farms.
+export function PlotPicker({
+  value,
+  onChange,
+}: {
+  value?: string
+  onChange: (plot: Plot | undefined, land: Land) => void
+}) {
+  const { t } = useI18n()
+  const [land, setLand] = useState<Land | null>(null)
+
+  useEffect(() => {
+    listLand()
+      .then(setLand)
+      .catch((err) => console.warn("Could not load plots", err))
+  }, [])
+
+  if (!land || land.plots.length === 0) return null
+  const plots = land.plots
+    .map((plot) => ({ plot, path: plotPath(plot, land) }))
+    .sort((a, b) => a.path.localeCompare(b.path))
+
+  return (
+    <div className="grid gap-2">
+      <Label htmlFor="plot-id">{t("setup.attachPlot")}</Label>
+      <Select value={value ?? NONE} onValueChange={(id) => onChange(land.plots.find((p) => p.id === id), land)}>
+        <SelectTrigger id="plot-id" className="w-full">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NONE}>{t("setup.noPlot")}</SelectItem>
+          {plots.map(({ plot, path }) => (
+            <SelectItem key={plot.id} value={plot.id}>
+              {path}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+}
@@ -0,0 +1,44 @@
+import type React from "react"
+
+import { AlertTriangle, CircleAlert } from "lucide-react"
+import { useI18n } from "@/components/i18n-provider"
+import { cn } from "@/lib/utils"
+import type { QualityIssue } from "@/lib/types"
+
+// Photo problems from the pre-analysis check. Red when any would stop the scan.
+export function QualityIssues({
+  issues,
+  className,
+  children,
+}: {
+  issues: QualityIssue[]
+  className?: string
+  children?: React.ReactNode
+}) {
+  const { t, text } = useI18n()
+  const blocking = issues.some((i) => i.severity === "error")
+  return (
+    <div
+      className={cn(
+        "grid gap-2 rounded-md border px-3 py-2 text-sm",
+        blocking ? "border-red-200 bg-red-50 text-red-700" : "border-amber-200 bg-amber-50 text-amber-800",
+        className,
+      )}
+    >
+      <span className="font-medium">{t(blocking ? "quality.blocking" : "quality.warnings")}</span>
+      <ul className="grid gap-1">
+        {issues.map((issue) => (
+          <li key={issue.id} className="flex items-start gap-2">
+            {issue.severity === "error" ? (
+              <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0 text-red-600" aria-hidden />
+            ) : (
+              <CircleAlert className="mt-0.5 h-4 w-4 shrink-0 text-amber-600" aria-hidden />
+            )}
+            <span>{text(issue.messageText, issue.message)}</span>
+          </li>
+        ))}
+      </ul>
+      {children}
+    </div>
+  )
+}
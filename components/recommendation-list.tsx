@@ -0,0 +1,63 @@
+import { Check, Droplets, FlaskConical, Sprout } from "lucide-react"
+import { useI18n } from "@/components/i18n-provider"
+import { Button } from "@/components/ui/button"
+import type { Recommendation } from "@/lib/types"
+import { totalAmount } from "@/lib/units"
+
+function RecommendationIcon({ rec }: { rec: Recommendation }) {
+  const Icon = rec.nutrient ? Sprout : rec.rate ? FlaskConical : Droplets
+  return <Icon className="mt-0.5 h-4 w-4 shrink-0 text-emerald-700" aria-hidden />
+}
+
+export function RecommendationList({
+  recommendations,
+  areaHa,
+  onDone,
+}: {
+  recommendations: Recommendation[]
+  areaHa: number
+  // Shows a button to mark each recommendation as carried out
+  onDone?: (rec: Recommendation) => void
+}) {
+  const { t, text, quantity } = useI18n()
+  if (recommendations.length === 0) {
+    return <p className="text-sm text-muted-foreground">{t("result.noRecommendations")}</p>
+  }
+
+  return (
+    <ul className="grid gap-2">
+      {recommendations.map((rec) => (
+        <li key={rec.id} className="flex items-start gap-2 rounded-md bg-muted/60 px-3 py-2 text-sm">
+          <RecommendationIcon rec={rec} />
+          <div className="grid flex-1 gap-0.5">
+            <div className="flex flex-wrap items-baseline justify-between gap-x-3">
+              <span className="font-medium">{text(rec.actionText, rec.action)}</span>
+              {rec.rate !== undefined && (
+                <span className="text-xs tabular-nums text-muted-foreground">
+                  {quantity({ value: rec.rate, unit: "kg/ha" })}
+                  {areaHa > 0 && (
+                    <>
+                      {" "}
+                      ·{" "}
+                      <span className="font-medium text-foreground">
+                        {quantity(totalAmount(rec.rate * areaHa))}
+                      </span>{" "}
+                      {t("result.forArea", { area: { value: areaHa, unit: "ha" } })}
+                    </>
+                  )}
+                </span>
+              )}
+            </div>
+            {rec.product && <span className="text-xs">{rec.product}</span>}
+            <span className="text-xs text-muted-foreground">{text(rec.reasonText, rec.reason)}</span>
+          </div>
+          {onDone && (
+            <Button variant="ghost" size="sm" onClick={() => onDone(rec)} aria-label={t("result.markDone")}>
+              <Check className="h-4 w-4" />
+            </Button>
+          )}
+        </li>
+      ))}
+    </ul>
+  )
+}
@@ -0,0 +1,185 @@
+"use client"
+
+import type React from "react"
+
+import { useEffect, useRef, useState } from "react"
+import { STATUS_COLORS } from "@/components/status-badge"
+import { isUsableRegion, polygonRegion, rectRegion, regionBounds } from "@/lib/regions"
+import { cn } from "@/lib/utils"
+import type { Point, Region, Status } from "@/lib/types"
+
+export type RegionTool = "rect" | "polygon"
+
+// Clicking this close to the first vertex closes a polygon.
+const CLOSE_DISTANCE = 0.025
+
+function toPath(points: Point[], w: number, h: number, closed = true): string {
+  return points.map((p, i) => `${i === 0 ? "M" : "L"}${p.x * w},${p.y * h}`).join(" ") + (closed ? " Z" : "")
+}
+
+// The photo shown whole (letterboxed) with regions drawn over it. With a tool selected,
+// dragging draws a rectangle and clicking places polygon vertices; click the first vertex or
+// double-click to close a polygon, Escape to drop it.
+export function RegionEditor({
+  src,
+  alt,
+  regions,
+  statuses,
+  tool,
+  nextLabel,
+  onAdd,
+  className,
+}: {
+  src: string
+  alt: string
+  regions: Region[]
+  // Status per region id, once analyzed
+  statuses?: Record<string, Status>
+  tool: RegionTool | null
+  nextLabel: string
+  onAdd: (region: Region) => void
+  className?: string
+}) {
+  const svgRef = useRef<SVGSVGElement>(null)
+  const [size, setSize] = useState<{ w: number; h: number } | null>(null)
+  const [dragStart, setDragStart] = useState<Point | null>(null)
+  const [dragEnd, setDragEnd] = useState<Point | null>(null)
+  const [draft, setDraft] = useState<Point[]>([])
+
+  useEffect(() => {
+    setDraft([])
+    setDragStart(null)
+  }, [tool])
+
+  useEffect(() => {
+    if (draft.length === 0) return
+    const onKey = (e: KeyboardEvent) => e.key === "Escape" && setDraft([])
+    window.addEventListener("keydown", onKey)
+    return () => window.removeEventListener("keydown", onKey)
+  }, [draft.length])
+
+  function toPoint(e: React.PointerEvent | React.MouseEvent): Point | null {
+    const svg = svgRef.current
+    const ctm = svg?.getScreenCTM()
+    if (!svg || !ctm || !size) return null
+    const pt = new DOMPoint(e.clientX, e.clientY).matrixTransform(ctm.inverse())
+    return { x: Math.min(1, Math.max(0, pt.x / size.w)), y: Math.min(1, Math.max(0, pt.y / size.h)) }
+  }
+
+  function finishPolygon(points: Point[]) {
+    // A double-click lands two clicks on the same spot; keep one vertex.
+    const distinct = points.filter(
+      (p, i) => i === 0 || Math.hypot(p.x - points[i - 1].x, p.y - points[i - 1].y) > 0.005,
+    )
+    const region = polygonRegion(distinct, nextLabel)
+    if (isUsableRegion(region)) onAdd(region)
+    setDraft([])
+  }
+
+  function onPointerDown(e: React.PointerEvent<SVGSVGElement>) {
+    const p = toPoint(e)
+    if (!p || !tool) return
+    if (tool === "rect") {
+      e.currentTarget.setPointerCapture(e.pointerId)
+      setDragStart(p)
+      setDragEnd(p)
+      return
+    }
+    const first = draft[0]
+    if (first && draft.length >= 3 && Math.hypot(p.x - first.x, p.y - first.y) < CLOSE_DISTANCE) {
+      finishPolygon(draft)
+    } else {
+      setDraft((prev) => [...prev, p])
+    }
+  }
+
+  function onPointerUp(e: React.PointerEvent<SVGSVGElement>) {
+    if (tool !== "rect" || !dragStart) return
+    const end = toPoint(e) ?? dragEnd ?? dragStart
+    const region = rectRegion(dragStart, end, nextLabel)
+    if (isUsableRegion(region)) onAdd(region)
+    setDragStart(null)
+    setDragEnd(null)
+  }
+
+  const w = size?.w ?? 1
+  const h = size?.h ?? 1
+
+  return (
+    <div className={cn("absolute inset-0", className)}>
+      <img
+        src={src}
+        alt={alt}
+        onLoad={(e) => setSize({ w: e.currentTarget.naturalWidth, h: e.currentTarget.naturalHeight })}
+        className="absolute inset-0 h-full w-full object-contain"
+      />
+      {size && (
+        <svg
+          ref={svgRef}
+          viewBox={`0 0 ${w} ${h}`}
+          preserveAspectRatio="xMidYMid meet"
+          className={cn("absolute inset-0 h-full w-full touch-none", tool && "cursor-crosshair")}
+          onPointerDown={onPointerDown}
+          onPointerMove={(e) => dragStart && setDragEnd(toPoint(e))}
+          onPointerUp={onPointerUp}
+          onDoubleClick={() => tool === "polygon" && draft.length >= 3 && finishPolygon(draft)}
+        >
+          {regions.map((region) => {
+            const status = statuses?.[region.id]
+            const color = status ? STATUS_COLORS[status] : "#ffffff"
+            const b = regionBounds(region)
+            return (
+              <g key={region.id}>
+                <path
+                  d={toPath(region.points, w, h)}
+                  fill={color}
+                  fillOpacity={0.15}
+                  stroke={color}
+                  strokeWidth={2}
+                  vectorEffect="non-scaling-stroke"
+                />
+                <text
+                  x={b.x * w + w * 0.01}
+                  y={b.y * h + w * 0.03}
+                  fontSize={w * 0.025}
+                  fill={color}
+                  stroke="rgba(0,0,0,0.6)"
+                  strokeWidth={w * 0.002}
+                  paintOrder="stroke"
+                >
+                  {region.label}
+                  {status ? ` · ${status}` : ""}
+                </text>
+              </g>
+            )
+          })}
+          {dragStart && dragEnd && (
+            <path
+              d={toPath(rectRegion(dragStart, dragEnd, "").points, w, h)}
+              fill="none"
+              stroke="#ffffff"
+              strokeDasharray="6 4"
+              strokeWidth={2}
+              vectorEffect="non-scaling-stroke"
+            />
+          )}
+          {draft.length > 0 && (
+            <>
+              <path
+                d={toPath(draft, w, h, false)}
+                fill="none"
+                stroke="#ffffff"
+                strokeDasharray="6 4"
+                strokeWidth={2}
+                vectorEffect="non-scaling-stroke"
+              />
+              {draft.map((p, i) => (
+                <circle key={i} cx={p.x * w} cy={p.y * h} r={w * 0.006} fill={i === 0 ? "#10b981" : "#ffffff"} />
+              ))}
+            </>
+          )}
+        </svg>
+      )}
+    </div>
+  )
+}
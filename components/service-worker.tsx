@@ -0,0 +1,25 @@
+"use client"
+
+import { useEffect } from "react"
+import { preloadScanWorker } from "@/lib/scan-pipeline"
+
+// Registers public/sw.js so the app opens offline. Skipped in development, where a cached
+// shell would hide code changes.
+export function ServiceWorker() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) return
+    const sw = navigator.serviceWorker
+    sw.register("/sw.js")
+      .then(() => sw.ready)
+      .then((registration) => {
+        // This page's chunks loaded before the worker could see them.
+        const urls = performance.getEntriesByType("resource").map((entry) => entry.name)
+        registration.active?.postMessage({ type: "cache-assets", urls })
+        // The scan worker's script only passes through the service worker once it controls the page.
+        if (sw.controller) preloadScanWorker()
+        else sw.addEventListener("controllerchange", preloadScanWorker, { once: true })
+      })
+      .catch((err) => console.warn("Service worker registration failed", err))
+  }, [])
+  return null
+}
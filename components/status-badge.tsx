@@ -0,0 +1,51 @@
+import { AlertTriangle, CheckCircle2, CircleAlert } from "lucide-react"
+import { useI18n } from "@/components/i18n-provider"
+import { cn } from "@/lib/utils"
+import type { Status } from "@/lib/types"
+
+// Banner (border + tint) and badge classes for each grade.
+export const STATUS_TONES: Record<Status, { banner: string; badge: string; icon: string }> = {
+  Good: {
+    banner: "text-emerald-700 bg-emerald-50 border-emerald-200",
+    badge: "bg-emerald-100 text-emerald-700",
+    icon: "text-emerald-600",
+  },
+  Marginal: {
+    banner: "text-amber-700 bg-amber-50 border-amber-200",
+    badge: "bg-amber-100 text-amber-700",
+    icon: "text-amber-600",
+  },
+  Poor: {
+    banner: "text-red-700 bg-red-50 border-red-200",
+    badge: "bg-red-100 text-red-700",
+    icon: "text-red-600",
+  },
+}
+
+// Solid fills for charts and map markers, matching the tones above.
+export const STATUS_COLORS: Record<Status, string> = {
+  Good: "#10b981",
+  Marginal: "#f59e0b",
+  Poor: "#ef4444",
+}
+
+export function StatusIcon({ status, className }: { status: Status; className?: string }) {
+  const Icon = status === "Good" ? CheckCircle2 : status === "Marginal" ? CircleAlert : AlertTriangle
+  return <Icon className={cn("h-4 w-4", STATUS_TONES[status].icon, className)} aria-hidden />
+}
+
+export function StatusBadge({ status, className }: { status: Status; className?: string }) {
+  const i18n = useI18n()
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center gap-1 rounded px-1.5 py-0.5 text-xs font-semibold",
+        STATUS_TONES[status].badge,
+        className,
+      )}
+    >
+      <StatusIcon status={status} className="h-3.5 w-3.5 text-current" />
+      {i18n.status(status)}
+    </span>
+  )
+}
@@ -0,0 +1,47 @@
+import { useMemo } from "react"
+import { useI18n } from "@/components/i18n-provider"
+import { STATUS_COLORS, StatusBadge, StatusIcon } from "@/components/status-badge"
+import { rankCrops } from "@/lib/suitability"
+import type { Metrics } from "@/lib/types"
+
+// Every crop ranked by how well a soil result suits it, with the factors holding each one back.
+export function SuitabilityList({ metrics }: { metrics: Metrics }) {
+  const { t, text, crop } = useI18n()
+  const ranked = useMemo(() => rankCrops(metrics), [metrics])
+  if (ranked.length === 0) {
+    return <p className="text-sm text-muted-foreground">{t("suitability.none")}</p>
+  }
+
+  return (
+    <ol className="grid gap-2">
+      {ranked.map((s) => (
+        <li key={s.crop} className="rounded-md bg-muted/60 px-3 py-2 text-sm">
+          <div className="flex items-center justify-between gap-3">
+            <span className="inline-flex items-center gap-2">
+              <span className="font-medium">{crop(s.crop)}</span>
+              <StatusBadge status={s.status} />
+            </span>
+            <span className="text-xs tabular-nums text-muted-foreground">
+              {t("suitability.score", { score: s.score })}
+            </span>
+          </div>
+          <div className="mt-1 h-1.5 w-full overflow-hidden rounded-full bg-background">
+            <div className="h-full" style={{ width: `${s.score}%`, backgroundColor: STATUS_COLORS[s.status] }} />
+          </div>
+          {s.limiting.length === 0 ? (
+            <p className="mt-1 text-xs text-muted-foreground">{t("suitability.noLimits")}</p>
+          ) : (
+            <ul className="mt-1 grid gap-0.5 text-xs">
+              {s.limiting.map((f) => (
+                <li key={f.rule} className="flex items-start gap-1.5">
+                  <StatusIcon status={f.grade} className="mt-px h-3.5 w-3.5 shrink-0" />
+                  <span>{text(f.messageText, f.message)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </li>
+      ))}
+    </ol>
+  )
+}
@@ -0,0 +1,71 @@
+"use client"
+
+import { CloudOff, CloudUpload, Loader2, RefreshCw, Trash2, Wifi } from "lucide-react"
+import { useI18n } from "@/components/i18n-provider"
+import { Button } from "@/components/ui/button"
+import type { SyncState } from "@/hooks/use-offline-queue"
+import type { QueuedScan } from "@/lib/offline-queue"
+import { cn } from "@/lib/utils"
+
+// Connection and queue state, labelled by the "sync.<state>" keys; clicking retries pending scans.
+export function SyncStatus({ state, count, onSync }: { state: SyncState; count: number; onSync: () => void }) {
+  const { t } = useI18n()
+  const Icon = state === "offline" ? CloudOff : state === "syncing" ? Loader2 : state === "pending" ? CloudUpload : Wifi
+  return (
+    <button
+      type="button"
+      onClick={onSync}
+      disabled={state === "offline" || state === "syncing" || count === 0}
+      title={count > 0 ? t("sync.now") : undefined}
+      className={cn(
+        "inline-flex items-center gap-1.5 rounded-full px-2.5 py-1 text-xs font-medium",
+        state === "offline" ? "bg-amber-100 text-amber-800" : "bg-emerald-50 text-emerald-700",
+        count > 0 && state !== "offline" && "hover:bg-emerald-100",
+      )}
+    >
+      <Icon className={cn("h-3.5 w-3.5", state === "syncing" && "animate-spin")} aria-hidden />
+      {t(`sync.${state}`)}
+      {count > 0 && ` · ${t("sync.queued", { count })}`}
+    </button>
+  )
+}
+
+export function QueuedScanList({
+  queued,
+  onSync,
+  onDiscard,
+  syncing,
+}: {
+  queued: QueuedScan[]
+  onSync: () => void
+  onDiscard: (id: string) => void
+  syncing: boolean
+}) {
+  const { t, crop, locale } = useI18n()
+  return (
+    <div className="grid gap-2 rounded-lg border border-amber-200 bg-amber-50/60 p-3 text-sm">
+      <div className="flex items-center justify-between gap-3">
+        <span className="font-medium">
+          {queued.length === 1 ? t("queue.waitingOne") : t("queue.waitingMany", { count: queued.length })}
+        </span>
+        <Button variant="ghost" size="sm" onClick={onSync} disabled={syncing}>
+          <RefreshCw className="h-3.5 w-3.5" /> {t("queue.retry")}
+        </Button>
+      </div>
+      <ul className="grid gap-1">
+        {queued.map((q) => (
+          <li key={q.id} className="flex items-center gap-2">
+            <span className="min-w-0 flex-1 truncate">
+              {q.plot || q.image?.name || t("queue.labEntry")} · {t(`analysis.${q.analysisType}`)} ·{" "}
+              {crop(q.cropType)} · {new Date(q.queuedAt).toLocaleTimeString(locale)}
+              {q.error && <span className="text-red-700"> · {q.error}</span>}
+            </span>
+            <Button variant="ghost" size="sm" onClick={() => onDiscard(q.id)} aria-label={t("queue.discard")}>
+              <Trash2 className="h-3.5 w-3.5" />
+            </Button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
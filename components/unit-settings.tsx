@@ -0,0 +1,42 @@
+"use client"
+
+import { useI18n } from "@/components/i18n-provider"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { NUTRIENT_UNITS, UNIT_SYSTEMS, type NutrientUnit, type UnitSystem } from "@/lib/units"
+
+// Rates, amounts and areas in metric or imperial, and soil nutrient tests in mg/kg or ppm.
+export function UnitSettings() {
+  const { units, setUnits, t } = useI18n()
+  return (
+    <div className="grid gap-2">
+      <Label>{t("units.label")}</Label>
+      <div className="grid grid-cols-2 gap-2">
+        <Select value={units.system} onValueChange={(v) => setUnits({ ...units, system: v as UnitSystem })}>
+          <SelectTrigger aria-label={t("units.rates")} className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {UNIT_SYSTEMS.map((system) => (
+              <SelectItem key={system} value={system}>
+                {t(`units.${system}`)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={units.nutrients} onValueChange={(v) => setUnits({ ...units, nutrients: v as NutrientUnit })}>
+          <SelectTrigger aria-label={t("units.nutrients")} className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {NUTRIENT_UNITS.map((unit) => (
+              <SelectItem key={unit} value={unit}>
+                {unit}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  )
+}
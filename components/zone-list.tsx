@@ -0,0 +1,34 @@
+import { useI18n } from "@/components/i18n-provider"
+import { StatusBadge } from "@/components/status-badge"
+import type { ZoneResult } from "@/lib/types"
+
+// One row per drawn region: its own status, confidence and the metrics worth comparing.
+export function ZoneList({ zones, metrics }: { zones: ZoneResult[]; metrics: string[] }) {
+  const i18n = useI18n()
+  return (
+    <ul className="grid gap-2 sm:grid-cols-2">
+      {zones.map(({ region, result }) => (
+        <li key={region.id} className="grid gap-2 rounded-md bg-muted/60 px-3 py-2 text-sm">
+          <div className="flex items-center justify-between gap-3">
+            <span className="font-medium">{region.label}</span>
+            <StatusBadge status={result.status} />
+          </div>
+          <dl className="grid gap-0.5">
+            {metrics
+              .filter((m) => result.metrics[m] !== undefined)
+              .map((m) => (
+                <div key={m} className="flex items-baseline justify-between gap-3">
+                  <dt className="text-muted-foreground">{i18n.metric(m)}</dt>
+                  <dd className="tabular-nums">{i18n.value(result.metrics[m])}</dd>
+                </div>
+              ))}
+            <div className="flex items-baseline justify-between gap-3">
+              <dt className="text-muted-foreground">{i18n.t("result.confidenceLabel")}</dt>
+              <dd className="tabular-nums">{result.confidence}%</dd>
+            </div>
+          </dl>
+        </li>
+      ))}
+    </ul>
+  )
+}
@@ -0,0 +1,126 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import type { useOfflineQueue } from "@/hooks/use-offline-queue"
+import { UnusableImageError, type UnusableReason } from "@/lib/analyzers/errors"
+import { recordScan } from "@/lib/history"
+import { runScanInWorker, type ScanStage } from "@/lib/scan-pipeline"
+import type { AnalysisOptions, AnalysisResult, QualityIssue } from "@/lib/types"
+
+// "offline" items were handed to the offline queue, which analyzes them once the connection is back
+export type BatchItemState = "queued" | "analyzing" | "done" | "offline" | "failed"
+
+export type BatchItem = {
+  id: string
+  file: File
+  state: BatchItemState
+  // Pipeline stage while analyzing
+  stage?: ScanStage
+  result?: AnalysisResult
+  failure?: BatchFailure
+}
+
+// Why an item failed: the photo-quality problems that stopped it, the reason the analyzer found
+// nothing to measure, or another error's own message
+export type BatchFailure = { issues: QualityIssue[] } | { reason: UnusableReason } | { message?: string }
+
+// Scans in flight at once, each in its own worker. Keeps a 50-photo batch from flooding the analyzer.
+const CONCURRENCY = 2
+
+// Runs files through the scan worker a few at a time and saves each result to history. Files
+// that cannot reach the analyzer go to `enqueue` instead.
+export function useBatchQueue(
+  options: AnalysisOptions & { plot?: string; plotId?: string },
+  enqueue: ReturnType<typeof useOfflineQueue>["enqueue"],
+) {
+  const [items, setItems] = useState<BatchItem[]>([])
+  const [running, setRunning] = useState(false)
+  const abortRef = useRef<AbortController | null>(null)
+  const optionsRef = useRef(options)
+  optionsRef.current = options
+  const enqueueRef = useRef(enqueue)
+  enqueueRef.current = enqueue
+
+  const update = (id: string, patch: Partial<BatchItem>) =>
+    setItems((prev) => prev.map((it) => (it.id === id ? { ...it, ...patch } : it)))
+
+  const add = useCallback((files: File[]) => {
+    const images = files.filter((f) => f.type.startsWith("image/"))
+    setItems((prev) => [
+      ...prev,
+      ...images.map((file) => ({ id: crypto.randomUUID(), file, state: "queued" as const })),
+    ])
+  }, [])
+
+  const start = useCallback(async () => {
+    const pending = items.filter((it) => it.state === "queued")
+    if (pending.length === 0) return
+    const controller = new AbortController()
+    abortRef.current = controller
+    setRunning(true)
+
+    const { kind, crop, plot, plotId } = optionsRef.current
+    let next = 0
+    const worker = async () => {
+      while (next < pending.length && !controller.signal.aborted) {
+        const item = pending[next++]
+        update(item.id, { state: "analyzing", stage: undefined, failure: undefined })
+        try {
+          const outcome = await runScanInWorker(
+            { analysisType: kind, cropType: crop, image: item.file },
+            { signal: controller.signal, onStage: (stage) => update(item.id, { stage }) },
+          )
+          if (outcome.type === "rejected") {
+            const issues = outcome.issues.filter((i) => i.severity === "error")
+            update(item.id, { state: "failed", failure: { issues } })
+            continue
+          }
+          if (outcome.type === "offline") {
+            const scan = { analysisType: kind, cropType: crop, image: item.file, plot, plotId }
+            await enqueueRef.current({ ...scan, quality: outcome.warnings })
+            update(item.id, { state: "offline" })
+            continue
+          }
+          update(item.id, { state: "done", result: outcome.result })
+          void recordScan(item.file, outcome.result, { analysisType: kind, cropType: crop, plot, plotId })
+        } catch (err) {
+          if (controller.signal.aborted) {
+            update(item.id, { state: "queued" })
+            return
+          }
+          const failure =
+            err instanceof UnusableImageError
+              ? { reason: err.reason }
+              : { message: err instanceof Error ? err.message : undefined }
+          update(item.id, { state: "failed", failure })
+        }
+      }
+    }
+
+    await Promise.all(Array.from({ length: Math.min(CONCURRENCY, pending.length) }, worker))
+    if (abortRef.current === controller) {
+      abortRef.current = null
+      setRunning(false)
+    }
+  }, [items])
+
+  const stop = useCallback(() => {
+    abortRef.current?.abort()
+    abortRef.current = null
+    setRunning(false)
+  }, [])
+
+  // Puts failed items back in the queue for the next run.
+  const retry = useCallback(() => {
+    setItems((prev) => prev.map((it) => (it.state === "failed" ? { ...it, state: "queued", failure: undefined } : it)))
+  }, [])
+
+  const clear = useCallback(() => {
+    stop()
+    setItems([])
+  }, [stop])
+
+  useEffect(() => () => abortRef.current?.abort(), [])
+
+  return { items, running, add, start, stop, retry, clear }
+}
@@ -0,0 +1,81 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import { isNetworkError, runScan } from "@/lib/api"
+import { applyQualityPenalty } from "@/lib/confidence"
+import { buildScanRecord, saveScan } from "@/lib/history"
+import { enqueueScan, listQueued, removeQueued, updateQueued, type QueuedScan } from "@/lib/offline-queue"
+
+export type SyncState = "synced" | "pending" | "syncing" | "offline"
+
+// Keeps scans taken without a connection in IndexedDB and analyzes them, oldest first, once
+// the device is back online. Each finished scan lands in history under its capture time.
+export function useOfflineQueue() {
+  const [queued, setQueued] = useState<QueuedScan[]>([])
+  const [online, setOnline] = useState(true)
+  const [syncing, setSyncing] = useState(false)
+  const syncingRef = useRef(false)
+
+  const refresh = useCallback(async () => {
+    setQueued(await listQueued().catch(() => []))
+  }, [])
+
+  const sync = useCallback(async () => {
+    if (syncingRef.current || !navigator.onLine) return
+    syncingRef.current = true
+    setSyncing(true)
+    try {
+      for (const item of await listQueued()) {
+        try {
+          const result = applyQualityPenalty(await runScan(item), item.quality ?? [])
+          const { analysisType, cropType, plot, plotId, queuedAt } = item
+          const details = { analysisType, cropType, plot, plotId, createdAt: queuedAt }
+          const record = await buildScanRecord(item.image, result, details)
+          // The queue holds the only copy until history has it, so a failed save keeps the item.
+          await saveScan(record)
+          await removeQueued(item.id)
+        } catch (err) {
+          // Connection dropped again: leave the rest for the next attempt.
+          if (isNetworkError(err)) break
+          await updateQueued({ ...item, error: err instanceof Error ? err.message : "Analysis failed" })
+        }
+      }
+    } catch (err) {
+      console.warn("Could not read the offline queue", err)
+    } finally {
+      syncingRef.current = false
+      setSyncing(false)
+      await refresh()
+    }
+  }, [refresh])
+
+  const enqueue = useCallback(async (scan: Omit<QueuedScan, "id" | "queuedAt">) => {
+    const item = await enqueueScan(scan)
+    setQueued((prev) => [...prev, item])
+    return item
+  }, [])
+
+  const discard = useCallback(async (id: string) => {
+    await removeQueued(id)
+    setQueued((prev) => prev.filter((q) => q.id !== id))
+  }, [])
+
+  useEffect(() => {
+    setOnline(navigator.onLine)
+    void refresh().then(sync)
+    const goOnline = () => {
+      setOnline(true)
+      void sync()
+    }
+    const goOffline = () => setOnline(false)
+    window.addEventListener("online", goOnline)
+    window.addEventListener("offline", goOffline)
+    return () => {
+      window.removeEventListener("online", goOnline)
+      window.removeEventListener("offline", goOffline)
+    }
+  }, [refresh, sync])
+
+  const state: SyncState = !online ? "offline" : syncing ? "syncing" : queued.length > 0 ? "pending" : "synced"
+  return { queued, state, enqueue, sync, discard }
+}
@@ -0,0 +1,44 @@
+// Why a photo could not be analyzed. The API sends it next to the English message so the
+// client can explain the problem in the reader's language.
+export const UNUSABLE_REASONS = ["noSoil", "noVegetation", "undecodable"] as const
+
+export type UnusableReason = (typeof UNUSABLE_REASONS)[number]
+
+// The image decoded but holds nothing the analyzer can measure, e.g. no soil or no canopy.
+// The API answers 422 with the message so the user knows to retake the photo.
+export class UnusableImageError extends Error {
+  constructor(
+    message: string,
+    readonly reason: UnusableReason,
+  ) {
+    super(message)
+    this.name = "UnusableImageError"
+  }
+}
+
+// The upload is not an image the server can read: corrupt, truncated or in a format it lacks
+// a decoder for. The API answers 415.
+export class UndecodableImageError extends UnusableImageError {
+  constructor(options?: ErrorOptions) {
+    super("Image could not be decoded", "undecodable")
+    this.name = "UndecodableImageError"
+    if (options?.cause) this.cause = options.cause
+  }
+}
+
+// The onnx backend was picked but models/<kind>.onnx or its sidecar is missing. The API answers
+// 503: the request is fine, this server is not set up to serve it.
+export class ModelNotInstalledError extends Error {
+  constructor(
+    readonly kind: string,
+    options?: ErrorOptions,
+  ) {
+    super(`No model installed for ${kind} analysis. Add models/${kind}.onnx and models/${kind}.json.`)
+    this.name = "ModelNotInstalledError"
+    if (options?.cause) this.cause = options.cause
+  }
+}
+
+export function isUnusableReason(value: unknown): value is UnusableReason {
+  return UNUSABLE_REASONS.includes(value as UnusableReason)
+}
@@ -0,0 +1,29 @@
+import type { AnalysisOptions, AnalysisResult } from "@/lib/types"
+import { mockAnalyzer } from "@/lib/analyzers/mock"
+import { onnxAnalyzer } from "@/lib/analyzers/onnx"
+import { pixelAnalyzer } from "@/lib/analyzers/pixel"
+
+export type Analyzer = {
+  id: string
+  analyze(image: File, options: AnalysisOptions): Promise<AnalysisResult>
+}
+
+const registry = new Map<string, Analyzer>()
+
+export const DEFAULT_ANALYZER = process.env.AGRISCAN_ANALYZER ?? "pixel"
+
+export function registerAnalyzer(analyzer: Analyzer) {
+  registry.set(analyzer.id, analyzer)
+}
+
+export function getAnalyzer(id: string = DEFAULT_ANALYZER): Analyzer | undefined {
+  return registry.get(id)
+}
+
+export function listAnalyzers(): string[] {
+  return [...registry.keys()]
+}
+
+registerAnalyzer(mockAnalyzer)
+registerAnalyzer(pixelAnalyzer)
+registerAnalyzer(onnxAnalyzer)
@@ -0,0 +1,86 @@
+import { factor, scoreConfidence } from "@/lib/confidence"
+import { getCrop } from "@/lib/crops"
+import { classifyDiseases } from "@/lib/disease"
+import { cropName, localized, localizedNotes } from "@/lib/i18n"
+import { category, quantity } from "@/lib/metrics"
+import { recommend } from "@/lib/recommendations"
+import { describeEvaluation, evaluateSoil } from "@/lib/rules"
+import type { AnalysisOptions, AnalysisResult, Status } from "@/lib/types"
+import type { Analyzer } from "@/lib/analyzers"
+
+// Deterministic stand-in: derives every value from the file size and name so the
+// same upload always yields the same result. Useful for demos and UI work.
+export const mockAnalyzer: Analyzer = {
+  id: "mock",
+  async analyze(image: File, { kind, crop }: AnalysisOptions): Promise<AnalysisResult> {
+    // Simple deterministic seed
+    const seed = (image.size % 97) + image.name.length * 7
+    const rand = (min: number, max: number) => {
+      const r = (Math.sin(seed + min + max) + 1) / 2
+      return Number((min + r * (max - min)).toFixed(1))
+    }
+
+    // Nothing is measured, so the score says so rather than pretending to certainty.
+    const confidence = scoreConfidence(factor("demo", localized("confidence.demo"), 50), [])
+
+    if (kind === "soil") {
+      const ph = rand(5.5, 7.8)
+      const moisture = rand(18, 62)
+      const n = Math.round(rand(15, 80))
+      const p = Math.round(rand(10, 60))
+      const k = Math.round(rand(80, 260))
+
+      const metrics = {
+        ph: quantity(ph),
+        moisture: quantity(moisture, "%"),
+        nitrogen: quantity(n, "mg/kg"),
+        phosphorus: quantity(p, "mg/kg"),
+        potassium: quantity(k, "mg/kg"),
+      }
+      const evaluation = evaluateSoil(metrics, crop)
+
+      return {
+        status: evaluation.status,
+        ...confidence,
+        ...localizedNotes([describeEvaluation(evaluation, crop)]),
+        metrics,
+        evaluation,
+        recommendations: recommend(metrics, crop),
+      }
+    }
+
+    const status: Status = (["Good", "Marginal", "Poor"] as const)[seed % 3]
+
+    const healthIdx = rand(35, 95)
+    const diseaseRisk =
+      status === "Good" ? (healthIdx > 80 ? "Low" : "Moderate") : status === "Poor" && healthIdx < 55 ? "High" : "Moderate"
+    const moisture = rand(30, 70)
+
+    const cropLabel = getCrop(crop).label
+    const notes = localizedNotes([
+      localized(status === "Good" ? "notes.cropHealthy" : "notes.cropStressedDemo", { crop: cropName(crop) }),
+    ])
+
+    return {
+      status,
+      ...confidence,
+      ...notes,
+      metrics: {
+        healthIndex: quantity(healthIdx),
+        diseaseRisk: category(diseaseRisk),
+        leafMoisture: quantity(moisture, "%"),
+        crop: category(cropLabel),
+      },
+      conditions: classifyDiseases(
+        {
+          chlorosis: rand(0, 0.6),
+          necrosis: rand(0, 0.8),
+          darkLesions: rand(0, 0.5),
+          powdery: rand(0, 0.3),
+          mottling: rand(0, 0.4),
+        },
+        crop,
+      ).slice(0, 3),
+    }
+  },
+}
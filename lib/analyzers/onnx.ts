@@ -0,0 +1,145 @@
+import { access, readFile } from "node:fs/promises"
+import path from "node:path"
+import type { InferenceSession } from "onnxruntime-node"
+import type { Analyzer } from "@/lib/analyzers"
+import { ModelNotInstalledError } from "@/lib/analyzers/errors"
+import { factor, scoreConfidence } from "@/lib/confidence"
+import { conditionName, localized, localizedNotes, statusName } from "@/lib/i18n"
+import { decodeSquareRgb } from "@/lib/image"
+import { category, quantity } from "@/lib/metrics"
+import type { AnalysisOptions, AnalysisResult, CropType, ImageAnalysisType, Metrics, Status } from "@/lib/types"
+
+// Each analysis type has its own classifier: models/<kind>.onnx plus a models/<kind>.json
+// sidecar describing preprocessing and what every output class means.
+type ModelLabel = {
+  name: string
+  status: Status
+  note?: string
+  // Restrict a class to specific crops; omitted means it applies to all of them.
+  crops?: CropType[]
+  // Crop catalog disease id (or "healthy") this class corresponds to
+  condition?: string
+}
+
+type ModelSpec = {
+  input?: string
+  size: number
+  mean: [number, number, number]
+  std: [number, number, number]
+  labels: ModelLabel[]
+}
+
+type LoadedModel = {
+  session: InferenceSession
+  spec: ModelSpec
+  Tensor: typeof import("onnxruntime-node").Tensor
+}
+
+const MODEL_DIR = process.env.AGRISCAN_MODEL_DIR ?? path.join(process.cwd(), "models")
+
+const models = new Map<ImageAnalysisType, Promise<LoadedModel>>()
+
+function missingModel(kind: ImageAnalysisType) {
+  return (err: NodeJS.ErrnoException): never => {
+    if (err.code === "ENOENT") throw new ModelNotInstalledError(kind, { cause: err })
+    throw err
+  }
+}
+
+function loadModel(kind: ImageAnalysisType): Promise<LoadedModel> {
+  let pending = models.get(kind)
+  if (!pending) {
+    pending = (async () => {
+      const modelPath = path.join(MODEL_DIR, `${kind}.onnx`)
+      const sidecar = await readFile(path.join(MODEL_DIR, `${kind}.json`), "utf8").catch(missingModel(kind))
+      await access(modelPath).catch(missingModel(kind))
+      const spec = JSON.parse(sidecar) as ModelSpec
+      // Imported lazily so the native runtime is only loaded when this backend is used.
+      const ort = await import("onnxruntime-node")
+      const session = await ort.InferenceSession.create(modelPath, { executionProviders: ["cpu"] })
+      if (session.outputNames.length === 0) throw new Error(`Model for "${kind}" has no outputs`)
+      return { session, spec, Tensor: ort.Tensor }
+    })()
+    // Don't cache failures; a model dropped in later should be picked up on the next request.
+    pending.catch(() => models.delete(kind))
+    models.set(kind, pending)
+  }
+  return pending
+}
+
+function toNchw(rgb: Uint8Array, { size, mean, std }: ModelSpec): Float32Array {
+  const plane = size * size
+  const out = new Float32Array(3 * plane)
+  for (let i = 0; i < plane; i++) {
+    for (let c = 0; c < 3; c++) {
+      out[c * plane + i] = (rgb[i * 3 + c] / 255 - mean[c]) / std[c]
+    }
+  }
+  return out
+}
+
+function softmax(logits: number[]): number[] {
+  const max = Math.max(...logits)
+  const exps = logits.map((v) => Math.exp(v - max))
+  const sum = exps.reduce((a, b) => a + b, 0)
+  return exps.map((v) => v / sum)
+}
+
+export const onnxAnalyzer: Analyzer = {
+  id: "onnx",
+  async analyze(image: File, { kind, crop }: AnalysisOptions): Promise<AnalysisResult> {
+    const { session, spec, Tensor } = await loadModel(kind)
+    const rgb = await decodeSquareRgb(image, spec.size)
+    const input = new Tensor("float32", toNchw(rgb, spec), [1, 3, spec.size, spec.size])
+    const outputs = await session.run({ [spec.input ?? session.inputNames[0]]: input })
+    const logits = Array.from(outputs[session.outputNames[0]].data as Float32Array)
+    if (logits.length !== spec.labels.length) {
+      throw new Error(`Model for "${kind}" returned ${logits.length} classes, expected ${spec.labels.length}`)
+    }
+
+    // Drop classes that don't apply to the selected crop and renormalise what's left.
+    const probs = softmax(logits)
+    const candidates = spec.labels
+      .map((label, i) => ({ label, p: probs[i] }))
+      .filter(({ label }) => !label.crops || label.crops.includes(crop))
+    const total = candidates.reduce((a, c) => a + c.p, 0) || 1
+    const ranked = candidates.map((c) => ({ ...c, p: c.p / total })).sort((a, b) => b.p - a.p)
+    const [top] = ranked
+    if (!top) throw new Error(`Model for "${kind}" has no classes for ${crop}`)
+
+    // Class names double as ids for their probabilities
+    const metrics: Metrics = { class: category(top.label.name) }
+    for (const { label, p } of ranked.slice(0, 3)) {
+      metrics[label.name] = quantity(Number((p * 100).toFixed(1)), "%")
+    }
+
+    const conditions = ranked
+      .flatMap(({ label: { condition, name }, p }) =>
+        condition ? [{ id: condition, name, probability: Number(p.toFixed(3)) }] : [],
+      )
+      .slice(0, 3)
+
+    // A runner-up with a different grade close behind means the grade itself is uncertain.
+    const runnerUp = ranked.find((c) => c.label.status !== top.label.status)
+    const close = runnerUp && top.p - runnerUp.p < 0.15 ? runnerUp.label : undefined
+    const margin = close && localized("confidence.runnerUp", { name: close.name, status: statusName(close.status) })
+    const { condition, name } = top.label
+    const topName = condition ? conditionName({ id: condition, name }) : name
+    const confidence = scoreConfidence(
+      factor("model", localized("confidence.model", { name: topName }), top.p * 100),
+      margin ? [factor("margin", margin, -10)] : [],
+    )
+    // A sidecar note is shown as written
+    const notes = top.label.note
+      ? { notes: top.label.note }
+      : localizedNotes([localized("notes.classified", { name: topName })])
+
+    return {
+      status: top.label.status,
+      ...confidence,
+      ...notes,
+      metrics,
+      ...(conditions.length > 0 && { conditions }),
+    }
+  },
+}
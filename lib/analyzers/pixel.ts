@@ -0,0 +1,170 @@
+import type { Analyzer } from "@/lib/analyzers"
+import { UnusableImageError } from "@/lib/analyzers/errors"
+import { factor, scoreConfidence } from "@/lib/confidence"
+import { getCrop } from "@/lib/crops"
+import { classifyDiseases, measureSymptoms } from "@/lib/disease"
+import { conditionName, cropName, localized, localizedNotes } from "@/lib/i18n"
+import { decodeImage, type RasterImage } from "@/lib/image"
+import { category, quantity } from "@/lib/metrics"
+import { laplacianVariance } from "@/lib/quality"
+import { recommend } from "@/lib/recommendations"
+import { describeEvaluation, evaluateSoil } from "@/lib/rules"
+import { analyzeSoilColor, estimateSoilProperties } from "@/lib/soil-color"
+import type { AnalysisOptions, AnalysisResult, CropType, Status } from "@/lib/types"
+import { computeVegetationIndices, HEALTHY_INDEX } from "@/lib/vegetation"
+
+const TOP_CONDITIONS = 3
+// Health Index from which a crop grades Marginal rather than Poor.
+const MARGINAL_INDEX = 45
+// Soil has grain, clods and pores; a photo smoother than the blur warning level of lib/quality.ts
+// may be a wall, a screen or a blank image rather than a soil surface.
+const SOIL_TEXTURE = 50
+// Munsell chroma below which the colour carries no hue at all. Even grey, gleyed soils rarely get there.
+const NEUTRAL_CHROMA = 1
+
+// Measures the decoded pixels directly. No model is involved, so every number can be
+// traced back to a colour statistic of the photo.
+export const pixelAnalyzer: Analyzer = {
+  id: "pixel",
+  async analyze(image: File, { kind, crop }: AnalysisOptions): Promise<AnalysisResult> {
+    const img = await decodeImage(image)
+    return kind === "soil" ? analyzeSoil(img, crop) : analyzeCrop(img, crop)
+  },
+}
+
+function analyzeSoil(img: RasterImage, crop: CropType): AnalysisResult {
+  const color = analyzeSoilColor(img)
+  const est = estimateSoilProperties(color)
+  const munsell = `${color.munsellHue} ${Math.round(color.munsellValue)}/${Math.round(color.munsellChroma)}`
+  const metrics = {
+    ph: quantity(est.ph),
+    moisture: quantity(est.moisture, "%"),
+    organicMatter: quantity(est.organicMatter, "%"),
+    munsell: category(munsell),
+    brightness: quantity(color.brightness),
+  }
+  const evaluation = evaluateSoil(metrics, crop)
+
+  // Mixed scenes (stones, residue, uneven light) spread the lightness histogram, leave fewer
+  // usable pixels and make the quadrants of the photo disagree; each lowers confidence. So does
+  // a photo that may not show soil at all: one without texture or without any hue.
+  const phSpread = quadrantPhSpread(img)
+  const texture = laplacianVariance(img)
+  const confidence = scoreConfidence(factor("estimator", localized("confidence.soilEstimate"), 95), [
+    factor(
+      "coverage",
+      localized("confidence.coverage", { share: Math.round(color.coverage * 100) }),
+      -(1 - color.coverage) * 30,
+    ),
+    factor("uniformity", localized("confidence.uniformity"), -Math.min(20, color.lightnessSpread * 0.8)),
+    factor(
+      "agreement",
+      localized("confidence.phSpread", { spread: Number(phSpread.toFixed(1)) }),
+      -Math.min(20, phSpread * 20),
+    ),
+    factor("texture", localized("confidence.texture"), -Math.max(0, 1 - texture / SOIL_TEXTURE) * 40),
+    factor("neutral", localized("confidence.neutral"), -Math.max(0, 1 - color.munsellChroma / NEUTRAL_CHROMA) * 15),
+  ])
+
+  const notes = localizedNotes([
+    describeEvaluation(evaluation, crop),
+    localized("notes.soilColour", { munsell, coverage: Math.round(color.coverage * 100) }),
+    localized("notes.soilMoisture", { share: Math.round(color.darkFraction * 100) }),
+    localized("notes.soilMethod"),
+  ])
+
+  return {
+    status: evaluation.status,
+    ...confidence,
+    ...notes,
+    metrics,
+    evaluation,
+    recommendations: recommend(metrics, crop),
+  }
+}
+
+// Range of pH estimates over the four quadrants, as an independent cross-check of the whole-
+// image estimate. Quadrants without soil pixels are skipped.
+function quadrantPhSpread(img: RasterImage): number {
+  const halfW = Math.floor(img.width / 2)
+  const halfH = Math.floor(img.height / 2)
+  const estimates: number[] = []
+  for (const [x0, y0] of [
+    [0, 0],
+    [halfW, 0],
+    [0, halfH],
+    [halfW, halfH],
+  ]) {
+    const data = new Uint8ClampedArray(halfW * halfH * 4)
+    for (let y = 0; y < halfH; y++) {
+      const from = ((y0 + y) * img.width + x0) * 4
+      data.set(img.data.subarray(from, from + halfW * 4), y * halfW * 4)
+    }
+    try {
+      estimates.push(estimateSoilProperties(analyzeSoilColor({ width: halfW, height: halfH, data })).ph)
+    } catch {
+      // No soil in this quadrant
+    }
+  }
+  return estimates.length > 1 ? Math.max(...estimates) - Math.min(...estimates) : 0
+}
+
+function analyzeCrop(img: RasterImage, crop: CropType): AnalysisResult {
+  const profile = getCrop(crop)
+  const veg = computeVegetationIndices(img)
+  if (veg.canopyCover === 0) {
+    throw new UnusableImageError("No vegetation found in image", "noVegetation")
+  }
+
+  const stressedPct = Math.round(veg.stressedFraction * 100)
+  const conditions = classifyDiseases(measureSymptoms(img), crop)
+  const healthyP = conditions.find((c) => c.id === "healthy")?.probability ?? 0
+  const status: Status =
+    veg.healthIndex >= HEALTHY_INDEX && stressedPct < 25
+      ? "Good"
+      : veg.healthIndex >= MARGINAL_INDEX && stressedPct < 50
+        ? "Marginal"
+        : "Poor"
+  const diseaseRisk = healthyP >= 0.7 ? "Low" : healthyP >= 0.4 ? "Moderate" : "High"
+  // The vegetation index and the leaf-symptom classifier are independent reads of the same
+  // leaves; a grade they contradict, or one that sits on a threshold, is less certain.
+  const disagree = (status === "Good" && healthyP < 0.4) || (status === "Poor" && healthyP >= 0.7)
+  const margin = Math.min(...[HEALTHY_INDEX, MARGINAL_INDEX].map((t) => Math.abs(veg.healthIndex - t)))
+  const confidence = scoreConfidence(factor("estimator", localized("confidence.vegetationEstimate"), 95), [
+    factor(
+      "canopy",
+      localized("confidence.canopy", { share: Math.round(veg.canopyCover * 100) }),
+      -35 * (1 - Math.min(veg.canopyCover / 0.4, 1)),
+    ),
+    factor("agreement", localized("confidence.symptoms"), disagree ? -15 : 0),
+    factor("boundary", localized("confidence.boundary"), margin < 3 ? -10 : 0),
+  ])
+
+  const cropLabel = profile.label
+  const suspect = conditions.find((c) => c.id !== "healthy")
+  const notes = localizedNotes([
+    status === "Good"
+      ? localized("notes.cropHealthy", { crop: cropName(crop) })
+      : localized("notes.cropStressed", { crop: cropName(crop), share: stressedPct }),
+    ...(suspect && suspect.probability >= 0.25 ? [localized("notes.cropSuspect", { condition: conditionName(suspect) })] : []),
+    localized("notes.cropMethod"),
+  ])
+
+  return {
+    status,
+    ...confidence,
+    ...notes,
+    metrics: {
+      healthIndex: quantity(veg.healthIndex),
+      diseaseRisk: category(diseaseRisk),
+      canopyCover: quantity(Math.round(veg.canopyCover * 100), "%"),
+      stressedArea: quantity(stressedPct, "%"),
+      exg: quantity(veg.exg),
+      vari: quantity(veg.vari),
+      gli: quantity(veg.gli),
+      crop: category(cropLabel),
+    },
+    heatmap: veg.heatmap,
+    conditions: conditions.slice(0, TOP_CONDITIONS),
+  }
+}
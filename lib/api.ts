@@ -0,0 +1,63 @@
+import { isUnusableReason, UndecodableImageError, UnusableImageError } from "@/lib/analyzers/errors"
+import { analyzeLab, mergeLabResult, type LabValues } from "@/lib/lab"
+import type { AnalysisOptions, AnalysisResult, AnalysisType, CropType } from "@/lib/types"
+
+export const MAX_IMAGE_BYTES = 10 * 1024 * 1024
+
+type ErrorBody = { error?: string; reason?: string }
+
+export async function requestAnalysis(
+  image: File,
+  { kind, crop, analyzer }: AnalysisOptions & { analyzer?: string },
+  signal?: AbortSignal,
+): Promise<AnalysisResult> {
+  const body = new FormData()
+  body.append("image", image)
+  body.append("analysisType", kind)
+  body.append("cropType", crop)
+  if (analyzer) body.append("analyzer", analyzer)
+
+  const res = await fetch("/api/analyze", { method: "POST", body, signal })
+  if (!res.ok) {
+    const data = (await res.json().catch(() => ({}))) as ErrorBody
+    if (res.status === 415) throw new UndecodableImageError()
+    if (res.status === 422 && isUnusableReason(data.reason)) {
+      throw new UnusableImageError(data.error ?? "Nothing to analyze in this image", data.reason)
+    }
+    throw new Error(data.error ?? `Analysis failed (${res.status})`)
+  }
+  return (await res.json()) as AnalysisResult
+}
+
+export type ScanRequest = {
+  analysisType: AnalysisType
+  cropType: CropType
+  image: File | null
+  lab?: LabValues
+}
+
+// Lab entries are scored locally; with a photo attached the image is analyzed as soil
+// first and the lab values are merged into that result.
+export async function runScan(
+  { analysisType, cropType, image, lab }: ScanRequest,
+  signal?: AbortSignal,
+): Promise<AnalysisResult> {
+  if (analysisType !== "lab") {
+    if (!image) throw new Error("Choose an image to analyze")
+    return requestAnalysis(image, { kind: analysisType, crop: cropType }, signal)
+  }
+  if (!lab) throw new Error("Enter lab values to evaluate")
+  if (!image) return analyzeLab(lab, cropType)
+  const imageResult = await requestAnalysis(image, { kind: "soil", crop: cropType }, signal)
+  return mergeLabResult(imageResult, lab, cropType)
+}
+
+// Whether a scan has to reach the analysis API, and so can only run online.
+export function needsServer({ analysisType, image }: ScanRequest): boolean {
+  return analysisType !== "lab" || image !== null
+}
+
+// fetch rejects with a TypeError when the network is unreachable, unlike HTTP errors.
+export function isNetworkError(err: unknown): boolean {
+  return err instanceof TypeError || (typeof navigator !== "undefined" && !navigator.onLine)
+}
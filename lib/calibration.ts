@@ -0,0 +1,122 @@
+import { localized } from "@/lib/i18n"
+import {
+  CROP_TYPES,
+  IMAGE_ANALYSIS_TYPES,
+  type CropType,
+  type ImageAnalysisType,
+  type LocalizedText,
+  type Status,
+} from "@/lib/types"
+
+const STATUSES: Status[] = ["Good", "Marginal", "Poor"]
+
+// One row of a labeled dataset: an image and the grade an agronomist gave it.
+export type LabeledImage = {
+  file: string
+  analysisType: ImageAnalysisType
+  cropType: CropType
+  expected: Status
+}
+
+export type CalibrationSample = { confidence: number; predicted: Status; expected: Status }
+
+export type ReliabilityBin = {
+  // Confidence range covered, 0-100
+  from: number
+  to: number
+  count: number
+  meanConfidence: number
+  accuracy: number
+}
+
+export type CalibrationReport = {
+  count: number
+  accuracy: number
+  meanConfidence: number
+  // Expected calibration error: count-weighted gap between confidence and accuracy per bin, 0-1
+  ece: number
+  // Mean squared error of confidence as a probability of being right, 0-1
+  brier: number
+  bins: ReliabilityBin[]
+  // confusion[expected][predicted] counts
+  confusion: Record<Status, Record<Status, number>>
+}
+
+// Parses labels.csv: a header row naming `file`, `type`, `crop` and `status` columns, in any
+// order. Rows with unknown values are reported rather than silently dropped.
+export function parseLabels(csv: string): { rows: LabeledImage[]; errors: LocalizedText[] } {
+  const lines = csv.split(/\r?\n/).filter((l) => l.trim())
+  const header = (lines.shift() ?? "").split(",").map((h) => h.trim().toLowerCase())
+  const col = (name: string) => header.indexOf(name)
+  const missing = ["file", "type", "crop", "status"].filter((name) => col(name) === -1)
+  if (missing.length > 0) {
+    return { rows: [], errors: [localized("calibrate.missingColumns", { columns: missing.join(", ") })] }
+  }
+
+  const rows: LabeledImage[] = []
+  const errors: LocalizedText[] = []
+  lines.forEach((line, i) => {
+    const cells = line.split(",").map((c) => c.trim().replace(/^"(.*)"$/, "$1"))
+    const [file, type, crop, status] = ["file", "type", "crop", "status"].map((name) => cells[col(name)] ?? "")
+    const expected = STATUSES.find((s) => s.toLowerCase() === status.toLowerCase())
+    if (!file || !IMAGE_ANALYSIS_TYPES.includes(type as ImageAnalysisType)) {
+      errors.push(localized("calibrate.badType", { row: i + 2, types: IMAGE_ANALYSIS_TYPES.join(", ") }))
+    } else if (!CROP_TYPES.includes(crop as CropType)) {
+      errors.push(localized("calibrate.badCrop", { row: i + 2, crop }))
+    } else if (!expected) {
+      errors.push(localized("calibrate.badStatus", { row: i + 2, statuses: STATUSES.join(", ") }))
+    } else {
+      rows.push({ file, analysisType: type as ImageAnalysisType, cropType: crop as CropType, expected })
+    }
+  })
+  return { rows, errors }
+}
+
+// Compares stated confidence with how often the predicted status was actually right. On a
+// well-calibrated analyzer, scans given 90% are right about 90% of the time.
+export function calibrationReport(samples: CalibrationSample[], binCount = 10): CalibrationReport {
+  const width = 100 / binCount
+  const bins = Array.from({ length: binCount }, (_, i) => ({
+    from: i * width,
+    to: (i + 1) * width,
+    n: 0,
+    conf: 0,
+    hits: 0,
+  }))
+  const confusion = Object.fromEntries(
+    STATUSES.map((e) => [e, Object.fromEntries(STATUSES.map((p) => [p, 0]))]),
+  ) as CalibrationReport["confusion"]
+
+  let hits = 0
+  let confidence = 0
+  let brier = 0
+  for (const s of samples) {
+    const p = s.confidence / 100
+    const hit = s.predicted === s.expected ? 1 : 0
+    const bin = bins[Math.min(binCount - 1, Math.floor(s.confidence / width))]
+    bin.n++
+    bin.conf += p
+    bin.hits += hit
+    hits += hit
+    confidence += p
+    brier += (p - hit) ** 2
+    confusion[s.expected][s.predicted]++
+  }
+
+  const n = samples.length || 1
+  return {
+    count: samples.length,
+    accuracy: hits / n,
+    meanConfidence: confidence / n,
+    ece: bins.reduce((sum, b) => sum + (b.n > 0 ? (b.n / n) * Math.abs(b.conf / b.n - b.hits / b.n) : 0), 0),
+    brier: brier / n,
+    bins: bins.map((b) => ({
+      from: b.from,
+      to: b.to,
+      count: b.n,
+      meanConfidence: b.n > 0 ? b.conf / b.n : 0,
+      accuracy: b.n > 0 ? b.hits / b.n : 0,
+    })),
+    confusion,
+  }
+}
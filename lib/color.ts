@@ -0,0 +1,37 @@
+export type Lab = { L: number; a: number; b: number }
+
+function srgbToLinear(c: number): number {
+  const v = c / 255
+  return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4)
+}
+
+function labF(t: number): number {
+  return t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116
+}
+
+// sRGB (0-255) to CIELAB under D65.
+export function rgbToLab(r: number, g: number, b: number): Lab {
+  const lr = srgbToLinear(r)
+  const lg = srgbToLinear(g)
+  const lb = srgbToLinear(b)
+  const x = (0.4124 * lr + 0.3576 * lg + 0.1805 * lb) / 0.95047
+  const y = 0.2126 * lr + 0.7152 * lg + 0.0722 * lb
+  const z = (0.0193 * lr + 0.1192 * lg + 0.9505 * lb) / 1.08883
+  const fx = labF(x)
+  const fy = labF(y)
+  const fz = labF(z)
+  return { L: 116 * fy - 16, a: 500 * (fx - fy), b: 200 * (fy - fz) }
+}
+
+// Hue angle in degrees (0-360) and chroma of a Lab colour.
+export function labToLch({ a, b }: Lab): { C: number; h: number } {
+  const h = (Math.atan2(b, a) * 180) / Math.PI
+  return { C: Math.hypot(a, b), h: h < 0 ? h + 360 : h }
+}
+
+export function median(values: Float32Array | number[]): number {
+  if (values.length === 0) return 0
+  const sorted = Float32Array.from(values).sort()
+  const mid = sorted.length >> 1
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2
+}
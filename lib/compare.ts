@@ -0,0 +1,77 @@
+import type { Range } from "@/lib/crops"
+import type { ScanRecord } from "@/lib/history"
+import { isNumericMetric, metricNumber } from "@/lib/metrics"
+import { targetBand } from "@/lib/trends"
+import type { MetricValue } from "@/lib/types"
+
+export const MIN_COMPARE = 2
+export const MAX_COMPARE = 4
+
+export type CompareCell = {
+  value?: MetricValue
+  // Change against the first (baseline) scan, numeric metrics only
+  delta?: number
+  // How far outside the crop's band, in band widths; 0 inside it
+  distance?: number
+  band?: Range
+}
+
+export type CompareRow = {
+  metric: string
+  cells: CompareCell[]
+  // Index of the scan nearest its target band, when the metric has one and they differ
+  closest?: number
+}
+
+export type Comparison = {
+  rows: CompareRow[]
+  // Per scan: metrics inside their band out of those that have one
+  inBand: { passed: number; total: number }[]
+  // Index of the scan closest to ideal overall, undefined on a tie
+  best?: number
+}
+
+function bandDistance(value: number, { min, max }: Range): number {
+  if (value >= min && value <= max) return 0
+  return (value < min ? min - value : value - max) / (max - min || 1)
+}
+
+// Aligns every metric reported by any of the scans, in first-seen order. Each scan is judged
+// against its own crop, so different crops can be compared fairly.
+export function compareScans(scans: ScanRecord[]): Comparison {
+  const metrics = [...new Set(scans.flatMap((s) => Object.keys(s.result.metrics)))]
+  const totals = scans.map(() => ({ passed: 0, total: 0, distance: 0 }))
+
+  const rows = metrics.map((metric): CompareRow => {
+    const base = scans[0].result.metrics[metric]
+    const cells = scans.map((scan, i): CompareCell => {
+      const value = scan.result.metrics[metric]
+      if (!isNumericMetric(value)) return { value }
+      const band = targetBand(metric, scan.cropType)
+      const distance = band ? bandDistance(value.value, band) : undefined
+      if (distance !== undefined) {
+        totals[i].total++
+        totals[i].distance += distance
+        if (distance === 0) totals[i].passed++
+      }
+      // In the baseline's unit, so the difference is like for like
+      const delta =
+        i > 0 && isNumericMetric(base)
+          ? Number((metricNumber(scan.result.metrics, metric, base.unit)! - base.value).toFixed(2))
+          : undefined
+      return { value, delta, distance, band }
+    })
+    return { metric, cells, closest: closestIndex(cells.map((c) => c.distance)) }
+  })
+
+  const best = closestIndex(totals.map((t) => (t.total > 0 ? t.distance / t.total : undefined)))
+  return { rows, inBand: totals.map(({ passed, total }) => ({ passed, total })), best }
+}
+
+function closestIndex(distances: (number | undefined)[]): number | undefined {
+  const known = distances.filter((d): d is number => d !== undefined)
+  if (known.length < 2) return undefined
+  const min = Math.min(...known)
+  const hits = distances.filter((d) => d === min).length
+  return hits === 1 ? distances.indexOf(min) : undefined
+}
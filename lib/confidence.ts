@@ -0,0 +1,54 @@
+import { formatText, localized } from "@/lib/i18n"
+import type { AnalysisResult, ConfidenceFactor, LocalizedText, QualityIssue } from "@/lib/types"
+
+const MIN_CONFIDENCE = 5
+const MAX_CONFIDENCE = 99
+
+// Points taken off for each photo problem the scan went ahead with. Blocking issues that
+// were overridden cost twice as much.
+const QUALITY_PENALTY: Record<QualityIssue["id"], number> = {
+  resolution: 5,
+  "file-size": 3,
+  blur: 10,
+  "too-dark": 12,
+  "too-bright": 12,
+  clipped: 6,
+  content: 10,
+}
+
+// A factor whose label is shown in the reader's language, keeping the English for older readers.
+export function factor(id: string, text: LocalizedText, points: number): ConfidenceFactor {
+  return { id, label: formatText("en", text), labelText: text, points }
+}
+
+// Sums a starting estimate and its deductions into a 0-100 score. Deductions that round to
+// nothing are dropped so the breakdown only lists what mattered.
+export function scoreConfidence(
+  base: ConfidenceFactor,
+  deductions: ConfidenceFactor[],
+): Pick<AnalysisResult, "confidence" | "confidenceFactors"> {
+  const factors = [
+    { ...base, points: Math.round(base.points) },
+    ...deductions.map((d) => ({ ...d, points: Math.round(d.points) })).filter((d) => d.points !== 0),
+  ]
+  const total = factors.reduce((sum, f) => sum + f.points, 0)
+  return {
+    confidence: Math.min(MAX_CONFIDENCE, Math.max(MIN_CONFIDENCE, total)),
+    confidenceFactors: factors,
+  }
+}
+
+// Lowers a finished result's confidence for the photo problems it was analyzed despite.
+export function applyQualityPenalty(result: AnalysisResult, issues: QualityIssue[]): AnalysisResult {
+  if (issues.length === 0) return result
+  const [base, ...rest] = result.confidenceFactors ?? [
+    factor("analyzer", localized("confidence.analyzer"), result.confidence),
+  ]
+  const penalties = issues.map((issue) => ({
+    id: `quality-${issue.id}`,
+    label: issue.message,
+    labelText: issue.messageText,
+    points: -QUALITY_PENALTY[issue.id] * (issue.severity === "error" ? 2 : 1),
+  }))
+  return { ...result, ...scoreConfidence(base, [...rest, ...penalties]), quality: issues }
+}
@@ -0,0 +1,203 @@
+export type Range = { min: number; max: number }
+
+// Visible leaf symptoms measured by lib/disease.ts, each on a 0-1 scale.
+export type Symptom = "chlorosis" | "necrosis" | "darkLesions" | "powdery" | "mottling"
+
+export type CropDisease = {
+  id: string
+  name: string
+  // How strongly each symptom points to this disease
+  signs: Partial<Record<Symptom, number>>
+  treatment: string[]
+  prevention: string[]
+}
+
+export type CropProfile = {
+  label: string
+  // Ideal soil reaction
+  ph: Range
+  // Volumetric soil moisture (%)
+  moisture: Range
+  // Salinity (EC of saturated paste, dS/m) above which yield starts to drop
+  ecMax: number
+  // Plant-available nutrient targets in mg/kg (ppm)
+  nutrients: { n: Range; p: Range; k: Range }
+  // Seasonal fertilizer rate in kg/ha when the soil test sits at the bottom of its range
+  demand: { n: number; p2o5: number; k2o: number }
+  diseases: CropDisease[]
+}
+
+// Shared by tomato and potato, which are hit by the same pathogens.
+const EARLY_BLIGHT: CropDisease = {
+  id: "early-blight",
+  name: "Early blight",
+  signs: { necrosis: 1, darkLesions: 0.5, chlorosis: 0.4 },
+  treatment: [
+    "Remove and destroy lower leaves showing target-like brown rings.",
+    "Spray a protectant fungicide (mancozeb or chlorothalonil) every 7-10 days while conditions stay humid.",
+  ],
+  prevention: [
+    "Rotate away from tomato, potato and pepper for at least 2 seasons.",
+    "Mulch and water at the base to stop soil splashing onto leaves.",
+  ],
+}
+
+const LATE_BLIGHT: CropDisease = {
+  id: "late-blight",
+  name: "Late blight",
+  signs: { darkLesions: 1, necrosis: 0.5, powdery: 0.3 },
+  treatment: [
+    "Remove and bury or burn infected plants immediately; the disease spreads within days.",
+    "Apply a systemic fungicide (metalaxyl + mancozeb) to surrounding plants.",
+  ],
+  prevention: [
+    "Plant certified disease-free seed or transplants.",
+    "Space plants for airflow and avoid overhead irrigation in the evening.",
+  ],
+}
+
+const BACTERIAL_WILT: CropDisease = {
+  id: "bacterial-wilt",
+  name: "Bacterial wilt",
+  signs: { chlorosis: 0.6, mottling: 0.3 },
+  treatment: [
+    "Uproot wilted plants with the surrounding soil and remove them from the field.",
+    "There is no curative spray; disinfect tools after handling infected plants.",
+  ],
+  prevention: ["Rotate with cereals or grasses for 3+ years.", "Use resistant varieties and avoid waterlogged fields."],
+}
+
+// Single source of truth for supported crops. Adding a crop here makes it selectable,
+// validated by the API and evaluated against its own thresholds.
+export const CROPS = {
+  tomato: {
+    label: "Tomato",
+    ph: { min: 6.0, max: 6.8 },
+    moisture: { min: 20, max: 35 },
+    ecMax: 2.5,
+    nutrients: { n: { min: 20, max: 40 }, p: { min: 20, max: 40 }, k: { min: 150, max: 250 } },
+    demand: { n: 120, p2o5: 80, k2o: 150 },
+    diseases: [
+      EARLY_BLIGHT,
+      LATE_BLIGHT,
+      {
+        id: "fusarium-wilt",
+        name: "Fusarium wilt",
+        signs: { chlorosis: 1, mottling: 0.3 },
+        treatment: [
+          "Remove affected plants including roots.",
+          "Drench remaining plants with a biological control (Trichoderma) to slow spread.",
+        ],
+        prevention: ["Grow resistant (F-rated) varieties.", "Raise soil pH towards 6.5-7.0 and avoid excess nitrogen."],
+      },
+      {
+        id: "bacterial-spot",
+        name: "Bacterial spot",
+        signs: { darkLesions: 0.7, necrosis: 0.4 },
+        treatment: ["Apply copper-based bactericide at first signs.", "Remove heavily spotted leaves and fruit."],
+        prevention: ["Use clean seed and transplants.", "Avoid working among wet plants."],
+      },
+    ],
+  },
+  yam: {
+    label: "Yam",
+    ph: { min: 5.5, max: 6.5 },
+    moisture: { min: 15, max: 30 },
+    ecMax: 1.0,
+    nutrients: { n: { min: 15, max: 30 }, p: { min: 10, max: 25 }, k: { min: 120, max: 200 } },
+    demand: { n: 60, p2o5: 40, k2o: 80 },
+    diseases: [
+      {
+        id: "anthracnose",
+        name: "Anthracnose",
+        signs: { necrosis: 0.8, darkLesions: 0.8 },
+        treatment: [
+          "Prune and burn vines with black leaf spots and die-back.",
+          "Spray mancozeb or a copper fungicide every 2 weeks during the rains.",
+        ],
+        prevention: ["Plant healthy setts from clean fields.", "Use tolerant varieties and stake vines for airflow."],
+      },
+      {
+        id: "yam-mosaic",
+        name: "Yam mosaic virus",
+        signs: { mottling: 1, chlorosis: 0.6 },
+        treatment: ["Rogue out plants with mosaic or leaf distortion; the virus cannot be cured."],
+        prevention: ["Use virus-free seed yams.", "Control aphid vectors and remove volunteer yams."],
+      },
+      {
+        id: "dry-rot",
+        name: "Dry rot",
+        signs: { necrosis: 0.4, chlorosis: 0.3 },
+        treatment: ["Discard rotting tubers; cut out small lesions and dust with wood ash before storage."],
+        prevention: ["Avoid wounding tubers at harvest.", "Store in a cool, ventilated barn."],
+      },
+    ],
+  },
+  potato: {
+    label: "Potato",
+    ph: { min: 5.0, max: 6.0 },
+    moisture: { min: 20, max: 35 },
+    ecMax: 1.7,
+    nutrients: { n: { min: 25, max: 45 }, p: { min: 25, max: 50 }, k: { min: 150, max: 250 } },
+    demand: { n: 150, p2o5: 100, k2o: 150 },
+    diseases: [
+      EARLY_BLIGHT,
+      LATE_BLIGHT,
+      {
+        id: "common-scab",
+        name: "Common scab",
+        signs: { necrosis: 0.3 },
+        treatment: ["Keep soil evenly moist during tuber set to limit further scabbing."],
+        prevention: ["Keep pH below 5.5 and avoid fresh manure or lime before potatoes.", "Plant scab-free seed."],
+      },
+      BACTERIAL_WILT,
+    ],
+  },
+  onions: {
+    label: "Onions",
+    ph: { min: 6.0, max: 7.0 },
+    moisture: { min: 18, max: 30 },
+    ecMax: 1.2,
+    nutrients: { n: { min: 20, max: 35 }, p: { min: 20, max: 40 }, k: { min: 120, max: 200 } },
+    demand: { n: 100, p2o5: 60, k2o: 100 },
+    diseases: [
+      {
+        id: "purple-blotch",
+        name: "Purple blotch",
+        signs: { necrosis: 0.7, darkLesions: 0.5 },
+        treatment: ["Spray mancozeb or iprodione at 10-day intervals once lesions appear."],
+        prevention: ["Rotate for 3 years away from onion and garlic.", "Avoid dense planting and dew-wet foliage."],
+      },
+      {
+        id: "downy-mildew",
+        name: "Downy mildew",
+        signs: { powdery: 1, chlorosis: 0.4 },
+        treatment: ["Apply metalaxyl-based fungicide and remove infected leaves."],
+        prevention: ["Plant in well-drained, sunny beds.", "Destroy crop debris after harvest."],
+      },
+      {
+        id: "white-rot",
+        name: "White rot",
+        signs: { chlorosis: 0.8, powdery: 0.4 },
+        treatment: ["Lift and destroy affected bulbs with the surrounding soil."],
+        prevention: ["Do not plant alliums in infested fields for many years.", "Clean tools and boots between fields."],
+      },
+    ],
+  },
+} satisfies Record<string, CropProfile>
+
+export type CropType = keyof typeof CROPS
+
+export const CROP_TYPES = Object.keys(CROPS) as [CropType, ...CropType[]]
+
+export function getCrop(crop: CropType): CropProfile {
+  return CROPS[crop]
+}
+
+export function getDisease(crop: CropType, id: string): CropDisease | undefined {
+  return getCrop(crop).diseases.find((d) => d.id === id)
+}
+
+export function inRange(v: number, { min, max }: Range): boolean {
+  return v >= min && v <= max
+}
@@ -0,0 +1,66 @@
+import { upgradeLegacyResult } from "@/lib/metrics"
+import type { AnalysisResult } from "@/lib/types"
+
+// The app's single IndexedDB database, shared by scan history, the offline queue and the farm records.
+const DB_NAME = "agriscan"
+const DB_VERSION = 4
+
+export const SCANS_STORE = "scans"
+export const QUEUE_STORE = "queue"
+// Farms, fields and plots, told apart by `kind`
+export const LAND_STORE = "land"
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION)
+      req.onupgradeneeded = (e) => {
+        const db = req.result
+        // Each step brings a database from the previous version up to date.
+        if (e.oldVersion < 1) {
+          db.createObjectStore(SCANS_STORE, { keyPath: "id" }).createIndex("createdAt", "createdAt")
+        }
+        if (e.oldVersion < 2) {
+          db.createObjectStore(QUEUE_STORE, { keyPath: "id" }).createIndex("queuedAt", "queuedAt")
+        }
+        if (e.oldVersion < 3) {
+          // Metrics keyed by id with explicit units, instead of labels like "Moisture (%)"
+          const cursorReq = req.transaction!.objectStore(SCANS_STORE).openCursor()
+          cursorReq.onsuccess = () => {
+            const cursor = cursorReq.result
+            if (!cursor) return
+            const scan = cursor.value as { result: AnalysisResult }
+            cursor.update({ ...scan, result: upgradeLegacyResult(scan.result) })
+            cursor.continue()
+          }
+        }
+        if (e.oldVersion < 4) {
+          db.createObjectStore(LAND_STORE, { keyPath: "id" })
+        }
+      }
+      req.onsuccess = () => resolve(req.result)
+      req.onerror = () => {
+        dbPromise = null
+        reject(req.error)
+      }
+    })
+  }
+  return dbPromise
+}
+
+export function request<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  return openDb().then(
+    (db) =>
+      new Promise<T>((resolve, reject) => {
+        const req = run(db.transaction(storeName, mode).objectStore(storeName))
+        req.onsuccess = () => resolve(req.result)
+        req.onerror = () => reject(req.error)
+      }),
+  )
+}
@@ -0,0 +1,122 @@
+import { getCrop, type Symptom } from "@/lib/crops"
+import type { RasterImage } from "@/lib/image"
+import type { ConditionCandidate, CropType } from "@/lib/types"
+
+export type SymptomScores = Record<Symptom, number>
+
+// Share of canopy area at which a symptom scores 1.
+const SATURATION: Record<Symptom, number> = {
+  chlorosis: 0.3,
+  necrosis: 0.15,
+  darkLesions: 0.1,
+  powdery: 0.1,
+  mottling: 1,
+}
+// Sharpness of the softmax over disease scores.
+const TEMPERATURE = 4
+const CELL = 16
+
+function hsv(r: number, g: number, b: number): [number, number, number] {
+  const max = Math.max(r, g, b)
+  const min = Math.min(r, g, b)
+  const d = max - min
+  let h = 0
+  if (d > 0) {
+    if (max === r) h = ((g - b) / d) * 60
+    else if (max === g) h = ((b - r) / d) * 60 + 120
+    else h = ((r - g) / d) * 60 + 240
+    if (h < 0) h += 360
+  }
+  return [h, max === 0 ? 0 : d / max, max / 255]
+}
+
+// Measures visible leaf symptoms inside the canopy: only cells where at least a fifth of
+// the pixels are plant material count, so bare soil between rows isn't read as lesions.
+// Transparent pixels (the padding around a cropped zone) are ignored.
+export function measureSymptoms({ width, height, data }: RasterImage): SymptomScores {
+  const cols = Math.ceil(width / CELL)
+  const rows = Math.ceil(height / CELL)
+  const cellPlant = new Uint32Array(cols * rows)
+  const cellTotal = new Uint32Array(cols * rows)
+  const cellHue = new Float64Array(cols * rows)
+  const cellOf = (x: number, y: number) => Math.floor(y / CELL) * cols + Math.floor(x / CELL)
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4
+      if (data[i + 3] === 0) continue
+      const [h, s, v] = hsv(data[i], data[i + 1], data[i + 2])
+      const cell = cellOf(x, y)
+      cellTotal[cell]++
+      if (h >= 40 && h <= 160 && s >= 0.15 && v > 0.1) {
+        cellPlant[cell]++
+        cellHue[cell] += h
+      }
+    }
+  }
+
+  const canopy = (cell: number) => cellTotal[cell] > 0 && cellPlant[cell] / cellTotal[cell] >= 0.2
+  let area = 0
+  let plants = 0
+  let yellow = 0
+  let brown = 0
+  let dark = 0
+  let pale = 0
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4
+      if (data[i + 3] === 0 || !canopy(cellOf(x, y))) continue
+      const [h, s, v] = hsv(data[i], data[i + 1], data[i + 2])
+      area++
+      const plant = h >= 40 && h <= 160 && s >= 0.15 && v > 0.1
+      if (plant) plants++
+      if (plant && h < 70) yellow++
+      else if (!plant && h >= 10 && h < 40 && s > 0.25 && v >= 0.2 && v <= 0.65) brown++
+      else if (v < 0.18) dark++
+      else if (s < 0.12 && v > 0.7) pale++
+    }
+  }
+
+  // Mottling: spread of the mean leaf hue between canopy cells (mosaic viruses leave a patchwork).
+  const hues: number[] = []
+  for (let c = 0; c < cols * rows; c++) {
+    if (canopy(c) && cellPlant[c] > 0) hues.push(cellHue[c] / cellPlant[c])
+  }
+  const meanHue = hues.reduce((a, b) => a + b, 0) / (hues.length || 1)
+  const hueStd = Math.sqrt(hues.reduce((a, h) => a + (h - meanHue) ** 2, 0) / (hues.length || 1))
+
+  const a = area || 1
+  return {
+    chlorosis: saturate(yellow / (plants || 1), "chlorosis"),
+    necrosis: saturate(brown / a, "necrosis"),
+    darkLesions: saturate(dark / a, "darkLesions"),
+    powdery: saturate(pale / a, "powdery"),
+    mottling: saturate(hueStd / 20, "mottling"),
+  }
+}
+
+// Ranks the crop's known diseases, plus "Healthy", by how well their sign profile matches the
+// measured symptoms. Probabilities come from a softmax over match scores and sum to 1 across
+// the full list; callers slice off the top few.
+export function classifyDiseases(symptoms: SymptomScores, crop: CropType): ConditionCandidate[] {
+  const { diseases } = getCrop(crop)
+  const scored = diseases.map((d) => {
+    const entries = Object.entries(d.signs) as [Symptom, number][]
+    const weight = entries.reduce((sum, [, w]) => sum + w, 0) || 1
+    const score = entries.reduce((sum, [sym, w]) => sum + w * symptoms[sym], 0) / weight
+    return { id: d.id, name: d.name, score }
+  })
+  const healthy = 1 - Math.max(...Object.values(symptoms))
+  scored.push({ id: "healthy", name: "Healthy", score: healthy })
+
+  const exps = scored.map((s) => Math.exp(TEMPERATURE * s.score))
+  const total = exps.reduce((a, b) => a + b, 0)
+  return scored
+    .map((s, i) => ({ id: s.id, name: s.name, probability: Number((exps[i] / total).toFixed(3)) }))
+    .sort((a, b) => b.probability - a.probability)
+}
+
+function saturate(v: number, symptom: Symptom): number {
+  return Number(Math.min(1, v / SATURATION[symptom]).toFixed(3))
+}
@@ -0,0 +1,23 @@
+import type { ScanRecord } from "@/lib/history"
+
+export type PhotoMetadata = Pick<ScanRecord, "location" | "capturedAt">
+
+// GPS position and capture time from a phone photo's EXIF block. Photos without EXIF
+// (screenshots, stripped uploads) simply yield an empty object.
+export async function readPhotoMetadata(image: Blob): Promise<PhotoMetadata> {
+  try {
+    const exifr = (await import("exifr")).default
+    const tags = await exifr.parse(image, { tiff: true, exif: true, gps: true, xmp: false, icc: false, iptc: false })
+    if (!tags) return {}
+    const meta: PhotoMetadata = {}
+    if (Number.isFinite(tags.latitude) && Number.isFinite(tags.longitude)) {
+      meta.location = { latitude: tags.latitude, longitude: tags.longitude }
+    }
+    if (tags.DateTimeOriginal instanceof Date && !Number.isNaN(tags.DateTimeOriginal.getTime())) {
+      meta.capturedAt = tags.DateTimeOriginal.getTime()
+    }
+    return meta
+  } catch {
+    return {}
+  }
+}
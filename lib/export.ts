@@ -0,0 +1,89 @@
+import type { ScanRecord } from "@/lib/history"
+import { isNumericMetric, metricHeading, metricNumber } from "@/lib/metrics"
+import type { MetricUnit } from "@/lib/units"
+
+const BASE_COLUMNS = [
+  "id",
+  "timestamp",
+  "captured_at",
+  "analysis_type",
+  "crop",
+  "plot",
+  "file",
+  "status",
+  "confidence",
+  "analyzer",
+  "latitude",
+  "longitude",
+  "notes",
+]
+
+function csvCell(v: string | number | undefined): string {
+  if (v === undefined) return ""
+  const s = String(v)
+  return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s
+}
+
+// One row per scan; every metric seen across the scans becomes its own column, headed with the
+// unit of the first scan that reported it and holding every value in that unit.
+export function scansToCsv(scans: ScanRecord[]): string {
+  const columns = new Map<string, MetricUnit | undefined>()
+  for (const s of scans) {
+    for (const [id, metric] of Object.entries(s.result.metrics)) {
+      if (!columns.has(id)) columns.set(id, isNumericMetric(metric) ? metric.unit : undefined)
+    }
+  }
+  const metricValue = (s: ScanRecord, id: string) =>
+    metricNumber(s.result.metrics, id, columns.get(id)) ?? s.result.metrics[id]?.value
+  const rows = scans.map((s) => [
+    s.id,
+    new Date(s.createdAt).toISOString(),
+    s.capturedAt ? new Date(s.capturedAt).toISOString() : undefined,
+    s.analysisType,
+    s.cropType,
+    s.plot,
+    s.fileName,
+    s.result.status,
+    s.result.confidence,
+    s.result.analyzer,
+    s.location?.latitude,
+    s.location?.longitude,
+    s.result.notes,
+    ...[...columns.keys()].map((id) => metricValue(s, id)),
+  ])
+  const headings = [...columns].map(([id, unit]) => metricHeading(id, unit))
+  return [[...BASE_COLUMNS, ...headings], ...rows].map((row) => row.map(csvCell).join(",")).join("\r\n")
+}
+
+// Full records minus thumbnails and heatmaps, which bloat the file and don't belong in farm records.
+export function scansToJson(scans: ScanRecord[]): string {
+  const slim = scans.map(({ thumbnail: _thumbnail, result: { heatmap: _heatmap, ...result }, ...rest }) => ({
+    ...rest,
+    timestamp: new Date(rest.createdAt).toISOString(),
+    result,
+  }))
+  return JSON.stringify(slim, null, 2)
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement("a")
+  a.href = url
+  a.download = fileName
+  a.click()
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+export function downloadText(text: string, fileName: string, type: string) {
+  downloadBlob(new Blob([text], { type }), fileName)
+}
+
+// e.g. agriscan-north-block-2026-10-19
+export function exportFileName(scan: Pick<ScanRecord, "plot" | "createdAt"> | undefined, ext: string): string {
+  const date = new Date(scan?.createdAt ?? Date.now()).toISOString().slice(0, 10)
+  const plot = scan?.plot
+    ?.toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "")
+  return `agriscan-${plot ? `${plot}-` : ""}${date}.${ext}`
+}
@@ -0,0 +1,84 @@
+import { request, SCANS_STORE } from "@/lib/db"
+import { readPhotoMetadata } from "@/lib/exif"
+import type { AnalysisResult, AnalysisType, CropType } from "@/lib/types"
+
+// A completed scan as kept on this device.
+export type ScanRecord = {
+  id: string
+  createdAt: number
+  analysisType: AnalysisType
+  cropType: CropType
+  // Optional field/plot label typed by the user, or the name of the plot it is attached to
+  plot?: string
+  // Id of a managed plot (see lib/land.ts)
+  plotId?: string
+  // Where and when the photo was taken, from its EXIF data when present
+  location?: { latitude: number; longitude: number }
+  capturedAt?: number
+  fileName: string
+  // Small JPEG data URL; the original image is not kept
+  thumbnail: string
+  result: AnalysisResult
+}
+
+export async function saveScan(record: ScanRecord): Promise<void> {
+  await request(SCANS_STORE, "readwrite", (s) => s.put(record))
+}
+
+export function getScan(id: string): Promise<ScanRecord | undefined> {
+  return request(SCANS_STORE, "readonly", (s) => s.get(id) as IDBRequest<ScanRecord | undefined>)
+}
+
+// Newest first.
+export async function listScans(): Promise<ScanRecord[]> {
+  const all = await request(SCANS_STORE, "readonly", (s) => s.index("createdAt").getAll() as IDBRequest<ScanRecord[]>)
+  return all.reverse()
+}
+
+export async function deleteScan(id: string): Promise<void> {
+  await request(SCANS_STORE, "readwrite", (s) => s.delete(id))
+}
+
+type ScanDetails = Pick<ScanRecord, "analysisType" | "cropType" | "plot" | "plotId"> & { createdAt?: number }
+
+// A finished analysis with a thumbnail and the EXIF position/time of its source image (if any;
+// lab entries may have none), ready to save.
+export async function buildScanRecord(
+  image: File | null,
+  result: AnalysisResult,
+  { createdAt, ...details }: ScanDetails,
+): Promise<ScanRecord> {
+  return {
+    id: crypto.randomUUID(),
+    createdAt: createdAt ?? Date.now(),
+    ...details,
+    fileName: image?.name ?? "Lab entry",
+    thumbnail: image ? await createThumbnail(image).catch(() => "") : "",
+    result,
+    ...(image && (await readPhotoMetadata(image))),
+  }
+}
+
+// Builds and stores a scan record. Storage failures are logged, not thrown: losing a history
+// entry should never break the scan on screen that produced it.
+export async function recordScan(
+  image: File | null,
+  result: AnalysisResult,
+  details: ScanDetails,
+): Promise<ScanRecord> {
+  const record = await buildScanRecord(image, result, details)
+  await saveScan(record).catch((err) => console.warn("Could not save scan to history", err))
+  return record
+}
+
+// Downscaled JPEG of the upload, small enough to keep hundreds of scans in IndexedDB.
+export async function createThumbnail(image: Blob, maxSide = 320): Promise<string> {
+  const bitmap = await createImageBitmap(image)
+  const scale = Math.min(1, maxSide / Math.max(bitmap.width, bitmap.height))
+  const canvas = document.createElement("canvas")
+  canvas.width = Math.round(bitmap.width * scale)
+  canvas.height = Math.round(bitmap.height * scale)
+  canvas.getContext("2d")?.drawImage(bitmap, 0, 0, canvas.width, canvas.height)
+  bitmap.close()
+  return canvas.toDataURL("image/jpeg", 0.8)
+}
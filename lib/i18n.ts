@@ -0,0 +1,149 @@
+import { getCrop, type Range } from "@/lib/crops"
+import { en, type MessageKey } from "@/lib/locales/en"
+import { fr } from "@/lib/locales/fr"
+import { ha } from "@/lib/locales/ha"
+import { ig } from "@/lib/locales/ig"
+import { sw } from "@/lib/locales/sw"
+import { yo } from "@/lib/locales/yo"
+import { isNumericMetric, metricLabel } from "@/lib/metrics"
+import type { ConditionCandidate, CropType, LocalizedParam, LocalizedText, MetricValue, Status } from "@/lib/types"
+import { convert, DEFAULT_UNITS, preferredUnit, type Unit, type UnitPreferences } from "@/lib/units"
+
+export type { MessageKey }
+
+export const LOCALES = ["en", "fr", "yo", "ha", "ig", "sw"] as const
+
+export type Locale = (typeof LOCALES)[number]
+
+// Symbols and abbreviations that read the same in every language; a catalog may leave these
+// to the English text.
+const SHARED_KEYS = ["metric.ph", "metric.ec", "metric.cec", "rule.ph", "rule.cec", "lab.ec", "lab.cec"] as const
+
+// Every other key must be translated, so a catalog missing one fails the type check.
+export type Catalog = Record<Exclude<MessageKey, (typeof SHARED_KEYS)[number]>, string> &
+  Partial<Record<MessageKey, string>>
+
+// Each language in its own name, for the switcher.
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: "English",
+  fr: "Français",
+  yo: "Yorùbá",
+  ha: "Hausa",
+  ig: "Igbo",
+  sw: "Kiswahili",
+}
+
+const CATALOGS: Record<Locale, Catalog> = { en, fr, yo, ha, ig, sw }
+
+export function isLocale(value: unknown): value is Locale {
+  return LOCALES.includes(value as Locale)
+}
+
+export function localized(key: MessageKey, params?: LocalizedText["params"]): LocalizedText {
+  return params ? { key, params } : { key }
+}
+
+export function cropName(crop: CropType): LocalizedText {
+  return { key: `crop.${crop}`, fallback: getCrop(crop).label }
+}
+
+// Model classes may name a condition the catalog has no key for; their own name is the fallback.
+export function conditionName({ id, name }: Pick<ConditionCandidate, "id" | "name">): LocalizedText {
+  return { key: `disease.${id}`, fallback: name }
+}
+
+// A treatment or prevention step of a crop condition, by its position in lib/crops.ts.
+export function careStep(
+  disease: string,
+  list: "treatment" | "prevention",
+  index: number,
+  step: string,
+): LocalizedText {
+  return { key: `disease.${disease}.${list}.${index + 1}`, fallback: step }
+}
+
+export function metricName(metric: string): LocalizedText {
+  return { key: `metric.${metric}`, fallback: metricLabel(metric) }
+}
+
+export function statusName(status: Status): LocalizedText {
+  return { key: `status.${status}`, fallback: status }
+}
+
+function formatParam(locale: Locale, value: LocalizedParam, units: UnitPreferences): string {
+  if (typeof value === "number") return formatNumber(value, locale)
+  if (typeof value === "string") return value
+  if (Array.isArray(value)) return value.map((v) => formatText(locale, v, units)).join(", ")
+  if ("unit" in value) return formatQuantity(value, locale, units)
+  return formatText(locale, value, units)
+}
+
+// Quantities among the params are converted to `units`; stored English text uses the defaults.
+export function formatText(
+  locale: Locale,
+  { key, params, fallback }: LocalizedText,
+  units: UnitPreferences = DEFAULT_UNITS,
+): string {
+  const template = CATALOGS[locale][key as MessageKey] ?? en[key as MessageKey] ?? fallback ?? key
+  return template.replace(/\{(\w+)(?:\|(lower|cap))?\}/g, (match, name: string, modifier?: string) => {
+    const value = params?.[name]
+    if (value === undefined) return match
+    const text = formatParam(locale, value, units)
+    if (modifier === "lower") return text.toLocaleLowerCase(locale)
+    if (modifier === "cap") return text.charAt(0).toLocaleUpperCase(locale) + text.slice(1)
+    return text
+  })
+}
+
+// Notes as stored on a result: the English text plus the keys to show it in other languages.
+export function localizedNotes(texts: LocalizedText[]): { notes: string; notesText: LocalizedText[] } {
+  return { notes: texts.map((t) => formatText("en", t)).join(" "), notesText: texts }
+}
+
+// e.g. "24%", "35 ppm" or "107.1 lb/acre"; a value without a unit is just the number.
+export function formatQuantity(
+  { value, unit }: { value: number; unit?: Unit },
+  locale: Locale = "en",
+  units: UnitPreferences = DEFAULT_UNITS,
+): string {
+  if (!unit) return formatNumber(value, locale)
+  const shown = preferredUnit(unit, units)
+  const n = formatNumber(convert(value, unit, shown), locale)
+  return shown === "%" ? `${n}%` : `${n} ${shown}`
+}
+
+// A metric value: numbers with their unit in the reader's units, graded words (Low, High…) translated.
+export function formatMetricValue(
+  metric: MetricValue,
+  locale: Locale = "en",
+  units: UnitPreferences = DEFAULT_UNITS,
+): string {
+  return isNumericMetric(metric)
+    ? formatQuantity(metric, locale, units)
+    : formatText(locale, { key: `value.${metric.value}`, fallback: metric.value })
+}
+
+// Params for "result.target" in the reader's units: the unit is only written after the upper
+// bound, e.g. "Target 20-40 ppm".
+export function bandParams(
+  { min, max }: Range,
+  unit: Unit | undefined,
+  units: UnitPreferences = DEFAULT_UNITS,
+): LocalizedText["params"] {
+  if (!unit) return { min, max }
+  return { min: convert(min, unit, preferredUnit(unit, units)), max: { value: max, unit } }
+}
+
+const numberFormats = new Map<string, Intl.NumberFormat>()
+
+// Integers as they are; vegetation indices live in -1..1, where one decimal loses the signal.
+export function formatNumber(n: number, locale: Locale = "en"): string {
+  const digits = Number.isInteger(n) ? 0 : Math.abs(n) < 1 ? 2 : 1
+  const id = `${locale}:${digits}`
+  let format = numberFormats.get(id)
+  if (!format) {
+    format = new Intl.NumberFormat(locale, { minimumFractionDigits: digits, maximumFractionDigits: digits })
+    numberFormats.set(id, format)
+  }
+  return format.format(n)
+}
@@ -0,0 +1,39 @@
+import sharp from "sharp"
+import { UndecodableImageError } from "@/lib/analyzers/errors"
+
+// Decoded, EXIF-rotated RGBA pixels. Analyzers work on this rather than the raw upload.
+export type RasterImage = {
+  width: number
+  height: number
+  data: Uint8ClampedArray
+}
+
+// sharp rejects bytes it has no decoder for; that is a problem with the upload, not the server.
+function undecodable(err: unknown): never {
+  throw new UndecodableImageError({ cause: err })
+}
+
+export async function decodeImage(image: Blob, maxSide = 512): Promise<RasterImage> {
+  const input = Buffer.from(await image.arrayBuffer())
+  const { data, info } = await sharp(input)
+    .rotate()
+    .resize(maxSide, maxSide, { fit: "inside", withoutEnlargement: true })
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true })
+    .catch(undecodable)
+  return { width: info.width, height: info.height, data: new Uint8ClampedArray(data.buffer, data.byteOffset, data.length) }
+}
+
+// Square RGB crop at a fixed size, the usual input shape for image classifiers.
+export async function decodeSquareRgb(image: Blob, size: number): Promise<Uint8Array> {
+  const input = Buffer.from(await image.arrayBuffer())
+  const data = await sharp(input)
+    .rotate()
+    .resize(size, size, { fit: "cover" })
+    .removeAlpha()
+    .raw()
+    .toBuffer()
+    .catch(undecodable)
+  return new Uint8Array(data.buffer, data.byteOffset, data.length)
+}
@@ -0,0 +1,126 @@
+import { z } from "zod"
+import { factor, scoreConfidence } from "@/lib/confidence"
+import { localized, localizedNotes, metricName } from "@/lib/i18n"
+import { isNumericMetric, quantity } from "@/lib/metrics"
+import { recommend } from "@/lib/recommendations"
+import { describeEvaluation, evaluateSoil } from "@/lib/rules"
+import type { AnalysisResult, CropType, LocalizedText, Metrics } from "@/lib/types"
+
+// Organic carbon to organic matter (van Bemmelen factor).
+const OC_TO_OM = 1.724
+// Lab numbers are measured, not inferred, so they start from a high confidence.
+const LAB_CONFIDENCE = 95
+// Points off for each standard test left blank, since the verdict can't account for it.
+const MISSING_TEST_PENALTY = 2
+
+// Blank inputs arrive as "" (or NaN with valueAsNumber) and mean "not measured".
+const blankToUndefined = (v: unknown) => (v === "" || v === null || Number.isNaN(v) ? undefined : v)
+
+type Limits = { min: number; max: number }
+
+// Accepted range of each lab value. Validation messages are message keys; the form fills in
+// the field name and these bounds.
+export const LAB_LIMITS = {
+  ph: { min: 3, max: 10 },
+  ec: { min: 0, max: 20 },
+  organicCarbon: { min: 0, max: 20 },
+  n: { min: 0, max: 1000 },
+  p: { min: 0, max: 1000 },
+  k: { min: 0, max: 5000 },
+  cec: { min: 0, max: 100 },
+} satisfies Record<string, Limits>
+
+const labNumber = ({ min, max }: Limits) =>
+  z.coerce.number({ invalid_type_error: "lab.required" }).min(min, "lab.min").max(max, "lab.max")
+
+const optionalNumber = (limits: Limits) => z.preprocess(blankToUndefined, labNumber(limits).optional())
+
+export const labSchema = z.object({
+  // Without the preprocess a blank pH coerces to 0 and fails the minimum instead
+  ph: z.preprocess(blankToUndefined, labNumber(LAB_LIMITS.ph)),
+  ec: optionalNumber(LAB_LIMITS.ec),
+  organicCarbon: optionalNumber(LAB_LIMITS.organicCarbon),
+  n: optionalNumber(LAB_LIMITS.n),
+  p: optionalNumber(LAB_LIMITS.p),
+  k: optionalNumber(LAB_LIMITS.k),
+  cec: optionalNumber(LAB_LIMITS.cec),
+})
+
+export type LabValues = z.infer<typeof labSchema>
+
+// Lab values under the same metric ids the image analyzers and rules engine use. Nutrients are
+// entered in mg/kg (ppm reads the same).
+export function labMetrics(values: LabValues): Metrics {
+  const metrics: Metrics = { ph: quantity(values.ph) }
+  if (values.ec !== undefined) metrics.ec = quantity(values.ec, "dS/m")
+  if (values.organicCarbon !== undefined) {
+    metrics.organicCarbon = quantity(values.organicCarbon, "%")
+    metrics.organicMatter = quantity(Number((values.organicCarbon * OC_TO_OM).toFixed(1)), "%")
+  }
+  if (values.n !== undefined) metrics.nitrogen = quantity(values.n, "mg/kg")
+  if (values.p !== undefined) metrics.phosphorus = quantity(values.p, "mg/kg")
+  if (values.k !== undefined) metrics.potassium = quantity(values.k, "mg/kg")
+  if (values.cec !== undefined) metrics.cec = quantity(values.cec, "cmol/kg")
+  return metrics
+}
+
+function scoreSoilMetrics(
+  metrics: Metrics,
+  crop: CropType,
+  confidence: Pick<AnalysisResult, "confidence" | "confidenceFactors">,
+  source: LocalizedText,
+): AnalysisResult {
+  const evaluation = evaluateSoil(metrics, crop)
+  return {
+    status: evaluation.status,
+    ...confidence,
+    ...localizedNotes([describeEvaluation(evaluation, crop), source]),
+    metrics,
+    evaluation,
+    recommendations: recommend(metrics, crop),
+  }
+}
+
+const LAB_BASE = factor("lab", localized("confidence.lab"), LAB_CONFIDENCE)
+
+export function analyzeLab(values: LabValues, crop: CropType): AnalysisResult {
+  const missing = (["ec", "n", "p", "k"] as const).filter((key) => values[key] === undefined)
+  const confidence = scoreConfidence(LAB_BASE, [
+    factor(
+      "missing",
+      localized("confidence.notMeasured", { tests: missing.map((key) => key.toUpperCase()).join(", ") }),
+      -missing.length * MISSING_TEST_PENALTY,
+    ),
+  ])
+  return {
+    ...scoreSoilMetrics(labMetrics(values), crop, confidence, localized("notes.labSource")),
+    analyzer: "lab",
+  }
+}
+
+// Combines an image-based soil result with lab numbers for the same sample. Lab values win
+// where both report a metric; image-only metrics (moisture, colour) are kept. The merged set is
+// re-scored so status and recommendations reflect both sources.
+export function mergeLabResult(image: AnalysisResult, values: LabValues, crop: CropType): AnalysisResult {
+  const lab = labMetrics(values)
+  const replaced = Object.keys(lab).filter((k) => k in image.metrics)
+  const source =
+    replaced.length > 0
+      ? localized("notes.labReplaces", { metrics: replaced.map(metricName) })
+      : localized("notes.labCombined")
+  // Metrics still taken from the photo carry the photo's lower certainty, in proportion.
+  const merged = { ...image.metrics, ...lab }
+  const numeric = Object.values(merged).filter(isNumericMetric).length || 1
+  const fromPhoto = Object.entries(image.metrics).filter(([k, v]) => isNumericMetric(v) && !(k in lab)).length
+  const confidence = scoreConfidence(LAB_BASE, [
+    factor(
+      "photo-metrics",
+      localized("confidence.fromPhoto", { count: fromPhoto, total: numeric, confidence: image.confidence }),
+      -(fromPhoto / numeric) * Math.max(0, LAB_CONFIDENCE - image.confidence),
+    ),
+  ])
+  return {
+    ...scoreSoilMetrics(merged, crop, confidence, source),
+    analyzer: image.analyzer ? `${image.analyzer}+lab` : "lab",
+  }
+}
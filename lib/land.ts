@@ -0,0 +1,124 @@
+import { LAND_STORE, request } from "@/lib/db"
+import { saveScan, type ScanRecord } from "@/lib/history"
+import type { AnalysisType, CropType, Recommendation } from "@/lib/types"
+
+// USDA soil texture classes, coarsest first
+export const SOIL_TYPES = [
+  "sand",
+  "loamy-sand",
+  "sandy-loam",
+  "loam",
+  "silt-loam",
+  "silt",
+  "sandy-clay-loam",
+  "clay-loam",
+  "silty-clay-loam",
+  "sandy-clay",
+  "silty-clay",
+  "clay",
+] as const
+
+export type SoilType = (typeof SOIL_TYPES)[number]
+
+// What every level of the farm → field → plot hierarchy records about its land.
+export type LandDetails = {
+  name: string
+  // Hectares
+  area?: number
+  soilType?: SoilType
+  // What is growing there now
+  crop?: CropType
+}
+
+type LandBase = LandDetails & { id: string; createdAt: number }
+
+export type Farm = LandBase & { kind: "farm" }
+export type Field = LandBase & { kind: "field"; farmId: string }
+export type Plot = LandBase & {
+  kind: "plot"
+  fieldId: string
+  // Recommendations marked done, as "<scan id>/<recommendation id>"
+  done?: string[]
+}
+
+export type LandUnit = Farm | Field | Plot
+
+export type Land = { farms: Farm[]; fields: Field[]; plots: Plot[] }
+
+// Every farm, field and plot on this device, each level sorted by name.
+export async function listLand(): Promise<Land> {
+  const all = await request(LAND_STORE, "readonly", (s) => s.getAll() as IDBRequest<LandUnit[]>)
+  all.sort((a, b) => a.name.localeCompare(b.name))
+  return {
+    farms: all.filter((u): u is Farm => u.kind === "farm"),
+    fields: all.filter((u): u is Field => u.kind === "field"),
+    plots: all.filter((u): u is Plot => u.kind === "plot"),
+  }
+}
+
+export async function saveLand(unit: LandUnit): Promise<void> {
+  await request(LAND_STORE, "readwrite", (s) => s.put(unit))
+}
+
+// Removes a farm or field with everything under it. Scans on a removed plot stay in history
+// under their plot name, detached.
+export async function deleteLand(unit: LandUnit, land: Land, scans: ScanRecord[]): Promise<void> {
+  const fieldIds =
+    unit.kind === "farm" ? land.fields.filter((f) => f.farmId === unit.id).map((f) => f.id) : [unit.id]
+  const plotIds =
+    unit.kind === "plot" ? [unit.id] : land.plots.filter((p) => fieldIds.includes(p.fieldId)).map((p) => p.id)
+  for (const scan of scans) {
+    if (scan.plotId && plotIds.includes(scan.plotId)) await saveScan({ ...scan, plotId: undefined })
+  }
+  const ids = unit.kind === "plot" ? plotIds : [unit.id, ...(unit.kind === "farm" ? fieldIds : []), ...plotIds]
+  for (const id of ids) await request(LAND_STORE, "readwrite", (s) => s.delete(id))
+}
+
+export function newLandId(): string {
+  return crypto.randomUUID()
+}
+
+// "North farm › Block A › Bed 3"
+export function plotPath(plot: Plot, land: Land): string {
+  const field = land.fields.find((f) => f.id === plot.fieldId)
+  const farm = field && land.farms.find((f) => f.id === field.farmId)
+  return [farm?.name, field?.name, plot.name].filter(Boolean).join(" › ")
+}
+
+// Soil type and crop are usually set once per field; a plot without its own inherits them.
+export function effectiveDetails(plot: Plot, land: Land): LandDetails {
+  const field = land.fields.find((f) => f.id === plot.fieldId)
+  const farm = field && land.farms.find((f) => f.id === field.farmId)
+  return {
+    name: plot.name,
+    area: plot.area,
+    soilType: plot.soilType ?? field?.soilType ?? farm?.soilType,
+    crop: plot.crop ?? field?.crop ?? farm?.crop,
+  }
+}
+
+// A plot's scans, newest first.
+export function plotScans(scans: ScanRecord[], plotId: string): ScanRecord[] {
+  return scans
+    .filter((s) => s.plotId === plotId)
+    .sort((a, b) => (b.capturedAt ?? b.createdAt) - (a.capturedAt ?? a.createdAt))
+}
+
+// The most recent scan of each analysis type, from a newest-first list.
+export function latestByType(scans: ScanRecord[]): Partial<Record<AnalysisType, ScanRecord>> {
+  const latest: Partial<Record<AnalysisType, ScanRecord>> = {}
+  for (const scan of scans) latest[scan.analysisType] ??= scan
+  return latest
+}
+
+export type OpenRecommendation = { key: string; scan: ScanRecord; recommendation: Recommendation }
+
+// Recommendations from the newest scan that made any, minus those marked done. Older scans'
+// advice is superseded by the newer reading.
+export function openRecommendations(plot: Plot, scans: ScanRecord[]): OpenRecommendation[] {
+  const scan = scans.find((s) => s.result.recommendations?.length)
+  if (!scan) return []
+  return scan.result
+    .recommendations!.map((recommendation) => ({ key: `${scan.id}/${recommendation.id}`, scan, recommendation }))
+    .filter((r) => !plot.done?.includes(r.key))
+}
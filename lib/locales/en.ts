@@ -0,0 +1,511 @@
+// Source catalog. Every other locale translates these keys (see Catalog); a shared symbol it
+// leaves out falls back to English. `{name}` is replaced by a parameter, `{name|lower}` and
+// `{name|cap}` by its lower-cased or capitalized form.
+export const en = {
+  // Page shell
+  "app.tagline": "Analyze soil or crop images. Choose a category, upload an image, and view an automated assessment.",
+  "nav.batch": "Batch",
+  "nav.history": "History",
+  "nav.farms": "Farms",
+  "nav.map": "Map",
+  "nav.calibrate": "Calibrate",
+  "page.loading": "Loading…",
+  "language.label": "Language",
+
+  // Unit preferences
+  "units.label": "Units",
+  "units.rates": "Rates and areas",
+  "units.nutrients": "Soil nutrients",
+  "units.metric": "Metric (kg/ha)",
+  "units.imperial": "Imperial (lb/acre)",
+
+  // Setup card
+  "setup.title": "Setup",
+  "setup.description": "Choose what to analyze and upload an image.",
+  "setup.analysisType": "Analysis Type",
+  "setup.selectType": "Select type",
+  "setup.crop": "Crop",
+  "setup.targetCrop": "Target crop",
+  "setup.selectCrop": "Select crop",
+  "setup.plot": "Field / plot (optional)",
+  "setup.plotPlaceholder": "e.g. North block, bed 3",
+  "setup.attachPlot": "Attach to plot",
+  "setup.noPlot": "Not attached",
+  "setup.area": "Field area ({unit})",
+  "setup.labResults": "Lab results",
+  "setup.evaluate": "Evaluate",
+  "setup.evaluateWithPhoto": "Evaluate with photo",
+  "setup.soilPhoto": "Soil photo (optional)",
+  "setup.image": "Image",
+  "setup.reset": "Reset",
+  "setup.soilFor": "Soil for:",
+  "setup.cropIs": "Crop:",
+  "upload.aria": "Upload image for analysis",
+  "upload.replace": "Replace image",
+  "upload.prompt": "Drag & drop or click to upload",
+  "upload.limits": "JPG, PNG up to ~10MB",
+  "upload.selected": "Selected:",
+  "camera.open": "Use camera",
+  "camera.close": "Close camera",
+  "camera.capture": "Capture photo",
+  "camera.guide.soil": "Fill the square with bare, dry soil in even light",
+  "camera.guide.crop": "Fit one leaf inside the outline",
+  "camera.unsupported": "Camera access is not available in this browser. Upload a photo instead.",
+  "camera.denied": "Camera permission was denied. Allow it in the browser settings or upload a photo.",
+  "camera.failed": "Could not start the camera. Upload a photo instead.",
+  "camera.captureFailed": "Could not capture a photo",
+
+  // Analysis types
+  "analysis.soil": "Soil",
+  "analysis.crop": "Crop",
+  "analysis.lab": "Lab test",
+
+  // Preview card
+  "preview.title": "Preview & Analysis",
+  "preview.labHint": "Submit lab values to evaluate, with an optional photo of the same sample.",
+  "preview.autoHint": "Scanning starts automatically after upload.",
+  "preview.alt": "Uploaded image preview",
+  "preview.regionsAlt": "Uploaded image with regions",
+  "preview.placeholderAlt": "Placeholder",
+  "preview.emptyLab": "Enter lab values to begin.",
+  "preview.emptyImage": "Upload an image to begin scanning.",
+  "scan.scanning": "Scanning...",
+  "scan.stage.decoding": "Decoding image…",
+  "scan.stage.quality": "Checking photo quality…",
+  "scan.stage.analyzing": "Analyzing…",
+  "scan.stage.scoring": "Scoring…",
+  "scan.analyzeAnyway": "Analyze anyway",
+  "scan.savedOffline": "Saved offline. It will be analyzed automatically when a connection is back.",
+  "scan.offlineSaveFailed": "No connection, and the scan could not be saved for later",
+  "scan.failed": "Analysis failed",
+  "scan.unusable": "{reason}. Retake the photo and try again.",
+  "scan.attachFailed": "Could not file the scan under this plot",
+  "unusable.noSoil": "No soil-coloured pixels found in the image",
+  "unusable.noVegetation": "No vegetation found in the image",
+  "unusable.undecodable": "The image could not be read; it may be damaged or in an unsupported format",
+  "queue.discardFailed": "Could not remove the queued scan",
+  "sync.synced": "Online",
+  "sync.pending": "Waiting to sync",
+  "sync.syncing": "Syncing",
+  "sync.offline": "Offline",
+  "sync.now": "Analyze queued scans now",
+  "sync.queued": "{count} queued",
+  "queue.waitingOne": "1 scan waiting for a connection",
+  "queue.waitingMany": "{count} scans waiting for a connection",
+  "queue.retry": "Retry now",
+  "queue.labEntry": "Lab entry",
+  "queue.discard": "Discard queued scan",
+
+  // Lab form, by lab value; messages get the field label and its limits
+  "lab.ph": "pH (water)",
+  "lab.ec": "EC",
+  "lab.organicCarbon": "Organic carbon",
+  "lab.n": "Nitrogen",
+  "lab.p": "Phosphorus",
+  "lab.k": "Potassium",
+  "lab.cec": "CEC",
+  "lab.required": "{label} is required",
+  "lab.min": "{label} must be at least {min}",
+  "lab.max": "{label} must be at most {max}",
+
+  // Photo quality
+  "quality.blocking": "Photo not usable for analysis",
+  "quality.warnings": "Photo quality warnings",
+  "quality.resolution.error": "Image is only {size}; use at least {min}px on the short side.",
+  "quality.resolution.warning": "Low resolution ({size}); {good}px or more gives steadier results.",
+  "quality.fileSize.error": "File is larger than {max}MB.",
+  "quality.fileSize.warning": "File is heavily compressed; fine texture may be lost.",
+  "quality.blur.error": "Image is blurry. Hold the phone steady and tap to focus before shooting.",
+  "quality.blur.warning": "Image looks slightly soft; results may be less precise.",
+  "quality.tooDark": "Image is too dark. Shoot in daylight or open shade.",
+  "quality.tooBright": "Image is overexposed. Avoid direct sun glare or flash.",
+  "quality.clipped": "Parts of the image are crushed to black or blown out; colours there are unreliable.",
+  "quality.subject.soil": "soil",
+  "quality.subject.crop": "leaves or plants",
+  "quality.content.error": "Only {share}% of the image looks like {subject}; check the type or reframe.",
+  "quality.content.warning": "About {share}% of the image looks like {subject}; the rest may skew the result.",
+
+  // Regions
+  "regions.title": "Regions",
+  "regions.rect": "Rectangle",
+  "regions.polygon": "Polygon",
+  "regions.analyzing": "Analyzing…",
+  "regions.analyzeOne": "Analyze 1 region",
+  "regions.analyzeMany": "Analyze {count} regions",
+  "regions.rectHint": "Drag on the photo to draw a rectangle.",
+  "regions.polygonHint": "Click to place corners; click the first corner or double-click to close, Esc to cancel.",
+  "regions.remove": "Remove {label}",
+  "regions.zone": "Zone {n}",
+  "regions.failed": "{label}: {reason}",
+
+  // Result
+  "result.cropStatus": "{crop} crop status: {status}",
+  "result.soilStatus": "Soil status: {status}",
+  "result.confidenceLabel": "Confidence",
+  "result.confidence": "Confidence: {value}%",
+  "result.sampleData": "Sample data",
+  "result.status": "Status",
+  "result.target": "Target {min}-{max}",
+  "result.hideHeatmap": "Hide heatmap",
+  "result.showHeatmap": "Show heatmap",
+  "heatmap.stressed": "Stressed",
+  "heatmap.healthy": "Healthy",
+  "result.conditions": "Possible conditions",
+  "result.recommendations": "Recommendations",
+  "result.noRecommendations": "No amendments needed for this crop.",
+  "result.markDone": "Mark done",
+  "export.pdf": "PDF report",
+  "export.pdfFailed": "Could not create the PDF report",
+  "report.title": "AgriScan field report",
+  "report.date": "Date",
+  "report.photoTaken": "Photo taken",
+  "report.analysis": "Analysis",
+  "report.crop": "Crop: {crop}",
+  "report.targetCrop": "{analysis} (target crop: {crop})",
+  "report.location": "Location",
+  "report.result": "Result",
+  "report.analyzer": "Analyzer",
+  "report.metrics": "Metrics",
+  "report.outOfRange": "Out of range",
+  "report.notes": "Notes",
+  "result.suitability": "Crop suitability",
+  "result.showSuitability": "Rank crops for this soil",
+  "result.hideSuitability": "Hide crop ranking",
+  "suitability.description": "Every crop in the catalog, ranked by how well this soil meets its requirements.",
+  "suitability.score": "{score}% match",
+  "suitability.noLimits": "Nothing limiting.",
+  "suitability.none": "None of these soil metrics can be checked against crop requirements.",
+  "result.forArea": "for {area}",
+  "result.taken": "Taken {time}",
+  "result.mockAnalyzer":
+    "Simulated result from the demo analyzer. Configure a model or rules backend for production analysis.",
+  "result.analyzer": 'Analyzed with the "{analyzer}" backend.',
+  "confidence.analyzer": "Analyzer estimate",
+  "confidence.demo": "Demo analyzer: values are simulated",
+  "confidence.model": "Model probability for {name}",
+  "confidence.runnerUp": "{name} ({status}) is a close second",
+  "confidence.soilEstimate": "Colour-based soil estimate",
+  "confidence.coverage": "Only {share}% of pixels usable after masking glare, shadow and plants",
+  "confidence.uniformity": "Uneven lightness across the patch",
+  "confidence.phSpread": "Quadrants of the photo disagree on pH by {spread}",
+  "confidence.texture": "Almost no surface texture; the photo may not show soil",
+  "confidence.neutral": "Colourless grey; the photo may not show soil",
+  "confidence.vegetationEstimate": "Vegetation index estimate",
+  "confidence.canopy": "Thin canopy: {share}% of the frame is plant",
+  "confidence.symptoms": "Leaf symptoms disagree with the vegetation index",
+  "confidence.boundary": "Health Index is close to a grade boundary",
+  "confidence.lab": "Laboratory measurement",
+  "confidence.notMeasured": "Not measured: {tests}",
+  "confidence.fromPhoto": "{count} of {total} metrics estimated from the photo ({confidence}% confidence)",
+  "confidence.why": "Why {value}% confidence",
+  "confidence.clamped": "Scores are kept between 5% and 99%.",
+
+  // Batch mode
+  "batch.savedOffline": "Saved offline",
+  "batch.title": "Batch analysis",
+  "batch.description": "Queue a whole set of field photos. Every result is also saved to history.",
+  "batch.setupHint": "Settings apply to every image in the batch.",
+  "batch.addAria": "Add images to the batch",
+  "batch.drop": "Drop photos or click to add",
+  "batch.stop": "Stop",
+  "batch.analyze": "Analyze",
+  "batch.retry": "Retry failed ({count})",
+  "batch.clear": "Clear",
+  "batch.results": "Results",
+  "batch.empty": "No images queued.",
+  "batch.processed": "{finished} of {count} processed.",
+  "batch.meanConfidence": "Mean confidence",
+  "batch.mean": "Mean {metric}",
+  "batch.image": "Image",
+  "batch.confidence": "Confidence",
+  "batch.failed": "Failed",
+
+  // Scan comparison
+  "compare.title": "Compare scans",
+  "compare.description":
+    "Deltas are against the first scan. Each sample is judged against its own crop's target ranges.",
+  "compare.pick": "Pick {min}-{max} scans to compare them.",
+  "compare.openHistory": "Open history",
+  "compare.best": "Closest to ideal",
+  "compare.inBand": "{passed} of {total} metrics in range",
+  "compare.noBands": "No metrics with a target range",
+
+  // Scan history and field map
+  "history.title": "Scan history",
+  "history.description": "Scans are stored on this device. Filter them and reopen any result.",
+  "history.when": "When",
+  "history.today": "Today",
+  "history.week": "Last 7 days",
+  "history.allTime": "All time",
+  "history.type": "Type",
+  "history.allTypes": "All types",
+  "history.allCrops": "All crops",
+  "history.status": "Status",
+  "history.anyStatus": "Any status",
+  "history.plot": "Field / plot",
+  "history.search": "Search",
+  "history.loadFailed": "Could not open local history",
+  "history.empty": "No scans yet.",
+  "history.noMatch": "No scans match these filters.",
+  "history.compareCount": "Compare {count}",
+  "history.selectMore": "Select one more to compare",
+  "history.compare": "Compare",
+  "history.open": "Open",
+  "history.plotLink": "Plot",
+  "history.trends": "Trends",
+  "history.delete": "Delete scan",
+  "history.deleteFailed": "Could not delete the scan",
+  "map.title": "Field map",
+  "map.description": "Past scans placed by the GPS position stored in each photo. Click a marker to reopen it.",
+  "map.locations": "Scan locations",
+  "map.located": "{located} of {count} scans have a location.",
+  "map.noGps": "No scans with GPS data yet. Phone photos with location enabled are placed automatically.",
+
+  // Confidence calibration
+  "calibrate.title": "Confidence calibration",
+  "calibrate.description":
+    "Run a labeled set of photos through the analyzer and check whether a stated confidence matches how often the status is right. Nothing here is saved to history.",
+  "calibrate.dataset": "Dataset",
+  "calibrate.datasetHint":
+    "Select the images together with a labels.csv whose columns are file, type (soil or crop), crop and status (Good, Marginal or Poor).",
+  "calibrate.files": "Files",
+  "calibrate.analyzer": "Analyzer (optional)",
+  "calibrate.serverDefault": "Server default",
+  "calibrate.ready": "{count} labeled images ready",
+  "calibrate.moreProblems": "…and {count} more problems",
+  "calibrate.noLabels": "Include a labels.csv file with the images.",
+  "calibrate.notSelected": "{file}: listed in labels.csv but not selected",
+  "calibrate.missingColumns": "labels.csv is missing columns: {columns}",
+  "calibrate.badType": "Row {row}: expected a file name and a type of {types}",
+  "calibrate.badCrop": 'Row {row}: unknown crop "{crop}"',
+  "calibrate.badStatus": "Row {row}: status must be one of {statuses}",
+  "calibrate.stop": "Stop",
+  "calibrate.run": "Run calibration",
+  "calibrate.reliability": "Reliability",
+  "calibrate.reliabilityHint":
+    "Bars show how often scans in each confidence band were right; the diagonal is perfect calibration.",
+  "calibrate.empty": "Run a dataset to see the report.",
+  "calibrate.accuracy": "Accuracy",
+  "calibrate.meanConfidence": "Mean confidence",
+  "calibrate.ece": "Calibration error",
+  "calibrate.brier": "Brier score",
+  "calibrate.over": "Over-confident: scans claim {claimed} but are right {right} of the time.",
+  "calibrate.under": "Under-confident: scans are right {right} of the time but claim only {claimed}.",
+  "calibrate.calibrated": "Stated confidence is within 5 points of observed accuracy.",
+  "calibrate.basedOn": "Based on {count} scans.",
+  "calibrate.bin": "Confidence {from}-{to}%",
+  "calibrate.binRight": "{share}% right of {count}",
+  "calibrate.confusion": "Labeled \\ Predicted",
+  "calibrate.failed": "{count} images could not be analyzed",
+
+  // Farms, fields and plots
+  "nav.newScan": "New scan",
+  "nav.plots": "Plots",
+  "farms.description":
+    "Farms, their fields and the plots within them, stored on this device. Attach a scan to a plot from the scan page to follow it on the plot's page.",
+  "farms.addFarm": "Add farm",
+  "farms.addField": "Add field",
+  "farms.addPlot": "Add plot",
+  "farms.save": "Save",
+  "farms.edit": "Edit {name}",
+  "farms.delete": "Delete {name}",
+  "farms.confirmDelete": "Delete {name}? Its scans stay in history.",
+  "farms.confirmDeleteAll": "Delete {name} and everything in it? Its scans stay in history.",
+  "farms.saveFailed": "Could not save {name}",
+  "farms.deleteFailed": "Could not delete {name}",
+  "farms.storageFailed": "Could not open local storage",
+  "farms.none": "No farms yet.",
+  "land.noDetails": "No details yet",
+  "land.scanOne": "1 scan",
+  "land.scanMany": "{count} scans",
+  "land.name": "Name",
+  "land.area": "Area ({unit})",
+  "land.soilType": "Soil type",
+  "land.crop": "Current crop",
+  "land.notSet": "Not set",
+  "land.noCrop": "None",
+  "land.cancel": "Cancel",
+  "soil.sand": "Sand",
+  "soil.loamy-sand": "Loamy sand",
+  "soil.sandy-loam": "Sandy loam",
+  "soil.loam": "Loam",
+  "soil.silt-loam": "Silt loam",
+  "soil.silt": "Silt",
+  "soil.sandy-clay-loam": "Sandy clay loam",
+  "soil.clay-loam": "Clay loam",
+  "soil.silty-clay-loam": "Silty clay loam",
+  "soil.sandy-clay": "Sandy clay",
+  "soil.silty-clay": "Silty clay",
+  "soil.clay": "Clay",
+  "plot.title": "Plot",
+  "plot.trendsTitle": "Plot trends",
+  "plot.missing": "This plot no longer exists.",
+  "plot.intro": "Every numeric metric of a named plot over time, to see whether amendments moved the soil.",
+  "plot.trends": "{scans} of {crop|lower}. Shaded bands are the crop's target range; dashed lines mark status changes.",
+  "plot.none": "No named plots yet. Enter a field or plot name when scanning to follow it over time.",
+  "plot.notFound": "No scans found for “{plot}”.",
+  "plot.last": "last {date}",
+  "plot.area": "Area",
+  "plot.scans": "Scans",
+  "plot.latest": "Latest status",
+  "plot.latestDescription": "The most recent scan of each kind.",
+  "plot.noScansAttach": "No scans yet. Attach one to this plot from the scan page.",
+  "plot.open": "Open recommendations",
+  "plot.openFrom": "From the {type|lower} scan of {date}. Mark each one done once it has been applied.",
+  "plot.nothingOpen": "Nothing to act on from the latest scans.",
+  "plot.history": "Scan history",
+  "plot.noScans": "No scans yet.",
+  "plot.readingOne": "1 reading",
+  "plot.readingMany": "{count} readings",
+  "plot.statusChanges": "Status changes",
+
+  // Grades and graded values
+  "status.Good": "Good",
+  "status.Marginal": "Marginal",
+  "status.Poor": "Poor",
+  "value.Low": "Low",
+  "value.Moderate": "Moderate",
+  "value.High": "High",
+
+  // Crops, by CropType
+  "crop.tomato": "Tomato",
+  "crop.yam": "Yam",
+  "crop.potato": "Potato",
+  "crop.onions": "Onions",
+
+  // Crop conditions, by ConditionCandidate.id; care steps by position in lib/crops.ts
+  "conditions.care": "Treatment & prevention",
+  "conditions.treatment": "Treatment",
+  "conditions.prevention": "Prevention",
+  "disease.healthy": "Healthy",
+  "disease.early-blight": "Early blight",
+  "disease.early-blight.treatment.1": "Remove and destroy lower leaves showing target-like brown rings.",
+  "disease.early-blight.treatment.2":
+    "Spray a protectant fungicide (mancozeb or chlorothalonil) every 7-10 days while conditions stay humid.",
+  "disease.early-blight.prevention.1": "Rotate away from tomato, potato and pepper for at least 2 seasons.",
+  "disease.early-blight.prevention.2": "Mulch and water at the base to stop soil splashing onto leaves.",
+  "disease.late-blight": "Late blight",
+  "disease.late-blight.treatment.1":
+    "Remove and bury or burn infected plants immediately; the disease spreads within days.",
+  "disease.late-blight.treatment.2": "Apply a systemic fungicide (metalaxyl + mancozeb) to surrounding plants.",
+  "disease.late-blight.prevention.1": "Plant certified disease-free seed or transplants.",
+  "disease.late-blight.prevention.2": "Space plants for airflow and avoid overhead irrigation in the evening.",
+  "disease.bacterial-wilt": "Bacterial wilt",
+  "disease.bacterial-wilt.treatment.1":
+    "Uproot wilted plants with the surrounding soil and remove them from the field.",
+  "disease.bacterial-wilt.treatment.2": "There is no curative spray; disinfect tools after handling infected plants.",
+  "disease.bacterial-wilt.prevention.1": "Rotate with cereals or grasses for 3+ years.",
+  "disease.bacterial-wilt.prevention.2": "Use resistant varieties and avoid waterlogged fields.",
+  "disease.fusarium-wilt": "Fusarium wilt",
+  "disease.fusarium-wilt.treatment.1": "Remove affected plants including roots.",
+  "disease.fusarium-wilt.treatment.2":
+    "Drench remaining plants with a biological control (Trichoderma) to slow spread.",
+  "disease.fusarium-wilt.prevention.1": "Grow resistant (F-rated) varieties.",
+  "disease.fusarium-wilt.prevention.2": "Raise soil pH towards 6.5-7.0 and avoid excess nitrogen.",
+  "disease.bacterial-spot": "Bacterial spot",
+  "disease.bacterial-spot.treatment.1": "Apply copper-based bactericide at first signs.",
+  "disease.bacterial-spot.treatment.2": "Remove heavily spotted leaves and fruit.",
+  "disease.bacterial-spot.prevention.1": "Use clean seed and transplants.",
+  "disease.bacterial-spot.prevention.2": "Avoid working among wet plants.",
+  "disease.anthracnose": "Anthracnose",
+  "disease.anthracnose.treatment.1": "Prune and burn vines with black leaf spots and die-back.",
+  "disease.anthracnose.treatment.2": "Spray mancozeb or a copper fungicide every 2 weeks during the rains.",
+  "disease.anthracnose.prevention.1": "Plant healthy setts from clean fields.",
+  "disease.anthracnose.prevention.2": "Use tolerant varieties and stake vines for airflow.",
+  "disease.yam-mosaic": "Yam mosaic virus",
+  "disease.yam-mosaic.treatment.1": "Rogue out plants with mosaic or leaf distortion; the virus cannot be cured.",
+  "disease.yam-mosaic.prevention.1": "Use virus-free seed yams.",
+  "disease.yam-mosaic.prevention.2": "Control aphid vectors and remove volunteer yams.",
+  "disease.dry-rot": "Dry rot",
+  "disease.dry-rot.treatment.1": "Discard rotting tubers; cut out small lesions and dust with wood ash before storage.",
+  "disease.dry-rot.prevention.1": "Avoid wounding tubers at harvest.",
+  "disease.dry-rot.prevention.2": "Store in a cool, ventilated barn.",
+  "disease.common-scab": "Common scab",
+  "disease.common-scab.treatment.1": "Keep soil evenly moist during tuber set to limit further scabbing.",
+  "disease.common-scab.prevention.1": "Keep pH below 5.5 and avoid fresh manure or lime before potatoes.",
+  "disease.common-scab.prevention.2": "Plant scab-free seed.",
+  "disease.purple-blotch": "Purple blotch",
+  "disease.purple-blotch.treatment.1": "Spray mancozeb or iprodione at 10-day intervals once lesions appear.",
+  "disease.purple-blotch.prevention.1": "Rotate for 3 years away from onion and garlic.",
+  "disease.purple-blotch.prevention.2": "Avoid dense planting and dew-wet foliage.",
+  "disease.downy-mildew": "Downy mildew",
+  "disease.downy-mildew.treatment.1": "Apply metalaxyl-based fungicide and remove infected leaves.",
+  "disease.downy-mildew.prevention.1": "Plant in well-drained, sunny beds.",
+  "disease.downy-mildew.prevention.2": "Destroy crop debris after harvest.",
+  "disease.white-rot": "White rot",
+  "disease.white-rot.treatment.1": "Lift and destroy affected bulbs with the surrounding soil.",
+  "disease.white-rot.prevention.1": "Do not plant alliums in infested fields for many years.",
+  "disease.white-rot.prevention.2": "Clean tools and boots between fields.",
+
+  // Metric labels, by AnalysisResult.metrics key
+  "metric.ph": "pH",
+  "metric.moisture": "Moisture",
+  "metric.organicMatter": "Organic Matter",
+  "metric.organicCarbon": "Organic Carbon",
+  "metric.munsell": "Munsell Color",
+  "metric.brightness": "Brightness (L*)",
+  "metric.nitrogen": "Nitrogen (N)",
+  "metric.phosphorus": "Phosphorus (P)",
+  "metric.potassium": "Potassium (K)",
+  "metric.ec": "EC",
+  "metric.cec": "CEC",
+  "metric.healthIndex": "Health Index",
+  "metric.diseaseRisk": "Disease Risk",
+  "metric.canopyCover": "Canopy Cover",
+  "metric.stressedArea": "Stressed Area",
+  "metric.leafMoisture": "Leaf/Soil Moisture",
+  "metric.crop": "Crop",
+
+  // Soil rule names, by rule id, as used mid-sentence
+  "rule.ph": "pH",
+  "rule.moisture": "moisture",
+  "rule.organic-matter": "organic matter",
+  "rule.nitrogen": "nitrogen",
+  "rule.phosphorus": "phosphorus",
+  "rule.potassium": "potassium",
+  "rule.salinity": "salinity (EC)",
+  "rule.cec": "CEC",
+  "rule.below": "{label|cap} {value} is below the {min}-{max} range for {crop|lower}.",
+  "rule.above": "{label|cap} {value} is above the {min}-{max} range for {crop|lower}.",
+
+  // Generated notes
+  "notes.noChecks": "No soil metrics could be checked against {crop|lower} requirements.",
+  "notes.allGood": "All {count} checked soil metrics are within the ranges for {crop|lower}.",
+  "notes.outOfRange": "{status} for {crop|lower}: {metrics} outside the recommended range.",
+  "notes.soilColour":
+    "Colour {munsell} (Munsell-style) is the median of {coverage}% of pixels after masking glare, shadow and plants.",
+  "notes.soilMoisture": "Moisture is estimated from the {share}% of soil pixels darker than L* 35.",
+  "notes.soilMethod":
+    "Organic matter follows Munsell value (darker soils hold more humus); pH is a coarse estimate from hue and chroma.",
+  "notes.cropHealthy": "{crop} crop appears healthy. Maintain current care routine.",
+  "notes.cropStressed":
+    "{crop} crop shows stress indicators on {share}% of the canopy. Inspect the highlighted areas and adjust watering/fertilization.",
+  "notes.cropStressedDemo": "{crop} crop shows stress indicators. Inspect leaves and adjust watering/fertilization.",
+  "notes.cropSuspect": "Leaf symptoms most resemble {condition|lower}; confirm in the field before treating.",
+  "notes.cropMethod":
+    "Health Index blends the Green Leaf Index and VARI averaged over plant pixels; see the heatmap for where stress sits in the frame.",
+  "notes.classified": "Classified as {name}.",
+  "notes.labSource": "Values entered from a laboratory soil test.",
+  "notes.labReplaces": "Lab values replace the photo estimates for {metrics}; other metrics come from the photo.",
+  "notes.labCombined": "Combines lab values with metrics measured from the photo.",
+
+  // Recommendations
+  "nutrient.n": "nitrogen",
+  "nutrient.p2o5": "phosphorus",
+  "nutrient.k2o": "potassium",
+  "rec.lime": "Apply agricultural lime",
+  "rec.lime.reason": "Raise pH from {ph} to about {target} for {crop|lower}. Incorporate 2-3 months before planting.",
+  "rec.sulfur": "Apply elemental sulfur",
+  "rec.sulfur.reason": "Lower pH from {ph} to about {target} for {crop|lower}. Split large doses across seasons.",
+  "rec.nutrient": "Apply {rate} {name}",
+  "rec.nutrient.untested": "No soil test value for {nutrient}; general {crop|lower} rate.",
+  "rec.nutrient.reason": "Soil {nutrient} is {value} against a {min}-{max} target.",
+  "rec.compost": "Add organic matter",
+  "rec.compost.reason": "Organic matter is {value}%; raising it improves water holding and nutrient retention.",
+  "rec.irrigate": "Irrigate before planting",
+  "rec.irrigate.reason": "Moisture {value}% is below the {min}-{max}% band for {crop|lower}.",
+  "rec.drain": "Improve drainage",
+  "rec.drain.reason": "Moisture {value}% is above the {min}-{max}% band; use ridges or mounds.",
+}
+
+export type MessageKey = keyof typeof en
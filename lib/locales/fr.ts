@@ -0,0 +1,513 @@
+import type { Catalog } from "@/lib/i18n"
+
+export const fr: Catalog = {
+  "app.tagline":
+    "Analysez des photos de sol ou de culture. Choisissez une catégorie, importez une image et consultez l'évaluation automatique.",
+  "nav.batch": "Lot",
+  "nav.history": "Historique",
+  "nav.farms": "Exploitations",
+  "nav.map": "Carte",
+  "nav.calibrate": "Calibrer",
+  "page.loading": "Chargement…",
+  "language.label": "Langue",
+  "units.label": "Unités",
+  "units.rates": "Doses et surfaces",
+  "units.nutrients": "Éléments du sol",
+  "units.metric": "Métrique (kg/ha)",
+  "units.imperial": "Impérial (lb/acre)",
+
+  "setup.title": "Paramètres",
+  "setup.description": "Choisissez ce qu'il faut analyser et importez une image.",
+  "setup.analysisType": "Type d'analyse",
+  "setup.selectType": "Choisir le type",
+  "setup.crop": "Culture",
+  "setup.targetCrop": "Culture prévue",
+  "setup.selectCrop": "Choisir la culture",
+  "setup.plot": "Champ / parcelle (facultatif)",
+  "setup.plotPlaceholder": "ex. Bloc nord, planche 3",
+  "setup.attachPlot": "Rattacher à une parcelle",
+  "setup.noPlot": "Non rattaché",
+  "setup.area": "Surface du champ ({unit})",
+  "setup.labResults": "Résultats de laboratoire",
+  "setup.evaluate": "Évaluer",
+  "setup.evaluateWithPhoto": "Évaluer avec la photo",
+  "setup.soilPhoto": "Photo du sol (facultatif)",
+  "setup.image": "Image",
+  "setup.reset": "Réinitialiser",
+  "setup.soilFor": "Sol pour :",
+  "setup.cropIs": "Culture :",
+  "upload.aria": "Importer une image à analyser",
+  "upload.replace": "Remplacer l'image",
+  "upload.prompt": "Glissez-déposez ou cliquez pour importer",
+  "upload.limits": "JPG, PNG jusqu'à ~10 Mo",
+  "upload.selected": "Sélection :",
+  "camera.open": "Utiliser la caméra",
+  "camera.close": "Fermer la caméra",
+  "camera.capture": "Prendre la photo",
+  "camera.guide.soil": "Remplissez le carré de sol nu et sec, sous une lumière uniforme",
+  "camera.guide.crop": "Placez une seule feuille dans le contour",
+  "camera.unsupported": "L'accès à la caméra n'est pas disponible dans ce navigateur. Importez plutôt une photo.",
+  "camera.denied":
+    "L'autorisation de la caméra a été refusée. Autorisez-la dans les réglages du navigateur ou importez une photo.",
+  "camera.failed": "Impossible de démarrer la caméra. Importez plutôt une photo.",
+  "camera.captureFailed": "Impossible de prendre la photo",
+
+  "analysis.soil": "Sol",
+  "analysis.crop": "Culture",
+  "analysis.lab": "Analyse de laboratoire",
+
+  "preview.title": "Aperçu et analyse",
+  "preview.labHint": "Saisissez les valeurs de laboratoire, avec une photo facultative du même échantillon.",
+  "preview.autoHint": "L'analyse démarre automatiquement après l'import.",
+  "preview.alt": "Aperçu de l'image importée",
+  "preview.regionsAlt": "Image importée avec des zones",
+  "preview.placeholderAlt": "Image d'exemple",
+  "preview.emptyLab": "Saisissez les valeurs de laboratoire pour commencer.",
+  "preview.emptyImage": "Importez une image pour lancer l'analyse.",
+  "scan.scanning": "Analyse en cours...",
+  "scan.stage.decoding": "Décodage de l'image…",
+  "scan.stage.quality": "Contrôle de la qualité de la photo…",
+  "scan.stage.analyzing": "Analyse…",
+  "scan.stage.scoring": "Notation…",
+  "scan.analyzeAnyway": "Analyser quand même",
+  "scan.savedOffline": "Enregistré hors ligne. L'analyse se fera automatiquement au retour de la connexion.",
+  "scan.offlineSaveFailed": "Pas de connexion, et l'analyse n'a pas pu être enregistrée pour plus tard",
+  "scan.failed": "Échec de l'analyse",
+  "scan.unusable": "{reason}. Reprenez la photo et réessayez.",
+  "scan.attachFailed": "Impossible de classer l'analyse dans cette parcelle",
+  "unusable.noSoil": "Aucun pixel couleur de sol dans l'image",
+  "unusable.noVegetation": "Aucune végétation dans l'image",
+  "unusable.undecodable": "L'image est illisible ; elle est peut-être endommagée ou dans un format non pris en charge",
+  "queue.discardFailed": "Impossible de retirer l'analyse en attente",
+  "sync.synced": "En ligne",
+  "sync.pending": "En attente de synchronisation",
+  "sync.syncing": "Synchronisation",
+  "sync.offline": "Hors ligne",
+  "sync.now": "Analyser maintenant les analyses en attente",
+  "sync.queued": "{count} en attente",
+  "queue.waitingOne": "1 analyse en attente de connexion",
+  "queue.waitingMany": "{count} analyses en attente de connexion",
+  "queue.retry": "Réessayer maintenant",
+  "queue.labEntry": "Saisie de laboratoire",
+  "queue.discard": "Supprimer l'analyse en attente",
+
+  "lab.ph": "pH (eau)",
+  "lab.ec": "CE",
+  "lab.organicCarbon": "Carbone organique",
+  "lab.n": "Azote",
+  "lab.p": "Phosphore",
+  "lab.k": "Potassium",
+  "lab.cec": "CEC",
+  "lab.required": "{label} est obligatoire",
+  "lab.min": "{label} doit être au moins {min}",
+  "lab.max": "{label} doit être au plus {max}",
+
+  "quality.blocking": "Photo inutilisable pour l'analyse",
+  "quality.warnings": "Avertissements sur la qualité de la photo",
+  "quality.resolution.error": "L'image ne fait que {size} ; utilisez au moins {min} px sur le petit côté.",
+  "quality.resolution.warning": "Résolution faible ({size}) ; {good} px ou plus donnent des résultats plus stables.",
+  "quality.fileSize.error": "Le fichier dépasse {max} Mo.",
+  "quality.fileSize.warning": "Le fichier est fortement compressé ; les détails fins peuvent être perdus.",
+  "quality.blur.error":
+    "L'image est floue. Tenez le téléphone immobile et touchez l'écran pour faire la mise au point avant de photographier.",
+  "quality.blur.warning": "L'image semble légèrement floue ; les résultats peuvent être moins précis.",
+  "quality.tooDark": "L'image est trop sombre. Photographiez à la lumière du jour ou à l'ombre dégagée.",
+  "quality.tooBright": "L'image est surexposée. Évitez le reflet direct du soleil ou le flash.",
+  "quality.clipped": "Certaines zones de l'image sont bouchées ou brûlées ; les couleurs y sont peu fiables.",
+  "quality.subject.soil": "du sol",
+  "quality.subject.crop": "des feuilles ou des plantes",
+  "quality.content.error": "Seulement {share} % de l'image ressemble à {subject} ; vérifiez le type ou recadrez.",
+  "quality.content.warning": "Environ {share} % de l'image ressemble à {subject} ; le reste peut fausser le résultat.",
+
+  "regions.title": "Zones",
+  "regions.rect": "Rectangle",
+  "regions.polygon": "Polygone",
+  "regions.analyzing": "Analyse…",
+  "regions.analyzeOne": "Analyser 1 zone",
+  "regions.analyzeMany": "Analyser {count} zones",
+  "regions.rectHint": "Faites glisser sur la photo pour tracer un rectangle.",
+  "regions.polygonHint":
+    "Cliquez pour placer les sommets ; cliquez sur le premier ou double-cliquez pour fermer, Échap pour annuler.",
+  "regions.remove": "Supprimer {label}",
+  "regions.zone": "Zone {n}",
+  "regions.failed": "{label} : {reason}",
+
+  "result.cropStatus": "État de la culture ({crop}) : {status}",
+  "result.soilStatus": "État du sol : {status}",
+  "result.confidenceLabel": "Confiance",
+  "result.confidence": "Confiance : {value} %",
+  "result.sampleData": "Données de l'échantillon",
+  "result.status": "État",
+  "result.target": "Cible {min}-{max}",
+  "result.hideHeatmap": "Masquer la carte de chaleur",
+  "result.showHeatmap": "Afficher la carte de chaleur",
+  "heatmap.stressed": "Stressé",
+  "heatmap.healthy": "Sain",
+  "result.conditions": "Affections possibles",
+  "result.recommendations": "Recommandations",
+  "result.noRecommendations": "Aucun amendement nécessaire pour cette culture.",
+  "result.markDone": "Marquer comme fait",
+  "export.pdf": "Rapport PDF",
+  "export.pdfFailed": "Impossible de créer le rapport PDF",
+  "report.title": "Rapport de terrain AgriScan",
+  "report.date": "Date",
+  "report.photoTaken": "Photo prise le",
+  "report.analysis": "Analyse",
+  "report.crop": "Culture : {crop}",
+  "report.targetCrop": "{analysis} (culture visée : {crop})",
+  "report.location": "Position",
+  "report.result": "Résultat",
+  "report.analyzer": "Analyseur",
+  "report.metrics": "Mesures",
+  "report.outOfRange": "Hors plage",
+  "report.notes": "Remarques",
+  "result.suitability": "Aptitude des cultures",
+  "result.showSuitability": "Classer les cultures pour ce sol",
+  "result.hideSuitability": "Masquer le classement",
+  "suitability.description": "Toutes les cultures du catalogue, classées selon la façon dont ce sol répond à leurs besoins.",
+  "suitability.score": "{score} % de correspondance",
+  "suitability.noLimits": "Aucun facteur limitant.",
+  "suitability.none": "Aucune de ces mesures du sol ne peut être comparée aux besoins des cultures.",
+  "result.forArea": "pour {area}",
+  "result.taken": "Prise le {time}",
+  "result.mockAnalyzer":
+    "Résultat simulé par l'analyseur de démonstration. Configurez un modèle ou un moteur de règles pour la production.",
+  "result.analyzer": "Analysé avec le moteur « {analyzer} ».",
+  "confidence.analyzer": "Estimation de l'analyseur",
+  "confidence.demo": "Analyseur de démonstration : valeurs simulées",
+  "confidence.model": "Probabilité du modèle pour {name}",
+  "confidence.runnerUp": "{name} ({status}) arrive juste derrière",
+  "confidence.soilEstimate": "Estimation du sol d'après la couleur",
+  "confidence.coverage":
+    "Seulement {share} % des pixels utilisables après masquage des reflets, des ombres et des plantes",
+  "confidence.uniformity": "Luminosité inégale sur la zone",
+  "confidence.phSpread": "Les quarts de la photo divergent de {spread} sur le pH",
+  "confidence.texture": "Presque aucune texture de surface ; la photo ne montre peut-être pas de sol",
+  "confidence.neutral": "Gris sans couleur ; la photo ne montre peut-être pas de sol",
+  "confidence.vegetationEstimate": "Estimation par indice de végétation",
+  "confidence.canopy": "Couvert clairsemé : {share} % du cadre est végétal",
+  "confidence.symptoms": "Les symptômes foliaires contredisent l'indice de végétation",
+  "confidence.boundary": "L'indice de santé est proche d'un seuil de classe",
+  "confidence.lab": "Mesure de laboratoire",
+  "confidence.notMeasured": "Non mesuré : {tests}",
+  "confidence.fromPhoto": "{count} mesures sur {total} estimées d'après la photo (confiance {confidence} %)",
+  "confidence.why": "Pourquoi {value} % de confiance",
+  "confidence.clamped": "Les scores sont maintenus entre 5 % et 99 %.",
+
+  "batch.savedOffline": "Enregistrée hors ligne",
+  "batch.title": "Analyse par lot",
+  "batch.description":
+    "Mettez en file toute une série de photos de terrain. Chaque résultat est aussi enregistré dans l'historique.",
+  "batch.setupHint": "Les réglages s'appliquent à chaque image du lot.",
+  "batch.addAria": "Ajouter des images au lot",
+  "batch.drop": "Déposez des photos ou cliquez pour en ajouter",
+  "batch.stop": "Arrêter",
+  "batch.analyze": "Analyser",
+  "batch.retry": "Relancer les échecs ({count})",
+  "batch.clear": "Effacer",
+  "batch.results": "Résultats",
+  "batch.empty": "Aucune image en file.",
+  "batch.processed": "{finished} sur {count} traitées.",
+  "batch.meanConfidence": "Confiance moyenne",
+  "batch.mean": "{metric} moyen",
+  "batch.image": "Image",
+  "batch.confidence": "Confiance",
+  "batch.failed": "Échec",
+
+  "compare.title": "Comparer les analyses",
+  "compare.description":
+    "Les écarts sont calculés par rapport à la première analyse. Chaque échantillon est jugé selon les plages cibles de sa culture.",
+  "compare.pick": "Choisissez {min} à {max} analyses à comparer.",
+  "compare.openHistory": "Ouvrir l'historique",
+  "compare.best": "La plus proche de l'idéal",
+  "compare.inBand": "{passed} mesures sur {total} dans la plage",
+  "compare.noBands": "Aucune mesure avec une plage cible",
+
+  "history.title": "Historique des analyses",
+  "history.description":
+    "Les analyses sont enregistrées sur cet appareil. Filtrez-les et rouvrez n'importe quel résultat.",
+  "history.when": "Quand",
+  "history.today": "Aujourd'hui",
+  "history.week": "7 derniers jours",
+  "history.allTime": "Depuis toujours",
+  "history.type": "Type",
+  "history.allTypes": "Tous les types",
+  "history.allCrops": "Toutes les cultures",
+  "history.status": "Statut",
+  "history.anyStatus": "Tous les statuts",
+  "history.plot": "Champ / parcelle",
+  "history.search": "Rechercher",
+  "history.loadFailed": "Impossible d'ouvrir l'historique local",
+  "history.empty": "Aucune analyse pour l'instant.",
+  "history.noMatch": "Aucune analyse ne correspond à ces filtres.",
+  "history.compareCount": "Comparer {count}",
+  "history.selectMore": "Sélectionnez-en une de plus pour comparer",
+  "history.compare": "Comparer",
+  "history.open": "Ouvrir",
+  "history.plotLink": "Parcelle",
+  "history.trends": "Évolution",
+  "history.delete": "Supprimer l'analyse",
+  "history.deleteFailed": "Impossible de supprimer l'analyse",
+  "map.title": "Carte des champs",
+  "map.description":
+    "Les analyses passées, placées selon la position GPS enregistrée dans chaque photo. Cliquez sur un repère pour la rouvrir.",
+  "map.locations": "Emplacements des analyses",
+  "map.located": "{located} analyses sur {count} ont une position.",
+  "map.noGps":
+    "Aucune analyse avec des données GPS pour l'instant. Les photos prises avec la localisation activée sont placées automatiquement.",
+
+  "calibrate.title": "Calibrage de la confiance",
+  "calibrate.description":
+    "Passez un jeu de photos étiquetées dans l'analyseur et vérifiez si la confiance annoncée correspond à la fréquence des statuts justes. Rien n'est enregistré dans l'historique.",
+  "calibrate.dataset": "Jeu de données",
+  "calibrate.datasetHint":
+    "Sélectionnez les images avec un fichier labels.csv dont les colonnes sont file, type (soil ou crop), crop et status (Good, Marginal ou Poor).",
+  "calibrate.files": "Fichiers",
+  "calibrate.analyzer": "Analyseur (facultatif)",
+  "calibrate.serverDefault": "Valeur par défaut du serveur",
+  "calibrate.ready": "{count} images étiquetées prêtes",
+  "calibrate.moreProblems": "…et {count} autres problèmes",
+  "calibrate.noLabels": "Ajoutez un fichier labels.csv aux images.",
+  "calibrate.notSelected": "{file} : listé dans labels.csv mais non sélectionné",
+  "calibrate.missingColumns": "Colonnes manquantes dans labels.csv : {columns}",
+  "calibrate.badType": "Ligne {row} : nom de fichier et type ({types}) attendus",
+  "calibrate.badCrop": "Ligne {row} : culture inconnue « {crop} »",
+  "calibrate.badStatus": "Ligne {row} : le statut doit être l'un de {statuses}",
+  "calibrate.stop": "Arrêter",
+  "calibrate.run": "Lancer le calibrage",
+  "calibrate.reliability": "Fiabilité",
+  "calibrate.reliabilityHint":
+    "Les barres montrent la fréquence des analyses justes dans chaque tranche de confiance ; la diagonale correspond à un calibrage parfait.",
+  "calibrate.empty": "Lancez un jeu de données pour voir le rapport.",
+  "calibrate.accuracy": "Exactitude",
+  "calibrate.meanConfidence": "Confiance moyenne",
+  "calibrate.ece": "Erreur de calibrage",
+  "calibrate.brier": "Score de Brier",
+  "calibrate.over": "Trop confiant : les analyses annoncent {claimed} mais sont justes {right} du temps.",
+  "calibrate.under": "Pas assez confiant : les analyses sont justes {right} du temps mais n'annoncent que {claimed}.",
+  "calibrate.calibrated": "La confiance annoncée est à moins de 5 points de l'exactitude observée.",
+  "calibrate.basedOn": "Sur la base de {count} analyses.",
+  "calibrate.bin": "Confiance {from}-{to} %",
+  "calibrate.binRight": "{share} % justes sur {count}",
+  "calibrate.confusion": "Étiqueté \\ Prédit",
+  "calibrate.failed": "{count} images n'ont pas pu être analysées",
+
+  "nav.newScan": "Nouvelle analyse",
+  "nav.plots": "Parcelles",
+  "farms.description":
+    "Exploitations, leurs champs et les parcelles qu'ils contiennent, enregistrés sur cet appareil. Rattachez une analyse à une parcelle depuis la page d'analyse pour la suivre sur la page de la parcelle.",
+  "farms.addFarm": "Ajouter une exploitation",
+  "farms.addField": "Ajouter un champ",
+  "farms.addPlot": "Ajouter une parcelle",
+  "farms.save": "Enregistrer",
+  "farms.edit": "Modifier {name}",
+  "farms.delete": "Supprimer {name}",
+  "farms.confirmDelete": "Supprimer {name} ? Ses analyses restent dans l'historique.",
+  "farms.confirmDeleteAll": "Supprimer {name} et tout ce qu'il contient ? Ses analyses restent dans l'historique.",
+  "farms.saveFailed": "Impossible d'enregistrer {name}",
+  "farms.deleteFailed": "Impossible de supprimer {name}",
+  "farms.storageFailed": "Impossible d'ouvrir le stockage local",
+  "farms.none": "Aucune exploitation pour l'instant.",
+  "land.noDetails": "Aucun détail pour l'instant",
+  "land.scanOne": "1 analyse",
+  "land.scanMany": "{count} analyses",
+  "land.name": "Nom",
+  "land.area": "Surface ({unit})",
+  "land.soilType": "Type de sol",
+  "land.crop": "Culture actuelle",
+  "land.notSet": "Non défini",
+  "land.noCrop": "Aucune",
+  "land.cancel": "Annuler",
+  "soil.sand": "Sable",
+  "soil.loamy-sand": "Sable limoneux",
+  "soil.sandy-loam": "Limon sableux",
+  "soil.loam": "Limon",
+  "soil.silt-loam": "Limon fin",
+  "soil.silt": "Limon très fin",
+  "soil.sandy-clay-loam": "Limon argilo-sableux",
+  "soil.clay-loam": "Limon argileux",
+  "soil.silty-clay-loam": "Limon argilo-limoneux",
+  "soil.sandy-clay": "Argile sableuse",
+  "soil.silty-clay": "Argile limoneuse",
+  "soil.clay": "Argile",
+  "plot.title": "Parcelle",
+  "plot.trendsTitle": "Évolution des parcelles",
+  "plot.missing": "Cette parcelle n'existe plus.",
+  "plot.intro":
+    "Chaque mesure numérique d'une parcelle nommée au fil du temps, pour voir si les amendements ont fait évoluer le sol.",
+  "plot.trends":
+    "{scans} de {crop|lower}. Les bandes ombrées sont la plage cible de la culture ; les lignes pointillées marquent les changements de statut.",
+  "plot.none":
+    "Aucune parcelle nommée pour l'instant. Saisissez un nom de champ ou de parcelle lors de l'analyse pour la suivre dans le temps.",
+  "plot.notFound": "Aucune analyse trouvée pour « {plot} ».",
+  "plot.last": "dernière le {date}",
+  "plot.area": "Surface",
+  "plot.scans": "Analyses",
+  "plot.latest": "Dernier statut",
+  "plot.latestDescription": "L'analyse la plus récente de chaque type.",
+  "plot.noScansAttach": "Aucune analyse pour l'instant. Rattachez-en une à cette parcelle depuis la page d'analyse.",
+  "plot.open": "Recommandations en cours",
+  "plot.openFrom": "Issues de l'analyse {type|lower} du {date}. Marquez chacune comme faite une fois appliquée.",
+  "plot.nothingOpen": "Rien à faire d'après les dernières analyses.",
+  "plot.history": "Historique des analyses",
+  "plot.noScans": "Aucune analyse pour l'instant.",
+  "plot.readingOne": "1 mesure",
+  "plot.readingMany": "{count} mesures",
+  "plot.statusChanges": "Changements de statut",
+
+  "status.Good": "Bon",
+  "status.Marginal": "Limite",
+  "status.Poor": "Mauvais",
+  "value.Low": "Faible",
+  "value.Moderate": "Modéré",
+  "value.High": "Élevé",
+
+  "crop.tomato": "Tomate",
+  "crop.yam": "Igname",
+  "crop.potato": "Pomme de terre",
+  "crop.onions": "Oignons",
+
+  "conditions.care": "Traitement et prévention",
+  "conditions.treatment": "Traitement",
+  "conditions.prevention": "Prévention",
+  "disease.healthy": "Sain",
+  "disease.early-blight": "Alternariose",
+  "disease.early-blight.treatment.1":
+    "Retirez et détruisez les feuilles basses portant des anneaux bruns en forme de cible.",
+  "disease.early-blight.treatment.2":
+    "Pulvérisez un fongicide de contact (mancozèbe ou chlorothalonil) tous les 7 à 10 jours tant que le temps reste humide.",
+  "disease.early-blight.prevention.1":
+    "Faites une rotation sans tomate, pomme de terre ni poivron pendant au moins 2 saisons.",
+  "disease.early-blight.prevention.2":
+    "Paillez et arrosez au pied pour éviter les éclaboussures de terre sur les feuilles.",
+  "disease.late-blight": "Mildiou",
+  "disease.late-blight.treatment.1":
+    "Arrachez puis enterrez ou brûlez les plantes atteintes sans attendre ; la maladie se propage en quelques jours.",
+  "disease.late-blight.treatment.2":
+    "Traitez les plantes voisines avec un fongicide systémique (métalaxyl + mancozèbe).",
+  "disease.late-blight.prevention.1": "Plantez des semences ou des plants certifiés sains.",
+  "disease.late-blight.prevention.2": "Espacez les plantes pour aérer et évitez l'arrosage par aspersion le soir.",
+  "disease.bacterial-wilt": "Flétrissement bactérien",
+  "disease.bacterial-wilt.treatment.1":
+    "Arrachez les plantes flétries avec la terre qui les entoure et sortez-les du champ.",
+  "disease.bacterial-wilt.treatment.2":
+    "Aucun traitement ne guérit la maladie ; désinfectez les outils après avoir touché des plantes atteintes.",
+  "disease.bacterial-wilt.prevention.1":
+    "Faites une rotation avec des céréales ou des graminées pendant 3 ans ou plus.",
+  "disease.bacterial-wilt.prevention.2": "Utilisez des variétés résistantes et évitez les champs gorgés d'eau.",
+  "disease.fusarium-wilt": "Fusariose",
+  "disease.fusarium-wilt.treatment.1": "Arrachez les plantes atteintes, racines comprises.",
+  "disease.fusarium-wilt.treatment.2":
+    "Arrosez les plantes restantes avec un agent de lutte biologique (Trichoderma) pour freiner la propagation.",
+  "disease.fusarium-wilt.prevention.1": "Cultivez des variétés résistantes (notées F).",
+  "disease.fusarium-wilt.prevention.2": "Remontez le pH du sol vers 6,5-7,0 et évitez l'excès d'azote.",
+  "disease.bacterial-spot": "Tache bactérienne",
+  "disease.bacterial-spot.treatment.1": "Appliquez un bactéricide à base de cuivre dès les premiers signes.",
+  "disease.bacterial-spot.treatment.2": "Retirez les feuilles et les fruits très tachés.",
+  "disease.bacterial-spot.prevention.1": "Utilisez des semences et des plants sains.",
+  "disease.bacterial-spot.prevention.2": "Évitez de travailler parmi les plantes mouillées.",
+  "disease.anthracnose": "Anthracnose",
+  "disease.anthracnose.treatment.1": "Taillez et brûlez les lianes portant des taches noires et un dépérissement.",
+  "disease.anthracnose.treatment.2":
+    "Pulvérisez du mancozèbe ou un fongicide cuprique toutes les 2 semaines pendant les pluies.",
+  "disease.anthracnose.prevention.1": "Plantez des semenceaux sains issus de champs indemnes.",
+  "disease.anthracnose.prevention.2": "Utilisez des variétés tolérantes et tuteurez les lianes pour l'aération.",
+  "disease.yam-mosaic": "Virus de la mosaïque de l'igname",
+  "disease.yam-mosaic.treatment.1":
+    "Arrachez les plantes présentant une mosaïque ou des feuilles déformées ; le virus est incurable.",
+  "disease.yam-mosaic.prevention.1": "Utilisez des semenceaux d'igname indemnes de virus.",
+  "disease.yam-mosaic.prevention.2": "Luttez contre les pucerons vecteurs et supprimez les ignames spontanées.",
+  "disease.dry-rot": "Pourriture sèche",
+  "disease.dry-rot.treatment.1":
+    "Jetez les tubercules pourris ; découpez les petites lésions et saupoudrez de cendre de bois avant stockage.",
+  "disease.dry-rot.prevention.1": "Évitez de blesser les tubercules à la récolte.",
+  "disease.dry-rot.prevention.2": "Stockez dans un abri frais et aéré.",
+  "disease.common-scab": "Gale commune",
+  "disease.common-scab.treatment.1": "Gardez le sol uniformément humide pendant la tubérisation pour limiter la gale.",
+  "disease.common-scab.prevention.1":
+    "Maintenez le pH sous 5,5 et évitez le fumier frais ou la chaux avant les pommes de terre.",
+  "disease.common-scab.prevention.2": "Plantez des semences sans gale.",
+  "disease.purple-blotch": "Alternariose de l'oignon",
+  "disease.purple-blotch.treatment.1":
+    "Pulvérisez du mancozèbe ou de l'iprodione tous les 10 jours dès l'apparition des lésions.",
+  "disease.purple-blotch.prevention.1": "Faites une rotation de 3 ans sans oignon ni ail.",
+  "disease.purple-blotch.prevention.2": "Évitez les plantations trop denses et le feuillage mouillé de rosée.",
+  "disease.downy-mildew": "Mildiou de l'oignon",
+  "disease.downy-mildew.treatment.1": "Appliquez un fongicide à base de métalaxyl et retirez les feuilles atteintes.",
+  "disease.downy-mildew.prevention.1": "Plantez dans des planches bien drainées et ensoleillées.",
+  "disease.downy-mildew.prevention.2": "Détruisez les résidus de culture après la récolte.",
+  "disease.white-rot": "Pourriture blanche",
+  "disease.white-rot.treatment.1": "Arrachez et détruisez les bulbes atteints avec la terre qui les entoure.",
+  "disease.white-rot.prevention.1":
+    "Ne replantez pas d'alliacées dans les champs contaminés pendant de nombreuses années.",
+  "disease.white-rot.prevention.2": "Nettoyez outils et bottes entre deux champs.",
+
+  "metric.moisture": "Humidité",
+  "metric.organicMatter": "Matière organique",
+  "metric.organicCarbon": "Carbone organique",
+  "metric.munsell": "Couleur Munsell",
+  "metric.brightness": "Luminosité (L*)",
+  "metric.nitrogen": "Azote (N)",
+  "metric.phosphorus": "Phosphore (P)",
+  "metric.potassium": "Potassium (K)",
+  "metric.ec": "CE",
+  "metric.cec": "CEC",
+  "metric.healthIndex": "Indice de santé",
+  "metric.diseaseRisk": "Risque de maladie",
+  "metric.canopyCover": "Couverture du feuillage",
+  "metric.stressedArea": "Zone en stress",
+  "metric.leafMoisture": "Humidité feuille/sol",
+  "metric.crop": "Culture",
+
+  "rule.moisture": "humidité",
+  "rule.organic-matter": "matière organique",
+  "rule.nitrogen": "azote",
+  "rule.phosphorus": "phosphore",
+  "rule.potassium": "potassium",
+  "rule.salinity": "salinité (CE)",
+  "rule.below": "{label|cap} {value} est en dessous de la plage {min}-{max} pour : {crop|lower}.",
+  "rule.above": "{label|cap} {value} est au-dessus de la plage {min}-{max} pour : {crop|lower}.",
+
+  "notes.noChecks": "Aucune mesure du sol n'a pu être comparée aux besoins de la culture ({crop|lower}).",
+  "notes.allGood": "Les {count} mesures du sol vérifiées sont dans les plages adaptées ({crop|lower}).",
+  "notes.outOfRange": "{status} pour {crop|lower} : {metrics} hors de la plage recommandée.",
+  "notes.soilColour":
+    "La couleur {munsell} (style Munsell) est la médiane de {coverage} % des pixels, après masquage des reflets, des ombres et des plantes.",
+  "notes.soilMoisture": "L'humidité est estimée à partir des {share} % de pixels de sol plus sombres que L* 35.",
+  "notes.soilMethod":
+    "La matière organique suit la valeur Munsell (les sols plus sombres contiennent plus d'humus) ; le pH est une estimation grossière d'après la teinte et la saturation.",
+  "notes.cropHealthy": "La culture ({crop|lower}) semble saine. Poursuivez les soins habituels.",
+  "notes.cropStressed":
+    "La culture ({crop|lower}) montre des signes de stress sur {share} % du feuillage. Inspectez les zones signalées et ajustez l'arrosage ou la fertilisation.",
+  "notes.cropStressedDemo":
+    "La culture ({crop|lower}) montre des signes de stress. Inspectez les feuilles et ajustez l'arrosage ou la fertilisation.",
+  "notes.cropSuspect":
+    "Les symptômes des feuilles ressemblent surtout à : {condition|lower} ; confirmez au champ avant de traiter.",
+  "notes.cropMethod":
+    "L'indice de santé combine le Green Leaf Index et le VARI moyennés sur les pixels de plante ; la carte de chaleur montre où se situe le stress.",
+  "notes.classified": "Classé comme {name}.",
+  "notes.labSource": "Valeurs issues d'une analyse de sol en laboratoire.",
+  "notes.labReplaces":
+    "Les valeurs de laboratoire remplacent les estimations de la photo pour {metrics} ; les autres mesures viennent de la photo.",
+  "notes.labCombined": "Combine les valeurs de laboratoire avec les mesures tirées de la photo.",
+
+  "nutrient.n": "azote",
+  "nutrient.p2o5": "phosphore",
+  "nutrient.k2o": "potassium",
+  "rec.lime": "Apporter de la chaux agricole",
+  "rec.lime.reason":
+    "Relever le pH de {ph} à environ {target} ({crop|lower}). Incorporer 2 à 3 mois avant la plantation.",
+  "rec.sulfur": "Apporter du soufre élémentaire",
+  "rec.sulfur.reason":
+    "Abaisser le pH de {ph} à environ {target} ({crop|lower}). Fractionner les fortes doses sur plusieurs saisons.",
+  "rec.nutrient": "Apporter {rate} de {name}",
+  "rec.nutrient.untested": "Pas de valeur d'analyse pour : {nutrient} ; dose générale ({crop|lower}).",
+  "rec.nutrient.reason": "{nutrient|cap} du sol : {value} pour une cible de {min}-{max}.",
+  "rec.compost": "Apporter de la matière organique",
+  "rec.compost.reason":
+    "La matière organique est de {value} % ; l'augmenter améliore la rétention d'eau et d'éléments nutritifs.",
+  "rec.irrigate": "Irriguer avant la plantation",
+  "rec.irrigate.reason": "L'humidité de {value} % est sous la plage de {min}-{max} % ({crop|lower}).",
+  "rec.drain": "Améliorer le drainage",
+  "rec.drain.reason": "L'humidité de {value} % dépasse la plage de {min}-{max} % ; utilisez des billons ou des buttes.",
+}
@@ -0,0 +1,490 @@
+import type { Catalog } from "@/lib/i18n"
+
+export const ha: Catalog = {
+  "app.tagline": "Bincika hotunan ƙasa ko amfanin gona. Zaɓi rukuni, ɗora hoto, sannan ka duba sakamakon bincike.",
+  "nav.batch": "Rukuni",
+  "nav.history": "Tarihi",
+  "nav.farms": "Gonaki",
+  "nav.map": "Taswira",
+  "nav.calibrate": "Daidaita",
+  "page.loading": "Ana lodawa…",
+  "language.label": "Harshe",
+  "units.label": "Ma'auni",
+  "units.rates": "Adadi da girman gona",
+  "units.nutrients": "Sinadaran ƙasa",
+  "units.metric": "Metric (kg/ha)",
+  "units.imperial": "Imperial (lb/acre)",
+
+  "setup.title": "Shiri",
+  "setup.description": "Zaɓi abin da za a bincika sannan ka ɗora hoto.",
+  "setup.analysisType": "Irin bincike",
+  "setup.selectType": "Zaɓi iri",
+  "setup.crop": "Amfanin gona",
+  "setup.targetCrop": "Amfanin gonar da ake nufi",
+  "setup.selectCrop": "Zaɓi amfanin gona",
+  "setup.plot": "Gona / fili (ba dole ba)",
+  "setup.plotPlaceholder": "misali: Ɓangaren arewa, kunya 3",
+  "setup.attachPlot": "Haɗa da fili",
+  "setup.noPlot": "Ba a haɗa ba",
+  "setup.area": "Girman gona ({unit})",
+  "setup.labResults": "Sakamakon ɗakin gwaji",
+  "setup.evaluate": "Kimanta",
+  "setup.evaluateWithPhoto": "Kimanta tare da hoto",
+  "setup.soilPhoto": "Hoton ƙasa (ba dole ba)",
+  "setup.image": "Hoto",
+  "setup.reset": "Sake farawa",
+  "setup.soilFor": "Ƙasa don:",
+  "setup.cropIs": "Amfanin gona:",
+  "upload.aria": "Ɗora hoto don bincike",
+  "upload.replace": "Canza hoto",
+  "upload.prompt": "Ja ka saki ko danna don ɗorawa",
+  "upload.limits": "JPG, PNG har zuwa ~10MB",
+  "upload.selected": "An zaɓa:",
+  "camera.open": "Yi amfani da kyamara",
+  "camera.close": "Rufe kyamara",
+  "camera.capture": "Ɗauki hoto",
+  "camera.guide.soil": "Cika murabba'in da busasshiyar ƙasa mara komai a cikin haske daidai",
+  "camera.guide.crop": "Sanya ganye ɗaya a cikin layin",
+  "camera.unsupported": "Ba a iya amfani da kyamara a wannan burauza ba. Ɗora hoto a maimakon haka.",
+  "camera.denied": "An hana izinin kyamara. Ba da izini a saitunan burauza ko ka ɗora hoto.",
+  "camera.failed": "An kasa kunna kyamara. Ɗora hoto a maimakon haka.",
+  "camera.captureFailed": "An kasa ɗaukar hoto",
+
+  "analysis.soil": "Ƙasa",
+  "analysis.crop": "Amfanin gona",
+  "analysis.lab": "Gwajin ɗakin gwaji",
+
+  "preview.title": "Dubawa da Bincike",
+  "preview.labHint": "Shigar da ƙimar ɗakin gwaji don kimantawa, tare da hoton samfurin idan kana so.",
+  "preview.autoHint": "Bincike zai fara da kansa bayan ɗorawa.",
+  "preview.alt": "Duba hoton da aka ɗora",
+  "preview.regionsAlt": "Hoton da aka ɗora tare da yankuna",
+  "preview.placeholderAlt": "Hoton misali",
+  "preview.emptyLab": "Shigar da ƙimar ɗakin gwaji don farawa.",
+  "preview.emptyImage": "Ɗora hoto don fara bincike.",
+  "scan.scanning": "Ana bincike...",
+  "scan.stage.decoding": "Ana karanta hoto…",
+  "scan.stage.quality": "Ana duba ingancin hoto…",
+  "scan.stage.analyzing": "Ana bincike…",
+  "scan.stage.scoring": "Ana ba da maki…",
+  "scan.analyzeAnyway": "Bincika duk da haka",
+  "scan.savedOffline": "An ajiye ba tare da intanet ba. Za a bincika shi da kansa idan intanet ya dawo.",
+  "scan.offlineSaveFailed": "Babu intanet, kuma ba a iya ajiye binciken don anjima ba",
+  "scan.failed": "Bincike bai yi nasara ba",
+  "scan.unusable": "{reason}. Sake ɗaukar hoton ka sake gwadawa.",
+  "scan.attachFailed": "Ba a iya ajiye binciken a ƙarƙashin wannan fili ba",
+  "unusable.noSoil": "Ba a sami launin ƙasa a cikin hoton ba",
+  "unusable.noVegetation": "Ba a sami tsiro a cikin hoton ba",
+  "unusable.undecodable": "Ba a iya karanta hoton ba; yana iya lalacewa ko kuma a tsarin da ba a tallafawa",
+  "queue.discardFailed": "An kasa cire binciken da ke jira",
+  "sync.synced": "Akan layi",
+  "sync.pending": "Ana jiran daidaitawa",
+  "sync.syncing": "Ana daidaitawa",
+  "sync.offline": "Babu layi",
+  "sync.now": "Bincika binciken da ke jira yanzu",
+  "sync.queued": "{count} na jira",
+  "queue.waitingOne": "Bincike 1 na jiran haɗi",
+  "queue.waitingMany": "Bincike {count} na jiran haɗi",
+  "queue.retry": "Sake gwadawa yanzu",
+  "queue.labEntry": "Shigarwar ɗakin gwaje-gwaje",
+  "queue.discard": "Watsar da binciken da ke jira",
+
+  "lab.ph": "pH (ruwa)",
+  "lab.organicCarbon": "Carbon na halitta",
+  "lab.n": "Nitrojin",
+  "lab.p": "Fosfores",
+  "lab.k": "Potassiyum",
+  "lab.required": "Ana buƙatar {label}",
+  "lab.min": "{label} dole ya kai aƙalla {min}",
+  "lab.max": "{label} kada ya wuce {max}",
+
+  "quality.blocking": "Hoton ba zai yi amfani ga bincike ba",
+  "quality.warnings": "Gargaɗi kan ingancin hoto",
+  "quality.resolution.error": "Hoton {size} ne kawai; yi amfani da aƙalla {min}px a gajeren gefe.",
+  "quality.resolution.warning": "Ƙarancin ƙuduri ({size}); {good}px ko fiye yana ba da sakamako mafi daidaito.",
+  "quality.fileSize.error": "Fayil ya fi {max}MB girma.",
+  "quality.fileSize.warning": "An matse fayil sosai; ƙananan bayanai na iya ɓacewa.",
+  "quality.blur.error": "Hoton ya dushe. Riƙe wayar da kyau ka taɓa don mayar da hankali kafin ɗauka.",
+  "quality.blur.warning": "Hoton ya ɗan dushe; sakamako na iya rashin daidaito sosai.",
+  "quality.tooDark": "Hoton ya yi duhu sosai. Ɗauka da hasken rana ko a inuwa mai buɗewa.",
+  "quality.tooBright": "Hoton ya yi haske fiye da kima. Guji hasken rana kai tsaye ko filasha.",
+  "quality.clipped": "Wasu sassan hoton sun yi baƙi ƙirin ko fari fat; launuka a wurin ba za a dogara da su ba.",
+  "quality.subject.soil": "ƙasa",
+  "quality.subject.crop": "ganye ko tsirrai",
+  "quality.content.error": "Kashi {share}% kawai na hoton yake kama da {subject}; duba nau'in ko sake tsara hoton.",
+  "quality.content.warning":
+    "Kusan kashi {share}% na hoton yake kama da {subject}; sauran na iya karkatar da sakamakon.",
+
+  "regions.title": "Yankuna",
+  "regions.rect": "Murabba'i",
+  "regions.polygon": "Mai kusurwa da yawa",
+  "regions.analyzing": "Ana bincike…",
+  "regions.analyzeOne": "Bincika yanki 1",
+  "regions.analyzeMany": "Bincika yankuna {count}",
+  "regions.rectHint": "Ja a kan hoton don zana murabba'i.",
+  "regions.polygonHint":
+    "Danna don sanya kusurwoyi; danna kusurwar farko ko danna sau biyu don rufewa, Esc don soke.",
+  "regions.remove": "Cire {label}",
+  "regions.zone": "Yanki {n}",
+  "regions.failed": "{label}: {reason}",
+
+  "result.cropStatus": "Yanayin {crop|lower}: {status}",
+  "result.soilStatus": "Yanayin ƙasa: {status}",
+  "result.confidenceLabel": "Tabbaci",
+  "result.confidence": "Tabbaci: {value}%",
+  "result.sampleData": "Bayanan samfuri",
+  "result.status": "Yanayi",
+  "result.target": "Manufa {min}-{max}",
+  "result.hideHeatmap": "Ɓoye taswirar zafi",
+  "result.showHeatmap": "Nuna taswirar zafi",
+  "heatmap.stressed": "Cikin damuwa",
+  "heatmap.healthy": "Lafiyayye",
+  "result.conditions": "Cututtukan da ka iya kasancewa",
+  "result.recommendations": "Shawarwari",
+  "result.noRecommendations": "Babu gyaran da ake buƙata don wannan amfanin gona.",
+  "result.markDone": "Yi alamar an gama",
+  "export.pdf": "Rahoton PDF",
+  "export.pdfFailed": "An kasa ƙirƙirar rahoton PDF",
+  "report.title": "Rahoton gona na AgriScan",
+  "report.date": "Kwanan wata",
+  "report.photoTaken": "Lokacin ɗaukar hoto",
+  "report.analysis": "Bincike",
+  "report.crop": "Amfanin gona: {crop}",
+  "report.targetCrop": "{analysis} (amfanin gonar da ake nufi: {crop})",
+  "report.location": "Wuri",
+  "report.result": "Sakamako",
+  "report.analyzer": "Mai bincike",
+  "report.metrics": "Ma'auni",
+  "report.outOfRange": "A wajen iyaka",
+  "report.notes": "Bayanai",
+  "result.suitability": "Dacewar amfanin gona",
+  "result.showSuitability": "Jera amfanin gona don wannan ƙasa",
+  "result.hideSuitability": "Ɓoye jerin",
+  "suitability.description": "Duk amfanin gona a cikin kundin, an jera su bisa yadda wannan ƙasa ta biya bukatunsu.",
+  "suitability.score": "Dacewa {score}%",
+  "suitability.noLimits": "Babu abin da ke hanawa.",
+  "suitability.none": "Babu ɗaya daga cikin ma'aunin ƙasar da za a iya kwatanta da bukatun amfanin gona.",
+  "result.forArea": "don {area}",
+  "result.taken": "An ɗauka {time}",
+  "result.mockAnalyzer":
+    "Sakamakon kwaikwayo daga na'urar bincike ta nuni. Saita samfuri ko injin dokoki don ainihin amfani.",
+  "result.analyzer": "An bincika da injin \"{analyzer}\".",
+  "confidence.analyzer": "Kiyasin mai bincike",
+  "confidence.demo": "Mai bincike na gwaji: ƙimomin na kwaikwayo ne",
+  "confidence.model": "Yiwuwar samfuri ga {name}",
+  "confidence.runnerUp": "{name} ({status}) yana biye a kusa",
+  "confidence.soilEstimate": "Kiyasin ƙasa bisa launi",
+  "confidence.coverage": "Kashi {share}% kawai na pixel ke da amfani bayan an cire haske, inuwa da tsirrai",
+  "confidence.uniformity": "Haske mara daidai a faɗin wurin",
+  "confidence.phSpread": "Kashi huɗu na hoton sun bambanta a pH da {spread}",
+  "confidence.texture": "Kusan babu ƙirar saman ƙasa; hoton bazai nuna ƙasa ba",
+  "confidence.neutral": "Launin toka mara launi; hoton bazai nuna ƙasa ba",
+  "confidence.vegetationEstimate": "Kiyasin ma'aunin tsirrai",
+  "confidence.canopy": "Ganye kaɗan: kashi {share}% na hoton tsiro ne",
+  "confidence.symptoms": "Alamomin ganye ba su dace da ma'aunin tsirrai ba",
+  "confidence.boundary": "Ma'aunin lafiya yana kusa da iyakar mataki",
+  "confidence.lab": "Ma'aunin ɗakin gwaji",
+  "confidence.notMeasured": "Ba a auna ba: {tests}",
+  "confidence.fromPhoto": "Ma'auni {count} cikin {total} an kiyasta su daga hoto (amincewa {confidence}%)",
+  "confidence.why": "Dalilin tabbaci na {value}%",
+  "confidence.clamped": "Ana ajiye maki tsakanin 5% da 99%.",
+
+  "batch.savedOffline": "An ajiye ba tare da layi ba",
+  "batch.title": "Bincike a rukuni",
+  "batch.description": "Jera dukkan hotunan gona. Ana kuma ajiye kowane sakamako a tarihi.",
+  "batch.setupHint": "Saituna suna shafar kowane hoto a rukunin.",
+  "batch.addAria": "Ƙara hotuna a rukunin",
+  "batch.drop": "Jefa hotuna ko danna don ƙarawa",
+  "batch.stop": "Tsaya",
+  "batch.analyze": "Bincika",
+  "batch.retry": "Sake gwada waɗanda suka kasa ({count})",
+  "batch.clear": "Share",
+  "batch.results": "Sakamako",
+  "batch.empty": "Babu hoton da ke jere.",
+  "batch.processed": "An sarrafa {finished} cikin {count}.",
+  "batch.meanConfidence": "Matsakaicin tabbaci",
+  "batch.mean": "Matsakaicin {metric}",
+  "batch.image": "Hoto",
+  "batch.confidence": "Tabbaci",
+  "batch.failed": "Ya kasa",
+
+  "compare.title": "Kwatanta bincike",
+  "compare.description":
+    "Ana kwatanta bambance-bambance da bincike na farko. Ana auna kowane samfuri da iyakokin amfanin gonarsa.",
+  "compare.pick": "Zaɓi bincike {min}-{max} don kwatanta su.",
+  "compare.openHistory": "Buɗe tarihi",
+  "compare.best": "Mafi kusa da manufa",
+  "compare.inBand": "Ma'auni {passed} cikin {total} suna cikin iyaka",
+  "compare.noBands": "Babu ma'aunin da ke da iyakar manufa",
+
+  "history.title": "Tarihin bincike",
+  "history.description": "Ana ajiye bincike a wannan na'ura. Tace su kuma sake buɗe kowane sakamako.",
+  "history.when": "Yaushe",
+  "history.today": "Yau",
+  "history.week": "Kwanaki 7 da suka wuce",
+  "history.allTime": "Duk lokaci",
+  "history.type": "Iri",
+  "history.allTypes": "Duk iri",
+  "history.allCrops": "Duk amfanin gona",
+  "history.status": "Matsayi",
+  "history.anyStatus": "Kowane matsayi",
+  "history.plot": "Gona / fili",
+  "history.search": "Nema",
+  "history.loadFailed": "An kasa buɗe tarihin na'ura",
+  "history.empty": "Babu bincike tukuna.",
+  "history.noMatch": "Babu binciken da ya dace da waɗannan matattara.",
+  "history.compareCount": "Kwatanta {count}",
+  "history.selectMore": "Zaɓi ƙarin ɗaya don kwatantawa",
+  "history.compare": "Kwatanta",
+  "history.open": "Buɗe",
+  "history.plotLink": "Fili",
+  "history.trends": "Yanayi",
+  "history.delete": "Share bincike",
+  "history.deleteFailed": "An kasa share binciken",
+  "map.title": "Taswirar gona",
+  "map.description":
+    "Binciken da suka gabata, an sanya su bisa wurin GPS da ke cikin kowane hoto. Danna alama don sake buɗe shi.",
+  "map.locations": "Wuraren bincike",
+  "map.located": "Bincike {located} cikin {count} suna da wuri.",
+  "map.noGps": "Babu bincike mai bayanan GPS tukuna. Ana sanya hotunan waya da aka kunna wurinsu kai tsaye.",
+
+  "calibrate.title": "Daidaita tabbaci",
+  "calibrate.description":
+    "Gudanar da rukunin hotuna masu lakabi ta cikin mai bincike kuma duba ko tabbacin da aka bayyana ya dace da yawan lokutan da matsayin ya yi daidai. Ba a ajiye komai a tarihi.",
+  "calibrate.dataset": "Bayanai",
+  "calibrate.datasetHint":
+    "Zaɓi hotunan tare da labels.csv wanda ginshiƙansa su ne file, type (soil ko crop), crop da status (Good, Marginal ko Poor).",
+  "calibrate.files": "Fayiloli",
+  "calibrate.analyzer": "Mai bincike (ba dole ba)",
+  "calibrate.serverDefault": "Tsohon saitin sabar",
+  "calibrate.ready": "Hotuna {count} masu lakabi sun shirya",
+  "calibrate.moreProblems": "…da ƙarin matsaloli {count}",
+  "calibrate.noLabels": "Haɗa fayil labels.csv tare da hotunan.",
+  "calibrate.notSelected": "{file}: yana cikin labels.csv amma ba a zaɓe shi ba",
+  "calibrate.missingColumns": "labels.csv ba shi da ginshiƙai: {columns}",
+  "calibrate.badType": "Layi {row}: ana sa ran sunan fayil da iri daga {types}",
+  "calibrate.badCrop": "Layi {row}: amfanin gona da ba a sani ba “{crop}”",
+  "calibrate.badStatus": "Layi {row}: matsayi dole ya zama ɗaya daga {statuses}",
+  "calibrate.stop": "Tsaya",
+  "calibrate.run": "Fara daidaitawa",
+  "calibrate.reliability": "Amintacce",
+  "calibrate.reliabilityHint":
+    "Sanduna suna nuna yawan lokutan da binciken kowane rukunin tabbaci ya yi daidai; layin tsallake shi ne daidaitawa cikakkiya.",
+  "calibrate.empty": "Gudanar da bayanai don ganin rahoton.",
+  "calibrate.accuracy": "Daidaito",
+  "calibrate.meanConfidence": "Matsakaicin tabbaci",
+  "calibrate.ece": "Kuskuren daidaitawa",
+  "calibrate.brier": "Makin Brier",
+  "calibrate.over": "Tabbaci ya wuce kima: bincike suna cewa {claimed} amma suna daidai {right} na lokaci.",
+  "calibrate.under": "Tabbaci bai kai ba: bincike suna daidai {right} na lokaci amma suna cewa {claimed} kawai.",
+  "calibrate.calibrated": "Tabbacin da aka bayyana yana cikin maki 5 na daidaiton da aka gani.",
+  "calibrate.basedOn": "Bisa bincike {count}.",
+  "calibrate.bin": "Tabbaci {from}-{to}%",
+  "calibrate.binRight": "{share}% daidai cikin {count}",
+  "calibrate.confusion": "Lakabi \\ Hasashe",
+  "calibrate.failed": "An kasa bincika hotuna {count}",
+
+  "nav.newScan": "Sabon bincike",
+  "nav.plots": "Filaye",
+  "farms.description":
+    "Gonaki, filayensu da filayen da ke cikinsu, an ajiye su a wannan na'ura. Haɗa bincike da fili daga shafin bincike don bibiyarsa a shafin filin.",
+  "farms.addFarm": "Ƙara gona",
+  "farms.addField": "Ƙara filin noma",
+  "farms.addPlot": "Ƙara fili",
+  "farms.save": "Ajiye",
+  "farms.edit": "Gyara {name}",
+  "farms.delete": "Goge {name}",
+  "farms.confirmDelete": "A goge {name}? Bincikensa za su ci gaba da kasancewa a tarihi.",
+  "farms.confirmDeleteAll": "A goge {name} da duk abin da ke cikinsa? Bincikensa za su ci gaba da kasancewa a tarihi.",
+  "farms.saveFailed": "Ba a iya ajiye {name} ba",
+  "farms.deleteFailed": "Ba a iya goge {name} ba",
+  "farms.storageFailed": "Ba a iya buɗe ma'ajiyar na'ura ba",
+  "farms.none": "Babu gona tukuna.",
+  "land.noDetails": "Babu cikakken bayani tukuna",
+  "land.scanOne": "Bincike 1",
+  "land.scanMany": "Bincike {count}",
+  "land.name": "Suna",
+  "land.area": "Faɗi ({unit})",
+  "land.soilType": "Nau'in ƙasa",
+  "land.crop": "Amfanin gona na yanzu",
+  "land.notSet": "Ba a saita ba",
+  "land.noCrop": "Babu",
+  "land.cancel": "Soke",
+  "soil.sand": "Yashi",
+  "soil.loamy-sand": "Yashi mai laka",
+  "soil.sandy-loam": "Laka mai yashi",
+  "soil.loam": "Laka",
+  "soil.silt-loam": "Laka mai tabo",
+  "soil.silt": "Tabo",
+  "soil.sandy-clay-loam": "Laka mai yumɓu da yashi",
+  "soil.clay-loam": "Laka mai yumɓu",
+  "soil.silty-clay-loam": "Laka mai yumɓu da tabo",
+  "soil.sandy-clay": "Yumɓu mai yashi",
+  "soil.silty-clay": "Yumɓu mai tabo",
+  "soil.clay": "Yumɓu",
+  "plot.title": "Fili",
+  "plot.trendsTitle": "Yanayin fili",
+  "plot.missing": "Wannan filin babu shi kuma.",
+  "plot.intro": "Kowane ma'auni na lamba na fili mai suna a tsawon lokaci, don ganin ko gyare-gyare sun canza ƙasar.",
+  "plot.trends":
+    "{scans} na {crop|lower}. Ɗigunan inuwa su ne iyakar da ake so ga amfanin gona; layukan ɗigo suna nuna sauyin matsayi.",
+  "plot.none":
+    "Babu fili mai suna tukuna. Shigar da sunan filin noma ko fili lokacin bincike don bibiyarsa a tsawon lokaci.",
+  "plot.notFound": "Ba a sami bincike don “{plot}” ba.",
+  "plot.last": "na ƙarshe {date}",
+  "plot.area": "Faɗi",
+  "plot.scans": "Bincike",
+  "plot.latest": "Matsayi na baya-bayan nan",
+  "plot.latestDescription": "Bincike na baya-bayan nan na kowane iri.",
+  "plot.noScansAttach": "Babu bincike tukuna. Haɗa ɗaya da wannan filin daga shafin bincike.",
+  "plot.open": "Shawarwarin da suka rage",
+  "plot.openFrom": "Daga binciken {type|lower} na {date}. Yi alama an gama kowanne da zarar an aiwatar da shi.",
+  "plot.nothingOpen": "Babu abin yi daga binciken baya-bayan nan.",
+  "plot.history": "Tarihin bincike",
+  "plot.noScans": "Babu bincike tukuna.",
+  "plot.readingOne": "Karatu 1",
+  "plot.readingMany": "Karatu {count}",
+  "plot.statusChanges": "Sauye-sauyen matsayi",
+
+  "status.Good": "Mai kyau",
+  "status.Marginal": "Matsakaici",
+  "status.Poor": "Mara kyau",
+  "value.Low": "Ƙasa",
+  "value.Moderate": "Matsakaici",
+  "value.High": "Sama",
+
+  "crop.tomato": "Tumatir",
+  "crop.yam": "Doya",
+  "crop.potato": "Dankalin turawa",
+  "crop.onions": "Albasa",
+
+  "conditions.care": "Magani da rigakafi",
+  "conditions.treatment": "Magani",
+  "conditions.prevention": "Rigakafi",
+  "disease.healthy": "Lafiya",
+  "disease.early-blight": "Ciwon ganye na farko",
+  "disease.early-blight.treatment.1": "Cire ka lalata ganyen ƙasa masu zobe-zobe masu ruwan ƙasa.",
+  "disease.early-blight.treatment.2":
+    "Fesa maganin fungus mai kariya (mancozeb ko chlorothalonil) kowane kwana 7-10 muddin yanayi ya ci gaba da danshi.",
+  "disease.early-blight.prevention.1": "Kada a shuka tumatir, dankalin turawa ko barkono a wurin na aƙalla kaka 2.",
+  "disease.early-blight.prevention.2":
+    "Rufe ƙasa da ciyawa ka kuma zuba ruwa a gindi don hana ƙasa fantsama kan ganye.",
+  "disease.late-blight": "Ciwon ganye na ƙarshe",
+  "disease.late-blight.treatment.1":
+    "Cire tsiron da suka kamu nan take ka binne su ko ka ƙone su; cutar tana yaɗuwa cikin kwanaki.",
+  "disease.late-blight.treatment.2":
+    "Zuba maganin fungus mai shiga jiki (metalaxyl + mancozeb) ga tsiron da ke kewaye.",
+  "disease.late-blight.prevention.1": "Shuka iri ko 'ya'yan shuka da aka tabbatar ba su da cuta.",
+  "disease.late-blight.prevention.2":
+    "Bar tazara tsakanin tsirrai don iska ta ratsa, ka guji yayyafa ruwa daga sama da yamma.",
+  "disease.bacterial-wilt": "Bushewar ƙwayoyin cuta",
+  "disease.bacterial-wilt.treatment.1":
+    "Tumɓuke tsiron da suka bushe tare da ƙasar da ke kewaye ka fitar da su daga gona.",
+  "disease.bacterial-wilt.treatment.2":
+    "Babu maganin feshi da ke warkarwa; kashe ƙwayoyin cuta a kayan aiki bayan taɓa tsiron da suka kamu.",
+  "disease.bacterial-wilt.prevention.1": "Juya da hatsi ko ciyawa na shekara 3 ko fiye.",
+  "disease.bacterial-wilt.prevention.2": "Yi amfani da nau'ikan da ke jure cuta ka guji gonakin da ruwa ya cika.",
+  "disease.fusarium-wilt": "Bushewar fusarium",
+  "disease.fusarium-wilt.treatment.1": "Cire tsiron da abin ya shafa har da saiwoyinsu.",
+  "disease.fusarium-wilt.treatment.2": "Zuba maganin halitta (Trichoderma) ga sauran tsirrai don rage yaɗuwa.",
+  "disease.fusarium-wilt.prevention.1": "Shuka nau'ikan da ke jure cuta (masu alamar F).",
+  "disease.fusarium-wilt.prevention.2": "Ɗaga pH na ƙasa zuwa 6.5-7.0 ka guji yawan nitrojin.",
+  "disease.bacterial-spot": "Tabon ƙwayoyin cuta",
+  "disease.bacterial-spot.treatment.1": "Zuba maganin ƙwayoyin cuta mai tushen jan ƙarfe da zarar alamu sun bayyana.",
+  "disease.bacterial-spot.treatment.2": "Cire ganye da 'ya'yan da tabo ya yi musu yawa.",
+  "disease.bacterial-spot.prevention.1": "Yi amfani da iri da 'ya'yan shuka masu tsabta.",
+  "disease.bacterial-spot.prevention.2": "Guji aiki a cikin tsirrai masu jika.",
+  "disease.anthracnose": "Cutar anthracnose",
+  "disease.anthracnose.treatment.1":
+    "Yanke ka ƙone ciyayin da ke da baƙaƙen tabo a ganye kuma suke bushewa daga ƙarshe.",
+  "disease.anthracnose.treatment.2": "Fesa mancozeb ko maganin fungus na jan ƙarfe kowane mako 2 lokacin damina.",
+  "disease.anthracnose.prevention.1": "Shuka yankakken iri masu lafiya daga gonaki masu tsabta.",
+  "disease.anthracnose.prevention.2": "Yi amfani da nau'ikan da ke jurewa ka kafa sanduna ga ciyayi don iska ta ratsa.",
+  "disease.yam-mosaic": "Ƙwayar cutar mosaic ta doya",
+  "disease.yam-mosaic.treatment.1": "Tumɓuke tsiron da ke da mosaic ko karkatattun ganye; babu maganin ƙwayar cutar.",
+  "disease.yam-mosaic.prevention.1": "Yi amfani da irin doya marasa ƙwayar cuta.",
+  "disease.yam-mosaic.prevention.2": "Shawo kan kwarin aphid masu yaɗa ta ka cire doyar da ta tsiro da kanta.",
+  "disease.dry-rot": "Ruɓewa busasshe",
+  "disease.dry-rot.treatment.1":
+    "Zubar da dankalan da ke ruɓewa; yanke ƙananan raunuka ka yayyafa tokar itace kafin ajiya.",
+  "disease.dry-rot.prevention.1": "Guji raunata dankali lokacin girbi.",
+  "disease.dry-rot.prevention.2": "Ajiye a rumbu mai sanyi da iska.",
+  "disease.common-scab": "Ƙaiƙayin dankali",
+  "disease.common-scab.treatment.1": "Ci gaba da danshin ƙasa daidai lokacin da dankali ke samuwa don rage ƙaiƙayin.",
+  "disease.common-scab.prevention.1": "Ajiye pH ƙasa da 5.5 ka guji sabon taki ko farar ƙasa kafin dankali.",
+  "disease.common-scab.prevention.2": "Shuka iri marasa ƙaiƙayi.",
+  "disease.purple-blotch": "Tabon shunayya",
+  "disease.purple-blotch.treatment.1": "Fesa mancozeb ko iprodione kowane kwana 10 da zarar raunuka sun bayyana.",
+  "disease.purple-blotch.prevention.1": "Kada a shuka albasa ko tafarnuwa a wurin na shekara 3.",
+  "disease.purple-blotch.prevention.2": "Guji shuka mai cunkoso da ganyen da raɓa ta jika.",
+  "disease.downy-mildew": "Fumfuna mai laushi",
+  "disease.downy-mildew.treatment.1": "Zuba maganin fungus mai metalaxyl ka cire ganyen da suka kamu.",
+  "disease.downy-mildew.prevention.1": "Shuka a kunyoyi masu zubar da ruwa da kyau kuma masu rana.",
+  "disease.downy-mildew.prevention.2": "Lalata ragowar amfanin gona bayan girbi.",
+  "disease.white-rot": "Ruɓewa fara",
+  "disease.white-rot.treatment.1": "Tumɓuke ka lalata albasar da abin ya shafa tare da ƙasar da ke kewaye.",
+  "disease.white-rot.prevention.1": "Kada a shuka dangin albasa a gonakin da cutar ta shiga na shekaru masu yawa.",
+  "disease.white-rot.prevention.2": "Wanke kayan aiki da takalma tsakanin gonaki.",
+
+  "metric.moisture": "Danshi",
+  "metric.organicMatter": "Takin halitta",
+  "metric.organicCarbon": "Carbon na halitta",
+  "metric.munsell": "Launin Munsell",
+  "metric.brightness": "Haske (L*)",
+  "metric.nitrogen": "Nitrogen (N)",
+  "metric.phosphorus": "Phosphorus (P)",
+  "metric.potassium": "Potassium (K)",
+  "metric.healthIndex": "Ma'aunin lafiya",
+  "metric.diseaseRisk": "Haɗarin cuta",
+  "metric.canopyCover": "Rufin ganye",
+  "metric.stressedArea": "Yankin da ke cikin damuwa",
+  "metric.leafMoisture": "Danshin ganye/ƙasa",
+  "metric.crop": "Amfanin gona",
+
+  "rule.moisture": "danshi",
+  "rule.organic-matter": "takin halitta",
+  "rule.nitrogen": "nitrojin",
+  "rule.phosphorus": "fosfores",
+  "rule.potassium": "potassiyum",
+  "rule.salinity": "gishiri (EC)",
+  "rule.below": "{label|cap} {value} ya yi ƙasa da iyakar {min}-{max} don {crop|lower}.",
+  "rule.above": "{label|cap} {value} ya wuce iyakar {min}-{max} don {crop|lower}.",
+
+  "notes.noChecks": "Babu ma'aunin ƙasa da aka iya kwatanta da bukatun {crop|lower}.",
+  "notes.allGood": "Duk ma'aunin ƙasa {count} da aka duba suna cikin iyakar {crop|lower}.",
+  "notes.outOfRange": "{status} don {crop|lower}: {metrics} ba sa cikin iyakar da aka ba da shawara.",
+  "notes.soilColour":
+    "Launi {munsell} (irin na Munsell) shi ne tsakiyar {coverage}% na pixel bayan cire haske mai ƙyalli, inuwa da tsire-tsire.",
+  "notes.soilMoisture": "An kiyasta danshi daga {share}% na pixel na ƙasa da suka fi L* 35 duhu.",
+  "notes.soilMethod":
+    "Takin halitta yana bin ƙimar Munsell (ƙasa mai duhu tana da ƙarin taki); pH kiyasi ne daga launi.",
+  "notes.cropHealthy": "{crop} yana da alamun lafiya. Ci gaba da kulawar da kake yi.",
+  "notes.cropStressed":
+    "{crop} yana nuna alamun damuwa a kan {share}% na ganye. Duba wuraren da aka nuna kuma ka gyara ban ruwa ko taki.",
+  "notes.cropStressedDemo": "{crop} yana nuna alamun damuwa. Duba ganyen kuma ka gyara ban ruwa ko taki.",
+  "notes.cropSuspect": "Alamomin ganye sun fi kama da {condition|lower}; tabbatar a gona kafin magani.",
+  "notes.cropMethod":
+    "Ma'aunin lafiya yana haɗa Green Leaf Index da VARI a kan pixel na tsire-tsire; taswirar zafi tana nuna inda damuwa take.",
+  "notes.classified": "An rarraba shi a matsayin {name}.",
+  "notes.labSource": "Ƙimar da aka shigar daga gwajin ƙasa na ɗakin gwaji.",
+  "notes.labReplaces": "Ƙimar ɗakin gwaji ta maye gurbin kiyasin hoto don {metrics}; sauran ma'auni daga hoto suke.",
+  "notes.labCombined": "Yana haɗa ƙimar ɗakin gwaji da ma'aunin da aka auna daga hoto.",
+
+  "nutrient.n": "nitrojin",
+  "nutrient.p2o5": "fosfores",
+  "nutrient.k2o": "potassiyum",
+  "rec.lime": "Zuba farar ƙasa ta noma",
+  "rec.lime.reason":
+    "Ɗaga pH daga {ph} zuwa kusan {target} don {crop|lower}. A haɗa shi da ƙasa watanni 2-3 kafin shuka.",
+  "rec.sulfur": "Zuba sulfur",
+  "rec.sulfur.reason": "Rage pH daga {ph} zuwa kusan {target} don {crop|lower}. Raba babban adadi a cikin lokuta da yawa.",
+  "rec.nutrient": "Zuba {rate} na {name}",
+  "rec.nutrient.untested": "Babu ƙimar gwajin ƙasa don {nutrient}; adadin gama-gari na {crop|lower}.",
+  "rec.nutrient.reason": "{nutrient|cap} na ƙasa {value} ne, manufa kuma {min}-{max}.",
+  "rec.compost": "Ƙara takin halitta",
+  "rec.compost.reason": "Takin halitta {value}% ne; ƙara shi yana inganta riƙe ruwa da abinci mai gina jiki.",
+  "rec.irrigate": "Yi ban ruwa kafin shuka",
+  "rec.irrigate.reason": "Danshi {value}% ya yi ƙasa da iyakar {min}-{max}% don {crop|lower}.",
+  "rec.drain": "Inganta magudanar ruwa",
+  "rec.drain.reason": "Danshi {value}% ya wuce iyakar {min}-{max}%; yi amfani da kunya ko tuddai.",
+}
@@ -0,0 +1,486 @@
+import type { Catalog } from "@/lib/i18n"
+
+export const ig: Catalog = {
+  "app.tagline": "Nyochaa foto ala ma ọ bụ ihe ọkụkụ. Họrọ ụdị, bulite foto, ma lee nsonaazụ nyocha.",
+  "nav.batch": "Otu",
+  "nav.history": "Akụkọ",
+  "nav.farms": "Ugbo niile",
+  "nav.map": "Maapụ",
+  "nav.calibrate": "Hazie",
+  "page.loading": "Na-ebudata…",
+  "language.label": "Asụsụ",
+  "units.label": "Nha",
+  "units.rates": "Ọnụọgụ na nha ugbo",
+  "units.nutrients": "Nri dị n'ala",
+  "units.metric": "Metric (kg/ha)",
+  "units.imperial": "Imperial (lb/acre)",
+
+  "setup.title": "Nhazi",
+  "setup.description": "Họrọ ihe a ga-enyocha ma bulite foto.",
+  "setup.analysisType": "Ụdị nyocha",
+  "setup.selectType": "Họrọ ụdị",
+  "setup.crop": "Ihe ọkụkụ",
+  "setup.targetCrop": "Ihe ọkụkụ a chọrọ ịkụ",
+  "setup.selectCrop": "Họrọ ihe ọkụkụ",
+  "setup.plot": "Ugbo / mpaghara (ọ bụghị iwu)",
+  "setup.plotPlaceholder": "dịka: Akụkụ ugwu, ebe 3",
+  "setup.attachPlot": "Jikọta na mpaghara",
+  "setup.noPlot": "Ejikọtaghị ya",
+  "setup.area": "Nha ugbo ({unit})",
+  "setup.labResults": "Nsonaazụ ụlọ nyocha",
+  "setup.evaluate": "Tụlee",
+  "setup.evaluateWithPhoto": "Tụlee ya na foto",
+  "setup.soilPhoto": "Foto ala (ọ bụghị iwu)",
+  "setup.image": "Foto",
+  "setup.reset": "Malitegharịa",
+  "setup.soilFor": "Ala maka:",
+  "setup.cropIs": "Ihe ọkụkụ:",
+  "upload.aria": "Bulite foto maka nyocha",
+  "upload.replace": "Gbanwee foto",
+  "upload.prompt": "Dọrọ tinye ma ọ bụ pịa ka ibulite",
+  "upload.limits": "JPG, PNG ruo ~10MB",
+  "upload.selected": "Ahọrọla:",
+  "camera.open": "Jiri igwefoto",
+  "camera.close": "Mechie igwefoto",
+  "camera.capture": "See foto",
+  "camera.guide.soil": "Jupụta square ahụ ala efu, kpọrọ nkụ n'ìhè kwụ ọtọ",
+  "camera.guide.crop": "Tinye otu akwụkwọ n'ime ahịrị ahụ",
+  "camera.unsupported": "Enweghị ike iji igwefoto na nchọgharị a. Bulite foto kama.",
+  "camera.denied": "A jụrụ ikike igwefoto. Kwe ya na ntọala nchọgharị ma ọ bụ bulite foto.",
+  "camera.failed": "Enweghị ike ịmalite igwefoto. Bulite foto kama.",
+  "camera.captureFailed": "Enweghị ike ịse foto",
+
+  "analysis.soil": "Ala",
+  "analysis.crop": "Ihe ọkụkụ",
+  "analysis.lab": "Nyocha ụlọ nyocha",
+
+  "preview.title": "Nlele na Nyocha",
+  "preview.labHint": "Tinye ọnụọgụ ụlọ nyocha ka e tụlee ya, na foto nke otu ihe nlele ahụ ma ọ masị gị.",
+  "preview.autoHint": "Nyocha na-amalite onwe ya mgbe i bulitere foto.",
+  "preview.alt": "Nlele foto e bulitere",
+  "preview.regionsAlt": "Foto e bulitere nwere mpaghara",
+  "preview.placeholderAlt": "Foto ihe atụ",
+  "preview.emptyLab": "Tinye ọnụọgụ ụlọ nyocha ka ịmalite.",
+  "preview.emptyImage": "Bulite foto ka ịmalite nyocha.",
+  "scan.scanning": "Ọ na-enyocha...",
+  "scan.stage.decoding": "Ọ na-agụ foto…",
+  "scan.stage.quality": "Ọ na-enyocha ịdị mma foto…",
+  "scan.stage.analyzing": "Ọ na-enyocha…",
+  "scan.stage.scoring": "Ọ na-enye akara…",
+  "scan.analyzeAnyway": "Nyochaa ya otu o sina dị",
+  "scan.savedOffline": "Echekwala ya na-enweghị ịntanetị. A ga-enyocha ya onwe ya mgbe ịntanetị laghachiri.",
+  "scan.offlineSaveFailed": "Enweghị ịntanetị, enweghịkwa ike ichekwa nyocha ahụ maka oge ọzọ",
+  "scan.failed": "Nyocha emezighị",
+  "scan.unusable": "{reason}. Sere foto ahụ ọzọ ma nwaa ọzọ.",
+  "scan.attachFailed": "Enweghị ike itinye nyocha ahụ n'okpuru mpaghara ala a",
+  "unusable.noSoil": "Ahụghị agba ala ọ bụla na foto ahụ",
+  "unusable.noVegetation": "Ahụghị ahịhịa ọ bụla na foto ahụ",
+  "unusable.undecodable": "Enweghị ike ịgụ foto ahụ; o nwere ike imebi emebi ma ọ bụ nọ n'ụdị a na-anaghị akwado",
+  "queue.discardFailed": "Enweghị ike iwepụ nyocha na-eche",
+  "sync.synced": "Nọ n'ịntanetị",
+  "sync.pending": "Na-eche ka ejikọta",
+  "sync.syncing": "Na-ejikọta",
+  "sync.offline": "Anọghị n'ịntanetị",
+  "sync.now": "Nyochaa nyocha ndị na-eche ugbu a",
+  "sync.queued": "{count} na-eche",
+  "queue.waitingOne": "Nyocha 1 na-eche njikọ",
+  "queue.waitingMany": "Nyocha {count} na-eche njikọ",
+  "queue.retry": "Nwaa ọzọ ugbu a",
+  "queue.labEntry": "Ndenye ụlọ nyocha",
+  "queue.discard": "Hapụ nyocha na-eche",
+
+  "lab.ph": "pH (mmiri)",
+  "lab.organicCarbon": "Carbon ndụ",
+  "lab.n": "Naịtrọjin",
+  "lab.p": "Fọsfọrọs",
+  "lab.k": "Potasiọm",
+  "lab.required": "A chọrọ {label}",
+  "lab.min": "{label} ga-abụrịrị opekata mpe {min}",
+  "lab.max": "{label} agaghị akarị {max}",
+
+  "quality.blocking": "Foto enweghị ike iji mee nyocha",
+  "quality.warnings": "Ịdọ aka ná ntị gbasara ịdị mma foto",
+  "quality.resolution.error": "Onyonyo bụ naanị {size}; jiri opekata mpe {min}px n'akụkụ dị mkpụmkpụ.",
+  "quality.resolution.warning": "Mkpebi dị ala ({size}); {good}px ma ọ bụ karịa na-enye nsonaazụ kwụsiri ike.",
+  "quality.fileSize.error": "Faịlụ ahụ karịrị {max}MB.",
+  "quality.fileSize.warning": "Akpakọrọ faịlụ ahụ nke ukwuu; nkọwa nta nwere ike ifu.",
+  "quality.blur.error": "Onyonyo ahụ doro anya. Jide ekwentị ahụ nke ọma ma pịa ka o lekwasị anya tupu ị see ya.",
+  "quality.blur.warning": "Onyonyo ahụ adịghị nkọ nke ọma; nsonaazụ nwere ike ọ gaghị adị nnọọ nkenke.",
+  "quality.tooDark": "Onyonyo ahụ gbara ọchịchịrị nke ukwuu. See ya n'ìhè ehihie ma ọ bụ na ndò mepere emepe.",
+  "quality.tooBright": "Ìhè karịrị akarị n'onyonyo ahụ. Zere ìhè anyanwụ na-enwu ozugbo ma ọ bụ flash.",
+  "quality.clipped":
+    "Akụkụ ụfọdụ nke onyonyo ahụ gbara oji kpam kpam ma ọ bụ chaa ọcha kpam kpam; agba ebe ahụ adịghị ntụkwasị obi.",
+  "quality.subject.soil": "ala",
+  "quality.subject.crop": "akwụkwọ ma ọ bụ osisi",
+  "quality.content.error": "Naanị {share}% nke onyonyo ahụ yiri {subject}; lelee ụdị ya ma ọ bụ hazie ya ọzọ.",
+  "quality.content.warning": "Ihe dịka {share}% nke onyonyo ahụ yiri {subject}; ndị fọdụrụ nwere ike imebi nsonaazụ.",
+
+  "regions.title": "Mpaghara",
+  "regions.rect": "Akụkụ anọ",
+  "regions.polygon": "Ọtụtụ akụkụ",
+  "regions.analyzing": "Ọ na-enyocha…",
+  "regions.analyzeOne": "Nyochaa mpaghara 1",
+  "regions.analyzeMany": "Nyochaa mpaghara {count}",
+  "regions.rectHint": "Dọrọ n'elu foto ka ịse akụkụ anọ.",
+  "regions.polygonHint": "Pịa ka itinye akụkụ; pịa akụkụ mbụ ma ọ bụ pịa ugboro abụọ ka imechi, Esc ka ịkagbu.",
+  "regions.remove": "Wepụ {label}",
+  "regions.zone": "Mpaghara {n}",
+  "regions.failed": "{label}: {reason}",
+
+  "result.cropStatus": "Ọnọdụ {crop|lower}: {status}",
+  "result.soilStatus": "Ọnọdụ ala: {status}",
+  "result.confidenceLabel": "Ntụkwasị obi",
+  "result.confidence": "Ntụkwasị obi: {value}%",
+  "result.sampleData": "Data ihe nlele",
+  "result.status": "Ọnọdụ",
+  "result.target": "Ebumnuche {min}-{max}",
+  "result.hideHeatmap": "Zoo maapụ okpomọkụ",
+  "result.showHeatmap": "Gosi maapụ okpomọkụ",
+  "heatmap.stressed": "Nọ na nsogbu",
+  "heatmap.healthy": "Gbasiri ike",
+  "result.conditions": "Ọrịa nwere ike ịdị",
+  "result.recommendations": "Ndụmọdụ",
+  "result.noRecommendations": "Ọ dịghị mgbanwe achọrọ maka ihe ọkụkụ a.",
+  "result.markDone": "Kaa akara na emechara ya",
+  "export.pdf": "Akụkọ PDF",
+  "export.pdfFailed": "Enweghị ike ịmepụta akụkọ PDF",
+  "report.title": "Akụkọ ubi AgriScan",
+  "report.date": "Ụbọchị",
+  "report.photoTaken": "Oge e sere foto",
+  "report.analysis": "Nyocha",
+  "report.crop": "Ihe ọkụkụ: {crop}",
+  "report.targetCrop": "{analysis} (ihe ọkụkụ ebumnuche: {crop})",
+  "report.location": "Ọnọdụ",
+  "report.result": "Nsonaazụ",
+  "report.analyzer": "Ihe nyocha",
+  "report.metrics": "Ọnụ ọgụgụ",
+  "report.outOfRange": "Karịrị oke",
+  "report.notes": "Ndetu",
+  "result.suitability": "Ndabara ihe ọkụkụ",
+  "result.showSuitability": "Hazie ihe ọkụkụ maka ala a",
+  "result.hideSuitability": "Zoo ndepụta ahụ",
+  "suitability.description": "Ihe ọkụkụ niile dị na katalọgụ, ahaziri dịka ala a si gboo mkpa ha.",
+  "suitability.score": "Ndabara {score}%",
+  "suitability.noLimits": "Ọ dịghị ihe na-egbochi.",
+  "suitability.none": "Ọ dịghị otu n'ime ọnụ ọgụgụ ala ndị a a ga-eji tụnyere mkpa ihe ọkụkụ.",
+  "result.forArea": "maka {area}",
+  "result.taken": "E sere ya {time}",
+  "result.mockAnalyzer":
+    "Nsonaazụ ngosi sitere na igwe nyocha ngosi. Hazie ụdị ma ọ bụ igwe iwu maka ojiji n'ezie.",
+  "result.analyzer": "Ejiri igwe \"{analyzer}\" nyochaa ya.",
+  "confidence.analyzer": "Atụmatụ onye nyocha",
+  "confidence.demo": "Onye nyocha ngosi: ọnụọgụ bụ ndị e mere ka ha yie",
+  "confidence.model": "Ohere ụdị maka {name}",
+  "confidence.runnerUp": "{name} ({status}) sochiri nso",
+  "confidence.soilEstimate": "Atụmatụ ala dabere na agba",
+  "confidence.coverage": "Naanị {share}% nke pixel bara uru mgbe ewepụrụ ìhè na-egbuke egbuke, ndò na osisi",
+  "confidence.uniformity": "Ìhè na-adịghị otu n'ebe ahụ niile",
+  "confidence.phSpread": "Akụkụ anọ nke foto ahụ ekwenyeghị na pH site na {spread}",
+  "confidence.texture": "Ọ fọrọ obere ihe ọdịdị n'elu; foto ahụ nwere ike ọ gaghị egosi ala",
+  "confidence.neutral": "Isi awọ ntụ na-enweghị agba; foto ahụ nwere ike ọ gaghị egosi ala",
+  "confidence.vegetationEstimate": "Atụmatụ ọnụọgụ ahịhịa",
+  "confidence.canopy": "Akwụkwọ dị ole na ole: {share}% nke foto bụ osisi",
+  "confidence.symptoms": "Mgbaàmà akwụkwọ ekwenyeghị na ọnụọgụ ahịhịa",
+  "confidence.boundary": "Ọnụọgụ ahụike dị nso n'oke ọkwa",
+  "confidence.lab": "Ntụle ụlọ nyocha",
+  "confidence.notMeasured": "Atụghị: {tests}",
+  "confidence.fromPhoto": "Ọnụọgụ {count} n'ime {total} e mere atụmatụ ha site na foto (ntụkwasị obi {confidence}%)",
+  "confidence.why": "Ihe mere ntụkwasị obi ji bụrụ {value}%",
+  "confidence.clamped": "A na-edebe akara n'etiti 5% na 99%.",
+
+  "batch.savedOffline": "E chekwara ya n'enweghị ịntanetị",
+  "batch.title": "Nyocha n'otu ìgwè",
+  "batch.description": "Tinye foto ubi niile n'usoro. A na-echekwakwa nsonaazụ ọ bụla n'akụkọ.",
+  "batch.setupHint": "Ntọala metụtara onyonyo ọ bụla n'ìgwè ahụ.",
+  "batch.addAria": "Tinye onyonyo n'ìgwè",
+  "batch.drop": "Dobe foto ma ọ bụ pịa ịtinye",
+  "batch.stop": "Kwụsị",
+  "batch.analyze": "Nyochaa",
+  "batch.retry": "Nwaghachi ndị dara ada ({count})",
+  "batch.clear": "Hichapụ",
+  "batch.results": "Nsonaazụ",
+  "batch.empty": "Enweghị onyonyo n'usoro.",
+  "batch.processed": "Emechara {finished} n'ime {count}.",
+  "batch.meanConfidence": "Nkwenye nkezi",
+  "batch.mean": "{metric} nkezi",
+  "batch.image": "Onyonyo",
+  "batch.confidence": "Nkwenye",
+  "batch.failed": "Dara ada",
+
+  "compare.title": "Tụlee nyocha",
+  "compare.description":
+    "A na-atụle ndịiche na nyocha mbụ. A na-ekpe ihe nlele ọ bụla ikpe site n'oke ebumnuche ihe ọkụkụ ya.",
+  "compare.pick": "Họrọ nyocha {min}-{max} ka ị tụlee ha.",
+  "compare.openHistory": "Mepee akụkọ",
+  "compare.best": "Kacha nso n'ezigbo",
+  "compare.inBand": "Ọnụ ọgụgụ {passed} n'ime {total} nọ n'oke",
+  "compare.noBands": "Enweghị ọnụ ọgụgụ nwere oke ebumnuche",
+
+  "history.title": "Akụkọ nyocha",
+  "history.description": "E chekwara nyocha na ngwaọrụ a. Họchaa ha ma meghee nsonaazụ ọ bụla ọzọ.",
+  "history.when": "Mgbe ole",
+  "history.today": "Taa",
+  "history.week": "Ụbọchị 7 gara aga",
+  "history.allTime": "Oge niile",
+  "history.type": "Ụdị",
+  "history.allTypes": "Ụdị niile",
+  "history.allCrops": "Ihe ọkụkụ niile",
+  "history.status": "Ọnọdụ",
+  "history.anyStatus": "Ọnọdụ ọ bụla",
+  "history.plot": "Ugbo / mpaghara",
+  "history.search": "Chọọ",
+  "history.loadFailed": "Enweghị ike imepe akụkọ dị na ngwaọrụ",
+  "history.empty": "Enweghị nyocha ugbu a.",
+  "history.noMatch": "Enweghị nyocha dabara na nzacha ndị a.",
+  "history.compareCount": "Tulee {count}",
+  "history.selectMore": "Họrọ otu ọzọ iji tulee",
+  "history.compare": "Tulee",
+  "history.open": "Meghee",
+  "history.plotLink": "Mpaghara ala",
+  "history.trends": "Ọnọdụ",
+  "history.delete": "Hichapụ nyocha",
+  "history.deleteFailed": "Enweghị ike ihichapụ nyocha ahụ",
+  "map.title": "Maapụ ugbo",
+  "map.description":
+    "Nyocha ndị gara aga, e debere ha dịka ọnọdụ GPS echekwara na foto ọ bụla si dị. Pịa akara iji meghee ya ọzọ.",
+  "map.locations": "Ebe e mere nyocha",
+  "map.located": "Nyocha {located} n'ime {count} nwere ebe.",
+  "map.noGps": "Enweghị nyocha nwere GPS ugbu a. A na-edebe foto ekwentị nwere ọnọdụ ebe ozugbo.",
+
+  "calibrate.title": "Nhazi ntụkwasị obi",
+  "calibrate.description":
+    "Gafee otu foto nwere akara na ngwa nyocha ma lelee ma ntụkwasị obi e kwuru kwekọrọ n'ugboro ole ọnọdụ ahụ ziri ezi. Ọ dịghị ihe e chekwara n'akụkọ ebe a.",
+  "calibrate.dataset": "Nchịkọta data",
+  "calibrate.datasetHint":
+    "Họrọ foto ndị ahụ yana labels.csv nke kọlụm ya bụ file, type (soil ma ọ bụ crop), crop na status (Good, Marginal ma ọ bụ Poor).",
+  "calibrate.files": "Faịlụ",
+  "calibrate.analyzer": "Ngwa nyocha (ọ bụghị iwu)",
+  "calibrate.serverDefault": "Ndabere sava",
+  "calibrate.ready": "Foto {count} nwere akara dị njikere",
+  "calibrate.moreProblems": "…na nsogbu {count} ọzọ",
+  "calibrate.noLabels": "Tinye faịlụ labels.csv na foto ndị ahụ.",
+  "calibrate.notSelected": "{file}: edepụtara ya na labels.csv mana a họrọghị ya",
+  "calibrate.missingColumns": "Kọlụm ndị a adịghị na labels.csv: {columns}",
+  "calibrate.badType": "Ahịrị {row}: a tụrụ anya aha faịlụ na ụdị sitere na {types}",
+  "calibrate.badCrop": "Ahịrị {row}: ihe ọkụkụ a na-amaghị “{crop}”",
+  "calibrate.badStatus": "Ahịrị {row}: ọnọdụ ga-abụ otu n'ime {statuses}",
+  "calibrate.stop": "Kwụsị",
+  "calibrate.run": "Malite nhazi",
+  "calibrate.reliability": "Ntụkwasị obi",
+  "calibrate.reliabilityHint":
+    "Ogwe na-egosi ugboro ole nyocha n'otu ọkwa ntụkwasị obi ọ bụla ziri ezi; ahịrị diagonal bụ nhazi zuru oke.",
+  "calibrate.empty": "Gbaa nchịkọta data iji hụ akụkọ ahụ.",
+  "calibrate.accuracy": "Izi ezi",
+  "calibrate.meanConfidence": "Nkezi ntụkwasị obi",
+  "calibrate.ece": "Njehie nhazi",
+  "calibrate.brier": "Akara Brier",
+  "calibrate.over": "Ntụkwasị obi karịrị akarị: nyocha na-ekwu {claimed} mana ha ziri ezi {right} n'oge.",
+  "calibrate.under": "Ntụkwasị obi erughị: nyocha ziri ezi {right} n'oge mana ha na-ekwu naanị {claimed}.",
+  "calibrate.calibrated": "Ntụkwasị obi e kwuru dị n'ime akara 5 nke izi ezi a hụrụ.",
+  "calibrate.basedOn": "Dabere na nyocha {count}.",
+  "calibrate.bin": "Ntụkwasị obi {from}-{to}%",
+  "calibrate.binRight": "{share}% ziri ezi n'ime {count}",
+  "calibrate.confusion": "Akara \\ Amụma",
+  "calibrate.failed": "Enweghị ike inyocha foto {count}",
+
+  "nav.newScan": "Nyocha ọhụrụ",
+  "nav.plots": "Mpaghara ala",
+  "farms.description":
+    "Ugbo, ubi ha na mpaghara ala dị n'ime ha, echekwara na ngwaọrụ a. Jikọta nyocha na mpaghara ala site na peeji nyocha iji soro ya na peeji mpaghara ahụ.",
+  "farms.addFarm": "Tinye ugbo",
+  "farms.addField": "Tinye ubi",
+  "farms.addPlot": "Tinye mpaghara ala",
+  "farms.save": "Chekwaa",
+  "farms.edit": "Dezie {name}",
+  "farms.delete": "Hichapụ {name}",
+  "farms.confirmDelete": "Hichapụ {name}? Nyocha ya ga-anọgide na akụkọ.",
+  "farms.confirmDeleteAll": "Hichapụ {name} na ihe niile dị n'ime ya? Nyocha ya ga-anọgide na akụkọ.",
+  "farms.saveFailed": "Enweghị ike ịchekwa {name}",
+  "farms.deleteFailed": "Enweghị ike ihichapụ {name}",
+  "farms.storageFailed": "Enweghị ike imeghe nchekwa ngwaọrụ",
+  "farms.none": "Enweghị ugbo ọ bụla ugbu a.",
+  "land.noDetails": "Enweghị nkọwa ugbu a",
+  "land.scanOne": "Nyocha 1",
+  "land.scanMany": "Nyocha {count}",
+  "land.name": "Aha",
+  "land.area": "Ọdịdị ala ({unit})",
+  "land.soilType": "Ụdị ala",
+  "land.crop": "Ihe ọkụkụ ugbu a",
+  "land.notSet": "Edobeghị",
+  "land.noCrop": "Ọ dịghị",
+  "land.cancel": "Kagbuo",
+  "soil.sand": "Ájá",
+  "soil.loamy-sand": "Ájá nwere loam",
+  "soil.sandy-loam": "Loam nwere ájá",
+  "soil.loam": "Loam",
+  "soil.silt-loam": "Loam nwere silt",
+  "soil.silt": "Silt",
+  "soil.sandy-clay-loam": "Loam ụrọ nwere ájá",
+  "soil.clay-loam": "Loam ụrọ",
+  "soil.silty-clay-loam": "Loam ụrọ nwere silt",
+  "soil.sandy-clay": "Ụrọ nwere ájá",
+  "soil.silty-clay": "Ụrọ nwere silt",
+  "soil.clay": "Ụrọ",
+  "plot.title": "Mpaghara ala",
+  "plot.trendsTitle": "Ọnọdụ mpaghara ala",
+  "plot.missing": "Mpaghara ala a adịghịzi.",
+  "plot.intro": "Ọnụọgụ ọ bụla nke mpaghara ala nwere aha ka oge na-aga, iji hụ ma ndozi gbanwere ala.",
+  "plot.trends":
+    "{scans} nke {crop|lower}. Eriri nwere ndò bụ oke a chọrọ maka ihe ọkụkụ ahụ; ahịrị ntụpọ na-egosi mgbanwe ọnọdụ.",
+  "plot.none":
+    "Enweghị mpaghara ala nwere aha ugbu a. Tinye aha ubi ma ọ bụ mpaghara ala mgbe ị na-enyocha iji soro ya ka oge na-aga.",
+  "plot.notFound": "Ahụghị nyocha ọ bụla maka “{plot}”.",
+  "plot.last": "nke ikpeazụ {date}",
+  "plot.area": "Ọdịdị ala",
+  "plot.scans": "Nyocha",
+  "plot.latest": "Ọnọdụ kacha ọhụrụ",
+  "plot.latestDescription": "Nyocha kacha ọhụrụ nke ụdị ọ bụla.",
+  "plot.noScansAttach": "Enweghị nyocha ugbu a. Jikọta otu na mpaghara ala a site na peeji nyocha.",
+  "plot.open": "Ndụmọdụ fọdụrụ",
+  "plot.openFrom": "Site na nyocha {type|lower} nke {date}. Kaa nke ọ bụla dị ka emechara ozugbo etinyere ya n'ọrụ.",
+  "plot.nothingOpen": "Ọ dịghị ihe a ga-eme site na nyocha kacha ọhụrụ.",
+  "plot.history": "Akụkọ nyocha",
+  "plot.noScans": "Enweghị nyocha ugbu a.",
+  "plot.readingOne": "Ọgụgụ 1",
+  "plot.readingMany": "Ọgụgụ {count}",
+  "plot.statusChanges": "Mgbanwe ọnọdụ",
+
+  "status.Good": "Ọ dị mma",
+  "status.Marginal": "Ọ dị n'oke",
+  "status.Poor": "Ọ dịghị mma",
+  "value.Low": "Ala",
+  "value.Moderate": "Etiti",
+  "value.High": "Elu",
+
+  "crop.tomato": "Tomato",
+  "crop.yam": "Ji",
+  "crop.potato": "Nduku bekee",
+  "crop.onions": "Yabasị",
+
+  "conditions.care": "Ọgwụgwọ na mgbochi",
+  "conditions.treatment": "Ọgwụgwọ",
+  "conditions.prevention": "Mgbochi",
+  "disease.healthy": "Ahụ siri ike",
+  "disease.early-blight": "Ọrịa akwụkwọ mbụ",
+  "disease.early-blight.treatment.1": "Wepụ ma bibie akwụkwọ ndị dị n'ala nwere okirikiri aja aja.",
+  "disease.early-blight.treatment.2":
+    "Fesa ọgwụ fungus na-echebe (mancozeb ma ọ bụ chlorothalonil) ụbọchị 7-10 ọ bụla mgbe ihu igwe ka na-ekpo mmiri.",
+  "disease.early-blight.prevention.1": "Agbanwela ka ị ghara ịkụ tomato, nduku na ose ebe ahụ opekata mpe oge 2.",
+  "disease.early-blight.prevention.2": "Kpuchie ala ma wụsa mmiri n'isi osisi ka ala ghara ịgba n'akwụkwọ.",
+  "disease.late-blight": "Ọrịa akwụkwọ ikpeazụ",
+  "disease.late-blight.treatment.1":
+    "Wepụ osisi ndị butere ọrịa ozugbo ma lie ha ma ọ bụ kpọọ ha ọkụ; ọrịa ahụ na-agbasa n'ime ụbọchị ole na ole.",
+  "disease.late-blight.treatment.2":
+    "Tinye ọgwụ fungus na-abanye n'ime osisi (metalaxyl + mancozeb) n'osisi ndị gbara ya gburugburu.",
+  "disease.late-blight.prevention.1": "Kụọ mkpụrụ ma ọ bụ mkpụrụ osisi a kwadoro na ha enweghị ọrịa.",
+  "disease.late-blight.prevention.2":
+    "Hapụ ohere n'etiti osisi ka ikuku gafee, ma zere ịgba mmiri site n'elu na mgbede.",
+  "disease.bacterial-wilt": "Ịkpọnwụ nje bacteria",
+  "disease.bacterial-wilt.treatment.1": "Hopụta osisi ndị kpọnwụrụ na ala gbara ha gburugburu ma wepụ ha n'ubi.",
+  "disease.bacterial-wilt.treatment.2":
+    "Enweghị ọgwụ a na-efesa na-agwọ ya; hichaa ngwaọrụ mgbe ị metụchara osisi butere ọrịa.",
+  "disease.bacterial-wilt.prevention.1": "Kụọ ọka ma ọ bụ ahịhịa n'ebe ahụ afọ 3 ma ọ bụ karịa.",
+  "disease.bacterial-wilt.prevention.2": "Jiri ụdị na-eguzogide ọrịa ma zere ubi mmiri jupụtara.",
+  "disease.fusarium-wilt": "Ịkpọnwụ fusarium",
+  "disease.fusarium-wilt.treatment.1": "Wepụ osisi ọrịa metụrụ gụnyere mgbọrọgwụ ha.",
+  "disease.fusarium-wilt.treatment.2": "Wụsa ọgwụ sitere n'okike (Trichoderma) n'osisi ndị fọdụrụ iji belata mgbasa.",
+  "disease.fusarium-wilt.prevention.1": "Kụọ ụdị na-eguzogide ọrịa (nwere akara F).",
+  "disease.fusarium-wilt.prevention.2": "Bulie pH ala ruo 6.5-7.0 ma zere naịtrọjin karịrị akarị.",
+  "disease.bacterial-spot": "Ntụpọ nje bacteria",
+  "disease.bacterial-spot.treatment.1": "Tinye ọgwụ nje nwere ọla kọpa ozugbo mgbaàmà mbụ pụtara.",
+  "disease.bacterial-spot.treatment.2": "Wepụ akwụkwọ na mkpụrụ ndị ntụpọ juru.",
+  "disease.bacterial-spot.prevention.1": "Jiri mkpụrụ na mkpụrụ osisi dị ọcha.",
+  "disease.bacterial-spot.prevention.2": "Zere ịrụ ọrụ n'etiti osisi dị mmiri mmiri.",
+  "disease.anthracnose": "Ọrịa anthracnose",
+  "disease.anthracnose.treatment.1": "Bekpụ ma kpọọ ọkụ eriri nwere ntụpọ ojii n'akwụkwọ na ndị na-anwụ site n'isi.",
+  "disease.anthracnose.treatment.2": "Fesa mancozeb ma ọ bụ ọgwụ fungus nwere kọpa izu 2 ọ bụla n'oge udu mmiri.",
+  "disease.anthracnose.prevention.1": "Kụọ mkpụrụ ji dị mma sitere n'ubi dị ọcha.",
+  "disease.anthracnose.prevention.2": "Jiri ụdị na-anagide ya ma kwado eriri n'osisi ka ikuku gafee.",
+  "disease.yam-mosaic": "Nje virus mosaic ji",
+  "disease.yam-mosaic.treatment.1":
+    "Hopụ osisi nwere mosaic ma ọ bụ akwụkwọ gbagọrọ agbagọ; enweghị ọgwụgwọ maka nje virus ahụ.",
+  "disease.yam-mosaic.prevention.1": "Jiri ji mkpụrụ na-enweghị nje virus.",
+  "disease.yam-mosaic.prevention.2": "Chịkwaa ụmụ ahụhụ aphid na-ebufe ya ma wepụ ji pụtara n'onwe ha.",
+  "disease.dry-rot": "Ire ure akọrọ",
+  "disease.dry-rot.treatment.1": "Tufuo ji na-ere ure; bepụ obere ọnya ma fesa ntụ osisi tupu ịchekwa ya.",
+  "disease.dry-rot.prevention.1": "Zere imerụ ji ahụ n'oge owuwe ihe ubi.",
+  "disease.dry-rot.prevention.2": "Chekwaa ya n'ọba dị jụụ nke ikuku na-abanye.",
+  "disease.common-scab": "Ọkpụkpụ nduku",
+  "disease.common-scab.treatment.1":
+    "Mee ka ala nọgide na-ekpo mmiri nke ọma mgbe nduku na-amalite ka o belata ọkpụkpụ.",
+  "disease.common-scab.prevention.1": "Debe pH n'okpuru 5.5 ma zere nsị anụmanụ ọhụrụ ma ọ bụ nzu tupu nduku.",
+  "disease.common-scab.prevention.2": "Kụọ mkpụrụ na-enweghị ọkpụkpụ.",
+  "disease.purple-blotch": "Ntụpọ odo odo",
+  "disease.purple-blotch.treatment.1": "Fesa mancozeb ma ọ bụ iprodione ụbọchị 10 ọ bụla ozugbo ọnya pụtara.",
+  "disease.purple-blotch.prevention.1": "Ghara ịkụ yabasị ma ọ bụ galik ebe ahụ afọ 3.",
+  "disease.purple-blotch.prevention.2": "Zere ịkụ osisi ọnụ ọnụ na akwụkwọ igirigi mere mmiri mmiri.",
+  "disease.downy-mildew": "Ụkpa fungus",
+  "disease.downy-mildew.treatment.1": "Tinye ọgwụ fungus nwere metalaxyl ma wepụ akwụkwọ butere ọrịa.",
+  "disease.downy-mildew.prevention.1": "Kụọ n'ebe mmiri na-asọpụ nke ọma ma anwụ na-acha.",
+  "disease.downy-mildew.prevention.2": "Bibie ihe fọdụrụ n'ubi mgbe owuwe ihe ubi gasịrị.",
+  "disease.white-rot": "Ire ure ọcha",
+  "disease.white-rot.treatment.1": "Hopụta ma bibie yabasị ọrịa metụrụ na ala gbara ha gburugburu.",
+  "disease.white-rot.prevention.1": "Akụla ụdị yabasị n'ubi ọrịa batara ruo ọtụtụ afọ.",
+  "disease.white-rot.prevention.2": "Saa ngwaọrụ na akpụkpọ ụkwụ n'etiti ubi.",
+
+  "metric.moisture": "Mmiri dị n'ala",
+  "metric.organicMatter": "Ihe ndụ dị n'ala",
+  "metric.organicCarbon": "Carbon ndụ",
+  "metric.munsell": "Agba Munsell",
+  "metric.brightness": "Ìhè (L*)",
+  "metric.nitrogen": "Naịtrọjin (N)",
+  "metric.phosphorus": "Fọsfọrọs (P)",
+  "metric.potassium": "Potasiọm (K)",
+  "metric.healthIndex": "Ọnụọgụ ahụike",
+  "metric.diseaseRisk": "Ihe egwu ọrịa",
+  "metric.canopyCover": "Mkpuchi akwụkwọ",
+  "metric.stressedArea": "Ebe nsogbu dị",
+  "metric.leafMoisture": "Mmiri akwụkwọ/ala",
+  "metric.crop": "Ihe ọkụkụ",
+
+  "rule.moisture": "mmiri dị n'ala",
+  "rule.organic-matter": "ihe ndụ dị n'ala",
+  "rule.nitrogen": "naịtrọjin",
+  "rule.phosphorus": "fọsfọrọs",
+  "rule.potassium": "potasiọm",
+  "rule.salinity": "nnu (EC)",
+  "rule.below": "{label|cap} {value} dị ala karịa oke {min}-{max} maka {crop|lower}.",
+  "rule.above": "{label|cap} {value} dị elu karịa oke {min}-{max} maka {crop|lower}.",
+
+  "notes.noChecks": "Ọ dịghị ọnụọgụ ala a pụrụ iji tụnyere ihe {crop|lower} chọrọ.",
+  "notes.allGood": "Ọnụọgụ ala {count} niile e nyochara dị n'ime oke maka {crop|lower}.",
+  "notes.outOfRange": "{status} maka {crop|lower}: {metrics} dị n'èzí oke a tụrụ aro.",
+  "notes.soilColour":
+    "Agba {munsell} (ụdị Munsell) bụ etiti nke {coverage}% pixel mgbe e wepụrụ nchapụta, onyinyo na osisi.",
+  "notes.soilMoisture": "E mere atụmatụ mmiri site na {share}% pixel ala gbara ọchịchịrị karịa L* 35.",
+  "notes.soilMethod":
+    "Ihe ndụ dị n'ala na-eso ọnụ Munsell (ala gbara ọchịchịrị nwere humus karịa); pH bụ atụmatụ sitere n'agba.",
+  "notes.cropHealthy": "{crop} dị ka ọ dị mma. Gaa n'ihu na nlekọta gị.",
+  "notes.cropStressed":
+    "{crop} na-egosi akara nsogbu na {share}% nke akwụkwọ. Lelee ebe e gosiri ma dozie mmiri ma ọ bụ fatịlaịza.",
+  "notes.cropStressedDemo": "{crop} na-egosi akara nsogbu. Lelee akwụkwọ ma dozie mmiri ma ọ bụ fatịlaịza.",
+  "notes.cropSuspect": "Akara akwụkwọ yiri {condition|lower} karịa; kwado ya n'ugbo tupu ịgwọ ya.",
+  "notes.cropMethod":
+    "Ọnụọgụ ahụike na-agwakọta Green Leaf Index na VARI n'elu pixel osisi; maapụ okpomọkụ na-egosi ebe nsogbu dị.",
+  "notes.classified": "E kewapụtara ya dị ka {name}.",
+  "notes.labSource": "Ọnụọgụ e tinyere site na nyocha ala nke ụlọ nyocha.",
+  "notes.labReplaces": "Ọnụọgụ ụlọ nyocha dochiri atụmatụ foto maka {metrics}; ọnụọgụ ndị ọzọ sitere na foto.",
+  "notes.labCombined": "Ọ na-agwakọta ọnụọgụ ụlọ nyocha na ọnụọgụ e tụrụ site na foto.",
+
+  "nutrient.n": "naịtrọjin",
+  "nutrient.p2o5": "fọsfọrọs",
+  "nutrient.k2o": "potasiọm",
+  "rec.lime": "Tinye nzu ugbo",
+  "rec.lime.reason": "Bulie pH site na {ph} ruo ihe dịka {target} maka {crop|lower}. Gwakọta ya ọnwa 2-3 tupu ịkụ.",
+  "rec.sulfur": "Tinye sọlfọ",
+  "rec.sulfur.reason": "Wedata pH site na {ph} ruo ihe dịka {target} maka {crop|lower}. Kewaa nnukwu ọnụọgụ n'oge dị iche iche.",
+  "rec.nutrient": "Tinye {rate} {name}",
+  "rec.nutrient.untested": "Enweghị ọnụọgụ nyocha ala maka {nutrient}; ọnụọgụ izugbe maka {crop|lower}.",
+  "rec.nutrient.reason": "{nutrient|cap} dị n'ala bụ {value}, ebumnuche bụ {min}-{max}.",
+  "rec.compost": "Tinye ihe ndụ n'ala",
+  "rec.compost.reason": "Ihe ndụ dị n'ala bụ {value}%; ịbawanye ya na-eme ka ala jide mmiri na nri osisi nke ọma.",
+  "rec.irrigate": "Gbaa mmiri tupu ịkụ",
+  "rec.irrigate.reason": "Mmiri {value}% dị ala karịa oke {min}-{max}% maka {crop|lower}.",
+  "rec.drain": "Mee ka mmiri na-agbapụ nke ọma",
+  "rec.drain.reason": "Mmiri {value}% karịrị oke {min}-{max}%; jiri ebe e kpokọrọ ala ma ọ bụ mkpọda.",
+}
@@ -0,0 +1,487 @@
+import type { Catalog } from "@/lib/i18n"
+
+export const sw: Catalog = {
+  "app.tagline": "Chunguza picha za udongo au mazao. Chagua aina, pakia picha, na uone tathmini ya kiotomatiki.",
+  "nav.batch": "Kundi",
+  "nav.history": "Historia",
+  "nav.farms": "Mashamba",
+  "nav.map": "Ramani",
+  "nav.calibrate": "Sawazisha",
+  "page.loading": "Inapakia…",
+  "language.label": "Lugha",
+  "units.label": "Vipimo",
+  "units.rates": "Viwango na eneo",
+  "units.nutrients": "Virutubisho vya udongo",
+  "units.metric": "Metriki (kg/ha)",
+  "units.imperial": "Kiingereza (lb/acre)",
+
+  "setup.title": "Maandalizi",
+  "setup.description": "Chagua cha kuchunguza na pakia picha.",
+  "setup.analysisType": "Aina ya uchunguzi",
+  "setup.selectType": "Chagua aina",
+  "setup.crop": "Zao",
+  "setup.targetCrop": "Zao linalolengwa",
+  "setup.selectCrop": "Chagua zao",
+  "setup.plot": "Shamba / kitalu (si lazima)",
+  "setup.plotPlaceholder": "mf. Kitalu cha kaskazini, tuta 3",
+  "setup.attachPlot": "Ambatisha kwa kitalu",
+  "setup.noPlot": "Haijaambatishwa",
+  "setup.area": "Ukubwa wa shamba ({unit})",
+  "setup.labResults": "Matokeo ya maabara",
+  "setup.evaluate": "Tathmini",
+  "setup.evaluateWithPhoto": "Tathmini pamoja na picha",
+  "setup.soilPhoto": "Picha ya udongo (si lazima)",
+  "setup.image": "Picha",
+  "setup.reset": "Anza upya",
+  "setup.soilFor": "Udongo kwa:",
+  "setup.cropIs": "Zao:",
+  "upload.aria": "Pakia picha kwa uchunguzi",
+  "upload.replace": "Badilisha picha",
+  "upload.prompt": "Buruta na uachie au bofya kupakia",
+  "upload.limits": "JPG, PNG hadi ~10MB",
+  "upload.selected": "Imechaguliwa:",
+  "camera.open": "Tumia kamera",
+  "camera.close": "Funga kamera",
+  "camera.capture": "Piga picha",
+  "camera.guide.soil": "Jaza mraba kwa udongo mtupu, mkavu katika mwanga sawa",
+  "camera.guide.crop": "Weka jani moja ndani ya mstari",
+  "camera.unsupported": "Kamera haipatikani kwenye kivinjari hiki. Pakia picha badala yake.",
+  "camera.denied": "Ruhusa ya kamera imekataliwa. Iruhusu katika mipangilio ya kivinjari au pakia picha.",
+  "camera.failed": "Imeshindwa kuwasha kamera. Pakia picha badala yake.",
+  "camera.captureFailed": "Imeshindwa kupiga picha",
+
+  "analysis.soil": "Udongo",
+  "analysis.crop": "Zao",
+  "analysis.lab": "Kipimo cha maabara",
+
+  "preview.title": "Hakiki na Uchunguzi",
+  "preview.labHint": "Weka thamani za maabara kwa tathmini, pamoja na picha ya sampuli hiyo hiyo ukipenda.",
+  "preview.autoHint": "Uchunguzi huanza wenyewe baada ya kupakia.",
+  "preview.alt": "Hakiki ya picha iliyopakiwa",
+  "preview.regionsAlt": "Picha iliyopakiwa yenye maeneo",
+  "preview.placeholderAlt": "Picha ya mfano",
+  "preview.emptyLab": "Weka thamani za maabara ili kuanza.",
+  "preview.emptyImage": "Pakia picha ili kuanza uchunguzi.",
+  "scan.scanning": "Inachunguza...",
+  "scan.stage.decoding": "Inasoma picha…",
+  "scan.stage.quality": "Inakagua ubora wa picha…",
+  "scan.stage.analyzing": "Inachunguza…",
+  "scan.stage.scoring": "Inatoa alama…",
+  "scan.analyzeAnyway": "Chunguza hata hivyo",
+  "scan.savedOffline": "Imehifadhiwa bila mtandao. Itachunguzwa yenyewe mtandao ukirudi.",
+  "scan.offlineSaveFailed": "Hakuna mtandao, na uchunguzi haukuweza kuhifadhiwa kwa baadaye",
+  "scan.failed": "Uchunguzi umeshindikana",
+  "scan.unusable": "{reason}. Piga picha upya ujaribu tena.",
+  "scan.attachFailed": "Haikuwezekana kuweka uchunguzi chini ya kipande hiki",
+  "unusable.noSoil": "Hakuna rangi ya udongo iliyopatikana kwenye picha",
+  "unusable.noVegetation": "Hakuna mimea iliyopatikana kwenye picha",
+  "unusable.undecodable": "Picha haikuweza kusomwa; huenda imeharibika au iko katika muundo usiotumika",
+  "queue.discardFailed": "Imeshindwa kuondoa uchunguzi uliosubiri",
+  "sync.synced": "Mtandaoni",
+  "sync.pending": "Inasubiri kusawazisha",
+  "sync.syncing": "Inasawazisha",
+  "sync.offline": "Nje ya mtandao",
+  "sync.now": "Chunguza sasa uchunguzi uliosubiri",
+  "sync.queued": "{count} zinasubiri",
+  "queue.waitingOne": "Uchunguzi 1 unasubiri muunganisho",
+  "queue.waitingMany": "Uchunguzi {count} inasubiri muunganisho",
+  "queue.retry": "Jaribu tena sasa",
+  "queue.labEntry": "Ingizo la maabara",
+  "queue.discard": "Tupa uchunguzi uliosubiri",
+
+  "lab.ph": "pH (maji)",
+  "lab.organicCarbon": "Kaboni hai",
+  "lab.n": "Naitrojeni",
+  "lab.p": "Fosforasi",
+  "lab.k": "Potasiamu",
+  "lab.required": "{label} inahitajika",
+  "lab.min": "{label} lazima iwe angalau {min}",
+  "lab.max": "{label} isizidi {max}",
+
+  "quality.blocking": "Picha haifai kwa uchunguzi",
+  "quality.warnings": "Tahadhari kuhusu ubora wa picha",
+  "quality.resolution.error": "Picha ni {size} tu; tumia angalau {min}px upande mfupi.",
+  "quality.resolution.warning": "Ubora mdogo ({size}); {good}px au zaidi hutoa matokeo thabiti zaidi.",
+  "quality.fileSize.error": "Faili ni kubwa kuliko {max}MB.",
+  "quality.fileSize.warning": "Faili imebanwa sana; maelezo madogo yanaweza kupotea.",
+  "quality.blur.error": "Picha ina ukungu. Shika simu imara na gusa ili kulenga kabla ya kupiga.",
+  "quality.blur.warning": "Picha inaonekana na ukungu kidogo; matokeo yanaweza kuwa na usahihi mdogo.",
+  "quality.tooDark": "Picha ni nyeusi mno. Piga mchana au kwenye kivuli wazi.",
+  "quality.tooBright": "Picha ina mwanga kupita kiasi. Epuka mng'ao wa jua moja kwa moja au flash.",
+  "quality.clipped": "Sehemu za picha ni nyeusi kabisa au nyeupe kabisa; rangi huko si za kuaminika.",
+  "quality.subject.soil": "udongo",
+  "quality.subject.crop": "majani au mimea",
+  "quality.content.error": "Ni {share}% tu ya picha inayoonekana kama {subject}; angalia aina au panga upya.",
+  "quality.content.warning": "Karibu {share}% ya picha inaonekana kama {subject}; iliyobaki inaweza kupotosha matokeo.",
+
+  "regions.title": "Maeneo",
+  "regions.rect": "Mstatili",
+  "regions.polygon": "Poligoni",
+  "regions.analyzing": "Inachunguza…",
+  "regions.analyzeOne": "Chunguza eneo 1",
+  "regions.analyzeMany": "Chunguza maeneo {count}",
+  "regions.rectHint": "Buruta juu ya picha kuchora mstatili.",
+  "regions.polygonHint": "Bofya kuweka pembe; bofya pembe ya kwanza au bofya mara mbili kufunga, Esc kughairi.",
+  "regions.remove": "Ondoa {label}",
+  "regions.zone": "Eneo {n}",
+  "regions.failed": "{label}: {reason}",
+
+  "result.cropStatus": "Hali ya zao la {crop|lower}: {status}",
+  "result.soilStatus": "Hali ya udongo: {status}",
+  "result.confidenceLabel": "Uhakika",
+  "result.confidence": "Uhakika: {value}%",
+  "result.sampleData": "Data ya sampuli",
+  "result.status": "Hali",
+  "result.target": "Lengo {min}-{max}",
+  "result.hideHeatmap": "Ficha ramani ya joto",
+  "result.showHeatmap": "Onyesha ramani ya joto",
+  "heatmap.stressed": "Chini ya mkazo",
+  "heatmap.healthy": "Yenye afya",
+  "result.conditions": "Magonjwa yanayowezekana",
+  "result.recommendations": "Mapendekezo",
+  "result.noRecommendations": "Hakuna marekebisho yanayohitajika kwa zao hili.",
+  "result.markDone": "Weka alama imekamilika",
+  "export.pdf": "Ripoti ya PDF",
+  "export.pdfFailed": "Imeshindwa kuunda ripoti ya PDF",
+  "report.title": "Ripoti ya shamba ya AgriScan",
+  "report.date": "Tarehe",
+  "report.photoTaken": "Picha ilipigwa",
+  "report.analysis": "Uchunguzi",
+  "report.crop": "Zao: {crop}",
+  "report.targetCrop": "{analysis} (zao lengwa: {crop})",
+  "report.location": "Mahali",
+  "report.result": "Tokeo",
+  "report.analyzer": "Kichunguzi",
+  "report.metrics": "Vipimo",
+  "report.outOfRange": "Nje ya kiwango",
+  "report.notes": "Maelezo",
+  "result.suitability": "Ufaafu wa mazao",
+  "result.showSuitability": "Panga mazao kwa udongo huu",
+  "result.hideSuitability": "Ficha mpangilio",
+  "suitability.description": "Kila zao katika orodha, limepangwa kulingana na jinsi udongo huu unavyokidhi mahitaji yake.",
+  "suitability.score": "Ulinganifu {score}%",
+  "suitability.noLimits": "Hakuna kinachozuia.",
+  "suitability.none": "Hakuna kipimo cha udongo hapa kinachoweza kulinganishwa na mahitaji ya mazao.",
+  "result.forArea": "kwa {area}",
+  "result.taken": "Ilipigwa {time}",
+  "result.mockAnalyzer":
+    "Matokeo ya kuigiza kutoka kichunguzi cha maonyesho. Weka modeli au injini ya kanuni kwa matumizi halisi.",
+  "result.analyzer": "Imechunguzwa kwa injini ya \"{analyzer}\".",
+  "confidence.analyzer": "Makadirio ya kichunguzi",
+  "confidence.demo": "Kichunguzi cha maonyesho: thamani ni za kuigiza",
+  "confidence.model": "Uwezekano wa modeli kwa {name}",
+  "confidence.runnerUp": "{name} ({status}) inafuata kwa karibu",
+  "confidence.soilEstimate": "Makadirio ya udongo kwa rangi",
+  "confidence.coverage": "Ni {share}% tu ya pikseli zinazotumika baada ya kuondoa mng'ao, kivuli na mimea",
+  "confidence.uniformity": "Mwangaza usio sawa katika eneo",
+  "confidence.phSpread": "Robo za picha zinatofautiana kwa pH kwa {spread}",
+  "confidence.texture": "Karibu hakuna umbile la uso; huenda picha haionyeshi udongo",
+  "confidence.neutral": "Kijivu kisicho na rangi; huenda picha haionyeshi udongo",
+  "confidence.vegetationEstimate": "Makadirio ya fahirisi ya mimea",
+  "confidence.canopy": "Majani machache: {share}% ya picha ni mimea",
+  "confidence.symptoms": "Dalili za majani hazikubaliani na fahirisi ya mimea",
+  "confidence.boundary": "Fahirisi ya afya iko karibu na mpaka wa daraja",
+  "confidence.lab": "Kipimo cha maabara",
+  "confidence.notMeasured": "Haijapimwa: {tests}",
+  "confidence.fromPhoto": "Vipimo {count} kati ya {total} vimekadiriwa kutoka picha (uhakika {confidence}%)",
+  "confidence.why": "Kwa nini uhakika ni {value}%",
+  "confidence.clamped": "Alama huwekwa kati ya 5% na 99%.",
+
+  "batch.savedOffline": "Imehifadhiwa nje ya mtandao",
+  "batch.title": "Uchunguzi wa kundi",
+  "batch.description": "Panga mfululizo mzima wa picha za shamba. Kila tokeo pia huhifadhiwa kwenye historia.",
+  "batch.setupHint": "Mipangilio inatumika kwa kila picha kwenye kundi.",
+  "batch.addAria": "Ongeza picha kwenye kundi",
+  "batch.drop": "Dondosha picha au bofya kuongeza",
+  "batch.stop": "Simamisha",
+  "batch.analyze": "Chunguza",
+  "batch.retry": "Jaribu tena zilizoshindwa ({count})",
+  "batch.clear": "Futa",
+  "batch.results": "Matokeo",
+  "batch.empty": "Hakuna picha kwenye foleni.",
+  "batch.processed": "{finished} kati ya {count} zimeshughulikiwa.",
+  "batch.meanConfidence": "Uhakika wa wastani",
+  "batch.mean": "{metric} ya wastani",
+  "batch.image": "Picha",
+  "batch.confidence": "Uhakika",
+  "batch.failed": "Imeshindwa",
+
+  "compare.title": "Linganisha uchunguzi",
+  "compare.description":
+    "Tofauti zinapimwa dhidi ya uchunguzi wa kwanza. Kila sampuli hupimwa dhidi ya viwango lengwa vya zao lake.",
+  "compare.pick": "Chagua uchunguzi {min}-{max} ili kuulinganisha.",
+  "compare.openHistory": "Fungua historia",
+  "compare.best": "Karibu zaidi na bora",
+  "compare.inBand": "Vipimo {passed} kati ya {total} viko ndani ya kiwango",
+  "compare.noBands": "Hakuna kipimo chenye kiwango lengwa",
+
+  "history.title": "Historia ya uchunguzi",
+  "history.description": "Uchunguzi huhifadhiwa kwenye kifaa hiki. Zichuje na ufungue tena matokeo yoyote.",
+  "history.when": "Lini",
+  "history.today": "Leo",
+  "history.week": "Siku 7 zilizopita",
+  "history.allTime": "Wakati wote",
+  "history.type": "Aina",
+  "history.allTypes": "Aina zote",
+  "history.allCrops": "Mazao yote",
+  "history.status": "Hali",
+  "history.anyStatus": "Hali yoyote",
+  "history.plot": "Shamba / kitalu",
+  "history.search": "Tafuta",
+  "history.loadFailed": "Imeshindwa kufungua historia ya kifaa",
+  "history.empty": "Bado hakuna uchunguzi.",
+  "history.noMatch": "Hakuna uchunguzi unaolingana na vichujio hivi.",
+  "history.compareCount": "Linganisha {count}",
+  "history.selectMore": "Chagua mmoja zaidi ili kulinganisha",
+  "history.compare": "Linganisha",
+  "history.open": "Fungua",
+  "history.plotLink": "Kipande",
+  "history.trends": "Mwenendo",
+  "history.delete": "Futa uchunguzi",
+  "history.deleteFailed": "Imeshindwa kufuta uchunguzi",
+  "map.title": "Ramani ya shamba",
+  "map.description":
+    "Uchunguzi wa awali umewekwa kwa mahali pa GPS palipohifadhiwa katika kila picha. Bofya alama ili kuufungua tena.",
+  "map.locations": "Mahali pa uchunguzi",
+  "map.located": "Uchunguzi {located} kati ya {count} una mahali.",
+  "map.noGps": "Bado hakuna uchunguzi wenye data ya GPS. Picha za simu zenye mahali pamewashwa huwekwa kiotomatiki.",
+
+  "calibrate.title": "Urekebishaji wa uhakika",
+  "calibrate.description":
+    "Pitisha seti ya picha zenye lebo kwenye kichunguzi na uangalie kama uhakika uliotajwa unalingana na mara ngapi hali ni sahihi. Hakuna kinachohifadhiwa kwenye historia.",
+  "calibrate.dataset": "Seti ya data",
+  "calibrate.datasetHint":
+    "Chagua picha pamoja na labels.csv ambayo safu zake ni file, type (soil au crop), crop na status (Good, Marginal au Poor).",
+  "calibrate.files": "Faili",
+  "calibrate.analyzer": "Kichunguzi (si lazima)",
+  "calibrate.serverDefault": "Chaguo-msingi la seva",
+  "calibrate.ready": "Picha {count} zenye lebo ziko tayari",
+  "calibrate.moreProblems": "…na matatizo mengine {count}",
+  "calibrate.noLabels": "Jumuisha faili la labels.csv pamoja na picha.",
+  "calibrate.notSelected": "{file}: imeorodheshwa katika labels.csv lakini haijachaguliwa",
+  "calibrate.missingColumns": "labels.csv inakosa safu: {columns}",
+  "calibrate.badType": "Safu {row}: jina la faili na aina kati ya {types} vinatarajiwa",
+  "calibrate.badCrop": "Safu {row}: zao lisilojulikana “{crop}”",
+  "calibrate.badStatus": "Safu {row}: hali lazima iwe mojawapo ya {statuses}",
+  "calibrate.stop": "Simamisha",
+  "calibrate.run": "Endesha urekebishaji",
+  "calibrate.reliability": "Kuaminika",
+  "calibrate.reliabilityHint":
+    "Nguzo zinaonyesha mara ngapi uchunguzi katika kila kiwango cha uhakika ulikuwa sahihi; mstari wa mshazari ni urekebishaji kamili.",
+  "calibrate.empty": "Endesha seti ya data ili kuona ripoti.",
+  "calibrate.accuracy": "Usahihi",
+  "calibrate.meanConfidence": "Wastani wa uhakika",
+  "calibrate.ece": "Kosa la urekebishaji",
+  "calibrate.brier": "Alama ya Brier",
+  "calibrate.over": "Uhakika kupita kiasi: uchunguzi unadai {claimed} lakini ni sahihi {right} ya wakati.",
+  "calibrate.under": "Uhakika pungufu: uchunguzi ni sahihi {right} ya wakati lakini unadai {claimed} tu.",
+  "calibrate.calibrated": "Uhakika uliotajwa uko ndani ya alama 5 za usahihi ulioonekana.",
+  "calibrate.basedOn": "Kulingana na uchunguzi {count}.",
+  "calibrate.bin": "Uhakika {from}-{to}%",
+  "calibrate.binRight": "{share}% sahihi kati ya {count}",
+  "calibrate.confusion": "Lebo \\ Utabiri",
+  "calibrate.failed": "Picha {count} hazikuweza kuchunguzwa",
+
+  "nav.newScan": "Uchunguzi mpya",
+  "nav.plots": "Vipande",
+  "farms.description":
+    "Mashamba, sehemu zake na vipande vilivyomo, vimehifadhiwa kwenye kifaa hiki. Unganisha uchunguzi na kipande kutoka ukurasa wa uchunguzi ili kuufuatilia kwenye ukurasa wa kipande.",
+  "farms.addFarm": "Ongeza shamba",
+  "farms.addField": "Ongeza sehemu",
+  "farms.addPlot": "Ongeza kipande",
+  "farms.save": "Hifadhi",
+  "farms.edit": "Hariri {name}",
+  "farms.delete": "Futa {name}",
+  "farms.confirmDelete": "Futa {name}? Uchunguzi wake utabaki kwenye historia.",
+  "farms.confirmDeleteAll": "Futa {name} na kila kilichomo? Uchunguzi wake utabaki kwenye historia.",
+  "farms.saveFailed": "Imeshindwa kuhifadhi {name}",
+  "farms.deleteFailed": "Imeshindwa kufuta {name}",
+  "farms.storageFailed": "Imeshindwa kufungua hifadhi ya kifaa",
+  "farms.none": "Bado hakuna mashamba.",
+  "land.noDetails": "Bado hakuna maelezo",
+  "land.scanOne": "Uchunguzi 1",
+  "land.scanMany": "Uchunguzi {count}",
+  "land.name": "Jina",
+  "land.area": "Eneo ({unit})",
+  "land.soilType": "Aina ya udongo",
+  "land.crop": "Zao la sasa",
+  "land.notSet": "Haijawekwa",
+  "land.noCrop": "Hakuna",
+  "land.cancel": "Ghairi",
+  "soil.sand": "Mchanga",
+  "soil.loamy-sand": "Mchanga tifutifu",
+  "soil.sandy-loam": "Tifutifu ya mchanga",
+  "soil.loam": "Tifutifu",
+  "soil.silt-loam": "Tifutifu ya tope",
+  "soil.silt": "Tope",
+  "soil.sandy-clay-loam": "Tifutifu ya mfinyanzi na mchanga",
+  "soil.clay-loam": "Tifutifu ya mfinyanzi",
+  "soil.silty-clay-loam": "Tifutifu ya mfinyanzi na tope",
+  "soil.sandy-clay": "Mfinyanzi wa mchanga",
+  "soil.silty-clay": "Mfinyanzi wa tope",
+  "soil.clay": "Mfinyanzi",
+  "plot.title": "Kipande",
+  "plot.trendsTitle": "Mwenendo wa kipande",
+  "plot.missing": "Kipande hiki hakipo tena.",
+  "plot.intro": "Kila kipimo cha namba cha kipande chenye jina kwa muda, kuona kama marekebisho yalibadilisha udongo.",
+  "plot.trends":
+    "{scans} za {crop|lower}. Mikanda yenye kivuli ni kiwango lengwa cha zao; mistari ya vistari huonyesha mabadiliko ya hali.",
+  "plot.none":
+    "Bado hakuna vipande vyenye majina. Weka jina la sehemu au kipande unapochunguza ili kukifuatilia kwa muda.",
+  "plot.notFound": "Hakuna uchunguzi uliopatikana kwa “{plot}”.",
+  "plot.last": "wa mwisho {date}",
+  "plot.area": "Eneo",
+  "plot.scans": "Uchunguzi",
+  "plot.latest": "Hali ya karibuni",
+  "plot.latestDescription": "Uchunguzi wa karibuni wa kila aina.",
+  "plot.noScansAttach": "Bado hakuna uchunguzi. Unganisha mmoja na kipande hiki kutoka ukurasa wa uchunguzi.",
+  "plot.open": "Mapendekezo yaliyobaki",
+  "plot.openFrom": "Kutoka uchunguzi wa {type|lower} wa {date}. Weka alama kila moja imekamilika likishatekelezwa.",
+  "plot.nothingOpen": "Hakuna la kufanya kutoka uchunguzi wa karibuni.",
+  "plot.history": "Historia ya uchunguzi",
+  "plot.noScans": "Bado hakuna uchunguzi.",
+  "plot.readingOne": "Kipimo 1",
+  "plot.readingMany": "Vipimo {count}",
+  "plot.statusChanges": "Mabadiliko ya hali",
+
+  "status.Good": "Nzuri",
+  "status.Marginal": "Wastani",
+  "status.Poor": "Mbaya",
+  "value.Low": "Chini",
+  "value.Moderate": "Wastani",
+  "value.High": "Juu",
+
+  "crop.tomato": "Nyanya",
+  "crop.yam": "Kiazi kikuu",
+  "crop.potato": "Viazi",
+  "crop.onions": "Vitunguu",
+
+  "conditions.care": "Matibabu na kinga",
+  "conditions.treatment": "Matibabu",
+  "conditions.prevention": "Kinga",
+  "disease.healthy": "Yenye afya",
+  "disease.early-blight": "Baka jani la mapema",
+  "disease.early-blight.treatment.1": "Ondoa na uharibu majani ya chini yenye pete za kahawia kama shabaha.",
+  "disease.early-blight.treatment.2":
+    "Nyunyizia dawa ya kuzuia kuvu (mancozeb au chlorothalonil) kila siku 7-10 hali ikiwa na unyevu.",
+  "disease.early-blight.prevention.1": "Badilisha mazao mbali na nyanya, viazi na pilipili kwa angalau misimu 2.",
+  "disease.early-blight.prevention.2": "Weka matandazo na umwagilie kwenye shina ili udongo usirukie majani.",
+  "disease.late-blight": "Baka jani la kuchelewa",
+  "disease.late-blight.treatment.1":
+    "Ng'oa mimea iliyoambukizwa mara moja na uizike au uichome; ugonjwa huenea ndani ya siku chache.",
+  "disease.late-blight.treatment.2":
+    "Weka dawa ya kuvu inayoingia mmea (metalaxyl + mancozeb) kwenye mimea inayozunguka.",
+  "disease.late-blight.prevention.1": "Panda mbegu au miche iliyothibitishwa kuwa haina ugonjwa.",
+  "disease.late-blight.prevention.2":
+    "Acha nafasi kati ya mimea kwa mzunguko wa hewa na epuka kunyunyizia maji kutoka juu jioni.",
+  "disease.bacterial-wilt": "Mnyauko wa bakteria",
+  "disease.bacterial-wilt.treatment.1": "Ng'oa mimea iliyonyauka pamoja na udongo unaoizunguka na uiondoe shambani.",
+  "disease.bacterial-wilt.treatment.2":
+    "Hakuna dawa ya kunyunyizia inayoponya; safisha vifaa baada ya kushika mimea iliyoambukizwa.",
+  "disease.bacterial-wilt.prevention.1": "Badilisha na nafaka au nyasi kwa miaka 3 au zaidi.",
+  "disease.bacterial-wilt.prevention.2": "Tumia aina zinazostahimili na epuka mashamba yaliyojaa maji.",
+  "disease.fusarium-wilt": "Mnyauko wa fusarium",
+  "disease.fusarium-wilt.treatment.1": "Ondoa mimea iliyoathirika pamoja na mizizi.",
+  "disease.fusarium-wilt.treatment.2":
+    "Mwagilia mimea iliyobaki kwa kidhibiti cha kibiolojia (Trichoderma) ili kupunguza kuenea.",
+  "disease.fusarium-wilt.prevention.1": "Panda aina zinazostahimili (zenye alama F).",
+  "disease.fusarium-wilt.prevention.2": "Ongeza pH ya udongo kufikia 6.5-7.0 na epuka naitrojeni nyingi.",
+  "disease.bacterial-spot": "Madoa ya bakteria",
+  "disease.bacterial-spot.treatment.1": "Weka dawa ya bakteria yenye shaba dalili za kwanza zinapoonekana.",
+  "disease.bacterial-spot.treatment.2": "Ondoa majani na matunda yenye madoa mengi.",
+  "disease.bacterial-spot.prevention.1": "Tumia mbegu na miche safi.",
+  "disease.bacterial-spot.prevention.2": "Epuka kufanya kazi kati ya mimea iliyolowa.",
+  "disease.anthracnose": "Anthraknosi",
+  "disease.anthracnose.treatment.1":
+    "Pogoa na uchome mizabibu yenye madoa meusi kwenye majani na inayokauka kuanzia ncha.",
+  "disease.anthracnose.treatment.2": "Nyunyizia mancozeb au dawa ya kuvu yenye shaba kila wiki 2 wakati wa mvua.",
+  "disease.anthracnose.prevention.1": "Panda vipande vya mbegu vyenye afya kutoka mashamba safi.",
+  "disease.anthracnose.prevention.2": "Tumia aina zinazovumilia na weka miti kwa mizabibu kwa mzunguko wa hewa.",
+  "disease.yam-mosaic": "Virusi vya mosaiki vya viazi vikuu",
+  "disease.yam-mosaic.treatment.1": "Ng'oa mimea yenye mosaiki au majani yaliyopinda; virusi haviwezi kutibiwa.",
+  "disease.yam-mosaic.prevention.1": "Tumia mbegu za viazi vikuu zisizo na virusi.",
+  "disease.yam-mosaic.prevention.2": "Dhibiti vidukari wanaoeneza na ondoa viazi vikuu vinavyoota vyenyewe.",
+  "disease.dry-rot": "Uozo mkavu",
+  "disease.dry-rot.treatment.1":
+    "Tupa mizizi inayooza; kata vidonda vidogo na upake majivu ya kuni kabla ya kuhifadhi.",
+  "disease.dry-rot.prevention.1": "Epuka kujeruhi mizizi wakati wa mavuno.",
+  "disease.dry-rot.prevention.2": "Hifadhi kwenye ghala baridi lenye hewa.",
+  "disease.common-scab": "Upele wa kawaida",
+  "disease.common-scab.treatment.1": "Weka udongo na unyevu sawa wakati wa kutunga mizizi ili kupunguza upele zaidi.",
+  "disease.common-scab.prevention.1": "Weka pH chini ya 5.5 na epuka samadi mbichi au chokaa kabla ya viazi.",
+  "disease.common-scab.prevention.2": "Panda mbegu zisizo na upele.",
+  "disease.purple-blotch": "Doa la zambarau",
+  "disease.purple-blotch.treatment.1": "Nyunyizia mancozeb au iprodione kila siku 10 vidonda vinapoonekana.",
+  "disease.purple-blotch.prevention.1": "Badilisha mazao kwa miaka 3 mbali na vitunguu na vitunguu saumu.",
+  "disease.purple-blotch.prevention.2": "Epuka kupanda kwa msongamano na majani yaliyolowa umande.",
+  "disease.downy-mildew": "Ubwiri vinyoya",
+  "disease.downy-mildew.treatment.1": "Weka dawa ya kuvu yenye metalaxyl na uondoe majani yaliyoambukizwa.",
+  "disease.downy-mildew.prevention.1": "Panda kwenye matuta yanayopitisha maji vizuri na yenye jua.",
+  "disease.downy-mildew.prevention.2": "Haribu mabaki ya mazao baada ya mavuno.",
+  "disease.white-rot": "Uozo mweupe",
+  "disease.white-rot.treatment.1": "Ng'oa na uharibu vitunguu vilivyoathirika pamoja na udongo unaovizunguka.",
+  "disease.white-rot.prevention.1": "Usipande jamii ya vitunguu kwenye mashamba yaliyoambukizwa kwa miaka mingi.",
+  "disease.white-rot.prevention.2": "Safisha vifaa na viatu kati ya mashamba.",
+
+  "metric.moisture": "Unyevu",
+  "metric.organicMatter": "Viumbe hai",
+  "metric.organicCarbon": "Kaboni hai",
+  "metric.munsell": "Rangi ya Munsell",
+  "metric.brightness": "Mwangaza (L*)",
+  "metric.nitrogen": "Naitrojeni (N)",
+  "metric.phosphorus": "Fosforasi (P)",
+  "metric.potassium": "Potasiamu (K)",
+  "metric.healthIndex": "Kielelezo cha afya",
+  "metric.diseaseRisk": "Hatari ya ugonjwa",
+  "metric.canopyCover": "Ufunikaji wa majani",
+  "metric.stressedArea": "Eneo lenye msongo",
+  "metric.leafMoisture": "Unyevu wa jani/udongo",
+  "metric.crop": "Zao",
+
+  "rule.moisture": "unyevu",
+  "rule.organic-matter": "viumbe hai",
+  "rule.nitrogen": "naitrojeni",
+  "rule.phosphorus": "fosforasi",
+  "rule.potassium": "potasiamu",
+  "rule.salinity": "chumvi (EC)",
+  "rule.below": "{label|cap} {value} iko chini ya kiwango cha {min}-{max} kwa {crop|lower}.",
+  "rule.above": "{label|cap} {value} iko juu ya kiwango cha {min}-{max} kwa {crop|lower}.",
+
+  "notes.noChecks": "Hakuna kipimo cha udongo kilichoweza kulinganishwa na mahitaji ya {crop|lower}.",
+  "notes.allGood": "Vipimo vyote {count} vya udongo vilivyokaguliwa viko ndani ya viwango vya {crop|lower}.",
+  "notes.outOfRange": "{status} kwa {crop|lower}: {metrics} nje ya kiwango kinachopendekezwa.",
+  "notes.soilColour":
+    "Rangi {munsell} (mtindo wa Munsell) ni wastani wa kati wa {coverage}% ya pikseli baada ya kuondoa mng'ao, kivuli na mimea.",
+  "notes.soilMoisture": "Unyevu unakadiriwa kutoka {share}% ya pikseli za udongo zilizo nyeusi kuliko L* 35.",
+  "notes.soilMethod":
+    "Viumbe hai hufuata thamani ya Munsell (udongo mweusi zaidi una mboji zaidi); pH ni makadirio ya jumla kutoka rangi na ukolezi wake.",
+  "notes.cropHealthy": "Zao la {crop|lower} linaonekana na afya. Endelea na utunzaji wa kawaida.",
+  "notes.cropStressed":
+    "Zao la {crop|lower} linaonyesha dalili za msongo kwenye {share}% ya majani. Kagua maeneo yaliyoangaziwa na urekebishe umwagiliaji au mbolea.",
+  "notes.cropStressedDemo":
+    "Zao la {crop|lower} linaonyesha dalili za msongo. Kagua majani na urekebishe umwagiliaji au mbolea.",
+  "notes.cropSuspect": "Dalili za majani zinafanana zaidi na {condition|lower}; thibitisha shambani kabla ya kutibu.",
+  "notes.cropMethod":
+    "Kielelezo cha afya huchanganya Green Leaf Index na VARI kwa wastani wa pikseli za mimea; ramani ya joto inaonyesha msongo ulipo.",
+  "notes.classified": "Imeainishwa kama {name}.",
+  "notes.labSource": "Thamani zimewekwa kutoka kipimo cha udongo cha maabara.",
+  "notes.labReplaces": "Thamani za maabara zinachukua nafasi ya makadirio ya picha kwa {metrics}; vipimo vingine vinatoka kwenye picha.",
+  "notes.labCombined": "Inaunganisha thamani za maabara na vipimo vilivyopimwa kutoka kwenye picha.",
+
+  "nutrient.n": "naitrojeni",
+  "nutrient.p2o5": "fosforasi",
+  "nutrient.k2o": "potasiamu",
+  "rec.lime": "Weka chokaa cha kilimo",
+  "rec.lime.reason": "Panda pH kutoka {ph} hadi karibu {target} kwa {crop|lower}. Changanya miezi 2-3 kabla ya kupanda.",
+  "rec.sulfur": "Weka salfa",
+  "rec.sulfur.reason": "Shusha pH kutoka {ph} hadi karibu {target} kwa {crop|lower}. Gawanya viwango vikubwa katika misimu kadhaa.",
+  "rec.nutrient": "Weka {rate} za {name}",
+  "rec.nutrient.untested": "Hakuna kipimo cha udongo cha {nutrient}; kiwango cha jumla cha {crop|lower}.",
+  "rec.nutrient.reason": "{nutrient|cap} ya udongo ni {value} dhidi ya lengo la {min}-{max}.",
+  "rec.compost": "Ongeza viumbe hai",
+  "rec.compost.reason": "Viumbe hai ni {value}%; kuviongeza huboresha uhifadhi wa maji na virutubisho.",
+  "rec.irrigate": "Mwagilia kabla ya kupanda",
+  "rec.irrigate.reason": "Unyevu wa {value}% uko chini ya kiwango cha {min}-{max}% kwa {crop|lower}.",
+  "rec.drain": "Boresha mifereji",
+  "rec.drain.reason": "Unyevu wa {value}% uko juu ya kiwango cha {min}-{max}%; tumia matuta au vichuguu.",
+}
@@ -0,0 +1,491 @@
+import type { Catalog } from "@/lib/i18n"
+
+export const yo: Catalog = {
+  "app.tagline": "Ṣàyẹ̀wò àwòrán ilẹ̀ tàbí ohun ọ̀gbìn. Yan ìsọ̀rí, gbé àwòrán sókè, kí o sì wo àbájáde àyẹ̀wò.",
+  "nav.batch": "Ìdìpọ̀",
+  "nav.history": "Ìtàn",
+  "nav.farms": "Àwọn oko",
+  "nav.map": "Máàpù",
+  "nav.calibrate": "Ṣàtúnṣe",
+  "page.loading": "Ó ń gbé e wọlé…",
+  "language.label": "Èdè",
+  "units.label": "Ìwọ̀n",
+  "units.rates": "Ìwọ̀n ìlò àti ilẹ̀",
+  "units.nutrients": "Èròjà inú ilẹ̀",
+  "units.metric": "Mẹ́tíríìkì (kg/ha)",
+  "units.imperial": "Ti Gẹ̀ẹ́sì (lb/acre)",
+
+  "setup.title": "Ìmúrasílẹ̀",
+  "setup.description": "Yan ohun tí o fẹ́ ṣàyẹ̀wò, kí o sì gbé àwòrán sókè.",
+  "setup.analysisType": "Irú àyẹ̀wò",
+  "setup.selectType": "Yan irú",
+  "setup.crop": "Ohun ọ̀gbìn",
+  "setup.targetCrop": "Ohun ọ̀gbìn tí a fẹ́ gbìn",
+  "setup.selectCrop": "Yan ohun ọ̀gbìn",
+  "setup.plot": "Oko / ìpín oko (kò pọn dandan)",
+  "setup.plotPlaceholder": "àpẹẹrẹ: Apá àríwá, ebè 3",
+  "setup.attachPlot": "So mọ́ ìpín oko",
+  "setup.noPlot": "Kò so mọ́ ìpín oko",
+  "setup.area": "Ìwọ̀n oko ({unit})",
+  "setup.labResults": "Àbájáde ilé-ìwádìí",
+  "setup.evaluate": "Ṣàyẹ̀wò",
+  "setup.evaluateWithPhoto": "Ṣàyẹ̀wò pẹ̀lú àwòrán",
+  "setup.soilPhoto": "Àwòrán ilẹ̀ (kò pọn dandan)",
+  "setup.image": "Àwòrán",
+  "setup.reset": "Bẹ̀rẹ̀ lẹ́ẹ̀kan sí i",
+  "setup.soilFor": "Ilẹ̀ fún:",
+  "setup.cropIs": "Ohun ọ̀gbìn:",
+  "upload.aria": "Gbé àwòrán sókè fún àyẹ̀wò",
+  "upload.replace": "Pààrọ̀ àwòrán",
+  "upload.prompt": "Fà á wá síbí tàbí tẹ̀ láti gbé sókè",
+  "upload.limits": "JPG, PNG tó tó ~10MB",
+  "upload.selected": "Èyí tí a yàn:",
+  "camera.open": "Lo kámẹ́rà",
+  "camera.close": "Pa kámẹ́rà",
+  "camera.capture": "Ya fọ́tò",
+  "camera.guide.soil": "Fi ilẹ̀ tí kò ní nǹkan lórí, tó sì gbẹ kún onígun mẹ́rin náà, ní ìmọ́lẹ̀ tó dọ́gba",
+  "camera.guide.crop": "Fi ewé kan sínú àlà náà",
+  "camera.unsupported": "Kámẹ́rà kò ṣeé lò nínú aṣàwákiri yìí. Gbé fọ́tò sókè dípò rẹ̀.",
+  "camera.denied": "A kọ̀ àṣẹ kámẹ́rà. Gbà á láàyè nínú ètò aṣàwákiri tàbí gbé fọ́tò sókè.",
+  "camera.failed": "A kò lè ṣí kámẹ́rà. Gbé fọ́tò sókè dípò rẹ̀.",
+  "camera.captureFailed": "A kò lè ya fọ́tò",
+
+  "analysis.soil": "Ilẹ̀",
+  "analysis.crop": "Ohun ọ̀gbìn",
+  "analysis.lab": "Àyẹ̀wò ilé-ìwádìí",
+
+  "preview.title": "Àwòtẹ́lẹ̀ àti Àyẹ̀wò",
+  "preview.labHint": "Tẹ àwọn iye ilé-ìwádìí sí i fún àyẹ̀wò, pẹ̀lú àwòrán àpẹẹrẹ kan náà tí o bá fẹ́.",
+  "preview.autoHint": "Àyẹ̀wò máa bẹ̀rẹ̀ fúnra rẹ̀ lẹ́yìn tí o bá gbé àwòrán sókè.",
+  "preview.alt": "Àwòtẹ́lẹ̀ àwòrán tí a gbé sókè",
+  "preview.regionsAlt": "Àwòrán tí a gbé sókè pẹ̀lú àwọn agbègbè",
+  "preview.placeholderAlt": "Àwòrán àpẹẹrẹ",
+  "preview.emptyLab": "Tẹ àwọn iye ilé-ìwádìí sí i láti bẹ̀rẹ̀.",
+  "preview.emptyImage": "Gbé àwòrán sókè láti bẹ̀rẹ̀ àyẹ̀wò.",
+  "scan.scanning": "Ó ń ṣàyẹ̀wò...",
+  "scan.stage.decoding": "Ó ń ka àwòrán…",
+  "scan.stage.quality": "Ó ń ṣàyẹ̀wò bí àwòrán ṣe dára tó…",
+  "scan.stage.analyzing": "Ó ń ṣàyẹ̀wò…",
+  "scan.stage.scoring": "Ó ń fún un ní máàkì…",
+  "scan.analyzeAnyway": "Ṣàyẹ̀wò bẹ́ẹ̀ náà",
+  "scan.savedOffline": "A ti fi pamọ́ láìsí íńtánẹ́ẹ̀tì. A ó ṣàyẹ̀wò rẹ̀ fúnra rẹ̀ nígbà tí íńtánẹ́ẹ̀tì bá padà.",
+  "scan.offlineSaveFailed": "Kò sí íńtánẹ́ẹ̀tì, a kò sì lè fi àyẹ̀wò náà pamọ́ fún ìgbà mìíràn",
+  "scan.failed": "Àyẹ̀wò kò yọrí sí rere",
+  "scan.unusable": "{reason}. Ya fọ́tò náà lẹ́ẹ̀kan sí i kí o tún gbìyànjú.",
+  "scan.attachFailed": "A kò lè fi àyẹ̀wò náà sí abẹ́ ìdá ilẹ̀ yìí",
+  "unusable.noSoil": "A kò rí àwọ̀ ilẹ̀ kankan nínú àwòrán náà",
+  "unusable.noVegetation": "A kò rí ewéko kankan nínú àwòrán náà",
+  "unusable.undecodable": "A kò lè ka àwòrán náà; ó lè ti bàjẹ́ tàbí kí ó wà ní ọ̀nà tí a kò ṣe àtìlẹ́yìn fún",
+  "queue.discardFailed": "A kò lè yọ àyẹ̀wò tó ń dúró kúrò",
+  "sync.synced": "Lórí ayélujára",
+  "sync.pending": "Ń dúró láti ṣe ìmúṣọ̀kan",
+  "sync.syncing": "Ń ṣe ìmúṣọ̀kan",
+  "sync.offline": "Kò sí lórí ayélujára",
+  "sync.now": "Ṣàyẹ̀wò àwọn àyẹ̀wò tó ń dúró báyìí",
+  "sync.queued": "{count} ń dúró",
+  "queue.waitingOne": "Àyẹ̀wò 1 ń dúró de ìsopọ̀",
+  "queue.waitingMany": "Àyẹ̀wò {count} ń dúró de ìsopọ̀",
+  "queue.retry": "Tún gbìyànjú báyìí",
+  "queue.labEntry": "Àkọsílẹ̀ láàbù",
+  "queue.discard": "Pa àyẹ̀wò tó ń dúró rẹ́",
+
+  "lab.ph": "pH (omi)",
+  "lab.organicCarbon": "Kábọ́nù alààyè",
+  "lab.n": "Náítírójìn",
+  "lab.p": "Fọ́sífọ́rọ́sì",
+  "lab.k": "Potásíọ̀mù",
+  "lab.required": "{label} jẹ́ dandan",
+  "lab.min": "{label} gbọ́dọ̀ jẹ́ ó kéré tán {min}",
+  "lab.max": "{label} kò gbọ́dọ̀ ju {max} lọ",
+
+  "quality.blocking": "Fọ́tò kò ṣeé lò fún àyẹ̀wò",
+  "quality.warnings": "Ìkìlọ̀ nípa dídára fọ́tò",
+  "quality.resolution.error": "Àwòrán jẹ́ {size} péré; lo ó kéré tán {min}px ní ẹ̀gbẹ́ kúkúrú.",
+  "quality.resolution.warning": "Ìpinnu kékeré ({size}); {good}px tàbí jù bẹ́ẹ̀ lọ ń fún ni ní èsì tó dúró ṣinṣin.",
+  "quality.fileSize.error": "Fáìlì tóbi ju {max}MB lọ.",
+  "quality.fileSize.warning": "A ti fún fáìlì pọ̀ jù; àwọn àlàyé kékeré lè sọnù.",
+  "quality.blur.error": "Àwòrán kò mọ́lẹ̀. Di fóònù mú ṣinṣin kí o sì tẹ̀ láti ṣe àfojúsùn kí o tó yà á.",
+  "quality.blur.warning": "Àwòrán kò mọ́lẹ̀ dáadáa; èsì lè má péye tó.",
+  "quality.tooDark": "Àwòrán ti ṣókùnkùn jù. Yà á ní ìmọ́lẹ̀ ọ̀sán tàbí ní ibòji tó ṣí sílẹ̀.",
+  "quality.tooBright": "Ìmọ́lẹ̀ ti pọ̀ jù nínú àwòrán. Yẹra fún ìtànṣán oòrùn tààrà tàbí fìlàṣì.",
+  "quality.clipped": "Àwọn apá kan nínú àwòrán ti dúdú pátápátá tàbí funfun pátápátá; àwọ̀ ibẹ̀ kò ṣeé gbẹ́kẹ̀lé.",
+  "quality.subject.soil": "ilẹ̀",
+  "quality.subject.crop": "ewé tàbí ohun ọ̀gbìn",
+  "quality.content.error": "{share}% péré nínú àwòrán ló dà bí {subject}; ṣàyẹ̀wò irú rẹ̀ tàbí tún un yà.",
+  "quality.content.warning": "Nǹkan bí {share}% nínú àwòrán ló dà bí {subject}; ìyókù lè yí èsì padà.",
+
+  "regions.title": "Àwọn agbègbè",
+  "regions.rect": "Onígun mẹ́rin",
+  "regions.polygon": "Onígun púpọ̀",
+  "regions.analyzing": "Ó ń ṣàyẹ̀wò…",
+  "regions.analyzeOne": "Ṣàyẹ̀wò agbègbè 1",
+  "regions.analyzeMany": "Ṣàyẹ̀wò agbègbè {count}",
+  "regions.rectHint": "Fà á lórí àwòrán láti ya onígun mẹ́rin.",
+  "regions.polygonHint":
+    "Tẹ̀ láti fi igun sí ipò; tẹ igun àkọ́kọ́ tàbí tẹ̀ lẹ́ẹ̀mejì láti pa á dé, Esc láti fagilé.",
+  "regions.remove": "Yọ {label} kúrò",
+  "regions.zone": "Agbègbè {n}",
+  "regions.failed": "{label}: {reason}",
+
+  "result.cropStatus": "Ipò {crop|lower}: {status}",
+  "result.soilStatus": "Ipò ilẹ̀: {status}",
+  "result.confidenceLabel": "Ìdánilójú",
+  "result.confidence": "Ìdánilójú: {value}%",
+  "result.sampleData": "Dátà àpẹẹrẹ",
+  "result.status": "Ipò",
+  "result.target": "Àfojúsùn {min}-{max}",
+  "result.hideHeatmap": "Fi máàpù ooru pamọ́",
+  "result.showHeatmap": "Fi máàpù ooru hàn",
+  "heatmap.stressed": "Ní ìnira",
+  "heatmap.healthy": "Ní ìlera",
+  "result.conditions": "Àwọn àìsàn tí ó ṣeé ṣe",
+  "result.recommendations": "Àwọn ìmọ̀ràn",
+  "result.noRecommendations": "Kò sí àtúnṣe tí ó pọn dandan fún ohun ọ̀gbìn yìí.",
+  "result.markDone": "Sàmì pé ó ti parí",
+  "export.pdf": "Ìròyìn PDF",
+  "export.pdfFailed": "A kò lè ṣe ìròyìn PDF",
+  "report.title": "Ìjábọ̀ oko AgriScan",
+  "report.date": "Ọjọ́",
+  "report.photoTaken": "Ìgbà tí a ya fọ́tò",
+  "report.analysis": "Àyẹ̀wò",
+  "report.crop": "Irúgbìn: {crop}",
+  "report.targetCrop": "{analysis} (irúgbìn àfojúsùn: {crop})",
+  "report.location": "Ibùdó",
+  "report.result": "Èsì",
+  "report.analyzer": "Ohun àyẹ̀wò",
+  "report.metrics": "Àwọn ìwọ̀n",
+  "report.outOfRange": "Ó kọjá ààlà",
+  "report.notes": "Àkíyèsí",
+  "result.suitability": "Ìbámu ohun ọ̀gbìn",
+  "result.showSuitability": "Tò àwọn ohun ọ̀gbìn fún ilẹ̀ yìí",
+  "result.hideSuitability": "Fi ìtòlẹ́sẹẹsẹ pamọ́",
+  "suitability.description": "Gbogbo ohun ọ̀gbìn inú àkójọ, tí a tò bí ilẹ̀ yìí ṣe bá ohun tí wọ́n nílò mu.",
+  "suitability.score": "Ìbámu {score}%",
+  "suitability.noLimits": "Kò sí ohun tó ń dínà.",
+  "suitability.none": "Kò sí ìwọ̀n ilẹ̀ kankan níbí tí a lè fi wé ohun tí ohun ọ̀gbìn nílò.",
+  "result.forArea": "fún {area}",
+  "result.taken": "A yà á ní {time}",
+  "result.mockAnalyzer": "Àbájáde àfarawé láti inú ẹ̀rọ àyẹ̀wò àpẹẹrẹ. Ṣètò àwòṣe tàbí ẹ̀rọ òfin fún lílò gidi.",
+  "result.analyzer": "A ṣàyẹ̀wò rẹ̀ pẹ̀lú ẹ̀rọ \"{analyzer}\".",
+  "confidence.analyzer": "Ìṣirò olùyẹ̀wò",
+  "confidence.demo": "Olùyẹ̀wò àfihàn: àwọn iye jẹ́ àfarawé",
+  "confidence.model": "Àǹfààní àwòṣe fún {name}",
+  "confidence.runnerUp": "{name} ({status}) súnmọ́ ipò kìíní",
+  "confidence.soilEstimate": "Ìṣirò ilẹ̀ láti inú àwọ̀",
+  "confidence.coverage": "{share}% péré nínú àwọn pixel ló ṣeé lò lẹ́yìn tí a yọ ìtànṣán, òjìji àti ewéko kúrò",
+  "confidence.uniformity": "Ìmọ́lẹ̀ tí kò dọ́gba káàkiri ibẹ̀",
+  "confidence.phSpread": "Àwọn ìdá mẹ́rin fọ́tò yàtọ̀ síra lórí pH ní {spread}",
+  "confidence.texture": "Ojú rẹ̀ fẹ́rẹ̀ẹ́ má ní ìrísí kankan; fọ́tò náà lè má ṣàfihàn ilẹ̀",
+  "confidence.neutral": "Eérú tí kò ní àwọ̀; fọ́tò náà lè má ṣàfihàn ilẹ̀",
+  "confidence.vegetationEstimate": "Ìṣirò atọ́ka ewéko",
+  "confidence.canopy": "Ewé kò pọ̀: {share}% nínú àwòrán ni ewéko",
+  "confidence.symptoms": "Àmì ewé kò bá atọ́ka ewéko mu",
+  "confidence.boundary": "Atọ́ka ìlera súnmọ́ ààlà ìpele kan",
+  "confidence.lab": "Ìwọ̀n ilé-ìwádìí",
+  "confidence.notMeasured": "A kò wọ̀n: {tests}",
+  "confidence.fromPhoto": "{count} nínú ìwọ̀n {total} ni a ṣírò láti inú fọ́tò (ìgbẹ́kẹ̀lé {confidence}%)",
+  "confidence.why": "Ìdí tí ìdánilójú fi jẹ́ {value}%",
+  "confidence.clamped": "Máàkì máa ń wà láàárín 5% àti 99%.",
+
+  "batch.savedOffline": "A tọ́jú rẹ̀ láìsí ayélujára",
+  "batch.title": "Àyẹ̀wò ní àkójọpọ̀",
+  "batch.description": "Fi gbogbo àwọn fọ́tò oko sí ìlà. A tún ń tọ́jú èsì kọ̀ọ̀kan sínú ìtàn.",
+  "batch.setupHint": "Àwọn ètò kan gbogbo àwòrán inú àkójọpọ̀ náà.",
+  "batch.addAria": "Fi àwòrán kún àkójọpọ̀",
+  "batch.drop": "Ju fọ́tò síbí tàbí tẹ̀ láti fi kún un",
+  "batch.stop": "Dúró",
+  "batch.analyze": "Ṣàyẹ̀wò",
+  "batch.retry": "Tún àwọn tó kùnà ṣe ({count})",
+  "batch.clear": "Pa rẹ́",
+  "batch.results": "Àwọn èsì",
+  "batch.empty": "Kò sí àwòrán kankan ní ìlà.",
+  "batch.processed": "A ti ṣe {finished} nínú {count}.",
+  "batch.meanConfidence": "Ìgbẹ́kẹ̀lé àròpín",
+  "batch.mean": "{metric} àròpín",
+  "batch.image": "Àwòrán",
+  "batch.confidence": "Ìgbẹ́kẹ̀lé",
+  "batch.failed": "Ó kùnà",
+
+  "compare.title": "Fi àwọn àyẹ̀wò wé ara wọn",
+  "compare.description":
+    "A ń fi àyẹ̀wò àkọ́kọ́ wé ìyàtọ̀. A ń ṣe ìdájọ́ àpẹẹrẹ kọ̀ọ̀kan pẹ̀lú ààlà àfojúsùn irúgbìn rẹ̀.",
+  "compare.pick": "Yan àyẹ̀wò {min}-{max} láti fi wé ara wọn.",
+  "compare.openHistory": "Ṣí ìtàn",
+  "compare.best": "Ó súnmọ́ ohun tó dára jù",
+  "compare.inBand": "Ìwọ̀n {passed} nínú {total} wà láàárín ààlà",
+  "compare.noBands": "Kò sí ìwọ̀n tó ní ààlà àfojúsùn",
+
+  "history.title": "Ìtàn àyẹ̀wò",
+  "history.description": "A tọ́jú àwọn àyẹ̀wò sórí ẹ̀rọ yìí. Ṣẹ́ wọn kí o sì tún ṣí èsì èyíkéyìí.",
+  "history.when": "Ìgbà wo",
+  "history.today": "Òní",
+  "history.week": "Ọjọ́ 7 tó kọjá",
+  "history.allTime": "Gbogbo ìgbà",
+  "history.type": "Irú",
+  "history.allTypes": "Gbogbo irú",
+  "history.allCrops": "Gbogbo irè oko",
+  "history.status": "Ipò",
+  "history.anyStatus": "Ipò èyíkéyìí",
+  "history.plot": "Oko / ìpín oko",
+  "history.search": "Wá",
+  "history.loadFailed": "A kò lè ṣí ìtàn tó wà lórí ẹ̀rọ",
+  "history.empty": "Kò sí àyẹ̀wò kankan síbẹ̀.",
+  "history.noMatch": "Kò sí àyẹ̀wò tó bá àwọn àṣẹ̀ yìí mu.",
+  "history.compareCount": "Fi {count} wé ara wọn",
+  "history.selectMore": "Yan ọ̀kan sí i láti fi wé",
+  "history.compare": "Fi wé",
+  "history.open": "Ṣí",
+  "history.plotLink": "Ìdá ilẹ̀",
+  "history.trends": "Ìtẹ̀síwájú",
+  "history.delete": "Pa àyẹ̀wò rẹ́",
+  "history.deleteFailed": "A kò lè pa àyẹ̀wò náà rẹ́",
+  "map.title": "Máàpù oko",
+  "map.description":
+    "Àwọn àyẹ̀wò àtẹ̀yìnwá, tí a gbé kalẹ̀ gẹ́gẹ́ bí ipò GPS tó wà nínú fọ́tò kọ̀ọ̀kan. Tẹ àmì kan láti tún un ṣí.",
+  "map.locations": "Ibi tí a ti ṣe àyẹ̀wò",
+  "map.located": "Àyẹ̀wò {located} nínú {count} ní ipò.",
+  "map.noGps": "Kò sí àyẹ̀wò tó ní GPS síbẹ̀. A máa gbé fọ́tò fóònù tí ipò rẹ̀ wà ní títàn kalẹ̀ fúnra rẹ̀.",
+
+  "calibrate.title": "Ìṣàtúnṣe ìdánilójú",
+  "calibrate.description":
+    "Fi àkójọ fọ́tò tí a ti sàmì sí ṣàyẹ̀wò kí o sì wò bóyá ìdánilójú tí a sọ bá iye ìgbà tí ipò náà tọ̀nà mu. Kò sí ohun tí a tọ́jú sínú ìtàn níbí.",
+  "calibrate.dataset": "Àkójọ dátà",
+  "calibrate.datasetHint":
+    "Yan àwọn àwòrán pẹ̀lú labels.csv tí àwọn ọ̀wọ̀n rẹ̀ jẹ́ file, type (soil tàbí crop), crop àti status (Good, Marginal tàbí Poor).",
+  "calibrate.files": "Àwọn fáìlì",
+  "calibrate.analyzer": "Ẹ̀rọ àyẹ̀wò (kò pọn dandan)",
+  "calibrate.serverDefault": "Àìyípadà sàfà",
+  "calibrate.ready": "Àwòrán {count} tí a sàmì sí ti ṣetán",
+  "calibrate.moreProblems": "…àti ìṣòro {count} mìíràn",
+  "calibrate.noLabels": "Fi fáìlì labels.csv kún àwọn àwòrán náà.",
+  "calibrate.notSelected": "{file}: ó wà nínú labels.csv ṣùgbọ́n a kò yàn án",
+  "calibrate.missingColumns": "Àwọn ọ̀wọ̀n kan kò sí nínú labels.csv: {columns}",
+  "calibrate.badType": "Ìlà {row}: a ń retí orúkọ fáìlì àti irú kan lára {types}",
+  "calibrate.badCrop": "Ìlà {row}: irè oko tí a kò mọ̀ “{crop}”",
+  "calibrate.badStatus": "Ìlà {row}: ipò gbọ́dọ̀ jẹ́ ọ̀kan lára {statuses}",
+  "calibrate.stop": "Dúró",
+  "calibrate.run": "Ṣe ìṣàtúnṣe",
+  "calibrate.reliability": "Ìgbẹ́kẹ̀lé",
+  "calibrate.reliabilityHint":
+    "Àwọn ọ̀pá fi hàn iye ìgbà tí àwọn àyẹ̀wò nínú ìpele ìdánilójú kọ̀ọ̀kan tọ̀nà; ìlà ìdábùú ni ìṣàtúnṣe pípé.",
+  "calibrate.empty": "Ṣe àkójọ dátà kan láti rí ìròyìn náà.",
+  "calibrate.accuracy": "Ìpéye",
+  "calibrate.meanConfidence": "Ìdánilójú àpapọ̀",
+  "calibrate.ece": "Àṣìṣe ìṣàtúnṣe",
+  "calibrate.brier": "Àmì Brier",
+  "calibrate.over": "Ìdánilójú ti pọ̀ jù: àwọn àyẹ̀wò sọ pé {claimed} ṣùgbọ́n wọ́n tọ̀nà ní {right} ìgbà.",
+  "calibrate.under": "Ìdánilójú kò tó: àwọn àyẹ̀wò tọ̀nà ní {right} ìgbà ṣùgbọ́n wọ́n sọ pé {claimed} nìkan.",
+  "calibrate.calibrated": "Ìdánilójú tí a sọ kò ju àmì 5 lọ sí ìpéye tí a rí.",
+  "calibrate.basedOn": "Ó dá lórí àyẹ̀wò {count}.",
+  "calibrate.bin": "Ìdánilójú {from}-{to}%",
+  "calibrate.binRight": "{share}% tọ̀nà nínú {count}",
+  "calibrate.confusion": "Àmì \\ Àsọtẹ́lẹ̀",
+  "calibrate.failed": "A kò lè ṣàyẹ̀wò àwòrán {count}",
+
+  "nav.newScan": "Àyẹ̀wò tuntun",
+  "nav.plots": "Àwọn ìdá ilẹ̀",
+  "farms.description":
+    "Àwọn oko, àwọn pápá wọn àti àwọn ìdá ilẹ̀ inú wọn, tí a fi pamọ́ sórí ẹ̀rọ yìí. So àyẹ̀wò mọ́ ìdá ilẹ̀ kan láti ojú-ìwé àyẹ̀wò láti tẹ̀lé e lórí ojú-ìwé ìdá ilẹ̀ náà.",
+  "farms.addFarm": "Fi oko kún",
+  "farms.addField": "Fi pápá kún",
+  "farms.addPlot": "Fi ìdá ilẹ̀ kún",
+  "farms.save": "Fi pamọ́",
+  "farms.edit": "Ṣàtúnṣe {name}",
+  "farms.delete": "Pa {name} rẹ́",
+  "farms.confirmDelete": "Pa {name} rẹ́? Àwọn àyẹ̀wò rẹ̀ yóò wà nínú ìtàn.",
+  "farms.confirmDeleteAll": "Pa {name} àti gbogbo ohun tó wà nínú rẹ̀ rẹ́? Àwọn àyẹ̀wò rẹ̀ yóò wà nínú ìtàn.",
+  "farms.saveFailed": "Kò ṣeé ṣe láti fi {name} pamọ́",
+  "farms.deleteFailed": "Kò ṣeé ṣe láti pa {name} rẹ́",
+  "farms.storageFailed": "Kò ṣeé ṣe láti ṣí ibi ìpamọ́ ẹ̀rọ",
+  "farms.none": "Kò sí oko kankan síbẹ̀.",
+  "land.noDetails": "Kò sí àlàyé kankan síbẹ̀",
+  "land.scanOne": "Àyẹ̀wò 1",
+  "land.scanMany": "Àyẹ̀wò {count}",
+  "land.name": "Orúkọ",
+  "land.area": "Ìwọ̀n ilẹ̀ ({unit})",
+  "land.soilType": "Irú ilẹ̀",
+  "land.crop": "Ohun ọ̀gbìn lọ́wọ́lọ́wọ́",
+  "land.notSet": "A kò tíì yàn",
+  "land.noCrop": "Kò sí",
+  "land.cancel": "Fagilé",
+  "soil.sand": "Iyanrìn",
+  "soil.loamy-sand": "Iyanrìn ẹlẹ́rẹ̀",
+  "soil.sandy-loam": "Ẹrẹ̀ oníyanrìn",
+  "soil.loam": "Ẹrẹ̀ ọlọ́ràá",
+  "soil.silt-loam": "Ẹrẹ̀ onírẹ̀wẹ̀sì",
+  "soil.silt": "Ẹrẹ̀ fẹ́lẹ́fẹ́lẹ́",
+  "soil.sandy-clay-loam": "Ẹrẹ̀ amọ̀ oníyanrìn",
+  "soil.clay-loam": "Ẹrẹ̀ amọ̀",
+  "soil.silty-clay-loam": "Ẹrẹ̀ amọ̀ fẹ́lẹ́fẹ́lẹ́",
+  "soil.sandy-clay": "Amọ̀ oníyanrìn",
+  "soil.silty-clay": "Amọ̀ fẹ́lẹ́fẹ́lẹ́",
+  "soil.clay": "Amọ̀",
+  "plot.title": "Ìdá ilẹ̀",
+  "plot.trendsTitle": "Ìtẹ̀síwájú ìdá ilẹ̀",
+  "plot.missing": "Ìdá ilẹ̀ yìí kò sí mọ́.",
+  "plot.intro": "Gbogbo ìwọ̀n oní-nọ́ńbà ìdá ilẹ̀ tí a dárúkọ lórí àkókò, láti rí bóyá àwọn àtúnṣe yí ilẹ̀ padà.",
+  "plot.trends":
+    "{scans} ti {crop|lower}. Àwọn ìlà aláwọ̀ ni ààlà tí a fẹ́ fún ohun ọ̀gbìn náà; àwọn ìlà onígbà ń fi àyípadà ipò hàn.",
+  "plot.none": "Kò sí ìdá ilẹ̀ tí a dárúkọ síbẹ̀. Tẹ orúkọ pápá tàbí ìdá ilẹ̀ nígbà àyẹ̀wò láti tẹ̀lé e lórí àkókò.",
+  "plot.notFound": "A kò rí àyẹ̀wò kankan fún “{plot}”.",
+  "plot.last": "èyí tó kẹ́yìn {date}",
+  "plot.area": "Ìwọ̀n ilẹ̀",
+  "plot.scans": "Àwọn àyẹ̀wò",
+  "plot.latest": "Ipò tuntun jùlọ",
+  "plot.latestDescription": "Àyẹ̀wò tuntun jùlọ ti irú kọ̀ọ̀kan.",
+  "plot.noScansAttach": "Kò sí àyẹ̀wò kankan síbẹ̀. So ọ̀kan mọ́ ìdá ilẹ̀ yìí láti ojú-ìwé àyẹ̀wò.",
+  "plot.open": "Àwọn ìmọ̀ràn tí ó kù",
+  "plot.openFrom": "Láti inú àyẹ̀wò {type|lower} ti {date}. Sàmì sí ọ̀kọ̀ọ̀kan pé ó ti parí nígbà tí a bá ti ṣe é.",
+  "plot.nothingOpen": "Kò sí nǹkan láti ṣe láti inú àwọn àyẹ̀wò tuntun.",
+  "plot.history": "Ìtàn àyẹ̀wò",
+  "plot.noScans": "Kò sí àyẹ̀wò kankan síbẹ̀.",
+  "plot.readingOne": "Kíkà 1",
+  "plot.readingMany": "Kíkà {count}",
+  "plot.statusChanges": "Àyípadà ipò",
+
+  "status.Good": "Dára",
+  "status.Marginal": "Ààlà",
+  "status.Poor": "Kò dára",
+  "value.Low": "Kéré",
+  "value.Moderate": "Àárín",
+  "value.High": "Ga",
+
+  "crop.tomato": "Tòmátì",
+  "crop.yam": "Iṣu",
+  "crop.potato": "Ànàmọ́ òyìnbó",
+  "crop.onions": "Àlùbọ́sà",
+
+  "conditions.care": "Ìtọ́jú àti ìdènà",
+  "conditions.treatment": "Ìtọ́jú",
+  "conditions.prevention": "Ìdènà",
+  "disease.healthy": "Ní ìlera",
+  "disease.early-blight": "Àrùn ewé àkọ́kọ́",
+  "disease.early-blight.treatment.1":
+    "Yọ àwọn ewé ìsàlẹ̀ tí ó ní òrùka àwọ̀ ilẹ̀ bí àmì ìfojúsùn kúrò kí o sì pa wọ́n run.",
+  "disease.early-blight.treatment.2":
+    "Fín oògùn olùdáàbòbò ẹ̀fun (mancozeb tàbí chlorothalonil) ní gbogbo ọjọ́ 7-10 nígbà tí ojú ọjọ́ bá ṣì tutù.",
+  "disease.early-blight.prevention.1": "Má gbin tòmátì, ànàmọ́ ilẹ̀ òkèèrè tàbí ata síbẹ̀ fún ó kéré tán àsìkò 2.",
+  "disease.early-blight.prevention.2": "Fi ewéko bo ilẹ̀ kí o sì bomi sí ìdí rẹ̀ kí ilẹ̀ má bàa ta sí ewé.",
+  "disease.late-blight": "Àrùn ewé ìkẹyìn",
+  "disease.late-blight.treatment.1":
+    "Yọ àwọn ohun ọ̀gbìn tí àrùn mú kúrò lẹ́sẹ̀kẹsẹ̀ kí o sì sin wọ́n tàbí sun wọ́n; àrùn náà ń tàn kálẹ̀ láàárín ọjọ́ díẹ̀.",
+  "disease.late-blight.treatment.2":
+    "Fín oògùn ẹ̀fun tí ń wọ inú ohun ọ̀gbìn (metalaxyl + mancozeb) sí àwọn ohun ọ̀gbìn tí ó yí i ká.",
+  "disease.late-blight.prevention.1": "Gbin irúgbìn tàbí ẹ̀ka tí a fọwọ́ sí pé kò ní àrùn.",
+  "disease.late-blight.prevention.2":
+    "Fi àyè sílẹ̀ láàárín àwọn ohun ọ̀gbìn kí afẹ́fẹ́ lè kọjá, má sì bomi rin láti òkè ní ìrọ̀lẹ́.",
+  "disease.bacterial-wilt": "Àrùn kíkú bakitéríà",
+  "disease.bacterial-wilt.treatment.1":
+    "Fa àwọn ohun ọ̀gbìn tí ó ti rọ tu pẹ̀lú ilẹ̀ tí ó yí wọn ká kí o sì gbé wọn kúrò nínú oko.",
+  "disease.bacterial-wilt.treatment.2":
+    "Kò sí oògùn tí ń wò ó sàn; pa kòkòrò ara irinṣẹ́ lẹ́yìn tí o bá fọwọ́ kan ohun ọ̀gbìn tí àrùn mú.",
+  "disease.bacterial-wilt.prevention.1": "Gbin ọkà tàbí koríko síbẹ̀ fún ọdún mẹ́ta tàbí jù bẹ́ẹ̀ lọ.",
+  "disease.bacterial-wilt.prevention.2": "Lo àwọn irú tí ó le kojú àrùn kí o sì yẹra fún oko tí omi ti kún.",
+  "disease.fusarium-wilt": "Àrùn kíkú fusarium",
+  "disease.fusarium-wilt.treatment.1": "Yọ àwọn ohun ọ̀gbìn tí àrùn kàn kúrò pẹ̀lú gbòǹgbò wọn.",
+  "disease.fusarium-wilt.treatment.2":
+    "Bomi oògùn àdánidá (Trichoderma) sí àwọn ohun ọ̀gbìn tí ó kù láti dín ìtànkálẹ̀ kù.",
+  "disease.fusarium-wilt.prevention.1": "Gbin àwọn irú tí ó le kojú àrùn (tí a sàmì sí F).",
+  "disease.fusarium-wilt.prevention.2": "Gbé pH ilẹ̀ sókè sí 6.5-7.0 kí o sì yẹra fún náítírójìn tí ó pọ̀ jù.",
+  "disease.bacterial-spot": "Àbàwọ́n bakitéríà",
+  "disease.bacterial-spot.treatment.1": "Lo oògùn bakitéríà oní-kọ́pà ní àmì àkọ́kọ́.",
+  "disease.bacterial-spot.treatment.2": "Yọ àwọn ewé àti èso tí àbàwọ́n ti pọ̀ sí kúrò.",
+  "disease.bacterial-spot.prevention.1": "Lo irúgbìn àti ẹ̀ka tí ó mọ́.",
+  "disease.bacterial-spot.prevention.2": "Yẹra fún ṣíṣiṣẹ́ láàárín ohun ọ̀gbìn tí ó tutù.",
+  "disease.anthracnose": "Àrùn anthracnose",
+  "disease.anthracnose.treatment.1":
+    "Gé àwọn ìtàkùn tí ó ní àbàwọ́n dúdú lórí ewé àti tí ń kú láti orí kí o sì sun wọ́n.",
+  "disease.anthracnose.treatment.2": "Fín mancozeb tàbí oògùn ẹ̀fun oní-kọ́pà ní gbogbo ọ̀sẹ̀ 2 nígbà òjò.",
+  "disease.anthracnose.prevention.1": "Gbin èso iṣu tí ó ní ìlera láti inú oko tí ó mọ́.",
+  "disease.anthracnose.prevention.2":
+    "Lo àwọn irú tí ó le fara dà á kí o sì fi igi gbé ìtàkùn sókè kí afẹ́fẹ́ lè kọjá.",
+  "disease.yam-mosaic": "Fáírọ́ọ̀sì mosaic iṣu",
+  "disease.yam-mosaic.treatment.1":
+    "Fa àwọn ohun ọ̀gbìn tí ewé wọn ní àpẹẹrẹ mosaic tàbí tí ó ti wọ́ tu; kò sí ìwòsàn fún fáírọ́ọ̀sì náà.",
+  "disease.yam-mosaic.prevention.1": "Lo iṣu irúgbìn tí kò ní fáírọ́ọ̀sì.",
+  "disease.yam-mosaic.prevention.2": "Ṣàkóso àwọn kòkòrò aphid tí ń gbé e kiri kí o sì yọ iṣu tí ó hù fúnra rẹ̀ kúrò.",
+  "disease.dry-rot": "Ìjẹrà gbígbẹ",
+  "disease.dry-rot.treatment.1":
+    "Da àwọn iṣu tí ń jẹrà nù; gé àwọn ọgbẹ́ kékeré kúrò kí o sì fi eérú igi wọ́n ọn kí o tó tọ́jú rẹ̀.",
+  "disease.dry-rot.prevention.1": "Yẹra fún ṣíṣe iṣu léṣe nígbà ìkórè.",
+  "disease.dry-rot.prevention.2": "Tọ́jú rẹ̀ sínú abà tí ó tutù tí afẹ́fẹ́ sì ń wọ̀.",
+  "disease.common-scab": "Ẹ̀yìn kíkan",
+  "disease.common-scab.treatment.1": "Jẹ́ kí ilẹ̀ tutù dọ́gba nígbà tí èso ń ṣẹ̀ṣẹ̀ dá láti dín ẹ̀yìn kíkan kù.",
+  "disease.common-scab.prevention.1":
+    "Jẹ́ kí pH wà nísàlẹ̀ 5.5 kí o sì yẹra fún ìgbẹ́ ẹran tuntun tàbí ẹfun kí o tó gbin ànàmọ́ ilẹ̀ òkèèrè.",
+  "disease.common-scab.prevention.2": "Gbin irúgbìn tí kò ní ẹ̀yìn kíkan.",
+  "disease.purple-blotch": "Àbàwọ́n àlùkò",
+  "disease.purple-blotch.treatment.1": "Fín mancozeb tàbí iprodione ní gbogbo ọjọ́ 10 nígbà tí ọgbẹ́ bá ti farahàn.",
+  "disease.purple-blotch.prevention.1": "Má gbin àlùbọ́sà tàbí aáyù síbẹ̀ fún ọdún mẹ́ta.",
+  "disease.purple-blotch.prevention.2": "Yẹra fún gbígbin pọ̀ jù àti ewé tí ìrì ti mú tutù.",
+  "disease.downy-mildew": "Ẹ̀fun onírun",
+  "disease.downy-mildew.treatment.1": "Lo oògùn ẹ̀fun oní-metalaxyl kí o sì yọ àwọn ewé tí àrùn mú kúrò.",
+  "disease.downy-mildew.prevention.1": "Gbin sínú ebè tí omi ń ṣàn dáadáa tí oòrùn sì ń tàn sí.",
+  "disease.downy-mildew.prevention.2": "Pa àwọn àkúkù ohun ọ̀gbìn run lẹ́yìn ìkórè.",
+  "disease.white-rot": "Ìjẹrà funfun",
+  "disease.white-rot.treatment.1":
+    "Hú àwọn ìdí àlùbọ́sà tí àrùn kàn jáde pẹ̀lú ilẹ̀ tí ó yí wọn ká kí o sì pa wọ́n run.",
+  "disease.white-rot.prevention.1": "Má gbin àwọn irú àlùbọ́sà sínú oko tí àrùn ti wọ̀ fún ọ̀pọ̀lọpọ̀ ọdún.",
+  "disease.white-rot.prevention.2": "Fọ irinṣẹ́ àti bàtà láàárín oko kan sí òmíràn.",
+
+  "metric.moisture": "Ọ̀rinrin",
+  "metric.organicMatter": "Ohun alààyè inú ilẹ̀",
+  "metric.organicCarbon": "Kábọ́ọ̀nù alààyè",
+  "metric.munsell": "Àwọ̀ Munsell",
+  "metric.brightness": "Ìmọ́lẹ̀ (L*)",
+  "metric.nitrogen": "Náítírójìn (N)",
+  "metric.phosphorus": "Fọ́sífọ́rọ́sì (P)",
+  "metric.potassium": "Potásíọ̀mù (K)",
+  "metric.healthIndex": "Atọ́ka ìlera",
+  "metric.diseaseRisk": "Ewu àìsàn",
+  "metric.canopyCover": "Ìbòrí ewé",
+  "metric.stressedArea": "Agbègbè tí ó ń jìyà",
+  "metric.leafMoisture": "Ọ̀rinrin ewé/ilẹ̀",
+  "metric.crop": "Ohun ọ̀gbìn",
+
+  "rule.moisture": "ọ̀rinrin",
+  "rule.organic-matter": "ohun alààyè inú ilẹ̀",
+  "rule.nitrogen": "náítírójìn",
+  "rule.phosphorus": "fọ́sífọ́rọ́sì",
+  "rule.potassium": "potásíọ̀mù",
+  "rule.salinity": "iyọ̀ (EC)",
+  "rule.below": "{label|cap} {value} kéré sí ìwọ̀n {min}-{max} fún {crop|lower}.",
+  "rule.above": "{label|cap} {value} ju ìwọ̀n {min}-{max} lọ fún {crop|lower}.",
+
+  "notes.noChecks": "Kò sí ìwọ̀n ilẹ̀ kankan tí a lè fi wé ohun tí {crop|lower} nílò.",
+  "notes.allGood": "Gbogbo ìwọ̀n ilẹ̀ {count} tí a ṣàyẹ̀wò wà nínú ààlà fún {crop|lower}.",
+  "notes.outOfRange": "{status} fún {crop|lower}: {metrics} wà ní ìta ààlà tí a dámọ̀ràn.",
+  "notes.soilColour":
+    "Àwọ̀ {munsell} (bíi ti Munsell) ni àárín {coverage}% àwọn píkísẹ́lì lẹ́yìn tí a yọ dídán, òjìji àti ewéko kúrò.",
+  "notes.soilMoisture": "A fojú díwọ̀n ọ̀rinrin láti inú {share}% àwọn píkísẹ́lì ilẹ̀ tí ó ṣókùnkùn ju L* 35 lọ.",
+  "notes.soilMethod":
+    "Ohun alààyè inú ilẹ̀ tẹ̀lé iye Munsell (ilẹ̀ dúdú ní ìlẹ̀dú púpọ̀); pH jẹ́ ìfojúdíwọ̀n láti inú àwọ̀.",
+  "notes.cropHealthy": "{crop} dàbí ẹni pé ó ní ìlera. Máa tọ́jú rẹ̀ bí o ti ń ṣe.",
+  "notes.cropStressed":
+    "{crop} ń fi àmì ìnira hàn lórí {share}% àwọn ewé. Yẹ àwọn ibi tí a sàmì sí wò, kí o sì ṣàtúnṣe omi tàbí ajílẹ̀.",
+  "notes.cropStressedDemo": "{crop} ń fi àmì ìnira hàn. Yẹ àwọn ewé wò, kí o sì ṣàtúnṣe omi tàbí ajílẹ̀.",
+  "notes.cropSuspect": "Àmì ewé jọ {condition|lower} jù; fìdí rẹ̀ múlẹ̀ nínú oko kí o tó tọ́jú rẹ̀.",
+  "notes.cropMethod":
+    "Atọ́ka ìlera da Green Leaf Index àti VARI pọ̀ lórí àwọn píkísẹ́lì ewéko; máàpù ooru fi ibi tí ìnira wà hàn.",
+  "notes.classified": "A pín in sí {name}.",
+  "notes.labSource": "Àwọn iye tí a gbà láti inú àyẹ̀wò ilẹ̀ ilé-ìwádìí.",
+  "notes.labReplaces": "Àwọn iye ilé-ìwádìí rọ́pò ìfojúdíwọ̀n àwòrán fún {metrics}; àwọn ìwọ̀n yòókù wá láti inú àwòrán.",
+  "notes.labCombined": "Ó da àwọn iye ilé-ìwádìí pọ̀ mọ́ ìwọ̀n tí a mú láti inú àwòrán.",
+
+  "nutrient.n": "náítírójìn",
+  "nutrient.p2o5": "fọ́sífọ́rọ́sì",
+  "nutrient.k2o": "potásíọ̀mù",
+  "rec.lime": "Fi ẹfun oko sí i",
+  "rec.lime.reason": "Gbé pH sókè láti {ph} sí nǹkan bí {target} fún {crop|lower}. Dà á pọ̀ mọ́ ilẹ̀ ní oṣù 2-3 ṣáájú gbígbìn.",
+  "rec.sulfur": "Fi imí ọjọ́ sí i",
+  "rec.sulfur.reason": "Dín pH kù láti {ph} sí nǹkan bí {target} fún {crop|lower}. Pín ìwọ̀n ńlá sí àsìkò mélòó kan.",
+  "rec.nutrient": "Fi {rate} {name} sí i",
+  "rec.nutrient.untested": "Kò sí iye àyẹ̀wò ilẹ̀ fún {nutrient}; ìwọ̀n gbogbogbò fún {crop|lower}.",
+  "rec.nutrient.reason": "{nutrient|cap} inú ilẹ̀ jẹ́ {value}, àfojúsùn sì jẹ́ {min}-{max}.",
+  "rec.compost": "Fi ohun alààyè kún ilẹ̀",
+  "rec.compost.reason": "Ohun alààyè jẹ́ {value}%; fífi kún un mú kí ilẹ̀ di omi àti oúnjẹ ewéko mú dáadáa.",
+  "rec.irrigate": "Bomi rin ṣáájú gbígbìn",
+  "rec.irrigate.reason": "Ọ̀rinrin {value}% kéré sí ìwọ̀n {min}-{max}% fún {crop|lower}.",
+  "rec.drain": "Mú ọ̀nà omi dára sí i",
+  "rec.drain.reason": "Ọ̀rinrin {value}% ju ìwọ̀n {min}-{max}% lọ; lo ebè tàbí òkìtì.",
+}
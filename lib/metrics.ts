@@ -0,0 +1,130 @@
+import { convert, type MetricUnit, type Unit } from "@/lib/units"
+import type { AnalysisResult, MetricValue, Metrics, NumericMetric, TextMetric } from "@/lib/types"
+
+// English names of the metrics analyzers and lab entry report, by id. Other languages translate
+// them under `metric.<id>`. Ids not listed here, like model class names, are shown as they are.
+export const METRIC_LABELS = {
+  ph: "pH",
+  moisture: "Moisture",
+  organicMatter: "Organic Matter",
+  organicCarbon: "Organic Carbon",
+  munsell: "Munsell Color",
+  brightness: "Brightness (L*)",
+  nitrogen: "Nitrogen (N)",
+  phosphorus: "Phosphorus (P)",
+  potassium: "Potassium (K)",
+  ec: "EC",
+  cec: "CEC",
+  healthIndex: "Health Index",
+  diseaseRisk: "Disease Risk",
+  canopyCover: "Canopy Cover",
+  stressedArea: "Stressed Area",
+  leafMoisture: "Leaf/Soil Moisture",
+  exg: "ExG",
+  vari: "VARI",
+  gli: "GLI",
+  crop: "Crop",
+  class: "Class",
+} satisfies Record<string, string>
+
+export type MetricId = keyof typeof METRIC_LABELS
+
+export function quantity(value: number, unit?: MetricUnit): NumericMetric {
+  return unit ? { value, unit } : { value }
+}
+
+export function category(value: string): TextMetric {
+  return { value }
+}
+
+export function isNumericMetric(metric: MetricValue | undefined): metric is NumericMetric {
+  return typeof metric?.value === "number"
+}
+
+export function metricLabel(id: string): string {
+  return METRIC_LABELS[id as MetricId] ?? id
+}
+
+// Column heading for exports, e.g. "Moisture (%)".
+export function metricHeading(id: string, unit?: Unit): string {
+  return unit ? `${metricLabel(id)} (${unit})` : metricLabel(id)
+}
+
+// A numeric metric, converted to `unit` when one is asked for and the metric carries one.
+export function metricNumber(metrics: Metrics, id: string, unit?: MetricUnit): number | undefined {
+  const metric = metrics[id]
+  if (!isNumericMetric(metric)) return undefined
+  return unit && metric.unit ? convert(metric.value, metric.unit, unit) : metric.value
+}
+
+// Results saved before metrics had ids were keyed by their label with the unit in brackets.
+const LEGACY_IDS: Record<string, MetricId> = {
+  pH: "ph",
+  "Moisture (%)": "moisture",
+  "Organic Matter (%)": "organicMatter",
+  "Organic Carbon (%)": "organicCarbon",
+  "Munsell Color": "munsell",
+  "Brightness (L*)": "brightness",
+  "Nitrogen (N)": "nitrogen",
+  "Phosphorus (P)": "phosphorus",
+  "Potassium (K)": "potassium",
+  "EC (dS/m)": "ec",
+  "CEC (cmol/kg)": "cec",
+  "Health Index": "healthIndex",
+  "Disease Risk": "diseaseRisk",
+  "Canopy Cover (%)": "canopyCover",
+  "Stressed Area (%)": "stressedArea",
+  "Leaf/Soil Moisture (%)": "leafMoisture",
+  ExG: "exg",
+  VARI: "vari",
+  GLI: "gli",
+  Crop: "crop",
+  Class: "class",
+}
+
+const LEGACY_UNITS: Partial<Record<string, MetricUnit>> = {
+  moisture: "%",
+  organicMatter: "%",
+  organicCarbon: "%",
+  nitrogen: "mg/kg",
+  phosphorus: "mg/kg",
+  potassium: "mg/kg",
+  ec: "dS/m",
+  cec: "cmol/kg",
+  canopyCover: "%",
+  stressedArea: "%",
+  leafMoisture: "%",
+}
+
+export function fromLegacyMetrics(legacy: Record<string, string | number>): Metrics {
+  const metrics: Metrics = {}
+  for (const [key, value] of Object.entries(legacy)) {
+    const id = LEGACY_IDS[key]
+    // Model class probabilities were "<class> (%)"
+    const probability = id ? undefined : /^(.+) \(%\)$/.exec(key)?.[1]
+    if (typeof value === "string") metrics[id ?? key] = category(value)
+    else if (probability) metrics[probability] = quantity(value, "%")
+    else metrics[id ?? key] = quantity(value, id && LEGACY_UNITS[id])
+  }
+  return metrics
+}
+
+// Brings a stored result with label-keyed metrics up to date, along with its rule checks and zones.
+export function upgradeLegacyResult(result: AnalysisResult): AnalysisResult {
+  const legacy = result.metrics as Record<string, unknown>
+  if (Object.values(legacy).every((v) => typeof v === "object")) return result
+  const id = (metric: string) => LEGACY_IDS[metric] ?? metric
+  const { evaluation, zones } = result
+  return {
+    ...result,
+    metrics: fromLegacyMetrics(legacy as Record<string, string | number>),
+    ...(evaluation && {
+      evaluation: {
+        ...evaluation,
+        checks: evaluation.checks.map((c) => ({ ...c, metric: id(c.metric), unit: LEGACY_UNITS[id(c.metric)] })),
+        fired: evaluation.fired.map((f) => ({ ...f, metric: id(f.metric) })),
+      },
+    }),
+    ...(zones && { zones: zones.map((z) => ({ ...z, result: upgradeLegacyResult(z.result) })) }),
+  }
+}
@@ -0,0 +1,34 @@
+import type { ScanRequest } from "@/lib/api"
+import { QUEUE_STORE, request } from "@/lib/db"
+import type { QualityIssue } from "@/lib/types"
+
+// A scan captured without a connection, kept with its original image until it can be analyzed.
+export type QueuedScan = ScanRequest & {
+  id: string
+  queuedAt: number
+  plot?: string
+  plotId?: string
+  // Photo quality warnings found when it was taken
+  quality?: QualityIssue[]
+  // Last failure that was not a lost connection, e.g. an image the API rejected
+  error?: string
+}
+
+export async function enqueueScan(scan: Omit<QueuedScan, "id" | "queuedAt">): Promise<QueuedScan> {
+  const queued: QueuedScan = { id: crypto.randomUUID(), queuedAt: Date.now(), ...scan }
+  await request(QUEUE_STORE, "readwrite", (s) => s.put(queued))
+  return queued
+}
+
+export async function updateQueued(scan: QueuedScan): Promise<void> {
+  await request(QUEUE_STORE, "readwrite", (s) => s.put(scan))
+}
+
+// Oldest first, the order they are processed in.
+export function listQueued(): Promise<QueuedScan[]> {
+  return request(QUEUE_STORE, "readonly", (s) => s.index("queuedAt").getAll() as IDBRequest<QueuedScan[]>)
+}
+
+export async function removeQueued(id: string): Promise<void> {
+  await request(QUEUE_STORE, "readwrite", (s) => s.delete(id))
+}
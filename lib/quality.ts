@@ -0,0 +1,173 @@
+import { MAX_IMAGE_BYTES } from "@/lib/api"
+import { labToLch, rgbToLab } from "@/lib/color"
+import { formatText, localized } from "@/lib/i18n"
+import type { RasterImage } from "@/lib/image"
+import type { ImageAnalysisType, LocalizedText, QualityIssue } from "@/lib/types"
+import { isPlant } from "@/lib/vegetation"
+
+export type QualityReport = {
+  issues: QualityIssue[]
+  // Variance of the Laplacian of luma at analysis size; low means little fine detail
+  sharpness: number
+  // Mean luma, 0-255
+  brightness: number
+  // Share of near-black and near-white pixels
+  darkClipped: number
+  brightClipped: number
+  // Share of pixels that look like the subject: soil for soil scans, plants for crop scans
+  subjectShare: number
+}
+
+// Longest side the browser decodes to before checking, matching the pixel analyzer.
+const ANALYSIS_SIDE = 512
+// Shortest side of the original photo, px.
+const MIN_SIDE = 320
+const GOOD_SIDE = 640
+// Smaller than this and JPEG artefacts start to dominate fine texture.
+const MIN_BYTES = 20 * 1024
+// Laplacian variance on the 512px analysis image. Bare soil is low-texture, so only clearly
+// soft photos are rejected.
+const BLUR_ERROR = 15
+const BLUR_WARNING = 50
+const SUBJECT_ERROR = { soil: 0.25, crop: 0.05 }
+const SUBJECT_WARNING = { soil: 0.5, crop: 0.15 }
+
+function luma(data: Uint8ClampedArray, i: number): number {
+  return 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]
+}
+
+// Earthy colours: reds through yellows at moderate chroma, or near-neutral greys.
+function isSoil(r: number, g: number, b: number): boolean {
+  if (isPlant(r, g, b)) return false
+  const lab = rgbToLab(r, g, b)
+  if (lab.L < 8 || lab.L > 92) return false
+  const { C, h } = labToLch(lab)
+  return C < 12 || (C <= 50 && h >= 15 && h <= 110)
+}
+
+// Fine detail of the photo: the variance of the Laplacian of luma over its opaque pixels.
+export function laplacianVariance({ width, height, data }: RasterImage): number {
+  let sum = 0
+  let sumSq = 0
+  let n = 0
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = (y * width + x) * 4
+      const row = width * 4
+      // The edge of a cropped zone's transparent padding would read as a sharp line
+      if (!data[i + 3] || !data[i - 1] || !data[i + 7] || !data[i - row + 3] || !data[i + row + 3]) continue
+      const v = luma(data, i - 4) + luma(data, i + 4) + luma(data, i - row) + luma(data, i + row) - 4 * luma(data, i)
+      sum += v
+      sumSq += v * v
+      n++
+    }
+  }
+  if (n === 0) return 0
+  const mean = sum / n
+  return sumSq / n - mean * mean
+}
+
+// Checks a photo before analysis. `img` is the decoded analysis-size raster; `original`
+// describes the uploaded file, since resolution and size are judged on that.
+export function assessImageQuality(
+  img: RasterImage,
+  original: { width: number; height: number; bytes: number },
+  kind: ImageAnalysisType,
+): QualityReport {
+  const { data } = img
+  let total = 0
+  let lumaSum = 0
+  let dark = 0
+  let bright = 0
+  let subject = 0
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) continue
+    total++
+    const y = luma(data, i)
+    lumaSum += y
+    if (y <= 8) dark++
+    if (y >= 247) bright++
+    const r = data[i]
+    const g = data[i + 1]
+    const b = data[i + 2]
+    if (kind === "soil" ? isSoil(r, g, b) : isPlant(r, g, b)) subject++
+  }
+
+  const report: QualityReport = {
+    issues: [],
+    sharpness: Math.round(laplacianVariance(img)),
+    brightness: Math.round(lumaSum / (total || 1)),
+    darkClipped: dark / (total || 1),
+    brightClipped: bright / (total || 1),
+    subjectShare: subject / (total || 1),
+  }
+  const issue = (id: QualityIssue["id"], severity: QualityIssue["severity"], text: LocalizedText) =>
+    report.issues.push({ id, severity, message: formatText("en", text), messageText: text })
+
+  const side = Math.min(original.width, original.height)
+  const size = `${original.width}×${original.height}px`
+  if (side < MIN_SIDE) {
+    issue("resolution", "error", localized("quality.resolution.error", { size, min: MIN_SIDE }))
+  } else if (side < GOOD_SIDE) {
+    issue("resolution", "warning", localized("quality.resolution.warning", { size, good: GOOD_SIDE }))
+  }
+
+  if (original.bytes > MAX_IMAGE_BYTES) {
+    issue("file-size", "error", localized("quality.fileSize.error", { max: MAX_IMAGE_BYTES / 1024 / 1024 }))
+  } else if (original.bytes < MIN_BYTES) {
+    issue("file-size", "warning", localized("quality.fileSize.warning"))
+  }
+
+  if (report.sharpness < BLUR_ERROR) {
+    issue("blur", "error", localized("quality.blur.error"))
+  } else if (report.sharpness < BLUR_WARNING) {
+    issue("blur", "warning", localized("quality.blur.warning"))
+  }
+
+  if (report.brightness < 40) {
+    issue("too-dark", "error", localized("quality.tooDark"))
+  } else if (report.brightness > 225) {
+    issue("too-bright", "error", localized("quality.tooBright"))
+  } else if (report.darkClipped > 0.25 || report.brightClipped > 0.15) {
+    issue("clipped", "warning", localized("quality.clipped"))
+  }
+
+  const share = Math.round(report.subjectShare * 100)
+  const subjectName = localized(kind === "soil" ? "quality.subject.soil" : "quality.subject.crop")
+  if (report.subjectShare < SUBJECT_ERROR[kind]) {
+    issue("content", "error", localized("quality.content.error", { share, subject: subjectName }))
+  } else if (report.subjectShare < SUBJECT_WARNING[kind]) {
+    issue("content", "warning", localized("quality.content.warning", { share, subject: subjectName }))
+  }
+
+  return report
+}
+
+export function hasBlockingIssues(issues: QualityIssue[]): boolean {
+  return issues.some((i) => i.severity === "error")
+}
+
+// Browser-side decode of an upload at analysis size, like the server does. Uses an
+// OffscreenCanvas so it also runs inside the scan worker.
+export async function decodeAnalysisImage(
+  image: Blob,
+): Promise<{ raster: RasterImage; original: { width: number; height: number; bytes: number } }> {
+  const bitmap = await createImageBitmap(image)
+  const original = { width: bitmap.width, height: bitmap.height, bytes: image.size }
+  const scale = Math.min(1, ANALYSIS_SIDE / Math.max(bitmap.width, bitmap.height))
+  const canvas = new OffscreenCanvas(
+    Math.max(1, Math.round(bitmap.width * scale)),
+    Math.max(1, Math.round(bitmap.height * scale)),
+  )
+  const ctx = canvas.getContext("2d", { willReadFrequently: true })
+  if (!ctx) throw new Error("Canvas is not available")
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height)
+  bitmap.close()
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height)
+  return { raster: { width: canvas.width, height: canvas.height, data }, original }
+}
+
+export async function checkImageQuality(image: Blob, kind: ImageAnalysisType): Promise<QualityReport> {
+  const { raster, original } = await decodeAnalysisImage(image)
+  return assessImageQuality(raster, original, kind)
+}
@@ -0,0 +1,161 @@
+import { getCrop, type Range } from "@/lib/crops"
+import { cropName, formatText, localized } from "@/lib/i18n"
+import { metricNumber } from "@/lib/metrics"
+import type { CropType, LocalizedText, Metrics, Recommendation } from "@/lib/types"
+
+type Fertilizer = { name: string; grade: [number, number, number] }
+
+// Straight fertilizers, one per nutrient, so each rate can be read off on its own.
+export const FERTILIZERS = {
+  n: { name: "Urea", grade: [46, 0, 0] },
+  p2o5: { name: "Single superphosphate", grade: [0, 18, 0] },
+  k2o: { name: "Muriate of potash", grade: [0, 0, 60] },
+} satisfies Record<string, Fertilizer>
+
+// Agricultural lime (CaCO3) to raise a medium loam by one pH unit, kg/ha.
+const LIME_PER_PH_UNIT = 2500
+// Elemental sulfur to lower a medium loam by one pH unit, kg/ha.
+const SULFUR_PER_PH_UNIT = 900
+const COMPOST_RATE = 5000
+
+function gradeLabel({ name, grade }: Fertilizer): string {
+  return `${name} (${grade.join("-")})`
+}
+
+// Share of the crop's full rate to apply for a given soil test value: up to 1.5x when
+// deficient, tapering to 0.3x at the top of the range and nothing above it.
+function rateFactor(value: number | undefined, { min, max }: Range): number {
+  if (value === undefined) return 1
+  if (value < min) return 1 + 0.5 * Math.min(1, (min - value) / min)
+  if (value <= max) return 1 - (0.7 * (value - min)) / (max - min || 1)
+  return 0
+}
+
+// English action and reason, plus their keys for other languages.
+function worded(
+  action: LocalizedText,
+  reason: LocalizedText,
+): Pick<Recommendation, "action" | "reason" | "actionText" | "reasonText"> {
+  return { action: formatText("en", action), reason: formatText("en", reason), actionText: action, reasonText: reason }
+}
+
+export function recommend(metrics: Metrics, crop: CropType): Recommendation[] {
+  const profile = getCrop(crop)
+  const label = cropName(crop)
+  const out: Recommendation[] = []
+
+  const ph = metricNumber(metrics, "ph")
+  if (ph !== undefined) {
+    const target = (profile.ph.min + profile.ph.max) / 2
+    if (ph < profile.ph.min) {
+      out.push({
+        id: "lime",
+        product: "Agricultural lime (CaCO3)",
+        rate: roundTo((target - ph) * LIME_PER_PH_UNIT, 50),
+        ...worded(
+          localized("rec.lime"),
+          localized("rec.lime.reason", { ph, target: Number(target.toFixed(1)), crop: label }),
+        ),
+      })
+    } else if (ph > profile.ph.max) {
+      out.push({
+        id: "sulfur",
+        product: "Elemental sulfur (90% S)",
+        rate: roundTo((ph - target) * SULFUR_PER_PH_UNIT, 50),
+        ...worded(
+          localized("rec.sulfur"),
+          localized("rec.sulfur.reason", { ph, target: Number(target.toFixed(1)), crop: label }),
+        ),
+      })
+    }
+  }
+
+  const nutrients = [
+    {
+      key: "n",
+      metric: "nitrogen",
+      range: profile.nutrients.n,
+      demand: profile.demand.n,
+      name: "N",
+    },
+    {
+      key: "p2o5",
+      metric: "phosphorus",
+      range: profile.nutrients.p,
+      demand: profile.demand.p2o5,
+      name: "P2O5",
+    },
+    {
+      key: "k2o",
+      metric: "potassium",
+      range: profile.nutrients.k,
+      demand: profile.demand.k2o,
+      name: "K2O",
+    },
+  ] as const
+
+  nutrients.forEach(({ key, metric, range, demand, name }, gradeIndex) => {
+    const value = metricNumber(metrics, metric, "mg/kg")
+    const nutrientRate = Math.round(demand * rateFactor(value, range))
+    if (nutrientRate === 0) return
+    const fertilizer = FERTILIZERS[key]
+    const share = fertilizer.grade[gradeIndex] / 100
+    out.push({
+      id: key,
+      product: gradeLabel(fertilizer),
+      rate: roundTo(nutrientRate / share, 5),
+      nutrient: { name, rate: nutrientRate },
+      ...worded(
+        localized("rec.nutrient", { rate: { value: nutrientRate, unit: "kg/ha" }, name }),
+        value === undefined
+          ? localized("rec.nutrient.untested", { nutrient: localized(`nutrient.${key}`), crop: label })
+          : localized("rec.nutrient.reason", {
+              nutrient: localized(`nutrient.${key}`),
+              value: { value, unit: "mg/kg" },
+              min: range.min,
+              max: range.max,
+            }),
+      ),
+    })
+  })
+
+  const organicMatter = metricNumber(metrics, "organicMatter", "%")
+  if (organicMatter !== undefined && organicMatter < 2) {
+    out.push({
+      id: "compost",
+      product: "Compost or well-rotted manure",
+      rate: COMPOST_RATE,
+      ...worded(localized("rec.compost"), localized("rec.compost.reason", { value: organicMatter })),
+    })
+  }
+
+  const moisture = metricNumber(metrics, "moisture", "%")
+  if (moisture !== undefined && moisture < profile.moisture.min) {
+    out.push({
+      id: "irrigate",
+      ...worded(
+        localized("rec.irrigate"),
+        localized("rec.irrigate.reason", {
+          value: moisture,
+          min: profile.moisture.min,
+          max: profile.moisture.max,
+          crop: label,
+        }),
+      ),
+    })
+  } else if (moisture !== undefined && moisture > profile.moisture.max) {
+    out.push({
+      id: "drain",
+      ...worded(
+        localized("rec.drain"),
+        localized("rec.drain.reason", { value: moisture, min: profile.moisture.min, max: profile.moisture.max }),
+      ),
+    })
+  }
+
+  return out
+}
+
+function roundTo(v: number, step: number): number {
+  return Math.round(v / step) * step
+}
@@ -0,0 +1,128 @@
+import { UnusableImageError } from "@/lib/analyzers/errors"
+import { requestAnalysis } from "@/lib/api"
+import { applyQualityPenalty } from "@/lib/confidence"
+import { localized } from "@/lib/i18n"
+import { assessImageQuality, decodeAnalysisImage, hasBlockingIssues } from "@/lib/quality"
+import type { AnalysisOptions, LocalizedText, Point, Region, ZoneResult } from "@/lib/types"
+
+// Regions smaller than this share of the frame, per side, are treated as stray clicks.
+export const MIN_REGION_SIZE = 0.03
+
+export function rectRegion(a: Point, b: Point, label: string): Region {
+  const x0 = Math.min(a.x, b.x)
+  const x1 = Math.max(a.x, b.x)
+  const y0 = Math.min(a.y, b.y)
+  const y1 = Math.max(a.y, b.y)
+  return {
+    id: crypto.randomUUID(),
+    label,
+    shape: "rect",
+    points: [
+      { x: x0, y: y0 },
+      { x: x1, y: y0 },
+      { x: x1, y: y1 },
+      { x: x0, y: y1 },
+    ],
+  }
+}
+
+export function polygonRegion(points: Point[], label: string): Region {
+  return { id: crypto.randomUUID(), label, shape: "polygon", points }
+}
+
+type Bounds = { x: number; y: number; width: number; height: number }
+
+export function regionBounds({ points }: Pick<Region, "points">): Bounds {
+  const xs = points.map((p) => p.x)
+  const ys = points.map((p) => p.y)
+  const x = Math.min(...xs)
+  const y = Math.min(...ys)
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y }
+}
+
+export function isUsableRegion(region: Pick<Region, "points">): boolean {
+  const { width, height } = regionBounds(region)
+  return region.points.length >= 3 && width >= MIN_REGION_SIZE && height >= MIN_REGION_SIZE
+}
+
+// Longest side of a cut-out zone: the size the analyzers work at, so full-resolution crops
+// are never uploaded.
+const ZONE_SIDE = 512
+
+type ZoneCrop = { file: File; width: number; height: number }
+
+// Cuts a region out of the photo, scaled down to ZONE_SIDE. Pixels outside a polygon are left
+// transparent, and the analyzers and quality checks skip them. `width` and `height` are the
+// region's size in the original photo.
+export async function cropRegion(image: Blob, region: Region): Promise<ZoneCrop> {
+  const bitmap = await createImageBitmap(image)
+  const b = regionBounds(region)
+  const sx = Math.round(b.x * bitmap.width)
+  const sy = Math.round(b.y * bitmap.height)
+  const width = Math.max(1, Math.round(b.width * bitmap.width))
+  const height = Math.max(1, Math.round(b.height * bitmap.height))
+  const scale = Math.min(1, ZONE_SIDE / Math.max(width, height))
+  const canvas = document.createElement("canvas")
+  canvas.width = Math.max(1, Math.round(width * scale))
+  canvas.height = Math.max(1, Math.round(height * scale))
+  const ctx = canvas.getContext("2d")
+  if (!ctx) throw new Error("Canvas is not available")
+  if (region.shape === "polygon") {
+    ctx.beginPath()
+    region.points.forEach((p, i) => {
+      const x = (p.x * bitmap.width - sx) * scale
+      const y = (p.y * bitmap.height - sy) * scale
+      if (i === 0) ctx.moveTo(x, y)
+      else ctx.lineTo(x, y)
+    })
+    ctx.closePath()
+    ctx.clip()
+  }
+  ctx.drawImage(bitmap, sx, sy, width, height, 0, 0, canvas.width, canvas.height)
+  bitmap.close()
+  // PNG keeps the transparency; at ZONE_SIDE it stays far below MAX_IMAGE_BYTES.
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/png"))
+  if (!blob) throw new Error(`Could not cut out ${region.label}`)
+  return { file: new File([blob], `${region.label}.png`, { type: "image/png" }), width, height }
+}
+
+// Analyzes each region as its own image, one at a time, after the same quality checks a
+// whole photo gets. A region that fails (for example, no vegetation inside it) is reported on
+// its own without stopping the others.
+export async function analyzeRegions(
+  image: Blob,
+  regions: Region[],
+  options: AnalysisOptions,
+  signal?: AbortSignal,
+): Promise<{ zones: ZoneResult[]; errors: LocalizedText[] }> {
+  const zones: ZoneResult[] = []
+  const errors: LocalizedText[] = []
+  const fail = (region: Region, reason: LocalizedText | string) =>
+    errors.push(localized("regions.failed", { label: region.label, reason }))
+  for (const region of regions) {
+    if (signal?.aborted) break
+    try {
+      const { file, width, height } = await cropRegion(image, region)
+      const { raster } = await decodeAnalysisImage(file)
+      // Resolution and file size are judged on the region of the photo the zone came from.
+      const { issues } = assessImageQuality(raster, { width, height, bytes: image.size }, options.kind)
+      if (hasBlockingIssues(issues)) {
+        const issue = issues.find((i) => i.severity === "error")!
+        fail(region, issue.messageText ?? issue.message)
+        continue
+      }
+      const result = applyQualityPenalty(await requestAnalysis(file, options, signal), issues)
+      // A zone heatmap would be in the crop's own coordinates; the whole-image one covers it.
+      zones.push({ region, result: { ...result, heatmap: undefined } })
+    } catch (err) {
+      if (signal?.aborted) break
+      if (err instanceof UnusableImageError) {
+        fail(region, localized(`unusable.${err.reason}`))
+      } else {
+        console.warn(`Could not analyze ${region.label}`, err)
+        fail(region, localized("scan.failed"))
+      }
+    }
+  }
+  return { zones, errors }
+}
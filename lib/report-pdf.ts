@@ -0,0 +1,139 @@
+import { getDisease } from "@/lib/crops"
+import type { ScanRecord } from "@/lib/history"
+import {
+  careStep,
+  conditionName,
+  cropName,
+  formatMetricValue,
+  formatQuantity,
+  formatText,
+  localized,
+  metricName,
+  statusName,
+  type Locale,
+  type MessageKey,
+} from "@/lib/i18n"
+import type { LocalizedText } from "@/lib/types"
+import { totalAmount, type UnitPreferences } from "@/lib/units"
+
+const MARGIN = 15
+const PAGE_WIDTH = 210
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2
+
+export type ReportOptions = {
+  locale: Locale
+  units: UnitPreferences
+  // Field size for whole-field amounts next to each rate
+  areaHa?: number
+}
+
+// A4 field report for one scan, in the reader's language and units. jsPDF is loaded on demand
+// so it stays out of the page bundle.
+export async function buildPdfReport(scan: ScanRecord, { locale, units, areaHa = 0 }: ReportOptions): Promise<Blob> {
+  const { jsPDF } = await import("jspdf")
+  const doc = new jsPDF({ unit: "mm", format: "a4" })
+  const { result } = scan
+  const text = (value: LocalizedText | undefined, fallback: string) =>
+    value ? formatText(locale, value, units) : fallback
+  const t = (key: MessageKey, params?: LocalizedText["params"]) => formatText(locale, localized(key, params), units)
+  const crop = text(cropName(scan.cropType), scan.cropType)
+  let y = MARGIN
+
+  const ensureSpace = (height: number) => {
+    if (y + height > 297 - MARGIN) {
+      doc.addPage()
+      y = MARGIN
+    }
+  }
+  const heading = (text: string) => {
+    ensureSpace(12)
+    y += 4
+    doc.setFont("helvetica", "bold").setFontSize(12).text(text, MARGIN, y)
+    y += 6
+  }
+  const paragraph = (text: string, size = 10) => {
+    doc.setFont("helvetica", "normal").setFontSize(size)
+    const lines = doc.splitTextToSize(text, CONTENT_WIDTH) as string[]
+    ensureSpace(lines.length * 5)
+    doc.text(lines, MARGIN, y)
+    y += lines.length * 5
+  }
+  const row = (label: string, value: string) => {
+    ensureSpace(6)
+    doc.setFont("helvetica", "normal").setFontSize(10).text(label, MARGIN, y)
+    doc.setFont("helvetica", "bold").text(value, MARGIN + 70, y)
+    y += 6
+  }
+
+  doc.setFont("helvetica", "bold").setFontSize(18).text(t("report.title"), MARGIN, y + 4)
+  y += 12
+  row(t("report.date"), new Date(scan.createdAt).toLocaleString(locale))
+  if (scan.capturedAt) row(t("report.photoTaken"), new Date(scan.capturedAt).toLocaleString(locale))
+  row(
+    t("report.analysis"),
+    scan.analysisType === "crop"
+      ? t("report.crop", { crop })
+      : t("report.targetCrop", { analysis: t(`analysis.${scan.analysisType}`), crop }),
+  )
+  if (scan.plot) row(t("history.plot"), scan.plot)
+  if (scan.location) {
+    row(t("report.location"), `${scan.location.latitude.toFixed(5)}, ${scan.location.longitude.toFixed(5)}`)
+  }
+  row(t("batch.image"), scan.fileName)
+
+  if (scan.thumbnail) {
+    const props = doc.getImageProperties(scan.thumbnail)
+    const height = Math.min(90, (CONTENT_WIDTH * props.height) / props.width)
+    const width = (height * props.width) / props.height
+    ensureSpace(height + 4)
+    doc.addImage(scan.thumbnail, "JPEG", MARGIN, y + 2, width, height)
+    y += height + 6
+  }
+
+  heading(t("report.result"))
+  row(t("result.status"), text(statusName(result.status), result.status))
+  row(t("result.confidenceLabel"), formatQuantity({ value: result.confidence, unit: "%" }, locale))
+  if (result.analyzer) row(t("report.analyzer"), result.analyzer)
+
+  heading(t("report.metrics"))
+  for (const [id, metric] of Object.entries(result.metrics)) {
+    row(text(metricName(id), id), formatMetricValue(metric, locale, units))
+  }
+
+  if (result.evaluation?.fired.length) {
+    heading(t("report.outOfRange"))
+    for (const f of result.evaluation.fired) paragraph(`- ${text(f.messageText, f.message)}`)
+  }
+
+  if (result.conditions?.length) {
+    heading(t("result.conditions"))
+    for (const c of result.conditions) {
+      paragraph(`- ${text(conditionName(c), c.name)}: ${Math.round(c.probability * 100)}%`)
+      const disease = getDisease(scan.cropType, c.id)
+      if (disease) {
+        const steps = disease.treatment.map((step, i) => text(careStep(disease.id, "treatment", i, step), step))
+        paragraph(`  ${t("conditions.treatment")}: ${steps.join(" ")}`, 9)
+      }
+    }
+  }
+
+  if (result.recommendations?.length) {
+    heading(t("result.recommendations"))
+    for (const rec of result.recommendations) {
+      let rate = ""
+      if (rec.rate !== undefined) {
+        rate = ` - ${rec.product ?? ""} ${formatQuantity({ value: rec.rate, unit: "kg/ha" }, locale, units)}`
+        if (areaHa > 0) {
+          const area = t("result.forArea", { area: { value: areaHa, unit: "ha" } })
+          rate += ` (${formatQuantity(totalAmount(rec.rate * areaHa), locale, units)} ${area})`
+        }
+      }
+      paragraph(`- ${text(rec.actionText, rec.action)}${rate}. ${text(rec.reasonText, rec.reason)}`)
+    }
+  }
+
+  heading(t("report.notes"))
+  paragraph(result.notesText?.map((n) => formatText(locale, n, units)).join(" ") ?? result.notes)
+
+  return doc.output("blob")
+}
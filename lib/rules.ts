@@ -0,0 +1,129 @@
+import { getCrop, type CropProfile, type Range } from "@/lib/crops"
+import { cropName, formatText, localized, statusName } from "@/lib/i18n"
+import { metricNumber } from "@/lib/metrics"
+import type { CropType, Evaluation, FiredRule, LocalizedText, MetricCheck, Metrics, Status } from "@/lib/types"
+import type { MetricUnit } from "@/lib/units"
+
+export type Rule = {
+  id: string
+  // Id in AnalysisResult.metrics this rule reads
+  metric: string
+  // Unit the crop's band is given in; the metric is converted to it before grading
+  unit?: MetricUnit
+  // Acceptable band for the crop; returning undefined skips the rule
+  range: (crop: CropProfile) => Range | undefined
+  // How far outside the band still counts as Marginal rather than Poor
+  tolerance: number
+  // Short name used in messages, e.g. "pH" or "nitrogen"; translated under `rule.<id>`
+  label: string
+}
+
+export const SOIL_RULES: Rule[] = [
+  { id: "ph", metric: "ph", label: "pH", range: (c) => c.ph, tolerance: 0.5 },
+  { id: "moisture", metric: "moisture", unit: "%", label: "moisture", range: (c) => c.moisture, tolerance: 5 },
+  {
+    id: "organic-matter",
+    metric: "organicMatter",
+    unit: "%",
+    label: "organic matter",
+    range: () => ({ min: 2, max: 10 }),
+    tolerance: 0.75,
+  },
+  {
+    id: "nitrogen",
+    metric: "nitrogen",
+    unit: "mg/kg",
+    label: "nitrogen",
+    range: (c) => c.nutrients.n,
+    tolerance: 10,
+  },
+  {
+    id: "phosphorus",
+    metric: "phosphorus",
+    unit: "mg/kg",
+    label: "phosphorus",
+    range: (c) => c.nutrients.p,
+    tolerance: 10,
+  },
+  {
+    id: "potassium",
+    metric: "potassium",
+    unit: "mg/kg",
+    label: "potassium",
+    range: (c) => c.nutrients.k,
+    tolerance: 40,
+  },
+  {
+    id: "salinity",
+    metric: "ec",
+    unit: "dS/m",
+    label: "salinity (EC)",
+    range: (c) => ({ min: 0, max: c.ecMax }),
+    tolerance: 1,
+  },
+  {
+    id: "cec",
+    metric: "cec",
+    unit: "cmol/kg",
+    label: "CEC",
+    range: () => ({ min: 10, max: 40 }),
+    tolerance: 5,
+  },
+]
+
+const GRADE_ORDER: Status[] = ["Good", "Marginal", "Poor"]
+
+export function worstStatus(statuses: Status[]): Status {
+  return statuses.reduce<Status>(
+    (worst, s) => (GRADE_ORDER.indexOf(s) > GRADE_ORDER.indexOf(worst) ? s : worst),
+    "Good",
+  )
+}
+
+function grade(value: number, { min, max }: Range, tolerance: number): Status {
+  if (value >= min && value <= max) return "Good"
+  const distance = value < min ? min - value : value - max
+  return distance <= tolerance ? "Marginal" : "Poor"
+}
+
+// Scores every numeric soil metric that has a rule against the crop's bands. Metrics
+// without a rule, or rules whose metric is absent, are ignored.
+export function evaluateSoil(metrics: Metrics, crop: CropType, rules: Rule[] = SOIL_RULES): Evaluation {
+  const profile = getCrop(crop)
+  const checks: MetricCheck[] = []
+  const fired: FiredRule[] = []
+
+  for (const rule of rules) {
+    const value = metricNumber(metrics, rule.metric, rule.unit)
+    const range = rule.range(profile)
+    if (value === undefined || !range) continue
+
+    const g = grade(value, range, rule.tolerance)
+    const { unit } = rule
+    checks.push({ metric: rule.metric, value, unit, min: range.min, max: range.max, passed: g === "Good", grade: g })
+    if (g !== "Good") {
+      const messageText = localized(value < range.min ? "rule.below" : "rule.above", {
+        label: ruleName(rule),
+        value: unit ? { value, unit } : value,
+        min: range.min,
+        max: range.max,
+        crop: cropName(crop),
+      })
+      fired.push({ rule: rule.id, metric: rule.metric, grade: g, message: formatText("en", messageText), messageText })
+    }
+  }
+
+  return { status: worstStatus(checks.map((c) => c.grade)), checks, fired }
+}
+
+function ruleName(rule: Pick<Rule, "id" | "label">): LocalizedText {
+  return { key: `rule.${rule.id}`, fallback: rule.label }
+}
+
+// One-line verdict for notes: an all-clear or the metrics that fired. Details live in `fired`.
+export function describeEvaluation({ status, checks, fired }: Evaluation, crop: CropType): LocalizedText {
+  if (checks.length === 0) return localized("notes.noChecks", { crop: cropName(crop) })
+  if (status === "Good") return localized("notes.allGood", { count: checks.length, crop: cropName(crop) })
+  const metrics = fired.map((f) => ruleName(SOIL_RULES.find((r) => r.id === f.rule) ?? { id: f.rule, label: f.metric }))
+  return localized("notes.outOfRange", { status: statusName(status), crop: cropName(crop), metrics })
+}
@@ -0,0 +1,85 @@
+import { UnusableImageError, type UnusableReason } from "@/lib/analyzers/errors"
+import { needsServer, type ScanRequest } from "@/lib/api"
+import type { AnalysisResult, QualityIssue } from "@/lib/types"
+
+export type ScanStage = "decoding" | "quality" | "analyzing" | "scoring"
+
+// Where each stage starts on the progress bar; "analyzing" spans the analyzer round trip.
+export const STAGE_PROGRESS: Record<ScanStage, number> = {
+  decoding: 5,
+  quality: 20,
+  analyzing: 35,
+  scoring: 90,
+}
+
+// Issues the user chose to analyze anyway skip the quality check and are kept as warnings.
+export type ScanJob = ScanRequest & { acceptedIssues?: QualityIssue[] }
+
+export type ScanOutcome =
+  | { type: "done"; result: AnalysisResult }
+  // The photo failed the quality check; nothing was sent
+  | { type: "rejected"; issues: QualityIssue[] }
+  // The analyzer could not be reached; the caller may queue the scan with these warnings
+  | { type: "offline"; warnings: QualityIssue[] }
+
+export type ScanWorkerMessage =
+  // Sent once the worker script has loaded, before any job arrives
+  | { type: "ready" }
+  | { type: "stage"; stage: ScanStage }
+  | ScanOutcome
+  // `unusable` carries an UnusableImageError's reason across the worker boundary
+  | { type: "error"; message: string; unusable?: UnusableReason }
+
+// Runs one scan in its own worker so decoding and pixel work never block the page. The
+// worker is terminated when the scan settles or `signal` aborts, which also drops any
+// request it has in flight.
+export function runScanInWorker(
+  job: ScanJob,
+  { signal, onStage }: { signal?: AbortSignal; onStage?: (stage: ScanStage) => void } = {},
+): Promise<ScanOutcome> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException("Scan cancelled", "AbortError"))
+    const worker = new Worker(new URL("./scan-worker.ts", import.meta.url))
+    const onAbort = () => {
+      finish()
+      reject(new DOMException("Scan cancelled", "AbortError"))
+    }
+    const finish = () => {
+      worker.terminate()
+      signal?.removeEventListener("abort", onAbort)
+    }
+    signal?.addEventListener("abort", onAbort)
+
+    let loaded = false
+    worker.onmessage = (e: MessageEvent<ScanWorkerMessage>) => {
+      const msg = e.data
+      loaded = true
+      if (msg.type === "ready") return
+      if (msg.type === "stage") {
+        onStage?.(msg.stage)
+        return
+      }
+      finish()
+      if (msg.type !== "error") resolve(msg)
+      else reject(msg.unusable ? new UnusableImageError(msg.message, msg.unusable) : new Error(msg.message))
+    }
+    worker.onerror = (e) => {
+      finish()
+      // Offline, a worker script that was never cached cannot load; queue the scan unchecked
+      // rather than failing it.
+      if (!loaded && !navigator.onLine && needsServer(job)) {
+        resolve({ type: "offline", warnings: job.acceptedIssues ?? [] })
+      } else {
+        reject(new Error(e.message || "Scan worker failed"))
+      }
+    }
+    worker.postMessage(job)
+  })
+}
+
+// Loads the worker script without running a scan, so a controlling service worker caches it
+// before the device next goes offline.
+export function preloadScanWorker(): void {
+  const worker = new Worker(new URL("./scan-worker.ts", import.meta.url))
+  worker.onmessage = worker.onerror = () => worker.terminate()
+}
@@ -0,0 +1,49 @@
+import { UnusableImageError } from "@/lib/analyzers/errors"
+import { isNetworkError, needsServer, runScan } from "@/lib/api"
+import { applyQualityPenalty } from "@/lib/confidence"
+import { assessImageQuality, decodeAnalysisImage, hasBlockingIssues } from "@/lib/quality"
+import type { ScanJob, ScanStage, ScanWorkerMessage } from "@/lib/scan-pipeline"
+import type { QualityIssue } from "@/lib/types"
+
+// Worker entry for runScanInWorker: one job per worker, reporting each stage as it starts.
+const send = (msg: ScanWorkerMessage) => postMessage(msg)
+const stage = (s: ScanStage) => send({ type: "stage", stage: s })
+
+async function run({ acceptedIssues, ...scan }: ScanJob) {
+  let warnings: QualityIssue[] = acceptedIssues ?? []
+  if (scan.image && !acceptedIssues) {
+    stage("decoding")
+    // Formats the browser can't decode are left for the server to judge.
+    const decoded = await decodeAnalysisImage(scan.image).catch(() => null)
+    if (decoded) {
+      stage("quality")
+      const kind = scan.analysisType === "crop" ? "crop" : "soil"
+      const { issues } = assessImageQuality(decoded.raster, decoded.original, kind)
+      if (hasBlockingIssues(issues)) return send({ type: "rejected", issues })
+      warnings = issues
+    }
+  }
+
+  if (needsServer(scan) && !navigator.onLine) return send({ type: "offline", warnings })
+  stage("analyzing")
+  try {
+    const analyzed = await runScan(scan)
+    stage("scoring")
+    send({ type: "done", result: applyQualityPenalty(analyzed, warnings) })
+  } catch (err) {
+    if (needsServer(scan) && isNetworkError(err)) return send({ type: "offline", warnings })
+    throw err
+  }
+}
+
+send({ type: "ready" })
+
+addEventListener("message", (e: MessageEvent<ScanJob>) => {
+  run(e.data).catch((err) =>
+    send({
+      type: "error",
+      message: err instanceof Error ? err.message : "Analysis failed",
+      unusable: err instanceof UnusableImageError ? err.reason : undefined,
+    }),
+  )
+})
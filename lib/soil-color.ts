@@ -0,0 +1,119 @@
+import { UnusableImageError } from "@/lib/analyzers/errors"
+import { labToLch, median, rgbToLab } from "@/lib/color"
+import type { RasterImage } from "@/lib/image"
+
+export type SoilColorFeatures = {
+  // Munsell-style notation approximated from CIELAB, e.g. "10YR 4/3"
+  munsellHue: string
+  munsellValue: number
+  munsellChroma: number
+  hueAngle: number
+  brightness: number
+  darkFraction: number
+  // Share of pixels used after masking glare, deep shadow and vegetation
+  coverage: number
+  lightnessSpread: number
+}
+
+// Approximate CIELAB hue angles of the Munsell hue pages found in soil charts.
+const MUNSELL_HUES: [string, number][] = [
+  ["5R", 24],
+  ["7.5R", 31],
+  ["10R", 38],
+  ["2.5YR", 46],
+  ["5YR", 55],
+  ["7.5YR", 63],
+  ["10YR", 72],
+  ["2.5Y", 81],
+  ["5Y", 90],
+  ["10Y", 100],
+  ["5GY", 115],
+]
+
+// Below this L* a pixel counts as "dark"; wet soil darkens by roughly 1-2 Munsell values.
+const DARK_L = 35
+
+function nearestMunsellHue(angle: number): string {
+  let best = MUNSELL_HUES[0]
+  for (const entry of MUNSELL_HUES) {
+    if (Math.abs(entry[1] - angle) < Math.abs(best[1] - angle)) best = entry
+  }
+  return best[0]
+}
+
+export function analyzeSoilColor(img: RasterImage): SoilColorFeatures {
+  const { data } = img
+  const Ls = new Float32Array(data.length / 4)
+  const as = new Float32Array(data.length / 4)
+  const bs = new Float32Array(data.length / 4)
+  let total = 0
+  let kept = 0
+  let dark = 0
+
+  for (let i = 0; i < data.length; i += 4) {
+    // Transparent padding around a cropped zone isn't part of the sample at all
+    if (data[i + 3] === 0) continue
+    total++
+    const lab = rgbToLab(data[i], data[i + 1], data[i + 2])
+    // Skip specular glare, deep shadow and green plant material so they don't skew the soil colour.
+    if (lab.L > 95 || lab.L < 8 || lab.a < -8) continue
+    Ls[kept] = lab.L
+    as[kept] = lab.a
+    bs[kept] = lab.b
+    if (lab.L < DARK_L) dark++
+    kept++
+  }
+
+  if (kept === 0) {
+    throw new UnusableImageError("No soil-coloured pixels found in image", "noSoil")
+  }
+
+  const L = median(Ls.subarray(0, kept))
+  const a = median(as.subarray(0, kept))
+  const b = median(bs.subarray(0, kept))
+  const { C, h } = labToLch({ L, a, b })
+
+  // Interquartile range of lightness: a uniform photo of one soil has a small spread.
+  const sortedL = Ls.slice(0, kept).sort()
+  const spread = sortedL[Math.floor(kept * 0.75)] - sortedL[Math.floor(kept * 0.25)]
+
+  return {
+    munsellHue: nearestMunsellHue(h),
+    munsellValue: round(L / 10, 1),
+    munsellChroma: round(C / 5, 1),
+    hueAngle: round(h, 1),
+    brightness: round(L, 1),
+    darkFraction: round(dark / kept, 3),
+    coverage: round(kept / total, 3),
+    lightnessSpread: round(spread, 1),
+  }
+}
+
+export type SoilEstimates = {
+  moisture: number
+  organicMatter: number
+  ph: number
+}
+
+// Rule-of-thumb estimates from colour alone. These are screening values, not a lab substitute.
+export function estimateSoilProperties(f: SoilColorFeatures): SoilEstimates {
+  // Moisture: share of dark pixels, scaled onto a 5-50% volumetric range.
+  const moisture = clamp(5 + f.darkFraction * 45, 5, 50)
+  // Organic matter: darker (lower Munsell value) soils carry more humus.
+  const organicMatter = clamp(0.4 + (6 - f.munsellValue) * 1.1, 0.3, 8)
+  // pH: strongly red/yellow chroma points to weathered, iron-rich acidic soils;
+  // pale low-chroma soils are often calcareous.
+  const redness = clamp((72 - f.hueAngle) / 30, 0, 1) * Math.min(f.munsellChroma / 6, 1)
+  const pale = clamp((f.munsellValue - 5) / 2, 0, 1) * (f.munsellChroma <= 2.5 ? 1 : 0.3)
+  const ph = clamp(6.6 - 1.3 * redness + 0.9 * pale, 4.5, 8.2)
+
+  return { moisture: round(moisture, 1), organicMatter: round(organicMatter, 1), ph: round(ph, 1) }
+}
+
+function clamp(v: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, v))
+}
+
+function round(v: number, digits: number): number {
+  return Number(v.toFixed(digits))
+}
@@ -0,0 +1,46 @@
+import { CROP_TYPES } from "@/lib/crops"
+import { evaluateSoil, SOIL_RULES, type Rule } from "@/lib/rules"
+import type { CropType, FiredRule, MetricCheck, Metrics, Status } from "@/lib/types"
+
+// How well one soil reading suits one crop.
+export type CropSuitability = {
+  crop: CropType
+  // 0-100; see suitabilityScore
+  score: number
+  status: Status
+  // Metrics outside the crop's bands, the furthest out first
+  limiting: FiredRule[]
+}
+
+// 1 inside the band, 0.5 at the edge of the Marginal margin, 0 at twice that distance.
+export function checkMatch({ value, min, max }: MetricCheck, tolerance: number): number {
+  const distance = value < min ? min - value : value > max ? value - max : 0
+  return Math.max(0, 1 - distance / (2 * tolerance))
+}
+
+// The mean match across metrics, pulled halfway towards the worst one: a crop is held back by its
+// most limiting factor however well the rest fits.
+export function suitabilityScore(matches: number[]): number {
+  if (matches.length === 0) return 0
+  const mean = matches.reduce((sum, m) => sum + m, 0) / matches.length
+  return Math.round(((mean + Math.min(...matches)) / 2) * 100)
+}
+
+// Ranks crops by how well a soil result meets their requirements, best first. Empty when the
+// result has no metric any rule can check.
+export function rankCrops(
+  metrics: Metrics,
+  crops: readonly CropType[] = CROP_TYPES,
+  rules: Rule[] = SOIL_RULES,
+): CropSuitability[] {
+  const tolerance = (metric: string) => rules.find((r) => r.metric === metric)!.tolerance
+  const ranked: CropSuitability[] = []
+  for (const crop of crops) {
+    const { status, checks, fired } = evaluateSoil(metrics, crop, rules)
+    if (checks.length === 0) return []
+    const match = new Map(checks.map((c) => [c.metric, checkMatch(c, tolerance(c.metric))] as const))
+    const limiting = [...fired].sort((a, b) => match.get(a.metric)! - match.get(b.metric)!)
+    ranked.push({ crop, score: suitabilityScore([...match.values()]), status, limiting })
+  }
+  return ranked.sort((a, b) => b.score - a.score || a.crop.localeCompare(b.crop))
+}
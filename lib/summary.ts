@@ -0,0 +1,48 @@
+import { isNumericMetric, quantity } from "@/lib/metrics"
+import type { AnalysisResult, AnalysisType, NumericMetric, Status } from "@/lib/types"
+import { convert, type MetricUnit } from "@/lib/units"
+
+// Metrics worth a column when many results are listed together.
+export const KEY_METRICS: Record<AnalysisType, string[]> = {
+  soil: ["ph", "moisture", "organicMatter"],
+  crop: ["healthIndex", "diseaseRisk", "canopyCover"],
+  lab: ["ph", "ec", "nitrogen"],
+}
+
+export type ResultSummary = {
+  count: number
+  // Share of results per status, 0-1
+  statusShare: Record<Status, number>
+  meanConfidence: number
+  // Mean of every numeric metric, over the results that report it
+  means: Record<string, NumericMetric>
+}
+
+export function summarizeResults(results: AnalysisResult[]): ResultSummary {
+  const statusCount: Record<Status, number> = { Good: 0, Marginal: 0, Poor: 0 }
+  const sums: Record<string, { total: number; n: number; unit?: MetricUnit }> = {}
+  let confidence = 0
+
+  for (const r of results) {
+    statusCount[r.status]++
+    confidence += r.confidence
+    for (const [key, metric] of Object.entries(r.metrics)) {
+      if (!isNumericMetric(metric)) continue
+      const acc = (sums[key] ??= { total: 0, n: 0, unit: metric.unit })
+      acc.total += acc.unit && metric.unit ? convert(metric.value, metric.unit, acc.unit) : metric.value
+      acc.n++
+    }
+  }
+
+  const n = results.length || 1
+  return {
+    count: results.length,
+    statusShare: {
+      Good: statusCount.Good / n,
+      Marginal: statusCount.Marginal / n,
+      Poor: statusCount.Poor / n,
+    },
+    meanConfidence: confidence / n,
+    means: Object.fromEntries(Object.entries(sums).map(([k, { total, n, unit }]) => [k, quantity(total / n, unit)])),
+  }
+}
@@ -0,0 +1,99 @@
+import { getCrop, type Range } from "@/lib/crops"
+import type { ScanRecord } from "@/lib/history"
+import { isNumericMetric, metricNumber } from "@/lib/metrics"
+import { SOIL_RULES } from "@/lib/rules"
+import type { AnalysisType, CropType, Status } from "@/lib/types"
+import type { MetricUnit } from "@/lib/units"
+import { HEALTHY_INDEX } from "@/lib/vegetation"
+
+export type TrendPoint = { time: number; value: number; status: Status; scanId: string }
+
+export type MetricTrend = {
+  metric: string
+  // Unit of every point, taken from the first scan that reported one
+  unit?: MetricUnit
+  points: TrendPoint[]
+  // Target band for the plot's current crop, when the metric has one
+  band?: Range
+}
+
+export type StatusChange = { time: number; from: Status; to: Status; scanId: string }
+
+export type PlotTrends = {
+  plot: string
+  crop: CropType
+  scans: ScanRecord[]
+  metrics: MetricTrend[]
+  changes: StatusChange[]
+}
+
+// Metrics with a band come first, in this order; anything else numeric follows alphabetically.
+const METRIC_ORDER = [...SOIL_RULES.map((r) => r.metric), "healthIndex"]
+
+export function scanTime(scan: ScanRecord): number {
+  return scan.capturedAt ?? scan.createdAt
+}
+
+export function targetBand(metric: string, crop: CropType): Range | undefined {
+  if (metric === "healthIndex") return { min: HEALTHY_INDEX, max: 100 }
+  return SOIL_RULES.find((r) => r.metric === metric)?.range(getCrop(crop))
+}
+
+// Distinct plot names with their scan counts, most recently scanned first. Scans attached to a
+// managed plot are listed under that plot instead.
+export function listPlots(scans: ScanRecord[]): { plot: string; count: number; last: number }[] {
+  const plots = new Map<string, { plot: string; count: number; last: number }>()
+  for (const scan of scans) {
+    const plot = scan.plot?.trim()
+    if (!plot || scan.plotId) continue
+    const entry = plots.get(plot) ?? { plot, count: 0, last: 0 }
+    entry.count++
+    entry.last = Math.max(entry.last, scanTime(scan))
+    plots.set(plot, entry)
+  }
+  return [...plots.values()].sort((a, b) => b.last - a.last)
+}
+
+// Trends for the scans labelled with a plot name.
+export function buildPlotTrends(scans: ScanRecord[], plot: string): PlotTrends | undefined {
+  return buildTrends(plot, scans.filter((s) => s.plot?.trim() === plot))
+}
+
+// Every numeric metric a plot has reported, as a time series, plus the scans where its
+// status moved. Bands follow the most recent scan's crop.
+export function buildTrends(plot: string, scans: ScanRecord[]): PlotTrends | undefined {
+  const own = [...scans].sort((a, b) => scanTime(a) - scanTime(b))
+  if (own.length === 0) return undefined
+  const crop = own[own.length - 1].cropType
+
+  const series = new Map<string, { unit?: MetricUnit; points: TrendPoint[] }>()
+  for (const scan of own) {
+    for (const [metric, value] of Object.entries(scan.result.metrics)) {
+      if (!isNumericMetric(value)) continue
+      const entry = series.get(metric) ?? { unit: value.unit, points: [] }
+      const v = metricNumber(scan.result.metrics, metric, entry.unit)!
+      entry.points.push({ time: scanTime(scan), value: v, status: scan.result.status, scanId: scan.id })
+      series.set(metric, entry)
+    }
+  }
+
+  const rank = (metric: string) => {
+    const i = METRIC_ORDER.indexOf(metric)
+    return i === -1 ? METRIC_ORDER.length : i
+  }
+  const metrics = [...series.entries()]
+    .map(([metric, { unit, points }]) => ({ metric, unit, points, band: targetBand(metric, crop) }))
+    .sort((a, b) => rank(a.metric) - rank(b.metric) || a.metric.localeCompare(b.metric))
+
+  // Soil and crop statuses grade different things, so only compare like with like.
+  const changes: StatusChange[] = []
+  const previous = new Map<AnalysisType, Status>()
+  for (const scan of own) {
+    const from = previous.get(scan.analysisType)
+    const to = scan.result.status
+    if (from && from !== to) changes.push({ time: scanTime(scan), from, to, scanId: scan.id })
+    previous.set(scan.analysisType, to)
+  }
+
+  return { plot, crop, scans: own, metrics, changes }
+}
@@ -0,0 +1,156 @@
+import type { CropType } from "@/lib/crops"
+import type { MetricUnit, Unit } from "@/lib/units"
+
+export { CROP_TYPES, type CropType } from "@/lib/crops"
+
+// Kinds an image analyzer can handle; "lab" results come from entered lab values instead.
+export const IMAGE_ANALYSIS_TYPES = ["soil", "crop"] as const
+export const ANALYSIS_TYPES = [...IMAGE_ANALYSIS_TYPES, "lab"] as const
+
+export type ImageAnalysisType = (typeof IMAGE_ANALYSIS_TYPES)[number]
+export type AnalysisType = (typeof ANALYSIS_TYPES)[number]
+
+export const ANALYSIS_LABELS: Record<AnalysisType, string> = {
+  soil: "Soil",
+  crop: "Crop",
+  lab: "Lab test",
+}
+export type Status = "Good" | "Marginal" | "Poor"
+
+// Generated text as a message key and parameters (see lib/i18n.ts), so the UI can show it in
+// the reader's language. `fallback` is used when no catalog has the key.
+export type LocalizedText = {
+  key: string
+  params?: Record<string, LocalizedParam>
+  fallback?: string
+}
+
+export type LocalizedParam = string | number | Quantity | LocalizedText | LocalizedText[]
+
+// An amount in an explicit unit, shown converted to the reader's unit preferences.
+export type Quantity = { value: number; unit: Unit }
+
+// A measured or estimated metric. Unitless numbers (pH, indices) have no unit; text metrics are
+// colours, grades like "Low" and class names.
+export type NumericMetric = { value: number; unit?: MetricUnit }
+export type TextMetric = { value: string }
+export type MetricValue = NumericMetric | TextMetric
+
+// Keyed by metric id (see lib/metrics.ts)
+export type Metrics = Record<string, MetricValue>
+
+// Outcome of one rule: the metric value against the band it was held to, in the rule's unit.
+export type MetricCheck = {
+  metric: string
+  value: number
+  unit?: MetricUnit
+  min: number
+  max: number
+  passed: boolean
+  grade: Status
+}
+
+export type FiredRule = {
+  rule: string
+  metric: string
+  grade: Status
+  message: string
+  messageText?: LocalizedText
+}
+
+export type Evaluation = {
+  status: Status
+  checks: MetricCheck[]
+  fired: FiredRule[]
+}
+
+// Coarse grid over the image, row-major, 0 (stressed) to 1 (healthy); null where there is no canopy.
+export type Heatmap = {
+  cols: number
+  rows: number
+  values: (number | null)[]
+}
+
+// A possible condition for a crop image. `id` is a disease id from the crop catalog, or "healthy".
+export type ConditionCandidate = {
+  id: string
+  name: string
+  probability: number
+}
+
+// One concrete action for the field. Rates are per hectare; the UI scales them to the field area.
+export type Recommendation = {
+  id: string
+  action: string
+  // Product and grade, e.g. "Urea (46-0-0)"
+  product?: string
+  // kg of product per hectare
+  rate?: number
+  // kg of nutrient per hectare, when the product supplies one
+  nutrient?: { name: "N" | "P2O5" | "K2O"; rate: number }
+  reason: string
+  actionText?: LocalizedText
+  reasonText?: LocalizedText
+}
+
+// A problem with the photo itself, found before analysis (see lib/quality.ts).
+export type QualityIssue = {
+  id: "resolution" | "file-size" | "blur" | "too-dark" | "too-bright" | "clipped" | "content"
+  // Errors stop the scan unless the user overrides; warnings are shown with the result
+  severity: "error" | "warning"
+  message: string
+  messageText?: LocalizedText
+}
+
+// One step in how a confidence score was reached: the starting estimate, or a deduction.
+export type ConfidenceFactor = {
+  id: string
+  label: string
+  labelText?: LocalizedText
+  // Percentage points added (the starting estimate) or removed (negative)
+  points: number
+}
+
+// Position in an image as a fraction of its width and height, so it survives resizing.
+export type Point = { x: number; y: number }
+
+// A user-drawn area of the photo. Rectangles are stored as their four corners.
+export type Region = {
+  id: string
+  label: string
+  shape: "rect" | "polygon"
+  points: Point[]
+}
+
+export type ZoneResult = {
+  region: Region
+  result: AnalysisResult
+}
+
+export type AnalysisResult = {
+  status: Status
+  // 0-100, the sum of confidenceFactors when those are present
+  confidence: number
+  confidenceFactors?: ConfidenceFactor[]
+  notes: string
+  // The sentences of `notes`, localizable; absent for backends that only return English
+  notesText?: LocalizedText[]
+  metrics: Metrics
+  heatmap?: Heatmap
+  // Present when the status came from the rules engine
+  evaluation?: Evaluation
+  recommendations?: Recommendation[]
+  // Most likely crop conditions, highest probability first
+  conditions?: ConditionCandidate[]
+  // Id of the analyzer backend that produced this result
+  analyzer?: string
+  // Photo quality problems the scan went ahead with
+  quality?: QualityIssue[]
+  // Separate results for regions drawn on the photo, when any were analyzed
+  zones?: ZoneResult[]
+}
+
+export type AnalysisOptions = {
+  kind: ImageAnalysisType
+  crop: CropType
+}
@@ -0,0 +1,63 @@
+// Units the app measures and reports in. Each belongs to a dimension with a base unit, and a
+// value converts between units of the same dimension through its factor to that base.
+const UNITS = {
+  "%": { base: "%", factor: 1 },
+  "mg/kg": { base: "mg/kg", factor: 1 },
+  // Parts per million by mass: the same quantity as mg/kg under the name many labs report
+  ppm: { base: "mg/kg", factor: 1 },
+  "dS/m": { base: "dS/m", factor: 1 },
+  "cmol/kg": { base: "cmol/kg", factor: 1 },
+  "kg/ha": { base: "kg/ha", factor: 1 },
+  "lb/acre": { base: "kg/ha", factor: 0.45359237 / 0.40468564 },
+  kg: { base: "kg", factor: 1 },
+  t: { base: "kg", factor: 1000 },
+  lb: { base: "kg", factor: 0.45359237 },
+  ha: { base: "ha", factor: 1 },
+  ac: { base: "ha", factor: 0.40468564 },
+} satisfies Record<string, { base: string; factor: number }>
+
+export type Unit = keyof typeof UNITS
+
+// Units a soil or crop metric can carry. Nutrient tests are stored in mg/kg.
+export type MetricUnit = "%" | "mg/kg" | "ppm" | "dS/m" | "cmol/kg"
+
+// How application rates, amounts and areas are shown
+export type UnitSystem = "metric" | "imperial"
+export const UNIT_SYSTEMS = ["metric", "imperial"] as const satisfies readonly UnitSystem[]
+
+export type NutrientUnit = "mg/kg" | "ppm"
+export const NUTRIENT_UNITS = ["mg/kg", "ppm"] as const satisfies readonly NutrientUnit[]
+
+export type UnitPreferences = { system: UnitSystem; nutrients: NutrientUnit }
+
+// Results and exports are stored in these; preferences only change what is shown.
+export const DEFAULT_UNITS: UnitPreferences = { system: "metric", nutrients: "mg/kg" }
+
+const IMPERIAL: Partial<Record<Unit, Unit>> = { "kg/ha": "lb/acre", kg: "lb", t: "lb", ha: "ac" }
+
+export function isUnitPreferences(value: unknown): value is UnitPreferences {
+  const prefs = value as UnitPreferences | null
+  return (
+    typeof prefs === "object" &&
+    prefs !== null &&
+    UNIT_SYSTEMS.includes(prefs.system) &&
+    NUTRIENT_UNITS.includes(prefs.nutrients)
+  )
+}
+
+export function convert(value: number, from: Unit, to: Unit): number {
+  if (from === to) return value
+  if (UNITS[from].base !== UNITS[to].base) throw new Error(`Cannot convert ${from} to ${to}`)
+  return (value * UNITS[from].factor) / UNITS[to].factor
+}
+
+// The amount of product for a whole field, in tonnes from one tonne up.
+export function totalAmount(kg: number): { value: number; unit: Unit } {
+  return kg >= 1000 ? { value: Math.round(kg / 10) / 100, unit: "t" } : { value: Math.round(kg), unit: "kg" }
+}
+
+// The unit a value is shown in under the reader's preferences.
+export function preferredUnit(unit: Unit, prefs: UnitPreferences): Unit {
+  if (UNITS[unit].base === "mg/kg") return prefs.nutrients
+  return prefs.system === "imperial" ? (IMPERIAL[unit] ?? unit) : unit
+}
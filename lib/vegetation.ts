@@ -0,0 +1,119 @@
+import type { RasterImage } from "@/lib/image"
+import type { Heatmap } from "@/lib/types"
+
+export type VegetationIndices = {
+  // Means over plant pixels
+  exg: number
+  vari: number
+  gli: number
+  // 0-100 blend of GLI and VARI, the headline health number
+  healthIndex: number
+  canopyCover: number
+  stressedFraction: number
+  heatmap: Heatmap
+}
+
+// A cell needs at least this share of plant pixels to get a heatmap value.
+const MIN_CELL_COVER = 0.2
+// Plant pixels scoring below this are counted as stressed.
+const STRESS_THRESHOLD = 0.4
+// Health Index from which a crop can grade Good; the lower edge of its target band.
+export const HEALTHY_INDEX = 60
+
+// Green through yellow hues with some saturation. Yellowing leaves stay in, brown soil
+// and grey/white background drop out.
+export function isPlant(r: number, g: number, b: number): boolean {
+  const max = Math.max(r, g, b)
+  const min = Math.min(r, g, b)
+  if (max < 25 || max - min < 0.15 * max) return false
+  let h: number
+  if (max === r) h = ((g - b) / (max - min)) * 60
+  else if (max === g) h = ((b - r) / (max - min)) * 60 + 120
+  else h = ((r - g) / (max - min)) * 60 + 240
+  if (h < 0) h += 360
+  return h >= 40 && h <= 160
+}
+
+// Per-pixel health on 0-1 from GLI (-0.1..0.3) and VARI (-0.2..0.4).
+function pixelHealth(gli: number, vari: number): number {
+  return 0.5 * clamp01((gli + 0.1) / 0.4) + 0.5 * clamp01((vari + 0.2) / 0.6)
+}
+
+export function computeVegetationIndices(img: RasterImage, maxCells = 48): VegetationIndices {
+  const { width, height, data } = img
+  const cellSize = Math.max(1, Math.ceil(Math.max(width, height) / maxCells))
+  const cols = Math.ceil(width / cellSize)
+  const rows = Math.ceil(height / cellSize)
+  const cellHealth = new Float64Array(cols * rows)
+  const cellPlants = new Uint32Array(cols * rows)
+  const cellTotal = new Uint32Array(cols * rows)
+
+  let opaque = 0
+  let plants = 0
+  let stressed = 0
+  let sumExg = 0
+  let sumVari = 0
+  let sumGli = 0
+  let sumHealth = 0
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4
+      // Transparent pixels are padding around a cropped zone, not part of the photo
+      if (data[i + 3] === 0) continue
+      const r = data[i]
+      const g = data[i + 1]
+      const b = data[i + 2]
+      const cell = Math.floor(y / cellSize) * cols + Math.floor(x / cellSize)
+      cellTotal[cell]++
+      opaque++
+      if (!isPlant(r, g, b)) continue
+
+      // Excess Green on chromatic coordinates; VARI and GLI on raw bands.
+      const sum = r + g + b || 1
+      const exg = (2 * g - r - b) / sum
+      const variDen = g + r - b
+      const vari = variDen === 0 ? 0 : Math.max(-1, Math.min(1, (g - r) / variDen))
+      const gliDen = 2 * g + r + b
+      const gli = gliDen === 0 ? 0 : (2 * g - r - b) / gliDen
+      const health = pixelHealth(gli, vari)
+
+      plants++
+      sumExg += exg
+      sumVari += vari
+      sumGli += gli
+      sumHealth += health
+      if (health < STRESS_THRESHOLD) stressed++
+      cellHealth[cell] += health
+      cellPlants[cell]++
+    }
+  }
+
+  const values: (number | null)[] = []
+  for (let c = 0; c < cols * rows; c++) {
+    values.push(
+      cellTotal[c] > 0 && cellPlants[c] / cellTotal[c] >= MIN_CELL_COVER
+        ? round(cellHealth[c] / cellPlants[c], 2)
+        : null,
+    )
+  }
+
+  const n = plants || 1
+  return {
+    exg: round(sumExg / n, 3),
+    vari: round(sumVari / n, 3),
+    gli: round(sumGli / n, 3),
+    healthIndex: round((sumHealth / n) * 100, 1),
+    canopyCover: round(plants / (opaque || 1), 3),
+    stressedFraction: round(stressed / n, 3),
+    heatmap: { cols, rows, values },
+  }
+}
+
+function clamp01(v: number): number {
+  return Math.min(1, Math.max(0, v))
+}
+
+function round(v: number, digits: number): number {
+  return Number(v.toFixed(digits))
+}
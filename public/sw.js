@@ -0,0 +1,129 @@
+// AgriScan service worker: keeps the app shell and model assets available without a
+// connection. Analysis requests are never cached; the page queues them while offline.
+const VERSION = "v4"
+const SHELL_CACHE = `agriscan-shell-${VERSION}`
+const ASSET_CACHE = `agriscan-assets-${VERSION}`
+
+const SHELL = [
+  "/",
+  "/history",
+  "/batch",
+  "/map",
+  "/plot",
+  "/compare",
+  "/calibrate",
+  "/farms",
+  "/manifest.webmanifest",
+  "/icon.svg",
+  "/agriculture-analysis-placeholder.png",
+  "/placeholder.jpg",
+]
+
+// Build output referenced by a page. Chunk names are hashed per build, so they are read from the
+// shell pages at install time instead of being listed here.
+const STATIC_ASSET = /\/_next\/static\/[^"'\s\\)]+/g
+
+function isStaticAsset(url) {
+  const { origin, pathname } = new URL(url, self.location.origin)
+  return origin === self.location.origin && pathname.startsWith("/_next/static/")
+}
+
+// Caches each shell page and every script, stylesheet and font its HTML loads.
+async function precacheShell() {
+  const cache = await caches.open(SHELL_CACHE)
+  const assets = new Set()
+  await Promise.all(
+    SHELL.map(async (url) => {
+      try {
+        const response = await fetch(url)
+        if (!response.ok) return
+        if (response.headers.get("content-type")?.includes("text/html")) {
+          for (const [asset] of (await response.clone().text()).matchAll(STATIC_ASSET)) assets.add(asset)
+        }
+        await cache.put(url, response)
+      } catch {
+        // One missing page should not stop the rest from being cached.
+      }
+    }),
+  )
+  await cacheAssets([...assets])
+}
+
+async function cacheAssets(urls) {
+  const cache = await caches.open(ASSET_CACHE)
+  await Promise.all(
+    urls.filter(isStaticAsset).map(async (url) => {
+      if (!(await cache.match(url))) await cache.add(url).catch(() => undefined)
+    }),
+  )
+}
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(precacheShell().then(() => self.skipWaiting()))
+})
+
+// The page that registered the worker loaded its chunks before there was anything to cache them;
+// it sends their URLs once the worker is ready.
+self.addEventListener("message", (event) => {
+  if (event.data?.type === "cache-assets" && Array.isArray(event.data.urls)) {
+    event.waitUntil(cacheAssets(event.data.urls))
+  }
+})
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(keys.filter((k) => k !== SHELL_CACHE && k !== ASSET_CACHE).map((k) => caches.delete(k))),
+      )
+      .then(() => self.clients.claim()),
+  )
+})
+
+// Build output and model files are content-addressed or versioned, so the cached copy wins.
+function isImmutableAsset(url) {
+  return url.pathname.startsWith("/_next/static/") || url.pathname.startsWith("/models/")
+}
+
+async function cacheFirst(request) {
+  const cached = await caches.match(request)
+  if (cached) return cached
+  const response = await fetch(request)
+  if (response.ok) {
+    const cache = await caches.open(ASSET_CACHE)
+    await cache.put(request, response.clone())
+  }
+  return response
+}
+
+// Pages: fresh when online, the cached shell when not. Query strings such as ?scan=<id>
+// are resolved on the client, so any cached copy of the path will do.
+async function networkFirst(request) {
+  try {
+    const response = await fetch(request)
+    if (response.ok) {
+      const cache = await caches.open(SHELL_CACHE)
+      await cache.put(new URL(request.url).pathname, response.clone())
+    }
+    return response
+  } catch (err) {
+    const cached = (await caches.match(request, { ignoreSearch: true })) ?? (await caches.match("/"))
+    if (cached) return cached
+    throw err
+  }
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event
+  const url = new URL(request.url)
+  if (request.method !== "GET" || url.origin !== self.location.origin || url.pathname.startsWith("/api/")) return
+
+  if (request.mode === "navigate") {
+    event.respondWith(networkFirst(request))
+  } else if (isImmutableAsset(url)) {
+    event.respondWith(cacheFirst(request))
+  } else {
+    event.respondWith(caches.match(request).then((cached) => cached ?? fetch(request)))
+  }
+})